@@ -1,13 +1,27 @@
 import { useEffect } from 'react';
 import { BrowserRouter, Link, useLocation, Navigate, Route, Routes } from 'react-router-dom';
-import { Layout, theme, Menu } from 'antd';
+import { Layout, theme, Menu, Button, Space, Typography } from 'antd';
+import { LogoutOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
 import { KnownDriversTable } from './components/KnownDriversTable';
 import { MessageQueueDashboard } from './components/MessageQueueDashboard';
+import { JobsDashboard } from './components/JobsDashboard';
+import { SheetSourcesPage } from './components/SheetSourcesPage';
+import { SheetIssuesPage } from './components/SheetIssuesPage';
 import { PickupsTable } from './components/PickupsTable';
+import { InboxPage } from './components/InboxPage';
+import { MessageSearchPage } from './components/MessageSearchPage';
+import { LoadsPage } from './components/LoadsPage';
+import { DeliveriesPage } from './components/DeliveriesPage';
+import { AutoRepliesPage } from './components/AutoRepliesPage';
+import { LoadReviewsPage } from './components/LoadReviewsPage';
 import { LoadInquiriesPage } from './components/LoadInquiriesPage';
 import { LoadInquiryDetailPage } from './components/LoadInquiryDetailPage';
 import { LanguageSwitcher } from './components/common/LanguageSwitcher';
+import { ProtectedRoute } from './components/common/ProtectedRoute';
+import { LoginPage } from './components/LoginPage';
+import { AuthProvider } from './context/AuthProvider';
+import { useAuth } from './hooks/useAuth';
 
 
 const { Header, Content } = Layout;
@@ -15,6 +29,7 @@ const { Header, Content } = Layout;
 function AppLayout() {
   const location = useLocation();
   const { t, i18n } = useTranslation();
+  const { user, logout } = useAuth();
   const {
     token: { colorBgContainer, borderRadiusLG },
   } = theme.useToken();
@@ -32,6 +47,22 @@ function AppLayout() {
       key: '/pickups',
       label: <Link to="/pickups">{t('nav.pickups')}</Link>,
     },
+    {
+      key: '/inbox',
+      label: <Link to="/inbox">{t('nav.inbox')}</Link>,
+    },
+    {
+      key: '/message-search',
+      label: <Link to="/message-search">{t('nav.message_search')}</Link>,
+    },
+    {
+      key: '/loads',
+      label: <Link to="/loads">{t('nav.loads')}</Link>,
+    },
+    {
+      key: '/load-reviews',
+      label: <Link to="/load-reviews">{t('nav.load_reviews')}</Link>,
+    },
     {
       key: '/load-inquiries',
       label: <Link to="/load-inquiries">Load IDS</Link>,
@@ -40,6 +71,30 @@ function AppLayout() {
       key: '/queue-dashboard',
       label: <Link to="/queue-dashboard">{t('nav.dashboard')}</Link>,
     },
+    {
+      key: '/auto-replies',
+      label: <Link to="/auto-replies">{t('nav.auto_replies')}</Link>,
+    },
+    {
+      key: '/deliveries',
+      label: <Link to="/deliveries">{t('nav.deliveries')}</Link>,
+    },
+    {
+      key: '/sheet-issues',
+      label: <Link to="/sheet-issues">{t('nav.sheet_issues')}</Link>,
+    },
+    {
+      key: '/jobs',
+      label: <Link to="/jobs">{t('nav.jobs')}</Link>,
+    },
+    ...(user?.role === 'ADMIN'
+      ? [
+          {
+            key: '/sheet-sources',
+            label: <Link to="/sheet-sources">{t('nav.sheet_sources')}</Link>,
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -54,6 +109,12 @@ function AppLayout() {
           style={{ flex: 1, minWidth: 0 }}
         />
         <LanguageSwitcher />
+        <Space style={{ marginLeft: 16 }}>
+          <Typography.Text style={{ color: 'rgba(255, 255, 255, 0.85)' }}>{user?.email}</Typography.Text>
+          <Button icon={<LogoutOutlined />} onClick={logout}>
+            {t('nav.logout')}
+          </Button>
+        </Space>
       </Header>
       <Content style={{ padding: '0 48px', marginTop: '24px' }}>
         <div
@@ -68,9 +129,18 @@ function AppLayout() {
             <Route path="/" element={<Navigate to="/known-drivers" replace />} />
             <Route path="/known-drivers" element={<KnownDriversTable />} />
             <Route path="/pickups" element={<PickupsTable />} />
+            <Route path="/inbox" element={<InboxPage />} />
+            <Route path="/message-search" element={<MessageSearchPage />} />
+            <Route path="/loads" element={<LoadsPage />} />
+            <Route path="/load-reviews" element={<LoadReviewsPage />} />
             <Route path="/load-inquiries" element={<LoadInquiriesPage />} />
             <Route path="/load-inquiries/:loadId" element={<LoadInquiryDetailPage />} />
             <Route path="/queue-dashboard" element={<MessageQueueDashboard />} />
+            <Route path="/auto-replies" element={<AutoRepliesPage />} />
+            <Route path="/deliveries" element={<DeliveriesPage />} />
+            <Route path="/sheet-issues" element={<SheetIssuesPage />} />
+            <Route path="/jobs" element={<JobsDashboard />} />
+            {user?.role === 'ADMIN' && <Route path="/sheet-sources" element={<SheetSourcesPage />} />}
 
             {/* Redirect old route to new one */}
             <Route path="/bulk-messages" element={<Navigate to="/queue-dashboard" replace />} />
@@ -83,9 +153,21 @@ function AppLayout() {
 
 function App() {
   return (
-    <BrowserRouter>
-      <AppLayout />
-    </BrowserRouter>
+    <AuthProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route path="/login" element={<LoginPage />} />
+          <Route
+            path="/*"
+            element={
+              <ProtectedRoute>
+                <AppLayout />
+              </ProtectedRoute>
+            }
+          />
+        </Routes>
+      </BrowserRouter>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,533 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Button,
+    Card,
+    Empty,
+    Form,
+    Input,
+    InputNumber,
+    Modal,
+    Popconfirm,
+    Select,
+    Space,
+    Switch,
+    Table,
+    Tabs,
+    Tag,
+    Tooltip,
+    Typography,
+    message,
+} from 'antd';
+import type { TableProps } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+import { useAuth } from '../hooks/useAuth';
+
+type LoadCondition = 'any' | 'none' | 'mentioned' | 'exists' | 'missing';
+type LogStatus = 'sending' | 'sent' | 'failed';
+
+interface AutoReplyRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    priority: number;
+    keywords: string[];
+    loadCondition: LoadCondition;
+    loadStatuses: string[];
+    template: string;
+    cooldownMinutes: number;
+    createdAt: string;
+    createdBy: { id: string; name: string | null; email: string } | null;
+}
+
+type RuleFormValues = Omit<AutoReplyRule, 'id' | 'createdAt' | 'createdBy'>;
+
+interface AutoReplyLog {
+    id: string;
+    phoneNumber: string;
+    conversationId: string;
+    loadId: string | null;
+    content: string;
+    status: LogStatus;
+    error: string | null;
+    createdAt: string;
+    rule: { id: string; name: string } | null;
+}
+
+const LOAD_CONDITIONS: LoadCondition[] = ['any', 'none', 'mentioned', 'exists', 'missing'];
+
+const LOAD_STATUSES = [
+    'unknown',
+    'posted',
+    'dispatched',
+    'picked_up',
+    'in_transit',
+    'delivered',
+    'cancelled',
+];
+
+const TEMPLATE_PLACEHOLDERS = [
+    'name',
+    'companyName',
+    'loadId',
+    'loadStatus',
+    'pickupLocation',
+    'deliveryLocation',
+];
+
+const LOG_STATUS_COLORS: Record<LogStatus, string> = {
+    sending: 'processing',
+    sent: 'success',
+    failed: 'error',
+};
+
+const PAGE_SIZE = 20;
+
+const DEFAULT_RULE: RuleFormValues = {
+    name: '',
+    enabled: true,
+    priority: 0,
+    keywords: [],
+    loadCondition: 'any',
+    loadStatuses: [],
+    template: '',
+    cooldownMinutes: 60,
+};
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+export const AutoRepliesPage = () => {
+    const { t } = useTranslation();
+    const { user } = useAuth();
+    const isAdmin = user?.role === 'ADMIN';
+    const [form] = Form.useForm<RuleFormValues>();
+
+    const [rules, setRules] = useState<AutoReplyRule[]>([]);
+    const [rulesLoading, setRulesLoading] = useState(false);
+    const [editing, setEditing] = useState<AutoReplyRule | null>(null);
+    const [modalOpen, setModalOpen] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    const [logs, setLogs] = useState<AutoReplyLog[]>([]);
+    const [logTotal, setLogTotal] = useState(0);
+    const [logPage, setLogPage] = useState(1);
+    const [logStatus, setLogStatus] = useState<LogStatus | undefined>();
+    const [logsLoading, setLogsLoading] = useState(false);
+
+    const fetchRules = useCallback(async () => {
+        setRulesLoading(true);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/auto-replies/rules`);
+            const data = await response.json();
+            if (data.success) {
+                setRules(data.data);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching auto-reply rules:', error);
+            message.error(t('common.error'));
+        } finally {
+            setRulesLoading(false);
+        }
+    }, [t]);
+
+    const fetchLogs = useCallback(async () => {
+        setLogsLoading(true);
+        try {
+            const params = new URLSearchParams({
+                page: String(logPage),
+                limit: String(PAGE_SIZE),
+            });
+            if (logStatus) params.set('status', logStatus);
+
+            const response = await apiFetch(`${API_BASE_URL}/auto-replies/logs?${params}`);
+            const data = await response.json();
+            if (data.success) {
+                setLogs(data.data.items);
+                setLogTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching auto-reply log:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLogsLoading(false);
+        }
+    }, [logPage, logStatus, t]);
+
+    useEffect(() => {
+        fetchRules();
+    }, [fetchRules]);
+
+    useEffect(() => {
+        fetchLogs();
+    }, [fetchLogs]);
+
+    const send = async (path: string, method: string, body?: unknown) => {
+        const response = await apiFetch(`${API_BASE_URL}/auto-replies/rules${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body ?? {}),
+        });
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+            throw new Error(data.error?.message || data.message || t('common.error'));
+        }
+
+        return data.data;
+    };
+
+    const openModal = (rule: AutoReplyRule | null) => {
+        setEditing(rule);
+        setModalOpen(true);
+    };
+
+    const saveRule = async (values: RuleFormValues) => {
+        setSaving(true);
+        try {
+            await send(editing ? `/${editing.id}` : '', editing ? 'PATCH' : 'POST', values);
+            message.success(t('auto_replies.saved'));
+            setModalOpen(false);
+            fetchRules();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleRule = async (rule: AutoReplyRule, enabled: boolean) => {
+        try {
+            await send(`/${rule.id}`, 'PATCH', { enabled });
+            fetchRules();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        }
+    };
+
+    const deleteRule = async (rule: AutoReplyRule) => {
+        try {
+            await send(`/${rule.id}`, 'DELETE');
+            message.success(t('auto_replies.deleted'));
+            fetchRules();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        }
+    };
+
+    const ruleColumns: TableProps<AutoReplyRule>['columns'] = [
+        {
+            title: t('auto_replies.priority'),
+            dataIndex: 'priority',
+            key: 'priority',
+            width: 90,
+        },
+        {
+            title: t('campaigns.name'),
+            dataIndex: 'name',
+            key: 'name',
+            render: (name: string) => <Typography.Text strong>{name}</Typography.Text>,
+        },
+        {
+            title: t('auto_replies.conditions'),
+            key: 'conditions',
+            render: (_: unknown, record: AutoReplyRule) => (
+                <Space size={4} wrap>
+                    {record.keywords.map((keyword) => (
+                        <Tag key={keyword}>{keyword}</Tag>
+                    ))}
+                    {record.loadCondition !== 'any' && (
+                        <Tag color="blue">{t(`auto_replies.load_${record.loadCondition}`)}</Tag>
+                    )}
+                    {record.loadStatuses.map((status) => (
+                        <Tag key={status} color="purple">
+                            {t(`loads.status_${status}`, { defaultValue: status })}
+                        </Tag>
+                    ))}
+                    {record.keywords.length === 0 &&
+                        record.loadCondition === 'any' &&
+                        record.loadStatuses.length === 0 && (
+                            <Typography.Text type="secondary">
+                                {t('auto_replies.any_text')}
+                            </Typography.Text>
+                        )}
+                </Space>
+            ),
+        },
+        {
+            title: t('auto_replies.reply'),
+            dataIndex: 'template',
+            key: 'template',
+            ellipsis: true,
+        },
+        {
+            title: t('auto_replies.cooldown'),
+            dataIndex: 'cooldownMinutes',
+            key: 'cooldownMinutes',
+            render: (minutes: number) => t('auto_replies.minutes', { count: minutes }),
+        },
+        {
+            title: t('auto_replies.enabled'),
+            key: 'enabled',
+            render: (_: unknown, record: AutoReplyRule) => (
+                <Switch
+                    size="small"
+                    checked={record.enabled}
+                    disabled={!isAdmin}
+                    onChange={(enabled) => toggleRule(record, enabled)}
+                />
+            ),
+        },
+        ...(isAdmin
+            ? [
+                  {
+                      key: 'actions',
+                      render: (_: unknown, record: AutoReplyRule) => (
+                          <Space>
+                              <Button
+                                  size="small"
+                                  icon={<EditOutlined />}
+                                  onClick={() => openModal(record)}
+                              />
+                              <Popconfirm
+                                  title={t('auto_replies.delete_confirm')}
+                                  onConfirm={() => deleteRule(record)}
+                                  okText={t('common.yes')}
+                                  cancelText={t('common.no')}
+                              >
+                                  <Button size="small" danger icon={<DeleteOutlined />} />
+                              </Popconfirm>
+                          </Space>
+                      ),
+                  },
+              ]
+            : []),
+    ];
+
+    const logColumns: TableProps<AutoReplyLog>['columns'] = [
+        {
+            title: t('auto_replies.sent_at'),
+            dataIndex: 'createdAt',
+            key: 'createdAt',
+            render: (date: string) => formatDate(date),
+        },
+        {
+            title: t('auto_replies.rule'),
+            key: 'rule',
+            render: (_: unknown, record: AutoReplyLog) =>
+                record.rule?.name ?? (
+                    <Typography.Text type="secondary">{t('auto_replies.rule_deleted')}</Typography.Text>
+                ),
+        },
+        {
+            title: t('deliveries.recipient'),
+            dataIndex: 'phoneNumber',
+            key: 'phoneNumber',
+        },
+        {
+            title: t('inquiries.load_id'),
+            dataIndex: 'loadId',
+            key: 'loadId',
+            render: (loadId: string | null) => loadId ?? '-',
+        },
+        {
+            title: t('auto_replies.reply'),
+            dataIndex: 'content',
+            key: 'content',
+            ellipsis: true,
+        },
+        {
+            title: t('common.status'),
+            key: 'status',
+            render: (_: unknown, record: AutoReplyLog) => (
+                <Tooltip title={record.error}>
+                    <Tag color={LOG_STATUS_COLORS[record.status]}>
+                        {t(`auto_replies.status_${record.status}`)}
+                    </Tag>
+                </Tooltip>
+            ),
+        },
+    ];
+
+    return (
+        <Card
+            title={t('auto_replies.title')}
+            extra={
+                <Space>
+                    {isAdmin && (
+                        <Button type="primary" icon={<PlusOutlined />} onClick={() => openModal(null)}>
+                            {t('auto_replies.add_rule')}
+                        </Button>
+                    )}
+                    <Button
+                        icon={<ReloadOutlined />}
+                        onClick={() => {
+                            fetchRules();
+                            fetchLogs();
+                        }}
+                        loading={rulesLoading || logsLoading}
+                    >
+                        {t('common.refresh')}
+                    </Button>
+                </Space>
+            }
+        >
+            <Tabs
+                items={[
+                    {
+                        key: 'rules',
+                        label: t('auto_replies.rules'),
+                        children: (
+                            <Table
+                                dataSource={rules}
+                                columns={ruleColumns}
+                                rowKey="id"
+                                loading={rulesLoading}
+                                pagination={false}
+                                locale={{
+                                    emptyText: <Empty description={t('auto_replies.no_rules')} />,
+                                }}
+                            />
+                        ),
+                    },
+                    {
+                        key: 'log',
+                        label: t('auto_replies.log'),
+                        children: (
+                            <>
+                                <Select
+                                    allowClear
+                                    style={{ width: 160, marginBottom: 16 }}
+                                    placeholder={t('common.status')}
+                                    value={logStatus}
+                                    onChange={(value?: LogStatus) => {
+                                        setLogStatus(value);
+                                        setLogPage(1);
+                                    }}
+                                    options={(['sent', 'failed', 'sending'] as const).map(
+                                        (value) => ({
+                                            value,
+                                            label: t(`auto_replies.status_${value}`),
+                                        })
+                                    )}
+                                />
+                                <Table
+                                    dataSource={logs}
+                                    columns={logColumns}
+                                    rowKey="id"
+                                    loading={logsLoading}
+                                    pagination={{
+                                        current: logPage,
+                                        pageSize: PAGE_SIZE,
+                                        total: logTotal,
+                                        showSizeChanger: false,
+                                        onChange: setLogPage,
+                                    }}
+                                    locale={{
+                                        emptyText: <Empty description={t('auto_replies.no_log')} />,
+                                    }}
+                                />
+                            </>
+                        ),
+                    },
+                ]}
+            />
+
+            <Modal
+                title={t(editing ? 'auto_replies.edit_rule' : 'auto_replies.add_rule')}
+                open={modalOpen}
+                onCancel={() => setModalOpen(false)}
+                onOk={() => form.submit()}
+                okText={t('auto_replies.save')}
+                confirmLoading={saving}
+                width={640}
+                destroyOnHidden
+            >
+                <Form
+                    key={editing?.id ?? 'new'}
+                    form={form}
+                    layout="vertical"
+                    onFinish={saveRule}
+                    initialValues={editing ?? DEFAULT_RULE}
+                >
+                    <Form.Item
+                        name="name"
+                        label={t('campaigns.name')}
+                        rules={[{ required: true, whitespace: true }]}
+                    >
+                        <Input maxLength={191} />
+                    </Form.Item>
+                    <Form.Item
+                        name="keywords"
+                        label={t('auto_replies.keywords')}
+                        extra={t('auto_replies.keywords_help')}
+                    >
+                        <Select mode="tags" tokenSeparators={[',']} open={false} />
+                    </Form.Item>
+                    <Space size="large" style={{ display: 'flex' }}>
+                        <Form.Item name="loadCondition" label={t('auto_replies.load_condition')}>
+                            <Select
+                                style={{ width: 260 }}
+                                options={LOAD_CONDITIONS.map((value) => ({
+                                    value,
+                                    label: t(`auto_replies.load_${value}`),
+                                }))}
+                            />
+                        </Form.Item>
+                        <Form.Item name="loadStatuses" label={t('auto_replies.load_statuses')}>
+                            <Select
+                                mode="multiple"
+                                allowClear
+                                style={{ width: 260 }}
+                                placeholder={t('auto_replies.any_status')}
+                                options={LOAD_STATUSES.map((value) => ({
+                                    value,
+                                    label: t(`loads.status_${value}`, { defaultValue: value }),
+                                }))}
+                            />
+                        </Form.Item>
+                    </Space>
+                    <Form.Item
+                        name="template"
+                        label={t('auto_replies.reply')}
+                        extra={
+                            <Space size={4} wrap>
+                                {t('auto_replies.template_help')}
+                                {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+                                    <Typography.Text key={placeholder} code>
+                                        {`{{${placeholder}}}`}
+                                    </Typography.Text>
+                                ))}
+                            </Space>
+                        }
+                        rules={[{ required: true, whitespace: true }]}
+                    >
+                        <Input.TextArea autoSize={{ minRows: 3, maxRows: 8 }} maxLength={1600} />
+                    </Form.Item>
+                    <Space size="large">
+                        <Form.Item name="priority" label={t('auto_replies.priority')}>
+                            <InputNumber min={0} max={1000} />
+                        </Form.Item>
+                        <Form.Item name="cooldownMinutes" label={t('auto_replies.cooldown_minutes')}>
+                            <InputNumber min={0} max={10080} />
+                        </Form.Item>
+                        <Form.Item
+                            name="enabled"
+                            label={t('auto_replies.enabled')}
+                            valuePropName="checked"
+                        >
+                            <Switch />
+                        </Form.Item>
+                    </Space>
+                </Form>
+            </Modal>
+        </Card>
+    );
+};
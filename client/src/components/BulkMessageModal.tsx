@@ -1,10 +1,19 @@
 import { useState, useEffect } from 'react';
-import { Modal, Form, Input, Button, message, Alert } from 'antd';
+import { Modal, Form, Input, Button, message, Alert, Tag, List, Typography, Select } from 'antd';
 import { useTranslation } from 'react-i18next';
 import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
 
 const { TextArea } = Input;
 
+const PLACEHOLDERS = ['name', 'companyName', 'location', 'loadId'];
+
+interface SenderLine {
+    id: string;
+    name?: string;
+    number?: string;
+}
+
 interface BulkMessageModalProps {
     open: boolean;
     onCancel: () => void;
@@ -18,6 +27,9 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
     const [form] = Form.useForm();
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [preview, setPreview] = useState<Array<{ phoneNumber: string; content: string }>>([]);
+    const [previewing, setPreviewing] = useState(false);
+    const [lines, setLines] = useState<SenderLine[]>([]);
 
     useEffect(() => {
         if (open && defaultContent) {
@@ -25,13 +37,26 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
         }
     }, [open, defaultContent, form]);
 
+    useEffect(() => {
+        if (!open) return;
+
+        apiFetch(`${API_BASE_URL}/phone-numbers`)
+            .then((response) => response.json())
+            .then((data) => {
+                if (data.success) {
+                    setLines(data.data?.data || []);
+                }
+            })
+            .catch((err) => console.error('Error fetching phone numbers:', err));
+    }, [open]);
+
     const handleOk = async () => {
         try {
             const values = await form.validateFields();
             setLoading(true);
             setError(null);
 
-            const response = await fetch(`${API_BASE_URL}/messages/queue`, {
+            const response = await apiFetch(`${API_BASE_URL}/messages/queue`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -39,6 +64,8 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
                 body: JSON.stringify({
                     phoneNumbers: selectedNumbers,
                     content: values.content,
+                    name: values.name || undefined,
+                    phoneNumberId: values.phoneNumberId || undefined,
                 }),
             });
 
@@ -50,6 +77,7 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
 
             message.success(t('common.success')); // Simplified
             form.resetFields();
+            setPreview([]);
             onSuccess();
         } catch (err: any) {
             console.error('Queue error:', err);
@@ -59,6 +87,43 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
         }
     };
 
+    const insertPlaceholder = (placeholder: string) => {
+        const content = form.getFieldValue('content') || '';
+        form.setFieldsValue({ content: `${content}{{${placeholder}}}` });
+    };
+
+    const handlePreview = async () => {
+        const content = form.getFieldValue('content');
+        if (!content) return;
+
+        setPreviewing(true);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/campaigns/preview`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    template: content,
+                    phoneNumbers: selectedNumbers.slice(0, 5),
+                }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error?.message || 'Failed to render preview');
+            }
+
+            setPreview(data.data);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('common.error'));
+        } finally {
+            setPreviewing(false);
+        }
+    };
+
     return (
         <Modal
             title={t('bulk_message.title')}
@@ -68,6 +133,14 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
                 <Button key="cancel" onClick={onCancel}>
                     {t('common.cancel')}
                 </Button>,
+                <Button
+                    key="preview"
+                    loading={previewing}
+                    onClick={handlePreview}
+                    disabled={selectedNumbers.length === 0}
+                >
+                    {t('bulk_message.preview')}
+                </Button>,
                 <Button
                     key="submit"
                     type="primary"
@@ -98,10 +171,44 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
             )}
 
             <Form form={form} layout="vertical">
+                <Form.Item
+                    name="name"
+                    label={t('bulk_message.name_label')}
+                >
+                    <Input placeholder={t('bulk_message.name_placeholder')} maxLength={191} />
+                </Form.Item>
+                <Form.Item
+                    name="phoneNumberId"
+                    label={t('bulk_message.line_label')}
+                    extra={t('bulk_message.line_hint')}
+                >
+                    <Select
+                        allowClear
+                        placeholder={t('bulk_message.line_auto')}
+                        options={lines.map((line) => ({
+                            value: line.id,
+                            label: line.name ? `${line.name} (${line.number})` : line.number || line.id,
+                        }))}
+                    />
+                </Form.Item>
                 <Form.Item
                     name="content"
                     label={t('bulk_message.content_label')}
                     rules={[{ required: true, message: t('bulk_message.content_required') }]}
+                    extra={
+                        <div style={{ marginTop: 4 }}>
+                            <div style={{ marginBottom: 4 }}>{t('bulk_message.placeholders_hint')}</div>
+                            {PLACEHOLDERS.map((placeholder) => (
+                                <Tag
+                                    key={placeholder}
+                                    style={{ cursor: 'pointer', fontFamily: 'monospace' }}
+                                    onClick={() => insertPlaceholder(placeholder)}
+                                >
+                                    {`{{${placeholder}}}`}
+                                </Tag>
+                            ))}
+                        </div>
+                    }
                 >
                     <TextArea
                         rows={4}
@@ -111,6 +218,23 @@ export const BulkMessageModal = ({ open, onCancel, selectedNumbers, onSuccess, d
                     />
                 </Form.Item>
             </Form>
+
+            {preview.length > 0 && (
+                <List
+                    size="small"
+                    bordered
+                    header={<strong>{t('bulk_message.preview')}</strong>}
+                    dataSource={preview}
+                    renderItem={(item) => (
+                        <List.Item>
+                            <div>
+                                <Typography.Text type="secondary">{item.phoneNumber}</Typography.Text>
+                                <div style={{ whiteSpace: 'pre-wrap' }}>{item.content}</div>
+                            </div>
+                        </List.Item>
+                    )}
+                />
+            )}
         </Modal>
     );
 };
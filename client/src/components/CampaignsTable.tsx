@@ -0,0 +1,443 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, Table, Tag, Button, Progress, Space, Popconfirm, Drawer, Descriptions, message, Typography } from 'antd';
+import { ReloadOutlined, PlayCircleOutlined, PauseCircleOutlined, StopOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+import { useAuth } from '../hooks/useAuth';
+
+type CampaignStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'cancelled' | 'completed';
+
+interface DeliveryRates {
+    delivered: number;
+    undelivered: number;
+    failed: number;
+    pending: number;
+    total: number;
+    deliveredRate: number | null;
+    undeliveredRate: number | null;
+    failedRate: number | null;
+}
+
+interface CampaignStats {
+    total: number;
+    pending: number;
+    sent: number;
+    failed: number;
+    dead: number;
+    cancelled: number;
+    delivery: DeliveryRates;
+}
+
+interface Campaign {
+    id: string;
+    name: string;
+    template: string;
+    status: CampaignStatus;
+    phoneNumberId: string | null;
+    createdBy: { id: string; name: string; email: string } | null;
+    scheduledAt: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    createdAt: string;
+    stats: CampaignStats;
+}
+
+interface CampaignMessage {
+    id: string;
+    phoneNumber: string;
+    content: string;
+    status: string;
+    attempts: number;
+    error: string | null;
+    sentAt: string | null;
+    deliveryStatus: string | null;
+}
+
+const STATUS_COLORS: Record<CampaignStatus, string> = {
+    draft: 'default',
+    scheduled: 'purple',
+    running: 'processing',
+    paused: 'warning',
+    cancelled: 'default',
+    completed: 'success',
+};
+
+const MESSAGE_STATUS_COLORS: Record<string, string> = {
+    pending: 'processing',
+    sent: 'success',
+    failed: 'error',
+    dead: 'volcano',
+    cancelled: 'default',
+};
+
+const DELIVERY_STATUS_COLORS: Record<string, string> = {
+    delivered: 'success',
+    undelivered: 'warning',
+    failed: 'error',
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '-' : `${Math.round(rate * 100)}%`);
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+interface CampaignsTableProps {
+    /** Called after a campaign action so the surrounding queue stats can refresh */
+    onChange?: () => void;
+}
+
+export const CampaignsTable = ({ onChange }: CampaignsTableProps) => {
+    const { t } = useTranslation();
+    const { user } = useAuth();
+    const isAdmin = user?.role === 'ADMIN';
+
+    const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [selected, setSelected] = useState<Campaign | null>(null);
+    const [messages, setMessages] = useState<CampaignMessage[]>([]);
+    const [messagesLoading, setMessagesLoading] = useState(false);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+    const fetchCampaigns = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/campaigns?limit=50`);
+            const data = await response.json();
+            if (data.success) {
+                setCampaigns(data.data.items);
+            } else {
+                message.error(t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching campaigns:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    }, [t]);
+
+    const fetchMessages = async (campaignId: string) => {
+        setMessagesLoading(true);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/campaigns/${campaignId}/messages?limit=100`);
+            const data = await response.json();
+            if (data.success) {
+                setMessages(data.data.items);
+            }
+        } catch (error) {
+            console.error('Error fetching campaign messages:', error);
+            message.error(t('common.error'));
+        } finally {
+            setMessagesLoading(false);
+        }
+    };
+
+    const openCampaign = (campaign: Campaign) => {
+        setSelected(campaign);
+        setMessages([]);
+        fetchMessages(campaign.id);
+    };
+
+    const runAction = async (campaign: Campaign, action: 'start' | 'pause' | 'cancel') => {
+        setActionLoading(`${campaign.id}:${action}`);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/campaigns/${campaign.id}/${action}`, {
+                method: 'POST',
+            });
+            const data = await response.json();
+            if (!response.ok || !data.success) {
+                throw new Error(data.error?.message || data.message || t('common.error'));
+            }
+
+            message.success(t('campaigns.action_success'));
+            setCampaigns((prev) => prev.map((c) => (c.id === campaign.id ? data.data : c)));
+            if (selected?.id === campaign.id) {
+                setSelected(data.data);
+                fetchMessages(campaign.id);
+            }
+            onChange?.();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    useEffect(() => {
+        fetchCampaigns();
+    }, [fetchCampaigns]);
+
+    const renderActions = (campaign: Campaign) => {
+        if (!isAdmin) return null;
+
+        const canStart = campaign.status === 'draft' || campaign.status === 'paused';
+        const canPause = campaign.status === 'running' || campaign.status === 'scheduled';
+        const canCancel = campaign.status !== 'completed' && campaign.status !== 'cancelled';
+
+        return (
+            <Space onClick={(e) => e.stopPropagation()}>
+                {canStart && (
+                    <Button
+                        size="small"
+                        icon={<PlayCircleOutlined />}
+                        loading={actionLoading === `${campaign.id}:start`}
+                        onClick={() => runAction(campaign, 'start')}
+                    >
+                        {campaign.status === 'paused' ? t('campaigns.resume') : t('campaigns.start')}
+                    </Button>
+                )}
+                {canPause && (
+                    <Button
+                        size="small"
+                        icon={<PauseCircleOutlined />}
+                        loading={actionLoading === `${campaign.id}:pause`}
+                        onClick={() => runAction(campaign, 'pause')}
+                    >
+                        {t('campaigns.pause')}
+                    </Button>
+                )}
+                {canCancel && (
+                    <Popconfirm
+                        title={t('campaigns.cancel_confirm')}
+                        onConfirm={() => runAction(campaign, 'cancel')}
+                        okText={t('common.yes')}
+                        cancelText={t('common.no')}
+                    >
+                        <Button
+                            size="small"
+                            danger
+                            icon={<StopOutlined />}
+                            loading={actionLoading === `${campaign.id}:cancel`}
+                        >
+                            {t('campaigns.cancel')}
+                        </Button>
+                    </Popconfirm>
+                )}
+            </Space>
+        );
+    };
+
+    const renderProgress = (stats: CampaignStats) => {
+        const done = stats.sent + stats.failed + stats.dead + stats.cancelled;
+        const percent = stats.total > 0 ? Math.round((done / stats.total) * 100) : 0;
+        return (
+            <Progress
+                percent={percent}
+                size="small"
+                status={stats.failed + stats.dead > 0 ? 'exception' : undefined}
+            />
+        );
+    };
+
+    const columns = [
+        {
+            title: t('campaigns.name'),
+            dataIndex: 'name',
+            key: 'name',
+        },
+        {
+            title: t('campaigns.status'),
+            dataIndex: 'status',
+            key: 'status',
+            render: (status: CampaignStatus) => (
+                <Tag color={STATUS_COLORS[status]}>{t(`campaigns.status_${status}`)}</Tag>
+            ),
+        },
+        {
+            title: t('campaigns.created_by'),
+            key: 'createdBy',
+            render: (_: unknown, record: Campaign) => record.createdBy?.name || '-',
+        },
+        {
+            title: t('campaigns.progress'),
+            key: 'progress',
+            width: 180,
+            render: (_: unknown, record: Campaign) => renderProgress(record.stats),
+        },
+        {
+            title: t('campaigns.sent'),
+            key: 'sent',
+            render: (_: unknown, record: Campaign) => `${record.stats.sent} / ${record.stats.total}`,
+        },
+        {
+            title: t('campaigns.failed'),
+            key: 'failed',
+            render: (_: unknown, record: Campaign) => record.stats.failed + record.stats.dead,
+        },
+        {
+            title: t('campaigns.delivered'),
+            key: 'delivered',
+            render: (_: unknown, record: Campaign) => formatRate(record.stats.delivery.deliveredRate),
+        },
+        {
+            title: t('common.created_at'),
+            dataIndex: 'createdAt',
+            key: 'createdAt',
+            render: formatDate,
+        },
+        ...(isAdmin
+            ? [
+                {
+                    title: t('common.actions'),
+                    key: 'actions',
+                    render: (_: unknown, record: Campaign) => renderActions(record),
+                },
+            ]
+            : []),
+    ];
+
+    const messageColumns = [
+        {
+            title: t('queue.phone_number'),
+            dataIndex: 'phoneNumber',
+            key: 'phoneNumber',
+        },
+        {
+            title: t('common.status'),
+            dataIndex: 'status',
+            key: 'status',
+            render: (status: string) => (
+                <Tag color={MESSAGE_STATUS_COLORS[status] || 'default'}>{status.toUpperCase()}</Tag>
+            ),
+        },
+        {
+            title: t('campaigns.delivery'),
+            dataIndex: 'deliveryStatus',
+            key: 'deliveryStatus',
+            render: (status: string | null) =>
+                status ? (
+                    <Tag color={DELIVERY_STATUS_COLORS[status] || 'default'}>
+                        {t(`campaigns.delivery_${status}`, { defaultValue: status })}
+                    </Tag>
+                ) : (
+                    '-'
+                ),
+        },
+        {
+            title: t('queue.attempts'),
+            dataIndex: 'attempts',
+            key: 'attempts',
+        },
+        {
+            title: t('queue.error'),
+            dataIndex: 'error',
+            key: 'error',
+            render: (error: string | null) => error || '-',
+        },
+        {
+            title: t('queue.sent_at'),
+            dataIndex: 'sentAt',
+            key: 'sentAt',
+            render: formatDate,
+        },
+    ];
+
+    return (
+        <Card
+            title={t('campaigns.title')}
+            style={{ marginBottom: 24 }}
+            extra={
+                <Button icon={<ReloadOutlined />} onClick={fetchCampaigns} loading={loading}>
+                    {t('common.refresh')}
+                </Button>
+            }
+        >
+            <Table
+                dataSource={campaigns}
+                columns={columns}
+                rowKey="id"
+                loading={loading}
+                pagination={{ pageSize: 10 }}
+                onRow={(record) => ({
+                    onClick: () => openCampaign(record),
+                    style: { cursor: 'pointer' },
+                })}
+            />
+
+            <Drawer
+                title={selected?.name}
+                open={!!selected}
+                onClose={() => setSelected(null)}
+                width={800}
+                extra={selected && renderActions(selected)}
+            >
+                {selected && (
+                    <>
+                        <Descriptions column={2} size="small" bordered style={{ marginBottom: 16 }}>
+                            <Descriptions.Item label={t('campaigns.status')}>
+                                <Tag color={STATUS_COLORS[selected.status]}>
+                                    {t(`campaigns.status_${selected.status}`)}
+                                </Tag>
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.created_by')}>
+                                {selected.createdBy?.name || '-'}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('queue.line')}>
+                                {selected.phoneNumberId || t('bulk_message.line_auto')}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.scheduled_at')}>
+                                {formatDate(selected.scheduledAt)}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.started_at')}>
+                                {formatDate(selected.startedAt)}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.completed_at')}>
+                                {formatDate(selected.completedAt)}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.progress')}>
+                                {renderProgress(selected.stats)}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.pending')}>
+                                {selected.stats.pending}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.sent')}>
+                                {selected.stats.sent}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.failed')}>
+                                {selected.stats.failed}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.cancelled')}>
+                                {selected.stats.cancelled}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.delivered')}>
+                                {selected.stats.delivery.delivered} (
+                                {formatRate(selected.stats.delivery.deliveredRate)})
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.undelivered')}>
+                                {selected.stats.delivery.undelivered} (
+                                {formatRate(selected.stats.delivery.undeliveredRate)})
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.delivery_failed')}>
+                                {selected.stats.delivery.failed} (
+                                {formatRate(selected.stats.delivery.failedRate)})
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.awaiting_delivery')}>
+                                {selected.stats.delivery.pending}
+                            </Descriptions.Item>
+                            <Descriptions.Item label={t('campaigns.template')} span={2}>
+                                <Typography.Text style={{ whiteSpace: 'pre-wrap' }}>
+                                    {selected.template}
+                                </Typography.Text>
+                            </Descriptions.Item>
+                        </Descriptions>
+
+                        <Typography.Title level={5}>{t('campaigns.messages')}</Typography.Title>
+                        <Table
+                            dataSource={messages}
+                            columns={messageColumns}
+                            rowKey="id"
+                            size="small"
+                            loading={messagesLoading}
+                            pagination={{ pageSize: 20 }}
+                            expandable={{
+                                expandedRowRender: (record) => (
+                                    <div style={{ whiteSpace: 'pre-wrap' }}>{record.content}</div>
+                                ),
+                            }}
+                        />
+                    </>
+                )}
+            </Drawer>
+        </Card>
+    );
+};
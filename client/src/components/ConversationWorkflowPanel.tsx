@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Button,
+    Card,
+    Form,
+    Input,
+    List,
+    Popconfirm,
+    Select,
+    Space,
+    Typography,
+    message,
+} from 'antd';
+import { DeleteOutlined, UserAddOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+import { useAuth } from '../hooks/useAuth';
+
+export type ConversationStatus = 'open' | 'waiting' | 'closed';
+
+export interface InboxUser {
+    id: string;
+    name: string | null;
+    email: string;
+}
+
+export interface ConversationWorkflow {
+    status: ConversationStatus;
+    statusChangedAt: string | null;
+    assignee: InboxUser | null;
+    tags: string[];
+}
+
+interface ConversationNote {
+    id: string;
+    authorId: string | null;
+    body: string;
+    createdAt: string;
+    author: InboxUser | null;
+}
+
+interface ConversationWorkflowPanelProps {
+    conversationId: string;
+    workflow: ConversationWorkflow;
+    assignees: InboxUser[];
+    tagOptions: string[];
+    onChange: (workflow: ConversationWorkflow) => void;
+}
+
+const CONVERSATION_STATUSES: ConversationStatus[] = ['open', 'waiting', 'closed'];
+
+const userLabel = (user: InboxUser) => user.name || user.email;
+
+/**
+ * Assignee, status, tags and internal notes of a conversation
+ */
+export const ConversationWorkflowPanel = ({
+    conversationId,
+    workflow,
+    assignees,
+    tagOptions,
+    onChange,
+}: ConversationWorkflowPanelProps) => {
+    const { t } = useTranslation();
+    const { user } = useAuth();
+
+    const [saving, setSaving] = useState(false);
+    const [notes, setNotes] = useState<ConversationNote[]>([]);
+    const [notesLoading, setNotesLoading] = useState(false);
+    const [noteText, setNoteText] = useState('');
+    const [addingNote, setAddingNote] = useState(false);
+
+    const fetchNotes = useCallback(async () => {
+        setNotesLoading(true);
+        try {
+            const response = await apiFetch(
+                `${API_BASE_URL}/inbox/conversations/${conversationId}/notes`
+            );
+            const data = await response.json();
+            if (data.success) {
+                setNotes(data.data);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching notes:', error);
+            message.error(t('common.error'));
+        } finally {
+            setNotesLoading(false);
+        }
+    }, [conversationId, t]);
+
+    useEffect(() => {
+        fetchNotes();
+    }, [fetchNotes]);
+
+    const send = async (path: string, method: string, body?: unknown) => {
+        const response = await apiFetch(
+            `${API_BASE_URL}/inbox/conversations/${conversationId}${path}`,
+            {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(body ?? {}),
+            }
+        );
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+            throw new Error(data.error?.message || data.message || t('common.error'));
+        }
+
+        return data.data;
+    };
+
+    const saveWorkflow = async (path: string, method: string, body?: unknown) => {
+        setSaving(true);
+        try {
+            onChange(await send(path, method, body));
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const update = (
+        changes: Partial<{ assigneeId: string | null; status: ConversationStatus; tags: string[] }>
+    ) => saveWorkflow('', 'PATCH', changes);
+
+    const addNote = async () => {
+        const body = noteText.trim();
+        if (!body) return;
+
+        setAddingNote(true);
+        try {
+            await send('/notes', 'POST', { body });
+            setNoteText('');
+            fetchNotes();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setAddingNote(false);
+        }
+    };
+
+    const deleteNote = async (noteId: string) => {
+        try {
+            await send(`/notes/${noteId}`, 'DELETE');
+            fetchNotes();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        }
+    };
+
+    return (
+        <>
+            <Card size="small" title={t('inbox.workflow')}>
+                <Form layout="vertical" size="small" disabled={saving}>
+                    <Form.Item label={t('common.status')} style={{ marginBottom: 8 }}>
+                        <Select
+                            value={workflow.status}
+                            onChange={(status: ConversationStatus) => update({ status })}
+                            options={CONVERSATION_STATUSES.map((value) => ({
+                                value,
+                                label: t(`inbox.status_${value}`),
+                            }))}
+                        />
+                    </Form.Item>
+                    <Form.Item label={t('inbox.assignee')} style={{ marginBottom: 8 }}>
+                        <Space.Compact style={{ width: '100%' }}>
+                            <Select
+                                allowClear
+                                showSearch
+                                optionFilterProp="label"
+                                placeholder={t('inbox.unassigned')}
+                                value={workflow.assignee?.id}
+                                onChange={(assigneeId?: string) =>
+                                    update({ assigneeId: assigneeId ?? null })
+                                }
+                                options={assignees.map((assignee) => ({
+                                    value: assignee.id,
+                                    label: userLabel(assignee),
+                                }))}
+                            />
+                            {workflow.assignee?.id !== user?.id && (
+                                <Button
+                                    icon={<UserAddOutlined />}
+                                    onClick={() => saveWorkflow('/claim', 'POST')}
+                                    disabled={!!workflow.assignee}
+                                >
+                                    {t('inbox.claim')}
+                                </Button>
+                            )}
+                        </Space.Compact>
+                    </Form.Item>
+                    <Form.Item label={t('inbox.tags')} style={{ marginBottom: 0 }}>
+                        <Select
+                            mode="tags"
+                            value={workflow.tags}
+                            onChange={(tags: string[]) => update({ tags })}
+                            options={tagOptions.map((tag) => ({ value: tag, label: tag }))}
+                            tokenSeparators={[',']}
+                            placeholder={t('inbox.add_tags')}
+                        />
+                    </Form.Item>
+                </Form>
+            </Card>
+
+            <Card size="small" title={t('inbox.internal_notes')}>
+                <List
+                    size="small"
+                    loading={notesLoading}
+                    dataSource={notes}
+                    locale={{ emptyText: t('inbox.no_notes') }}
+                    renderItem={(note) => (
+                        <List.Item
+                            actions={
+                                note.authorId === user?.id || user?.role === 'ADMIN'
+                                    ? [
+                                          <Popconfirm
+                                              key="delete"
+                                              title={t('inbox.delete_note_confirm')}
+                                              onConfirm={() => deleteNote(note.id)}
+                                              okText={t('common.yes')}
+                                              cancelText={t('common.no')}
+                                          >
+                                              <Button
+                                                  size="small"
+                                                  type="text"
+                                                  icon={<DeleteOutlined />}
+                                              />
+                                          </Popconfirm>,
+                                      ]
+                                    : []
+                            }
+                        >
+                            <Space direction="vertical" size={0}>
+                                <span style={{ whiteSpace: 'pre-wrap' }}>{note.body}</span>
+                                <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                                    {note.author ? userLabel(note.author) : '-'} ·{' '}
+                                    {new Date(note.createdAt).toLocaleString()}
+                                </Typography.Text>
+                            </Space>
+                        </List.Item>
+                    )}
+                />
+                <Input.TextArea
+                    value={noteText}
+                    onChange={(e) => setNoteText(e.target.value)}
+                    placeholder={t('inbox.note_placeholder')}
+                    autoSize={{ minRows: 2, maxRows: 5 }}
+                    maxLength={4000}
+                    style={{ marginTop: 8 }}
+                />
+                <Button
+                    block
+                    size="small"
+                    onClick={addNote}
+                    loading={addingNote}
+                    disabled={!noteText.trim()}
+                    style={{ marginTop: 8 }}
+                >
+                    {t('inbox.add_note')}
+                </Button>
+            </Card>
+        </>
+    );
+};
@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Button,
+    Card,
+    Empty,
+    Popconfirm,
+    Select,
+    Space,
+    Table,
+    Tag,
+    Tooltip,
+    Typography,
+    message,
+} from 'antd';
+import type { TableProps } from 'antd';
+import { CheckOutlined, ReloadOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+import { useAuth } from '../hooks/useAuth';
+
+type ReachabilityStatus = 'reachable' | 'unreachable';
+
+interface DeliveryRates {
+    delivered: number;
+    undelivered: number;
+    failed: number;
+    pending: number;
+    total: number;
+    deliveredRate: number | null;
+    undeliveredRate: number | null;
+    failedRate: number | null;
+}
+
+interface Recipient {
+    phoneNumber: string;
+    driver: { id: string; name: string | null; companyName: string | null } | null;
+    delivery: DeliveryRates;
+    reachability: {
+        status: ReachabilityStatus;
+        hardFailures: number;
+        lastError: string | null;
+        unreachableAt: string | null;
+    };
+}
+
+const PAGE_SIZE = 20;
+
+const formatRate = (rate: number | null) => (rate === null ? '-' : `${Math.round(rate * 100)}%`);
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+export const DeliveriesPage = () => {
+    const { t } = useTranslation();
+    const { user } = useAuth();
+
+    const [unreachableOnly, setUnreachableOnly] = useState(false);
+    const [recipients, setRecipients] = useState<Recipient[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [loading, setLoading] = useState(false);
+    const [clearing, setClearing] = useState<string | null>(null);
+
+    const fetchRecipients = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({
+                page: String(page),
+                limit: String(PAGE_SIZE),
+            });
+            if (unreachableOnly) params.set('unreachable', 'true');
+
+            const response = await apiFetch(`${API_BASE_URL}/deliveries/recipients?${params}`);
+            const data = await response.json();
+            if (data.success) {
+                setRecipients(data.data.items);
+                setTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching delivery report:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    }, [unreachableOnly, page, t]);
+
+    useEffect(() => {
+        fetchRecipients();
+    }, [fetchRecipients]);
+
+    const clearUnreachable = async (phoneNumber: string) => {
+        setClearing(phoneNumber);
+        try {
+            const response = await apiFetch(
+                `${API_BASE_URL}/deliveries/reachability/${encodeURIComponent(phoneNumber)}/clear`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({}),
+                }
+            );
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error?.message || data.message || t('common.error'));
+            }
+
+            message.success(t('deliveries.cleared'));
+            fetchRecipients();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setClearing(null);
+        }
+    };
+
+    const columns: TableProps<Recipient>['columns'] = [
+        {
+            title: t('deliveries.recipient'),
+            key: 'recipient',
+            render: (_: unknown, record: Recipient) => (
+                <Space direction="vertical" size={0}>
+                    <span>{record.driver?.name || record.phoneNumber}</span>
+                    {record.driver?.name && (
+                        <Typography.Text type="secondary">{record.phoneNumber}</Typography.Text>
+                    )}
+                </Space>
+            ),
+        },
+        {
+            title: t('deliveries.sent'),
+            key: 'sent',
+            render: (_: unknown, record: Recipient) => record.delivery.total,
+        },
+        {
+            title: t('campaigns.delivered'),
+            key: 'delivered',
+            render: (_: unknown, record: Recipient) =>
+                `${record.delivery.delivered} (${formatRate(record.delivery.deliveredRate)})`,
+        },
+        {
+            title: t('campaigns.undelivered'),
+            key: 'undelivered',
+            render: (_: unknown, record: Recipient) =>
+                `${record.delivery.undelivered} (${formatRate(record.delivery.undeliveredRate)})`,
+        },
+        {
+            title: t('campaigns.delivery_failed'),
+            key: 'failed',
+            render: (_: unknown, record: Recipient) =>
+                `${record.delivery.failed} (${formatRate(record.delivery.failedRate)})`,
+        },
+        {
+            title: t('campaigns.awaiting_delivery'),
+            key: 'pending',
+            render: (_: unknown, record: Recipient) => record.delivery.pending,
+        },
+        {
+            title: t('deliveries.reachability'),
+            key: 'reachability',
+            render: (_: unknown, record: Recipient) => {
+                const { reachability } = record;
+                return (
+                    <Space direction="vertical" size={0}>
+                        <Tooltip title={reachability.lastError}>
+                            <Tag color={reachability.status === 'unreachable' ? 'error' : 'success'}>
+                                {t(`deliveries.status_${reachability.status}`)}
+                            </Tag>
+                        </Tooltip>
+                        {reachability.hardFailures > 0 && (
+                            <Typography.Text type="secondary">
+                                {t('deliveries.hard_failures', {
+                                    count: reachability.hardFailures,
+                                })}
+                            </Typography.Text>
+                        )}
+                        {reachability.unreachableAt && (
+                            <Typography.Text type="secondary">
+                                {formatDate(reachability.unreachableAt)}
+                            </Typography.Text>
+                        )}
+                    </Space>
+                );
+            },
+        },
+        ...(user?.role === 'ADMIN'
+            ? [
+                  {
+                      key: 'actions',
+                      render: (_: unknown, record: Recipient) =>
+                          record.reachability.status === 'unreachable' && (
+                              <Popconfirm
+                                  title={t('deliveries.clear_confirm')}
+                                  onConfirm={() => clearUnreachable(record.phoneNumber)}
+                                  okText={t('common.yes')}
+                                  cancelText={t('common.no')}
+                              >
+                                  <Button
+                                      size="small"
+                                      icon={<CheckOutlined />}
+                                      loading={clearing === record.phoneNumber}
+                                  >
+                                      {t('deliveries.clear')}
+                                  </Button>
+                              </Popconfirm>
+                          ),
+                  },
+              ]
+            : []),
+    ];
+
+    return (
+        <Card
+            title={t('deliveries.title')}
+            extra={
+                <Button icon={<ReloadOutlined />} onClick={fetchRecipients} loading={loading}>
+                    {t('common.refresh')}
+                </Button>
+            }
+        >
+            <Select
+                style={{ width: 200, marginBottom: 16 }}
+                value={unreachableOnly}
+                onChange={(value: boolean) => {
+                    setUnreachableOnly(value);
+                    setPage(1);
+                }}
+                options={[
+                    { value: false, label: t('deliveries.all_recipients') },
+                    { value: true, label: t('deliveries.unreachable_only') },
+                ]}
+            />
+            <Table
+                dataSource={recipients}
+                columns={columns}
+                rowKey="phoneNumber"
+                loading={loading}
+                pagination={{
+                    current: page,
+                    pageSize: PAGE_SIZE,
+                    total,
+                    showSizeChanger: false,
+                    onChange: setPage,
+                }}
+                locale={{
+                    emptyText: <Empty description={t('deliveries.no_recipients')} />,
+                }}
+            />
+        </Card>
+    );
+};
@@ -3,6 +3,7 @@ import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
 import { useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
 
 interface DriverFormData {
     phoneNumber: string;
@@ -53,7 +54,7 @@ export const DriverFormModal = ({ open, onCancel, onSuccess, initialValues }: Dr
                 locations: values.locations?.filter(l => l && l.trim() !== '') || []
             };
 
-            const response = await fetch(url, {
+            const response = await apiFetch(url, {
                 method,
                 headers: {
                     'Content-Type': 'application/json',
@@ -0,0 +1,578 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Alert,
+    Badge,
+    Button,
+    Card,
+    Col,
+    Descriptions,
+    Empty,
+    Input,
+    List,
+    Pagination,
+    Row,
+    Select,
+    Space,
+    Spin,
+    Tag,
+    Typography,
+    message,
+} from 'antd';
+import { useSearchParams } from 'react-router-dom';
+import { ReloadOutlined, SendOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+import { useAuth } from '../hooks/useAuth';
+import { ConversationWorkflowPanel } from './ConversationWorkflowPanel';
+import type {
+    ConversationStatus,
+    ConversationWorkflow,
+    InboxUser,
+} from './ConversationWorkflowPanel';
+
+interface ConversationItem {
+    id: string;
+    name: string | null;
+    phoneNumber: string | null;
+    lastActivityAt: string;
+    lastMessage: { direction: string; text: string; createdAt: string } | null;
+    driver: { id: string; name: string | null; companyName: string | null } | null;
+    status: ConversationStatus;
+    assignee: InboxUser | null;
+    tags: string[];
+}
+
+interface ConversationDetail extends ConversationWorkflow {
+    id: string;
+    name: string | null;
+    phoneNumber: string | null;
+    optedOut: boolean;
+    driver: {
+        id: string;
+        driverNumber: string | null;
+        name: string | null;
+        companyName: string | null;
+        notes: string | null;
+        lastLoadId: string | null;
+    } | null;
+    locations: Array<{
+        id: string;
+        name: string;
+        auctionName: string | null;
+        matchCount: number;
+        lastSeenAt: string;
+    }>;
+    inquiries: Array<{
+        id: string;
+        loadId: string;
+        vehicleInfo: string | null;
+        mentionCount: number;
+        lastSeenAt: string;
+    }>;
+}
+
+interface ThreadMessage {
+    id: string;
+    direction: 'incoming' | 'outgoing';
+    text: string;
+    status: string;
+    createdAt: string;
+}
+
+const CONVERSATIONS_PAGE_SIZE = 30;
+const MESSAGES_PAGE_SIZE = 50;
+
+const STATUS_COLORS: Record<ConversationStatus, string> = {
+    open: 'blue',
+    waiting: 'gold',
+    closed: 'default',
+};
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+export const InboxPage = () => {
+    const { t } = useTranslation();
+    const { user } = useAuth();
+
+    const [conversations, setConversations] = useState<ConversationItem[]>([]);
+    const [conversationTotal, setConversationTotal] = useState(0);
+    const [conversationPage, setConversationPage] = useState(1);
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<ConversationStatus>();
+    const [assigneeFilter, setAssigneeFilter] = useState<string>();
+    const [tagFilter, setTagFilter] = useState<string>();
+    const [assignees, setAssignees] = useState<InboxUser[]>([]);
+    const [tags, setTags] = useState<string[]>([]);
+    const [listLoading, setListLoading] = useState(false);
+
+    // Message search links here with ?conversation=<id>
+    const [searchParams] = useSearchParams();
+    const [selectedId, setSelectedId] = useState<string | null>(searchParams.get('conversation'));
+    const [detail, setDetail] = useState<ConversationDetail | null>(null);
+    const [messages, setMessages] = useState<ThreadMessage[]>([]);
+    const [messageTotal, setMessageTotal] = useState(0);
+    const [messagePage, setMessagePage] = useState(1);
+    const [threadLoading, setThreadLoading] = useState(false);
+
+    const [replyText, setReplyText] = useState('');
+    const [sending, setSending] = useState(false);
+
+    const fetchConversations = useCallback(async () => {
+        setListLoading(true);
+        try {
+            const params = new URLSearchParams({
+                page: String(conversationPage),
+                limit: String(CONVERSATIONS_PAGE_SIZE),
+            });
+            if (search) params.set('search', search);
+            if (statusFilter) params.set('status', statusFilter);
+            if (assigneeFilter) params.set('assignee', assigneeFilter);
+            if (tagFilter) params.set('tag', tagFilter);
+
+            const response = await apiFetch(`${API_BASE_URL}/inbox/conversations?${params}`);
+            const data = await response.json();
+            if (data.success) {
+                setConversations(data.data.items);
+                setConversationTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching conversations:', error);
+            message.error(t('common.error'));
+        } finally {
+            setListLoading(false);
+        }
+    }, [conversationPage, search, statusFilter, assigneeFilter, tagFilter, t]);
+
+    const fetchWorkflowOptions = useCallback(async () => {
+        try {
+            const [assigneesResponse, tagsResponse] = await Promise.all([
+                apiFetch(`${API_BASE_URL}/inbox/assignees`),
+                apiFetch(`${API_BASE_URL}/inbox/tags`),
+            ]);
+            const assigneesData = await assigneesResponse.json();
+            const tagsData = await tagsResponse.json();
+
+            if (assigneesData.success) setAssignees(assigneesData.data);
+            if (tagsData.success) {
+                setTags(tagsData.data.map((item: { tag: string }) => item.tag));
+            }
+        } catch (error) {
+            console.error('Error fetching inbox assignees and tags:', error);
+        }
+    }, []);
+
+    const fetchThread = useCallback(async () => {
+        if (!selectedId) return;
+
+        setThreadLoading(true);
+        try {
+            const params = new URLSearchParams({
+                page: String(messagePage),
+                limit: String(MESSAGES_PAGE_SIZE),
+            });
+            const [detailResponse, messagesResponse] = await Promise.all([
+                apiFetch(`${API_BASE_URL}/inbox/conversations/${selectedId}`),
+                apiFetch(`${API_BASE_URL}/inbox/conversations/${selectedId}/messages?${params}`),
+            ]);
+            const detailData = await detailResponse.json();
+            const messagesData = await messagesResponse.json();
+
+            if (detailData.success && messagesData.success) {
+                setDetail(detailData.data);
+                // Newest first from the API: show oldest at the top
+                const page: ThreadMessage[] = [...messagesData.data.items].reverse();
+                setMessages((current) => (messagePage === 1 ? page : [...page, ...current]));
+                setMessageTotal(messagesData.data.pagination.totalItems);
+            } else {
+                message.error(
+                    detailData.error?.message || messagesData.error?.message || t('common.error')
+                );
+            }
+        } catch (error) {
+            console.error('Error fetching conversation:', error);
+            message.error(t('common.error'));
+        } finally {
+            setThreadLoading(false);
+        }
+    }, [selectedId, messagePage, t]);
+
+    useEffect(() => {
+        fetchConversations();
+    }, [fetchConversations]);
+
+    useEffect(() => {
+        fetchThread();
+    }, [fetchThread]);
+
+    useEffect(() => {
+        fetchWorkflowOptions();
+    }, [fetchWorkflowOptions]);
+
+    const selectConversation = (id: string) => {
+        setSelectedId(id);
+        setDetail(null);
+        setMessages([]);
+        setMessagePage(1);
+        setReplyText('');
+    };
+
+    const refresh = () => {
+        fetchConversations();
+        if (messagePage === 1) {
+            fetchThread();
+        } else {
+            setMessagePage(1);
+        }
+    };
+
+    const applyWorkflow = (workflow: ConversationWorkflow) => {
+        setDetail((current) => (current ? { ...current, ...workflow } : current));
+        fetchConversations();
+        if (workflow.tags.some((tag) => !tags.includes(tag))) fetchWorkflowOptions();
+    };
+
+    const setFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+        setter(value);
+        setConversationPage(1);
+    };
+
+    const sendReply = async () => {
+        const content = replyText.trim();
+        if (!selectedId || !content) return;
+
+        setSending(true);
+        try {
+            const response = await apiFetch(
+                `${API_BASE_URL}/inbox/conversations/${selectedId}/reply`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ content }),
+                }
+            );
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error?.message || data.message || t('common.error'));
+            }
+
+            setReplyText('');
+            message.success(t('inbox.reply_sent'));
+            refresh();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const heldByOther =
+        detail?.assignee && detail.assignee.id !== user?.id ? detail.assignee : null;
+
+    const conversationTitle = (item: { name: string | null; phoneNumber: string | null }) =>
+        item.name || item.phoneNumber || t('inbox.unknown_participant');
+
+    return (
+        <Row gutter={16}>
+            <Col xs={24} lg={7}>
+                <Card
+                    title={t('inbox.title')}
+                    extra={
+                        <Button
+                            icon={<ReloadOutlined />}
+                            onClick={refresh}
+                            loading={listLoading}
+                        />
+                    }
+                >
+                    <Input.Search
+                        allowClear
+                        placeholder={t('inbox.search_placeholder')}
+                        onSearch={(value) => {
+                            setSearch(value.trim());
+                            setConversationPage(1);
+                        }}
+                        style={{ marginBottom: 8 }}
+                    />
+                    <Space wrap size={8} style={{ marginBottom: 12 }}>
+                        <Select
+                            allowClear
+                            size="small"
+                            style={{ width: 110 }}
+                            placeholder={t('common.status')}
+                            value={statusFilter}
+                            onChange={setFilter(setStatusFilter)}
+                            options={(['open', 'waiting', 'closed'] as const).map((value) => ({
+                                value,
+                                label: t(`inbox.status_${value}`),
+                            }))}
+                        />
+                        <Select
+                            allowClear
+                            size="small"
+                            style={{ width: 140 }}
+                            placeholder={t('inbox.assignee')}
+                            value={assigneeFilter}
+                            onChange={setFilter(setAssigneeFilter)}
+                            options={[
+                                { value: 'me', label: t('inbox.assigned_to_me') },
+                                { value: 'none', label: t('inbox.unassigned') },
+                                ...assignees.map((assignee) => ({
+                                    value: assignee.id,
+                                    label: assignee.name || assignee.email,
+                                })),
+                            ]}
+                        />
+                        <Select
+                            allowClear
+                            size="small"
+                            style={{ width: 110 }}
+                            placeholder={t('inbox.tag')}
+                            value={tagFilter}
+                            onChange={setFilter(setTagFilter)}
+                            options={tags.map((tag) => ({ value: tag, label: tag }))}
+                        />
+                    </Space>
+                    <List
+                        loading={listLoading}
+                        dataSource={conversations}
+                        locale={{ emptyText: <Empty description={t('inbox.no_conversations')} /> }}
+                        renderItem={(item) => (
+                            <List.Item
+                                onClick={() => selectConversation(item.id)}
+                                style={{
+                                    cursor: 'pointer',
+                                    paddingInline: 8,
+                                    background: item.id === selectedId ? '#e6f4ff' : undefined,
+                                }}
+                            >
+                                <List.Item.Meta
+                                    title={
+                                        <Space size={4}>
+                                            <span>{item.driver?.name || conversationTitle(item)}</span>
+                                            {item.lastMessage?.direction === 'incoming' && (
+                                                <Badge status="processing" />
+                                            )}
+                                        </Space>
+                                    }
+                                    description={
+                                        <Space direction="vertical" size={0} style={{ width: '100%' }}>
+                                            <Typography.Text type="secondary" ellipsis>
+                                                {item.lastMessage?.text ?? ''}
+                                            </Typography.Text>
+                                            <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                                                {formatDate(item.lastActivityAt)}
+                                                {item.assignee &&
+                                                    ` · ${item.assignee.name || item.assignee.email}`}
+                                            </Typography.Text>
+                                            <Space size={0} wrap>
+                                                <Tag color={STATUS_COLORS[item.status]}>
+                                                    {t(`inbox.status_${item.status}`)}
+                                                </Tag>
+                                                {item.tags.map((tag) => (
+                                                    <Tag key={tag}>{tag}</Tag>
+                                                ))}
+                                            </Space>
+                                        </Space>
+                                    }
+                                />
+                            </List.Item>
+                        )}
+                    />
+                    <Pagination
+                        size="small"
+                        current={conversationPage}
+                        pageSize={CONVERSATIONS_PAGE_SIZE}
+                        total={conversationTotal}
+                        showSizeChanger={false}
+                        onChange={setConversationPage}
+                        style={{ marginTop: 12 }}
+                    />
+                </Card>
+            </Col>
+
+            <Col xs={24} lg={11}>
+                <Card
+                    title={
+                        detail
+                            ? `${conversationTitle(detail)}${detail.name && detail.phoneNumber ? ` · ${detail.phoneNumber}` : ''}`
+                            : t('inbox.thread')
+                    }
+                >
+                    {!selectedId ? (
+                        <Empty description={t('inbox.select_conversation')} />
+                    ) : (
+                        <Spin spinning={threadLoading}>
+                            {messages.length < messageTotal && (
+                                <Button
+                                    block
+                                    type="link"
+                                    onClick={() => setMessagePage((page) => page + 1)}
+                                >
+                                    {t('inbox.load_older')}
+                                </Button>
+                            )}
+                            <div style={{ maxHeight: 520, overflowY: 'auto', padding: '8px 0' }}>
+                                {messages.map((item) => {
+                                    const outgoing = item.direction === 'outgoing';
+                                    return (
+                                        <div
+                                            key={item.id}
+                                            style={{
+                                                display: 'flex',
+                                                justifyContent: outgoing ? 'flex-end' : 'flex-start',
+                                                marginBottom: 8,
+                                            }}
+                                        >
+                                            <div
+                                                style={{
+                                                    maxWidth: '80%',
+                                                    padding: '6px 10px',
+                                                    borderRadius: 8,
+                                                    background: outgoing ? '#e6f4ff' : '#f5f5f5',
+                                                    whiteSpace: 'pre-wrap',
+                                                }}
+                                            >
+                                                <div>{item.text}</div>
+                                                <Typography.Text
+                                                    type="secondary"
+                                                    style={{ fontSize: 12 }}
+                                                >
+                                                    {formatDate(item.createdAt)}
+                                                    {outgoing && ` · ${item.status}`}
+                                                </Typography.Text>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            {detail?.optedOut ? (
+                                <Alert type="warning" showIcon message={t('inbox.opted_out')} />
+                            ) : heldByOther ? (
+                                <Alert
+                                    type="info"
+                                    showIcon
+                                    message={t('inbox.held_by', {
+                                        name: heldByOther.name || heldByOther.email,
+                                    })}
+                                />
+                            ) : user?.role === 'ADMIN' ? (
+                                <Space.Compact style={{ width: '100%' }}>
+                                    <Input.TextArea
+                                        value={replyText}
+                                        onChange={(e) => setReplyText(e.target.value)}
+                                        placeholder={t('inbox.reply_placeholder')}
+                                        autoSize={{ minRows: 2, maxRows: 6 }}
+                                        maxLength={1600}
+                                    />
+                                    <Button
+                                        type="primary"
+                                        icon={<SendOutlined />}
+                                        loading={sending}
+                                        disabled={!replyText.trim()}
+                                        onClick={sendReply}
+                                        style={{ height: 'auto' }}
+                                    >
+                                        {t('inbox.send')}
+                                    </Button>
+                                </Space.Compact>
+                            ) : null}
+                        </Spin>
+                    )}
+                </Card>
+            </Col>
+
+            <Col xs={24} lg={6}>
+                {detail && (
+                    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+                        <ConversationWorkflowPanel
+                            key={detail.id}
+                            conversationId={detail.id}
+                            workflow={detail}
+                            assignees={assignees}
+                            tagOptions={tags}
+                            onChange={applyWorkflow}
+                        />
+
+                        <Card size="small" title={t('inbox.driver')}>
+                            {detail.driver ? (
+                                <Descriptions column={1} size="small">
+                                    <Descriptions.Item label={t('common.phone')}>
+                                        {detail.phoneNumber}
+                                    </Descriptions.Item>
+                                    <Descriptions.Item label={t('inbox.name')}>
+                                        {detail.driver.name || '-'}
+                                    </Descriptions.Item>
+                                    <Descriptions.Item label={t('inbox.company')}>
+                                        {detail.driver.companyName || '-'}
+                                    </Descriptions.Item>
+                                    <Descriptions.Item label={t('inbox.driver_number')}>
+                                        {detail.driver.driverNumber || '-'}
+                                    </Descriptions.Item>
+                                    <Descriptions.Item label={t('inbox.last_load')}>
+                                        {detail.driver.lastLoadId || '-'}
+                                    </Descriptions.Item>
+                                    {detail.driver.notes && (
+                                        <Descriptions.Item label={t('inbox.notes')}>
+                                            {detail.driver.notes}
+                                        </Descriptions.Item>
+                                    )}
+                                </Descriptions>
+                            ) : (
+                                <Typography.Text type="secondary">
+                                    {t('inbox.no_driver')}
+                                </Typography.Text>
+                            )}
+                        </Card>
+
+                        <Card size="small" title={t('inbox.locations')}>
+                            <List
+                                size="small"
+                                dataSource={detail.locations}
+                                locale={{ emptyText: t('inbox.no_locations') }}
+                                renderItem={(location) => (
+                                    <List.Item>
+                                        <Space size={4} wrap>
+                                            <span>{location.auctionName || location.name}</span>
+                                            <Tag>×{location.matchCount}</Tag>
+                                        </Space>
+                                    </List.Item>
+                                )}
+                            />
+                        </Card>
+
+                        <Card size="small" title={t('inbox.inquiries')}>
+                            <List
+                                size="small"
+                                dataSource={detail.inquiries}
+                                locale={{ emptyText: t('inbox.no_inquiries') }}
+                                renderItem={(inquiry) => (
+                                    <List.Item>
+                                        <Space direction="vertical" size={0}>
+                                            <Typography.Text strong>{inquiry.loadId}</Typography.Text>
+                                            {inquiry.vehicleInfo && (
+                                                <Typography.Text type="secondary">
+                                                    {inquiry.vehicleInfo}
+                                                </Typography.Text>
+                                            )}
+                                            <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                                                {t('inquiries.mentions')}: {inquiry.mentionCount} ·{' '}
+                                                {formatDate(inquiry.lastSeenAt)}
+                                            </Typography.Text>
+                                        </Space>
+                                    </List.Item>
+                                )}
+                            />
+                        </Card>
+                    </Space>
+                )}
+            </Col>
+        </Row>
+    );
+};
@@ -0,0 +1,336 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, Table, Tag, Button, Drawer, Space, Select, Typography, message } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+
+type RunStatus = 'running' | 'success' | 'failed';
+type RunTrigger = 'cron' | 'manual' | 'startup';
+
+interface ErrorSample {
+    row?: number;
+    key?: string;
+    error: string;
+}
+
+interface JobRun {
+    id: string;
+    jobName: string;
+    trigger: RunTrigger;
+    status: RunStatus;
+    startedAt: string;
+    finishedAt: string | null;
+    durationMs: number | null;
+    counts: Record<string, number> | null;
+    error: string | null;
+    errorSamples: ErrorSample[] | null;
+    runBy: string;
+}
+
+interface Job {
+    name: string;
+    schedule: string | null;
+    nextRunAt: string | null;
+    leaseOwner: string | null;
+    leaseExpiresAt: string | null;
+    lastSuccessAt: string | null;
+    lastRun: JobRun | null;
+}
+
+const STATUS_COLORS: Record<RunStatus, string> = {
+    running: 'processing',
+    success: 'success',
+    failed: 'error',
+};
+
+const TRIGGER_COLORS: Record<RunTrigger, string> = {
+    cron: 'blue',
+    manual: 'purple',
+    startup: 'cyan',
+};
+
+const RUNS_PAGE_SIZE = 20;
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+const formatDuration = (ms?: number | null) => {
+    if (ms === null || ms === undefined) return '-';
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const formatCounts = (counts: Record<string, number> | null) =>
+    counts
+        ? Object.entries(counts)
+            .map(([key, value]) => `${key}: ${value}`)
+            .join(', ')
+        : '-';
+
+export const JobsDashboard = () => {
+    const { t } = useTranslation();
+
+    const [jobs, setJobs] = useState<Job[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [selected, setSelected] = useState<Job | null>(null);
+    const [runs, setRuns] = useState<JobRun[]>([]);
+    const [runsTotal, setRunsTotal] = useState(0);
+    const [runsPage, setRunsPage] = useState(1);
+    const [runsStatus, setRunsStatus] = useState<RunStatus | undefined>(undefined);
+    const [runsLoading, setRunsLoading] = useState(false);
+
+    const fetchJobs = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/admin/jobs`);
+            const data = await response.json();
+            if (data.success) {
+                setJobs(data.data);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching jobs:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    }, [t]);
+
+    const fetchRuns = useCallback(async () => {
+        if (!selected) return;
+
+        setRunsLoading(true);
+        try {
+            const params = new URLSearchParams({
+                page: String(runsPage),
+                limit: String(RUNS_PAGE_SIZE),
+            });
+            if (runsStatus) params.set('status', runsStatus);
+
+            const response = await apiFetch(
+                `${API_BASE_URL}/admin/jobs/${encodeURIComponent(selected.name)}/runs?${params}`
+            );
+            const data = await response.json();
+            if (data.success) {
+                setRuns(data.data.items);
+                setRunsTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching job runs:', error);
+            message.error(t('common.error'));
+        } finally {
+            setRunsLoading(false);
+        }
+    }, [selected, runsPage, runsStatus, t]);
+
+    useEffect(() => {
+        fetchJobs();
+    }, [fetchJobs]);
+
+    useEffect(() => {
+        fetchRuns();
+    }, [fetchRuns]);
+
+    const openJob = (job: Job) => {
+        setRuns([]);
+        setRunsTotal(0);
+        setRunsPage(1);
+        setRunsStatus(undefined);
+        setSelected(job);
+    };
+
+    const renderStatus = (run: JobRun | null) =>
+        run ? <Tag color={STATUS_COLORS[run.status]}>{t(`jobs.status_${run.status}`)}</Tag> : '-';
+
+    const renderTrigger = (trigger: RunTrigger) => (
+        <Tag color={TRIGGER_COLORS[trigger]}>{t(`jobs.trigger_${trigger}`)}</Tag>
+    );
+
+    const columns = [
+        {
+            title: t('jobs.name'),
+            dataIndex: 'name',
+            key: 'name',
+        },
+        {
+            title: t('jobs.schedule'),
+            dataIndex: 'schedule',
+            key: 'schedule',
+            render: (schedule: string | null) =>
+                schedule ? <Typography.Text code>{schedule}</Typography.Text> : t('jobs.manual_only'),
+        },
+        {
+            title: t('jobs.last_status'),
+            key: 'lastStatus',
+            render: (_: unknown, record: Job) => renderStatus(record.lastRun),
+        },
+        {
+            title: t('jobs.last_run'),
+            key: 'lastRun',
+            render: (_: unknown, record: Job) => formatDate(record.lastRun?.startedAt),
+        },
+        {
+            title: t('jobs.duration'),
+            key: 'duration',
+            render: (_: unknown, record: Job) => formatDuration(record.lastRun?.durationMs),
+        },
+        {
+            title: t('jobs.counts'),
+            key: 'counts',
+            render: (_: unknown, record: Job) => formatCounts(record.lastRun?.counts ?? null),
+        },
+        {
+            title: t('jobs.last_success'),
+            dataIndex: 'lastSuccessAt',
+            key: 'lastSuccessAt',
+            render: formatDate,
+        },
+        {
+            title: t('jobs.next_run'),
+            dataIndex: 'nextRunAt',
+            key: 'nextRunAt',
+            render: formatDate,
+        },
+    ];
+
+    const runColumns = [
+        {
+            title: t('jobs.started_at'),
+            dataIndex: 'startedAt',
+            key: 'startedAt',
+            render: formatDate,
+        },
+        {
+            title: t('jobs.trigger'),
+            dataIndex: 'trigger',
+            key: 'trigger',
+            render: renderTrigger,
+        },
+        {
+            title: t('common.status'),
+            key: 'status',
+            render: (_: unknown, record: JobRun) => renderStatus(record),
+        },
+        {
+            title: t('jobs.duration'),
+            dataIndex: 'durationMs',
+            key: 'durationMs',
+            render: formatDuration,
+        },
+        {
+            title: t('jobs.counts'),
+            dataIndex: 'counts',
+            key: 'counts',
+            render: formatCounts,
+        },
+        {
+            title: t('jobs.run_by'),
+            dataIndex: 'runBy',
+            key: 'runBy',
+        },
+    ];
+
+    const errorSampleColumns = [
+        {
+            title: t('jobs.row'),
+            key: 'row',
+            render: (_: unknown, record: ErrorSample) => record.row ?? record.key ?? '-',
+        },
+        {
+            title: t('queue.error'),
+            dataIndex: 'error',
+            key: 'error',
+        },
+    ];
+
+    return (
+        <Card
+            title={t('jobs.title')}
+            extra={
+                <Button icon={<ReloadOutlined />} onClick={fetchJobs} loading={loading}>
+                    {t('common.refresh')}
+                </Button>
+            }
+        >
+            <Table
+                dataSource={jobs}
+                columns={columns}
+                rowKey="name"
+                loading={loading}
+                pagination={false}
+                onRow={(record) => ({
+                    onClick: () => openJob(record),
+                    style: { cursor: 'pointer' },
+                })}
+            />
+
+            <Drawer
+                title={selected?.name}
+                open={!!selected}
+                onClose={() => setSelected(null)}
+                width={900}
+                extra={
+                    <Space>
+                        <Select
+                            allowClear
+                            placeholder={t('common.status')}
+                            style={{ width: 140 }}
+                            value={runsStatus}
+                            onChange={(value?: RunStatus) => {
+                                setRunsStatus(value);
+                                setRunsPage(1);
+                            }}
+                            options={(['running', 'success', 'failed'] as RunStatus[]).map((status) => ({
+                                value: status,
+                                label: t(`jobs.status_${status}`),
+                            }))}
+                        />
+                        <Button icon={<ReloadOutlined />} onClick={fetchRuns} loading={runsLoading}>
+                            {t('common.refresh')}
+                        </Button>
+                    </Space>
+                }
+            >
+                <Table
+                    dataSource={runs}
+                    columns={runColumns}
+                    rowKey="id"
+                    size="small"
+                    loading={runsLoading}
+                    pagination={{
+                        current: runsPage,
+                        pageSize: RUNS_PAGE_SIZE,
+                        total: runsTotal,
+                        onChange: setRunsPage,
+                    }}
+                    expandable={{
+                        rowExpandable: (record) => !!record.error || !!record.errorSamples?.length,
+                        expandedRowRender: (record) => (
+                            <>
+                                {record.error && (
+                                    <Typography.Paragraph type="danger" style={{ whiteSpace: 'pre-wrap' }}>
+                                        {record.error}
+                                    </Typography.Paragraph>
+                                )}
+                                {record.errorSamples && record.errorSamples.length > 0 && (
+                                    <>
+                                        <Typography.Text strong>{t('jobs.error_samples')}</Typography.Text>
+                                        <Table
+                                            dataSource={record.errorSamples}
+                                            columns={errorSampleColumns}
+                                            rowKey={(_, index) => String(index)}
+                                            size="small"
+                                            pagination={false}
+                                        />
+                                    </>
+                                )}
+                            </>
+                        ),
+                    }}
+                />
+            </Drawer>
+        </Card>
+    );
+};
@@ -5,6 +5,7 @@ import type { TableProps, PaginationProps } from 'antd';
 import { SendOutlined, SearchOutlined, PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
 import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
 import { BulkMessageModal } from './BulkMessageModal';
 import { DriverFormModal } from './DriverFormModal';
 import { useDebounce } from '../hooks/useDebounce';
@@ -25,6 +26,7 @@ interface Driver {
     companyName: string | null;
     notes: string | null;
     lastLoadId: string | null;
+    isOptedOut: boolean;
     locations: DriverLocation[];
     lastSeenAt: string;
     createdAt: string;
@@ -72,7 +74,7 @@ export const KnownDriversTable = () => {
 
     const handleDelete = async (id: string) => {
         try {
-            const response = await fetch(`${API_BASE_URL}/drivers/${id}`, {
+            const response = await apiFetch(`${API_BASE_URL}/drivers/${id}`, {
                 method: 'DELETE',
             });
 
@@ -131,7 +133,7 @@ export const KnownDriversTable = () => {
                 url.searchParams.set('state', zipText);
             }
 
-            const response = await fetch(url.toString());
+            const response = await apiFetch(url.toString());
             const result: PaginatedApiResponse = await response.json();
 
             if (result.success) {
@@ -219,11 +221,11 @@ export const KnownDriversTable = () => {
         setSelectedRowKeys([]);
     };
 
-    // Filter out drivers whose notes field is "x" (opt-out) from message sending
+    // Filter out drivers who have opted out of SMS from message sending
     const getSendableNumbers = (): string[] => {
         return (selectedRowKeys as string[]).filter((phoneNumber) => {
             const driver = data.find((d) => d.number === phoneNumber);
-            return !(driver?.notes?.trim().toLowerCase() === 'x');
+            return !driver?.isOptedOut;
         });
     };
 
@@ -238,7 +240,16 @@ export const KnownDriversTable = () => {
             dataIndex: 'number',
             key: 'number',
             width: 150,
-            render: (text) => <span style={{ fontWeight: 500 }}>{text}</span>,
+            render: (text, record) => (
+                <Space size={4}>
+                    <span style={{ fontWeight: 500 }}>{text}</span>
+                    {record.isOptedOut && (
+                        <Tag color="red" style={{ margin: 0, fontSize: '11px', lineHeight: '18px', padding: '0 4px' }}>
+                            STOP
+                        </Tag>
+                    )}
+                </Space>
+            ),
             sorter: (a, b) => a.number.localeCompare(b.number),
         },
         {
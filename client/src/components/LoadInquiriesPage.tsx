@@ -5,6 +5,7 @@ import { ReloadOutlined, SearchOutlined, CarOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
 import { useDebounce } from '../hooks/useDebounce';
 
 interface LoadInquiryStatsItem {
@@ -50,7 +51,7 @@ export const LoadInquiriesPage = () => {
             url.searchParams.set('page', page.toString());
             url.searchParams.set('limit', limit.toString());
 
-            const response = await fetch(url.toString());
+            const response = await apiFetch(url.toString());
             const result: PaginatedStatsResponse = await response.json();
 
             if (result.success) {
@@ -5,6 +5,7 @@ import { ArrowLeftOutlined, ReloadOutlined, PhoneOutlined, CopyOutlined } from '
 import { useTranslation } from 'react-i18next';
 import { useParams, useNavigate } from 'react-router-dom';
 import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
 
 interface LoadInquiryDetail {
     id: string;
@@ -43,7 +44,7 @@ export const LoadInquiryDetailPage = () => {
         if (!loadId) return;
         setLoading(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/load-inquiries/${loadId}`);
+            const response = await apiFetch(`${API_BASE_URL}/load-inquiries/${loadId}`);
             const result: LoadDetailResponse = await response.json();
 
             if (result.success) {
@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Button,
+    Card,
+    Empty,
+    Popconfirm,
+    Select,
+    Space,
+    Table,
+    Tabs,
+    Tag,
+    Typography,
+    message,
+} from 'antd';
+import type { TableProps } from 'antd';
+import { CheckOutlined, CloseOutlined, ReloadOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+
+type ReviewStatus = 'pending' | 'resolved' | 'dismissed';
+
+interface CandidateLoad {
+    id: string;
+    vin: string;
+    loadId: string;
+    pickupLocation: string | null;
+    deliveryLocation: string | null;
+    status: string;
+    driverPhone: string | null;
+    closedAt: string | null;
+    syncedAt: string;
+}
+
+interface Candidate {
+    id: string;
+    loadId: string;
+    score: number;
+    reasons: string[];
+    load: CandidateLoad;
+}
+
+interface LoadReview {
+    id: string;
+    phoneNumber: string;
+    loadId: string;
+    status: ReviewStatus;
+    resolvedLoadId: string | null;
+    resolvedAt: string | null;
+    updatedAt: string;
+    resolvedBy: { id: string; name: string | null; email: string } | null;
+    driver: { id: string; name: string | null; companyName: string | null } | null;
+    candidates: Candidate[];
+}
+
+interface Collision {
+    loadId: string;
+    loads: Array<
+        CandidateLoad & {
+            driver: { id: string; name: string | null; phoneNumber: string } | null;
+        }
+    >;
+}
+
+const STATUS_COLORS: Record<ReviewStatus, string> = {
+    pending: 'gold',
+    resolved: 'green',
+    dismissed: 'default',
+};
+
+const PAGE_SIZE = 20;
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+export const LoadReviewsPage = () => {
+    const { t } = useTranslation();
+
+    const [status, setStatus] = useState<ReviewStatus>('pending');
+    const [reviews, setReviews] = useState<LoadReview[]>([]);
+    const [reviewTotal, setReviewTotal] = useState(0);
+    const [reviewPage, setReviewPage] = useState(1);
+    const [reviewsLoading, setReviewsLoading] = useState(false);
+    const [acting, setActing] = useState<string | null>(null);
+
+    const [collisions, setCollisions] = useState<Collision[]>([]);
+    const [collisionTotal, setCollisionTotal] = useState(0);
+    const [collisionPage, setCollisionPage] = useState(1);
+    const [collisionsLoading, setCollisionsLoading] = useState(false);
+
+    const fetchReviews = useCallback(async () => {
+        setReviewsLoading(true);
+        try {
+            const params = new URLSearchParams({
+                status,
+                page: String(reviewPage),
+                limit: String(PAGE_SIZE),
+            });
+            const response = await apiFetch(`${API_BASE_URL}/load-reviews?${params}`);
+            const data = await response.json();
+            if (data.success) {
+                setReviews(data.data.items);
+                setReviewTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching load reviews:', error);
+            message.error(t('common.error'));
+        } finally {
+            setReviewsLoading(false);
+        }
+    }, [status, reviewPage, t]);
+
+    const fetchCollisions = useCallback(async () => {
+        setCollisionsLoading(true);
+        try {
+            const params = new URLSearchParams({
+                page: String(collisionPage),
+                limit: String(PAGE_SIZE),
+            });
+            const response = await apiFetch(`${API_BASE_URL}/loads/collisions?${params}`);
+            const data = await response.json();
+            if (data.success) {
+                setCollisions(data.data.items);
+                setCollisionTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching load ID collisions:', error);
+            message.error(t('common.error'));
+        } finally {
+            setCollisionsLoading(false);
+        }
+    }, [collisionPage, t]);
+
+    useEffect(() => {
+        fetchReviews();
+    }, [fetchReviews]);
+
+    useEffect(() => {
+        fetchCollisions();
+    }, [fetchCollisions]);
+
+    const act = async (review: LoadReview, action: 'resolve' | 'dismiss', loadId?: string) => {
+        setActing(review.id);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/load-reviews/${review.id}/${action}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(loadId ? { loadId } : {}),
+            });
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error?.message || data.message || t('common.error'));
+            }
+
+            if (action === 'resolve' && !data.data.match.matched) {
+                message.warning(t('load_reviews.resolved_no_location'));
+            } else {
+                message.success(
+                    t(action === 'resolve' ? 'load_reviews.resolve_done' : 'load_reviews.dismiss_done')
+                );
+            }
+            fetchReviews();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setActing(null);
+        }
+    };
+
+    const locationText = (load: CandidateLoad) =>
+        `${load.pickupLocation ?? '-'} → ${load.deliveryLocation ?? '-'}`;
+
+    const reviewColumns: TableProps<LoadReview>['columns'] = [
+        {
+            title: t('inquiries.load_id'),
+            dataIndex: 'loadId',
+            key: 'loadId',
+            render: (loadId: string) => <Typography.Text strong>{loadId}</Typography.Text>,
+        },
+        {
+            title: t('loads.driver'),
+            key: 'driver',
+            render: (_: unknown, record: LoadReview) => (
+                <Space direction="vertical" size={0}>
+                    <span>{record.driver?.name || record.phoneNumber}</span>
+                    {record.driver?.name && (
+                        <Typography.Text type="secondary">{record.phoneNumber}</Typography.Text>
+                    )}
+                </Space>
+            ),
+        },
+        {
+            title: t('load_reviews.candidates'),
+            key: 'candidates',
+            render: (_: unknown, record: LoadReview) => record.candidates.length,
+        },
+        {
+            title: t('common.status'),
+            key: 'status',
+            render: (_: unknown, record: LoadReview) => {
+                const picked = record.candidates.find((c) => c.loadId === record.resolvedLoadId);
+                return (
+                    <Space direction="vertical" size={0}>
+                        <Tag color={STATUS_COLORS[record.status]}>
+                            {t(`load_reviews.status_${record.status}`)}
+                        </Tag>
+                        {picked && <Typography.Text code>{picked.load.vin}</Typography.Text>}
+                        {record.resolvedBy && (
+                            <Typography.Text type="secondary">
+                                {record.resolvedBy.name || record.resolvedBy.email}
+                            </Typography.Text>
+                        )}
+                    </Space>
+                );
+            },
+        },
+        {
+            title: t('load_reviews.updated'),
+            dataIndex: 'updatedAt',
+            key: 'updatedAt',
+            render: (date: string) => formatDate(date),
+        },
+        {
+            key: 'actions',
+            render: (_: unknown, record: LoadReview) =>
+                record.status === 'pending' && (
+                    <Popconfirm
+                        title={t('load_reviews.dismiss_confirm')}
+                        onConfirm={() => act(record, 'dismiss')}
+                        okText={t('common.yes')}
+                        cancelText={t('common.no')}
+                    >
+                        <Button size="small" icon={<CloseOutlined />} loading={acting === record.id}>
+                            {t('load_reviews.dismiss')}
+                        </Button>
+                    </Popconfirm>
+                ),
+        },
+    ];
+
+    const candidateColumns = (review: LoadReview): TableProps<Candidate>['columns'] => [
+        {
+            title: 'VIN',
+            key: 'vin',
+            render: (_: unknown, record: Candidate) => (
+                <Space size={4}>
+                    <Typography.Text code>{record.load.vin}</Typography.Text>
+                    {record.load.closedAt && <Tag>{t('loads.closed')}</Tag>}
+                </Space>
+            ),
+        },
+        {
+            title: t('load_reviews.route'),
+            key: 'route',
+            render: (_: unknown, record: Candidate) => locationText(record.load),
+        },
+        {
+            title: t('common.status'),
+            key: 'status',
+            render: (_: unknown, record: Candidate) =>
+                t(`loads.status_${record.load.status}`, { defaultValue: record.load.status }),
+        },
+        {
+            title: t('load_reviews.score'),
+            key: 'score',
+            render: (_: unknown, record: Candidate) => (
+                <Space size={4} wrap>
+                    <Typography.Text strong>{record.score}</Typography.Text>
+                    {record.reasons.map((reason) => (
+                        <Tag key={reason}>{t(`load_reviews.reason_${reason}`)}</Tag>
+                    ))}
+                </Space>
+            ),
+        },
+        {
+            key: 'pick',
+            render: (_: unknown, record: Candidate) =>
+                review.status === 'pending' && (
+                    <Popconfirm
+                        title={t('load_reviews.pick_confirm', { vin: record.load.vin })}
+                        onConfirm={() => act(review, 'resolve', record.loadId)}
+                        okText={t('common.yes')}
+                        cancelText={t('common.no')}
+                    >
+                        <Button
+                            size="small"
+                            type="primary"
+                            icon={<CheckOutlined />}
+                            loading={acting === review.id}
+                        >
+                            {t('load_reviews.pick')}
+                        </Button>
+                    </Popconfirm>
+                ),
+        },
+    ];
+
+    const collisionColumns: TableProps<Collision>['columns'] = [
+        {
+            title: t('inquiries.load_id'),
+            dataIndex: 'loadId',
+            key: 'loadId',
+            render: (loadId: string) => <Typography.Text strong>{loadId}</Typography.Text>,
+        },
+        {
+            title: t('load_reviews.shared_by'),
+            key: 'loads',
+            render: (_: unknown, record: Collision) => (
+                <Space direction="vertical" size={0}>
+                    {record.loads.map((load) => (
+                        <span key={load.id}>
+                            <Typography.Text code>{load.vin}</Typography.Text> {locationText(load)}
+                            {load.driver && (
+                                <Typography.Text type="secondary">
+                                    {' '}
+                                    · {load.driver.name || load.driver.phoneNumber}
+                                </Typography.Text>
+                            )}
+                        </span>
+                    ))}
+                </Space>
+            ),
+        },
+    ];
+
+    return (
+        <Card
+            title={t('load_reviews.title')}
+            extra={
+                <Button
+                    icon={<ReloadOutlined />}
+                    onClick={() => {
+                        fetchReviews();
+                        fetchCollisions();
+                    }}
+                    loading={reviewsLoading || collisionsLoading}
+                >
+                    {t('common.refresh')}
+                </Button>
+            }
+        >
+            <Tabs
+                items={[
+                    {
+                        key: 'reviews',
+                        label: t('load_reviews.queue'),
+                        children: (
+                            <>
+                                <Select
+                                    style={{ width: 160, marginBottom: 16 }}
+                                    value={status}
+                                    onChange={(value: ReviewStatus) => {
+                                        setStatus(value);
+                                        setReviewPage(1);
+                                    }}
+                                    options={(['pending', 'resolved', 'dismissed'] as const).map(
+                                        (value) => ({
+                                            value,
+                                            label: t(`load_reviews.status_${value}`),
+                                        })
+                                    )}
+                                />
+                                <Table
+                                    dataSource={reviews}
+                                    columns={reviewColumns}
+                                    rowKey="id"
+                                    loading={reviewsLoading}
+                                    expandable={{
+                                        expandedRowRender: (review) => (
+                                            <Table
+                                                size="small"
+                                                dataSource={review.candidates}
+                                                columns={candidateColumns(review)}
+                                                rowKey="id"
+                                                pagination={false}
+                                            />
+                                        ),
+                                    }}
+                                    pagination={{
+                                        current: reviewPage,
+                                        pageSize: PAGE_SIZE,
+                                        total: reviewTotal,
+                                        showSizeChanger: false,
+                                        onChange: setReviewPage,
+                                    }}
+                                    locale={{
+                                        emptyText: <Empty description={t('load_reviews.no_reviews')} />,
+                                    }}
+                                />
+                            </>
+                        ),
+                    },
+                    {
+                        key: 'collisions',
+                        label: t('load_reviews.collisions'),
+                        children: (
+                            <Table
+                                dataSource={collisions}
+                                columns={collisionColumns}
+                                rowKey="loadId"
+                                loading={collisionsLoading}
+                                pagination={{
+                                    current: collisionPage,
+                                    pageSize: PAGE_SIZE,
+                                    total: collisionTotal,
+                                    showSizeChanger: false,
+                                    onChange: setCollisionPage,
+                                }}
+                                locale={{
+                                    emptyText: <Empty description={t('load_reviews.no_collisions')} />,
+                                }}
+                            />
+                        ),
+                    },
+                ]}
+            />
+        </Card>
+    );
+};
@@ -0,0 +1,453 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Button,
+    Card,
+    Descriptions,
+    Drawer,
+    Empty,
+    Input,
+    Select,
+    Space,
+    Spin,
+    Table,
+    Tag,
+    Timeline,
+    Typography,
+    message,
+} from 'antd';
+import type { TableProps } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+
+type LoadStatus =
+    | 'unknown'
+    | 'posted'
+    | 'dispatched'
+    | 'picked_up'
+    | 'in_transit'
+    | 'delivered'
+    | 'cancelled';
+
+interface LoadDriver {
+    id: string;
+    phoneNumber: string;
+    name: string | null;
+    companyName: string | null;
+}
+
+interface Load {
+    id: string;
+    vin: string;
+    loadId: string;
+    pickupLocation: string | null;
+    deliveryLocation: string | null;
+    status: LoadStatus;
+    rawStatus: string | null;
+    statusChangedAt: string | null;
+    driverPhone: string | null;
+    sheetSource: string | null;
+    sheetTab: string | null;
+    sheetRowNumber: number | null;
+    closedAt: string | null;
+    syncedAt: string;
+    driver: LoadDriver | null;
+}
+
+interface LoadInquiry {
+    id: string;
+    phoneNumber: string;
+    mentionCount: number;
+    firstSeenAt: string;
+    lastSeenAt: string;
+    driverName: string | null;
+    driverCompany: string | null;
+}
+
+interface LoadDetail extends Load {
+    inquiries: LoadInquiry[];
+}
+
+interface StatusEvent {
+    id: string;
+    fromStatus: LoadStatus;
+    toStatus: LoadStatus;
+    source: string;
+    rawValue: string | null;
+    phoneNumber: string | null;
+    occurredAt: string;
+}
+
+interface Filters {
+    search?: string;
+    status?: LoadStatus;
+    pickupLocation?: string;
+    deliveryLocation?: string;
+    driver?: string;
+    open?: 'true' | 'false';
+}
+
+const STATUSES: LoadStatus[] = [
+    'unknown',
+    'posted',
+    'dispatched',
+    'picked_up',
+    'in_transit',
+    'delivered',
+    'cancelled',
+];
+
+const STATUS_COLORS: Record<LoadStatus, string> = {
+    unknown: 'default',
+    posted: 'purple',
+    dispatched: 'blue',
+    picked_up: 'cyan',
+    in_transit: 'geekblue',
+    delivered: 'green',
+    cancelled: 'red',
+};
+
+const PAGE_SIZE = 20;
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+export const LoadsPage = () => {
+    const { t } = useTranslation();
+
+    const [loads, setLoads] = useState<Load[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [filters, setFilters] = useState<Filters>({ open: 'true' });
+    const [loading, setLoading] = useState(false);
+
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [detail, setDetail] = useState<LoadDetail | null>(null);
+    const [events, setEvents] = useState<StatusEvent[]>([]);
+    const [detailLoading, setDetailLoading] = useState(false);
+
+    const fetchLoads = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+            for (const [key, value] of Object.entries(filters)) {
+                if (value) params.set(key, value);
+            }
+
+            const response = await apiFetch(`${API_BASE_URL}/loads?${params}`);
+            const data = await response.json();
+            if (data.success) {
+                setLoads(data.data.items);
+                setTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching loads:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    }, [page, filters, t]);
+
+    const fetchDetail = useCallback(async () => {
+        if (!selectedId) return;
+
+        setDetailLoading(true);
+        try {
+            const [detailResponse, timelineResponse] = await Promise.all([
+                apiFetch(`${API_BASE_URL}/loads/${selectedId}`),
+                apiFetch(`${API_BASE_URL}/loads/${selectedId}/timeline`),
+            ]);
+            const detailData = await detailResponse.json();
+            const timelineData = await timelineResponse.json();
+
+            if (detailData.success && timelineData.success) {
+                setDetail(detailData.data);
+                setEvents(timelineData.data.events);
+            } else {
+                message.error(
+                    detailData.error?.message || timelineData.error?.message || t('common.error')
+                );
+            }
+        } catch (error) {
+            console.error('Error fetching load detail:', error);
+            message.error(t('common.error'));
+        } finally {
+            setDetailLoading(false);
+        }
+    }, [selectedId, t]);
+
+    useEffect(() => {
+        fetchLoads();
+    }, [fetchLoads]);
+
+    useEffect(() => {
+        fetchDetail();
+    }, [fetchDetail]);
+
+    const setFilter = (key: keyof Filters, value?: string) => {
+        setFilters((current) => ({ ...current, [key]: value || undefined }));
+        setPage(1);
+    };
+
+    const closeDetail = () => {
+        setSelectedId(null);
+        setDetail(null);
+        setEvents([]);
+    };
+
+    const statusTag = (status: LoadStatus) => (
+        <Tag color={STATUS_COLORS[status]}>{t(`loads.status_${status}`)}</Tag>
+    );
+
+    const columns: TableProps<Load>['columns'] = [
+        {
+            title: t('inquiries.load_id'),
+            dataIndex: 'loadId',
+            key: 'loadId',
+            render: (loadId: string) => <Typography.Text strong>{loadId}</Typography.Text>,
+        },
+        {
+            title: 'VIN',
+            dataIndex: 'vin',
+            key: 'vin',
+            render: (vin: string) => <Typography.Text code>{vin}</Typography.Text>,
+        },
+        {
+            title: t('common.status'),
+            key: 'status',
+            render: (_: unknown, record: Load) => (
+                <Space size={4}>
+                    {statusTag(record.status)}
+                    {record.closedAt && <Tag>{t('loads.closed')}</Tag>}
+                </Space>
+            ),
+        },
+        {
+            title: t('loads.pickup'),
+            dataIndex: 'pickupLocation',
+            key: 'pickupLocation',
+            render: (value: string | null) => value ?? '-',
+        },
+        {
+            title: t('loads.delivery'),
+            dataIndex: 'deliveryLocation',
+            key: 'deliveryLocation',
+            render: (value: string | null) => value ?? '-',
+        },
+        {
+            title: t('loads.driver'),
+            key: 'driver',
+            render: (_: unknown, record: Load) =>
+                record.driver
+                    ? record.driver.name || record.driver.phoneNumber
+                    : record.driverPhone ?? '-',
+        },
+        {
+            title: t('loads.synced_at'),
+            dataIndex: 'syncedAt',
+            key: 'syncedAt',
+            render: (date: string) => formatDate(date),
+        },
+    ];
+
+    const inquiryColumns: TableProps<LoadInquiry>['columns'] = [
+        { title: t('common.phone'), dataIndex: 'phoneNumber', key: 'phoneNumber' },
+        {
+            title: t('loads.driver'),
+            key: 'driverName',
+            render: (_: unknown, record: LoadInquiry) =>
+                [record.driverName, record.driverCompany].filter(Boolean).join(' · ') || '-',
+        },
+        { title: t('inquiries.mentions'), dataIndex: 'mentionCount', key: 'mentionCount' },
+        {
+            title: t('inquiries.last_seen'),
+            dataIndex: 'lastSeenAt',
+            key: 'lastSeenAt',
+            render: (date: string) => formatDate(date),
+        },
+    ];
+
+    return (
+        <Card
+            title={t('loads.title')}
+            extra={
+                <Button icon={<ReloadOutlined />} onClick={fetchLoads} loading={loading}>
+                    {t('common.refresh')}
+                </Button>
+            }
+        >
+            <Space wrap style={{ marginBottom: 16 }}>
+                <Input.Search
+                    allowClear
+                    style={{ width: 240 }}
+                    placeholder={t('loads.search_placeholder')}
+                    onSearch={(value) => setFilter('search', value.trim())}
+                />
+                <Select
+                    allowClear
+                    style={{ width: 160 }}
+                    placeholder={t('common.status')}
+                    value={filters.status}
+                    onChange={(value?: LoadStatus) => setFilter('status', value)}
+                    options={STATUSES.map((status) => ({
+                        value: status,
+                        label: t(`loads.status_${status}`),
+                    }))}
+                />
+                <Input.Search
+                    allowClear
+                    style={{ width: 200 }}
+                    placeholder={t('loads.pickup')}
+                    onSearch={(value) => setFilter('pickupLocation', value.trim())}
+                />
+                <Input.Search
+                    allowClear
+                    style={{ width: 200 }}
+                    placeholder={t('loads.delivery')}
+                    onSearch={(value) => setFilter('deliveryLocation', value.trim())}
+                />
+                <Input.Search
+                    allowClear
+                    style={{ width: 200 }}
+                    placeholder={t('loads.driver_placeholder')}
+                    onSearch={(value) => setFilter('driver', value.trim())}
+                />
+                <Select
+                    allowClear
+                    style={{ width: 140 }}
+                    placeholder={t('loads.state')}
+                    value={filters.open}
+                    onChange={(value?: 'true' | 'false') => setFilter('open', value)}
+                    options={[
+                        { value: 'true', label: t('loads.open') },
+                        { value: 'false', label: t('loads.closed') },
+                    ]}
+                />
+            </Space>
+
+            <Table
+                dataSource={loads}
+                columns={columns}
+                rowKey="id"
+                loading={loading}
+                onRow={(record) => ({
+                    onClick: () => setSelectedId(record.id),
+                    style: { cursor: 'pointer' },
+                })}
+                pagination={{
+                    current: page,
+                    pageSize: PAGE_SIZE,
+                    total,
+                    showSizeChanger: false,
+                    onChange: setPage,
+                }}
+                locale={{ emptyText: <Empty description={t('loads.no_loads')} /> }}
+            />
+
+            <Drawer
+                open={selectedId !== null}
+                onClose={closeDetail}
+                width={720}
+                title={detail ? `${detail.loadId} · ${detail.vin}` : t('loads.title')}
+            >
+                {detailLoading && !detail ? (
+                    <Spin />
+                ) : (
+                    detail && (
+                        <Space direction="vertical" size="large" style={{ width: '100%' }}>
+                            <Descriptions column={2} size="small" bordered>
+                                <Descriptions.Item label={t('common.status')}>
+                                    {statusTag(detail.status)}
+                                </Descriptions.Item>
+                                <Descriptions.Item label={t('loads.raw_status')}>
+                                    {detail.rawStatus ?? '-'}
+                                </Descriptions.Item>
+                                <Descriptions.Item label={t('loads.pickup')}>
+                                    {detail.pickupLocation ?? '-'}
+                                </Descriptions.Item>
+                                <Descriptions.Item label={t('loads.delivery')}>
+                                    {detail.deliveryLocation ?? '-'}
+                                </Descriptions.Item>
+                                <Descriptions.Item label={t('loads.driver')}>
+                                    {detail.driver
+                                        ? [
+                                              detail.driver.name,
+                                              detail.driver.companyName,
+                                              detail.driver.phoneNumber,
+                                          ]
+                                              .filter(Boolean)
+                                              .join(' · ')
+                                        : '-'}
+                                </Descriptions.Item>
+                                <Descriptions.Item label={t('loads.sheet_phone')}>
+                                    {detail.driverPhone ?? '-'}
+                                </Descriptions.Item>
+                                <Descriptions.Item label={t('loads.source')}>
+                                    {[detail.sheetSource, detail.sheetTab, detail.sheetRowNumber]
+                                        .filter((value) => value !== null)
+                                        .join(' · ') || '-'}
+                                </Descriptions.Item>
+                                <Descriptions.Item label={t('loads.synced_at')}>
+                                    {formatDate(detail.syncedAt)}
+                                </Descriptions.Item>
+                            </Descriptions>
+
+                            <div>
+                                <Typography.Title level={5}>{t('loads.timeline')}</Typography.Title>
+                                {events.length === 0 ? (
+                                    <Typography.Text type="secondary">
+                                        {t('loads.no_events')}
+                                    </Typography.Text>
+                                ) : (
+                                    <Timeline
+                                        items={events.map((event) => ({
+                                            children: (
+                                                <Space direction="vertical" size={0}>
+                                                    <Space size={4}>
+                                                        {statusTag(event.fromStatus)}
+                                                        →
+                                                        {statusTag(event.toStatus)}
+                                                    </Space>
+                                                    <Typography.Text type="secondary">
+                                                        {formatDate(event.occurredAt)} ·{' '}
+                                                        {t(`loads.event_source_${event.source}`, {
+                                                            defaultValue: event.source,
+                                                        })}
+                                                        {event.phoneNumber
+                                                            ? ` · ${event.phoneNumber}`
+                                                            : ''}
+                                                    </Typography.Text>
+                                                    {event.rawValue && (
+                                                        <Typography.Text italic>
+                                                            “{event.rawValue}”
+                                                        </Typography.Text>
+                                                    )}
+                                                </Space>
+                                            ),
+                                        }))}
+                                    />
+                                )}
+                            </div>
+
+                            <div>
+                                <Typography.Title level={5}>{t('loads.inquiries')}</Typography.Title>
+                                <Table
+                                    size="small"
+                                    dataSource={detail.inquiries}
+                                    columns={inquiryColumns}
+                                    rowKey="id"
+                                    pagination={false}
+                                    locale={{
+                                        emptyText: <Empty description={t('inquiries.no_inquiries')} />,
+                                    }}
+                                />
+                            </div>
+                        </Space>
+                    )
+                )}
+            </Drawer>
+        </Card>
+    );
+};
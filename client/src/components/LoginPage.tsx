@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Alert, Button, Card, Form, Input, Typography } from 'antd';
+import { LockOutlined, MailOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../hooks/useAuth';
+
+const { Title } = Typography;
+
+interface LoginFormValues {
+    email: string;
+    password: string;
+}
+
+export const LoginPage = () => {
+    const { t } = useTranslation();
+    const { user, login } = useAuth();
+    const navigate = useNavigate();
+    const location = useLocation();
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const redirectTo = (location.state as { from?: string } | null)?.from || '/';
+
+    if (user) {
+        return <Navigate to={redirectTo} replace />;
+    }
+
+    const handleSubmit = async (values: LoginFormValues) => {
+        setLoading(true);
+        setError(null);
+        try {
+            await login(values.email, values.password);
+            navigate(redirectTo, { replace: true });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('auth.login_error'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+            <Card style={{ width: 380 }}>
+                <Title level={3} style={{ textAlign: 'center' }}>{t('auth.title')}</Title>
+
+                {error && (
+                    <Alert
+                        message={error}
+                        type="error"
+                        showIcon
+                        style={{ marginBottom: 16 }}
+                    />
+                )}
+
+                <Form<LoginFormValues> layout="vertical" onFinish={handleSubmit}>
+                    <Form.Item
+                        name="email"
+                        label={t('auth.email')}
+                        rules={[
+                            { required: true, message: t('auth.email_required') },
+                            { type: 'email', message: t('auth.email_invalid') },
+                        ]}
+                    >
+                        <Input prefix={<MailOutlined />} autoComplete="email" />
+                    </Form.Item>
+                    <Form.Item
+                        name="password"
+                        label={t('auth.password')}
+                        rules={[{ required: true, message: t('auth.password_required') }]}
+                    >
+                        <Input.Password prefix={<LockOutlined />} autoComplete="current-password" />
+                    </Form.Item>
+                    <Button type="primary" htmlType="submit" loading={loading} block>
+                        {t('nav.login')}
+                    </Button>
+                </Form>
+            </Card>
+        </div>
+    );
+};
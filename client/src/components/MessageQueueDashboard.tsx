@@ -1,21 +1,36 @@
 import { useEffect, useState } from 'react';
 import { Card, Typography, Statistic, Row, Col, Progress, Table, Tag, Button, Alert, message, Space, Popconfirm } from 'antd';
-import { ReloadOutlined, DeleteOutlined, ClockCircleOutlined, CheckCircleOutlined, CloseCircleOutlined } from '@ant-design/icons';
+import { ReloadOutlined, DeleteOutlined, ClockCircleOutlined, CheckCircleOutlined, CloseCircleOutlined, StopOutlined, FieldTimeOutlined, WarningOutlined, RedoOutlined, SendOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
 import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+import { CampaignsTable } from './CampaignsTable';
+import { useAuth } from '../hooks/useAuth';
 
 const { Title } = Typography;
 
 interface QueueStats {
     total: number;
     pending: number;
+    sending: number;
+    deferred: number;
+    retrying: number;
     sent: number;
     failed: number;
+    dead: number;
+    sendRatePerMinute: number;
     messages: Array<{
         id: string;
         phoneNumber: string;
-        status: 'pending' | 'sent' | 'failed';
+        status: 'pending' | 'sending' | 'sent' | 'failed' | 'dead' | 'cancelled';
         attempts: number;
+        error?: string | null;
+        errorType?: 'permanent' | 'transient' | null;
+        nextAttemptAt?: string | null;
+        scheduledFor?: string | null;
+        timezone?: string | null;
+        phoneNumberId?: string | null;
+        campaign?: { id: string; name: string } | null;
         createdAt: string;
         sentAt?: string;
     }>;
@@ -23,14 +38,17 @@ interface QueueStats {
 
 export const MessageQueueDashboard = () => {
     const { t } = useTranslation();
+    const { user } = useAuth();
+    const isAdmin = user?.role === 'ADMIN';
     const [stats, setStats] = useState<QueueStats | null>(null);
     const [loading, setLoading] = useState(false);
     const [clearing, setClearing] = useState(false);
+    const [deadAction, setDeadAction] = useState<string | null>(null);
 
     const fetchStats = async () => {
         setLoading(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/messages/queue/stats`);
+            const response = await apiFetch(`${API_BASE_URL}/messages/queue/stats`);
             const data = await response.json();
             if (data.success) {
                 setStats(data.data);
@@ -48,7 +66,7 @@ export const MessageQueueDashboard = () => {
     const clearCompleted = async () => {
         setClearing(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/messages/queue/completed`, {
+            const response = await apiFetch(`${API_BASE_URL}/messages/queue/completed`, {
                 method: 'DELETE',
             });
             const data = await response.json();
@@ -66,6 +84,37 @@ export const MessageQueueDashboard = () => {
         }
     };
 
+    /**
+     * Retry or discard dead messages: one message by ID, or all of them
+     */
+    const handleDeadMessages = async (action: 'retry' | 'discard', id?: string) => {
+        setDeadAction(`${id ?? 'all'}:${action}`);
+        try {
+            const response = await apiFetch(
+                id
+                    ? `${API_BASE_URL}/admin/queue/dead/${id}/${action}`
+                    : `${API_BASE_URL}/admin/queue/dead/${action}`,
+                {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(id ? {} : { all: true }),
+                }
+            );
+            const data = await response.json();
+            if (data.success) {
+                message.success(data.message);
+                fetchStats();
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error updating dead messages:', error);
+            message.error(t('common.error'));
+        } finally {
+            setDeadAction(null);
+        }
+    };
+
     useEffect(() => {
         fetchStats();
     }, []);
@@ -76,6 +125,11 @@ export const MessageQueueDashboard = () => {
             dataIndex: 'phoneNumber',
             key: 'phoneNumber',
         },
+        {
+            title: t('queue.campaign'),
+            key: 'campaign',
+            render: (_: unknown, record: QueueStats['messages'][number]) => record.campaign?.name || '-',
+        },
         {
             title: t('common.status'),
             dataIndex: 'status',
@@ -89,6 +143,11 @@ export const MessageQueueDashboard = () => {
                 } else if (status === 'failed') {
                     color = 'error';
                     icon = <CloseCircleOutlined />;
+                } else if (status === 'dead') {
+                    color = 'volcano';
+                    icon = <WarningOutlined />;
+                } else if (status === 'cancelled') {
+                    icon = <StopOutlined />;
                 }
                 return (
                     <Tag icon={icon} color={color}>
@@ -101,6 +160,32 @@ export const MessageQueueDashboard = () => {
             title: t('queue.attempts'),
             dataIndex: 'attempts',
             key: 'attempts',
+            render: (attempts: number, record: QueueStats['messages'][number]) => {
+                const waiting = record.status === 'pending' && record.nextAttemptAt && new Date(record.nextAttemptAt) > new Date();
+                return waiting ? (
+                    <Space size={4}>
+                        {attempts}
+                        <Tag color="gold">
+                            {t('queue.next_attempt', { time: new Date(record.nextAttemptAt!).toLocaleTimeString() })}
+                        </Tag>
+                    </Space>
+                ) : attempts;
+            },
+        },
+        {
+            title: t('queue.error'),
+            dataIndex: 'error',
+            key: 'error',
+            render: (error: string | null | undefined, record: QueueStats['messages'][number]) => error ? (
+                <Space size={4}>
+                    {record.errorType && (
+                        <Tag color={record.errorType === 'permanent' ? 'red' : 'gold'}>
+                            {t(`queue.error_${record.errorType}`)}
+                        </Tag>
+                    )}
+                    {error}
+                </Space>
+            ) : '-',
         },
         {
             title: t('common.created_at'),
@@ -108,12 +193,67 @@ export const MessageQueueDashboard = () => {
             key: 'createdAt',
             render: (date: string) => new Date(date).toLocaleString(),
         },
+        {
+            title: t('queue.scheduled_for'),
+            dataIndex: 'scheduledFor',
+            key: 'scheduledFor',
+            render: (date: string | null | undefined, record: QueueStats['messages'][number]) => {
+                if (!date) return '-';
+                const deferred = record.status === 'pending' && new Date(date) > new Date();
+                return (
+                    <Space size={4}>
+                        {new Date(date).toLocaleString()}
+                        {deferred && <Tag color="orange">{t('queue.deferred').toUpperCase()}</Tag>}
+                    </Space>
+                );
+            },
+        },
+        {
+            title: t('queue.timezone'),
+            dataIndex: 'timezone',
+            key: 'timezone',
+            render: (timezone?: string | null) => timezone || '-',
+        },
+        {
+            title: t('queue.line'),
+            dataIndex: 'phoneNumberId',
+            key: 'phoneNumberId',
+            render: (phoneNumberId?: string | null) => phoneNumberId || t('queue.default_line'),
+        },
         {
             title: t('queue.sent_at'),
             dataIndex: 'sentAt',
             key: 'sentAt',
             render: (date?: string) => date ? new Date(date).toLocaleString() : '-',
         },
+        ...(isAdmin
+            ? [
+                {
+                    title: t('common.actions'),
+                    key: 'actions',
+                    render: (_: unknown, record: QueueStats['messages'][number]) => record.status === 'dead' && (
+                        <Space>
+                            <Button
+                                size="small"
+                                icon={<RedoOutlined />}
+                                loading={deadAction === `${record.id}:retry`}
+                                onClick={() => handleDeadMessages('retry', record.id)}
+                            >
+                                {t('queue.retry')}
+                            </Button>
+                            <Button
+                                size="small"
+                                danger
+                                loading={deadAction === `${record.id}:discard`}
+                                onClick={() => handleDeadMessages('discard', record.id)}
+                            >
+                                {t('queue.discard')}
+                            </Button>
+                        </Space>
+                    ),
+                },
+            ]
+            : []),
     ];
 
     if (!stats) {
@@ -125,7 +265,7 @@ export const MessageQueueDashboard = () => {
     }
 
     const percentComplete = stats.total > 0
-        ? Math.round(((stats.sent + stats.failed) / stats.total) * 100)
+        ? Math.round(((stats.sent + stats.failed + stats.dead) / stats.total) * 100)
         : 0;
 
     return (
@@ -161,39 +301,96 @@ export const MessageQueueDashboard = () => {
         >
             <Alert
                 message="Message Queue Status"
-                description={t('queue.status_info', { count: stats.pending })}
+                description={t('queue.status_info', { count: stats.pending, rate: stats.sendRatePerMinute })}
                 type="info"
                 showIcon
-                style={{ marginBottom: 24 }}
+                style={{ marginBottom: stats.deferred > 0 ? 16 : 24 }}
             />
 
+            {stats.deferred > 0 && (
+                <Alert
+                    message={t('queue.deferred_info', { count: stats.deferred })}
+                    type="warning"
+                    showIcon
+                    style={{ marginBottom: 24 }}
+                />
+            )}
+
+            {stats.dead > 0 && (
+                <Alert
+                    message={t('queue.dead_info', { count: stats.dead })}
+                    type="error"
+                    showIcon
+                    style={{ marginBottom: 24 }}
+                    action={isAdmin && (
+                        <Space>
+                            <Button
+                                size="small"
+                                icon={<RedoOutlined />}
+                                loading={deadAction === 'all:retry'}
+                                onClick={() => handleDeadMessages('retry')}
+                            >
+                                {t('queue.retry_all_dead')}
+                            </Button>
+                            <Popconfirm
+                                title={t('queue.discard_dead_confirm')}
+                                onConfirm={() => handleDeadMessages('discard')}
+                                okText={t('common.yes')}
+                                cancelText={t('common.no')}
+                            >
+                                <Button size="small" danger loading={deadAction === 'all:discard'}>
+                                    {t('queue.discard_all_dead')}
+                                </Button>
+                            </Popconfirm>
+                        </Space>
+                    )}
+                />
+            )}
+
             <Row gutter={16} style={{ marginBottom: 24 }}>
-                <Col span={6}>
+                <Col flex={1}>
                     <Card>
                         <Statistic title={t('queue.total')} value={stats.total} />
                     </Card>
                 </Col>
-                <Col span={6}>
+                <Col flex={1}>
                     <Card>
                         <Statistic title={t('queue.pending')} value={stats.pending} valueStyle={{ color: '#1890ff' }} prefix={<ClockCircleOutlined />} />
                     </Card>
                 </Col>
-                <Col span={6}>
+                <Col flex={1}>
+                    <Card>
+                        <Statistic title={t('queue.sending')} value={stats.sending} valueStyle={{ color: '#13c2c2' }} prefix={<SendOutlined />} />
+                    </Card>
+                </Col>
+                <Col flex={1}>
+                    <Card>
+                        <Statistic title={t('queue.deferred')} value={stats.deferred} valueStyle={{ color: '#d48806' }} prefix={<FieldTimeOutlined />} />
+                    </Card>
+                </Col>
+                <Col flex={1}>
                     <Card>
                         <Statistic title={t('queue.sent')} value={stats.sent} valueStyle={{ color: '#3f8600' }} prefix={<CheckCircleOutlined />} />
                     </Card>
                 </Col>
-                <Col span={6}>
+                <Col flex={1}>
                     <Card>
                         <Statistic title={t('queue.failed')} value={stats.failed} valueStyle={{ color: '#cf1322' }} prefix={<CloseCircleOutlined />} />
                     </Card>
                 </Col>
+                <Col flex={1}>
+                    <Card>
+                        <Statistic title={t('queue.dead')} value={stats.dead} valueStyle={{ color: '#d4380d' }} prefix={<WarningOutlined />} />
+                    </Card>
+                </Col>
             </Row>
 
             <Card title={t('queue.progress')} style={{ marginBottom: 24 }}>
-                <Progress percent={percentComplete} status={stats.failed > 0 ? 'exception' : 'active'} />
+                <Progress percent={percentComplete} status={stats.failed + stats.dead > 0 ? 'exception' : 'active'} />
             </Card>
 
+            <CampaignsTable onChange={fetchStats} />
+
             <Table
                 dataSource={stats.messages}
                 columns={columns}
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    Card,
+    DatePicker,
+    Empty,
+    Input,
+    List,
+    Select,
+    Space,
+    Tag,
+    Typography,
+    message,
+} from 'antd';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+
+interface SearchResult {
+    id: string;
+    conversationId: string;
+    direction: 'incoming' | 'outgoing';
+    from: string;
+    createdAt: string;
+    snippet: string;
+    highlights: Array<[number, number]>;
+    conversation: {
+        id: string;
+        name: string | null;
+        phoneNumber: string | null;
+        driverName: string | null;
+    };
+}
+
+interface Filters {
+    q?: string;
+    direction?: 'incoming' | 'outgoing';
+    phoneNumber?: string;
+    sort: 'relevance' | 'newest';
+    from?: string;
+    to?: string;
+}
+
+const PAGE_SIZE = 20;
+
+/**
+ * A snippet with its matches marked
+ */
+const Highlighted = ({ text, highlights }: { text: string; highlights: Array<[number, number]> }) => {
+    const parts: ReactNode[] = [];
+    let position = 0;
+
+    highlights.forEach(([from, to], index) => {
+        if (from < position) return;
+        parts.push(text.slice(position, from));
+        parts.push(<mark key={index}>{text.slice(from, to)}</mark>);
+        position = to;
+    });
+    parts.push(text.slice(position));
+
+    return <span style={{ whiteSpace: 'pre-wrap' }}>{parts}</span>;
+};
+
+export const MessageSearchPage = () => {
+    const { t } = useTranslation();
+
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [filters, setFilters] = useState<Filters>({ sort: 'relevance' });
+    const [loading, setLoading] = useState(false);
+
+    const search = useCallback(async () => {
+        if (!filters.q) {
+            setResults([]);
+            setTotal(0);
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({
+                q: filters.q,
+                sort: filters.sort,
+                page: String(page),
+                limit: String(PAGE_SIZE),
+            });
+            if (filters.direction) params.set('direction', filters.direction);
+            if (filters.phoneNumber) params.set('phoneNumber', filters.phoneNumber);
+            if (filters.from) params.set('from', filters.from);
+            if (filters.to) params.set('to', filters.to);
+
+            const response = await apiFetch(`${API_BASE_URL}/messages/search?${params}`);
+            const data = await response.json();
+            if (data.success) {
+                setResults(data.data.items);
+                setTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error searching messages:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    }, [filters, page, t]);
+
+    useEffect(() => {
+        search();
+    }, [search]);
+
+    const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+        setFilters((current) => ({ ...current, [key]: value }));
+        setPage(1);
+    };
+
+    return (
+        <Card title={t('message_search.title')}>
+            <Space wrap style={{ marginBottom: 16 }}>
+                <Input.Search
+                    allowClear
+                    enterButton
+                    style={{ width: 320 }}
+                    placeholder={t('message_search.placeholder')}
+                    onSearch={(value) => setFilter('q', value.trim() || undefined)}
+                />
+                <Select
+                    allowClear
+                    style={{ width: 150 }}
+                    placeholder={t('message_search.direction')}
+                    value={filters.direction}
+                    onChange={(value) => setFilter('direction', value)}
+                    options={[
+                        { value: 'incoming', label: t('message_search.incoming') },
+                        { value: 'outgoing', label: t('message_search.outgoing') },
+                    ]}
+                />
+                <Input.Search
+                    allowClear
+                    style={{ width: 180 }}
+                    placeholder={t('common.phone')}
+                    onSearch={(value) => setFilter('phoneNumber', value.trim() || undefined)}
+                />
+                <DatePicker.RangePicker
+                    onChange={(range) => {
+                        setFilters((current) => ({
+                            ...current,
+                            from: range?.[0]?.startOf('day').toISOString(),
+                            to: range?.[1]?.endOf('day').toISOString(),
+                        }));
+                        setPage(1);
+                    }}
+                />
+                <Select
+                    style={{ width: 150 }}
+                    value={filters.sort}
+                    onChange={(value) => setFilter('sort', value)}
+                    options={[
+                        { value: 'relevance', label: t('message_search.sort_relevance') },
+                        { value: 'newest', label: t('message_search.sort_newest') },
+                    ]}
+                />
+            </Space>
+
+            <List
+                loading={loading}
+                dataSource={results}
+                locale={{
+                    emptyText: (
+                        <Empty
+                            description={
+                                filters.q ? t('message_search.no_results') : t('message_search.hint')
+                            }
+                        />
+                    ),
+                }}
+                pagination={
+                    total > PAGE_SIZE && {
+                        current: page,
+                        pageSize: PAGE_SIZE,
+                        total,
+                        showSizeChanger: false,
+                        onChange: setPage,
+                    }
+                }
+                renderItem={(item) => (
+                    <List.Item
+                        extra={
+                            <Link to={`/inbox?conversation=${encodeURIComponent(item.conversationId)}`}>
+                                {t('message_search.open_thread')}
+                            </Link>
+                        }
+                    >
+                        <List.Item.Meta
+                            title={
+                                <Space size={8} wrap>
+                                    <span>
+                                        {item.conversation.driverName ||
+                                            item.conversation.name ||
+                                            item.conversation.phoneNumber ||
+                                            item.from}
+                                    </span>
+                                    <Tag color={item.direction === 'incoming' ? 'blue' : 'default'}>
+                                        {t(`message_search.${item.direction}`)}
+                                    </Tag>
+                                    <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                                        {new Date(item.createdAt).toLocaleString()}
+                                    </Typography.Text>
+                                </Space>
+                            }
+                            description={
+                                <Highlighted text={item.snippet} highlights={item.highlights} />
+                            }
+                        />
+                    </List.Item>
+                )}
+            />
+        </Card>
+    );
+};
@@ -4,6 +4,7 @@ import type { TableProps } from 'antd';
 import { ReloadOutlined, SendOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
 import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
 import { BulkMessageModal } from './BulkMessageModal';
 
 interface Pickup {
@@ -66,7 +67,7 @@ export const PickupsTable = () => {
     const fetchPickups = useCallback(async () => {
         setLoading(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/pickups`);
+            const response = await apiFetch(`${API_BASE_URL}/pickups`);
             const result: ApiResponse = await response.json();
 
             if (result.success) {
@@ -93,7 +94,7 @@ export const PickupsTable = () => {
     const handleManualSync = async () => {
         setSyncing(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/pickups/sync`, {
+            const response = await apiFetch(`${API_BASE_URL}/pickups/sync`, {
                 method: 'POST',
             });
             const result = await response.json();
@@ -113,7 +114,7 @@ export const PickupsTable = () => {
 
     const handleNotesChange = async (id: string, newNotes: string) => {
         try {
-            const response = await fetch(`${API_BASE_URL}/pickups/${id}/notes`, {
+            const response = await apiFetch(`${API_BASE_URL}/pickups/${id}/notes`, {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ notes: newNotes || null }),
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, Card, Table, Tag, Button, Space, Select, Typography, message } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+
+type SourceKey = 'loads' | 'pickups' | 'allcars';
+type Severity = 'error' | 'warning';
+type Reason =
+    | 'invalid_vin'
+    | 'invalid_phone'
+    | 'invalid_pickup_day'
+    | 'unknown_location'
+    | 'unknown_status'
+    | 'column_not_found'
+    | 'row_failed';
+
+interface SyncRun {
+    id: string;
+    jobName: string;
+    status: 'running' | 'success' | 'failed';
+    startedAt: string;
+    error: string | null;
+    diagnosticCount: number;
+}
+
+interface Diagnostic {
+    id: string;
+    tab: string | null;
+    rowNumber: number;
+    column: string | null;
+    value: string | null;
+    reason: Reason;
+    severity: Severity;
+    message: string | null;
+}
+
+const SOURCES: SourceKey[] = ['loads', 'pickups', 'allcars'];
+
+const REASONS: Reason[] = [
+    'invalid_vin',
+    'invalid_phone',
+    'invalid_pickup_day',
+    'unknown_location',
+    'unknown_status',
+    'column_not_found',
+    'row_failed',
+];
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+    error: 'red',
+    warning: 'orange',
+};
+
+const PAGE_SIZE = 50;
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+export const SheetIssuesPage = () => {
+    const { t } = useTranslation();
+
+    const [source, setSource] = useState<SourceKey>('loads');
+    const [runs, setRuns] = useState<SyncRun[]>([]);
+    const [runId, setRunId] = useState<string | undefined>(undefined);
+    const [runsLoading, setRunsLoading] = useState(false);
+    const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [reason, setReason] = useState<Reason | undefined>(undefined);
+    const [severity, setSeverity] = useState<Severity | undefined>(undefined);
+    const [loading, setLoading] = useState(false);
+
+    const fetchRuns = useCallback(async () => {
+        setRunsLoading(true);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/sheet-sources/${source}/runs`);
+            const data = await response.json();
+            if (data.success) {
+                setRuns(data.data);
+                setRunId(data.data[0]?.id);
+                setPage(1);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching sync runs:', error);
+            message.error(t('common.error'));
+        } finally {
+            setRunsLoading(false);
+        }
+    }, [source, t]);
+
+    const fetchDiagnostics = useCallback(async () => {
+        if (!runId) {
+            setDiagnostics([]);
+            setTotal(0);
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({
+                page: String(page),
+                limit: String(PAGE_SIZE),
+            });
+            if (reason) params.set('reason', reason);
+            if (severity) params.set('severity', severity);
+
+            const response = await apiFetch(
+                `${API_BASE_URL}/sheet-sources/runs/${runId}/diagnostics?${params}`
+            );
+            const data = await response.json();
+            if (data.success) {
+                setDiagnostics(data.data.items);
+                setTotal(data.data.pagination.totalItems);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching row diagnostics:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    }, [runId, page, reason, severity, t]);
+
+    useEffect(() => {
+        fetchRuns();
+    }, [fetchRuns]);
+
+    useEffect(() => {
+        fetchDiagnostics();
+    }, [fetchDiagnostics]);
+
+    const selectedRun = runs.find((run) => run.id === runId);
+
+    const columns = [
+        {
+            title: t('sheet_sources.tab'),
+            dataIndex: 'tab',
+            key: 'tab',
+            render: (tab: string | null) => tab ?? '-',
+        },
+        {
+            title: t('jobs.row'),
+            dataIndex: 'rowNumber',
+            key: 'rowNumber',
+        },
+        {
+            title: t('sheet_sources.column'),
+            dataIndex: 'column',
+            key: 'column',
+            render: (column: string | null) =>
+                column ? t(`sheet_sources.field_${column}`, { defaultValue: column }) : '-',
+        },
+        {
+            title: t('sheet_issues.value'),
+            dataIndex: 'value',
+            key: 'value',
+            render: (value: string | null) =>
+                value ? <Typography.Text code>{value}</Typography.Text> : '-',
+        },
+        {
+            title: t('sheet_issues.reason'),
+            key: 'reason',
+            render: (_: unknown, record: Diagnostic) => (
+                <Tag color={SEVERITY_COLORS[record.severity]}>
+                    {t(`sheet_issues.reason_${record.reason}`)}
+                </Tag>
+            ),
+        },
+        {
+            title: t('sheet_issues.details'),
+            dataIndex: 'message',
+            key: 'message',
+            render: (text: string | null) => text ?? '-',
+        },
+    ];
+
+    return (
+        <Card
+            title={t('sheet_issues.title')}
+            extra={
+                <Button icon={<ReloadOutlined />} onClick={fetchRuns} loading={runsLoading}>
+                    {t('common.refresh')}
+                </Button>
+            }
+        >
+            <Typography.Paragraph type="secondary">{t('sheet_issues.info')}</Typography.Paragraph>
+
+            <Space wrap style={{ marginBottom: 16 }}>
+                <Select
+                    style={{ width: 200 }}
+                    value={source}
+                    onChange={(value: SourceKey) => {
+                        setRuns([]);
+                        setRunId(undefined);
+                        setSource(value);
+                    }}
+                    options={SOURCES.map((key) => ({
+                        value: key,
+                        label: t(`sheet_sources.source_${key}`),
+                    }))}
+                />
+                <Select
+                    style={{ width: 320 }}
+                    placeholder={t('sheet_issues.run')}
+                    loading={runsLoading}
+                    value={runId}
+                    onChange={(value: string) => {
+                        setRunId(value);
+                        setPage(1);
+                    }}
+                    options={runs.map((run) => ({
+                        value: run.id,
+                        label: `${formatDate(run.startedAt)} · ${t(`jobs.status_${run.status}`)} · ${t(
+                            'sheet_issues.issue_count',
+                            { count: run.diagnosticCount }
+                        )}`,
+                    }))}
+                />
+                <Select
+                    allowClear
+                    style={{ width: 220 }}
+                    placeholder={t('sheet_issues.reason')}
+                    value={reason}
+                    onChange={(value?: Reason) => {
+                        setReason(value);
+                        setPage(1);
+                    }}
+                    options={REASONS.map((key) => ({
+                        value: key,
+                        label: t(`sheet_issues.reason_${key}`),
+                    }))}
+                />
+                <Select
+                    allowClear
+                    style={{ width: 160 }}
+                    placeholder={t('sheet_issues.severity')}
+                    value={severity}
+                    onChange={(value?: Severity) => {
+                        setSeverity(value);
+                        setPage(1);
+                    }}
+                    options={(['error', 'warning'] as Severity[]).map((key) => ({
+                        value: key,
+                        label: t(`sheet_issues.severity_${key}`),
+                    }))}
+                />
+            </Space>
+
+            {selectedRun?.error && (
+                <Alert type="error" showIcon message={selectedRun.error} style={{ marginBottom: 16 }} />
+            )}
+
+            <Table
+                dataSource={diagnostics}
+                columns={columns}
+                rowKey="id"
+                size="small"
+                loading={loading}
+                locale={{ emptyText: runId ? t('sheet_issues.no_issues') : t('sheet_issues.no_runs') }}
+                pagination={{
+                    current: page,
+                    pageSize: PAGE_SIZE,
+                    total,
+                    onChange: setPage,
+                    showSizeChanger: false,
+                }}
+            />
+        </Card>
+    );
+};
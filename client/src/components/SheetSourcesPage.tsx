@@ -0,0 +1,532 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Alert,
+    Button,
+    Card,
+    Descriptions,
+    Form,
+    Input,
+    InputNumber,
+    Modal,
+    Popconfirm,
+    Select,
+    Space,
+    Switch,
+    Table,
+    Tag,
+    Typography,
+    message,
+} from 'antd';
+import { DeleteOutlined, EditOutlined, EyeOutlined, PlusOutlined, ReloadOutlined, UndoOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { API_BASE_URL } from '../config';
+import { apiFetch } from '../lib/api';
+
+type FilterOperator = 'equals' | 'notEquals' | 'contains' | 'empty' | 'notEmpty';
+
+interface ColumnMapping {
+    header?: string | string[] | null;
+    index?: number | null;
+}
+
+interface RowFilter {
+    column: string;
+    operator: FilterOperator;
+    value?: string | null;
+}
+
+interface SheetSource {
+    key: string;
+    spreadsheetId: string | null;
+    tabPattern: string;
+    headerRow: number;
+    monthsBack: number;
+    columns: Record<string, ColumnMapping>;
+    filters: RowFilter[];
+    enabled: boolean;
+    isDefault: boolean;
+    fields: string[];
+    requiredFields: string[];
+    defaultSpreadsheetId: string | null;
+    updatedAt: string | null;
+}
+
+interface SheetSourcePreview {
+    spreadsheetId: string;
+    tabName: string;
+    headers: string[];
+    columns: Record<string, { index: number; letter: string; header: string | null } | null>;
+    warnings: string[];
+    totalRows: number;
+    filtered: number;
+}
+
+interface SourceFormValues {
+    spreadsheetId?: string;
+    tabPattern: string;
+    headerRow: number;
+    monthsBack?: number;
+    enabled: boolean;
+    columns: Record<string, { header?: string[]; index?: number | null }>;
+    filters: RowFilter[];
+}
+
+const OPERATORS: FilterOperator[] = ['equals', 'notEquals', 'contains', 'empty', 'notEmpty'];
+
+const columnLetter = (index: number) => {
+    let letter = '';
+    let n = index + 1;
+    while (n > 0) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+        n = Math.floor((n - 1) / 26);
+    }
+    return letter;
+};
+
+const headerList = (header?: string | string[] | null) =>
+    Array.isArray(header) ? header : header ? [header] : [];
+
+const formatMapping = (mapping?: ColumnMapping) => {
+    if (!mapping) return '-';
+    const headers = headerList(mapping.header);
+    const index = mapping.index ?? null;
+
+    return [
+        headers.length > 0 ? headers.map((header) => `"${header}"`).join(' / ') : null,
+        index !== null ? columnLetter(index) : null,
+    ]
+        .filter(Boolean)
+        .join(' → ') || '-';
+};
+
+export const SheetSourcesPage = () => {
+    const { t } = useTranslation();
+    const [form] = Form.useForm<SourceFormValues>();
+
+    const [sources, setSources] = useState<SheetSource[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [editing, setEditing] = useState<SheetSource | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [preview, setPreview] = useState<{ key: string; data: SheetSourcePreview } | null>(null);
+    const [previewLoading, setPreviewLoading] = useState<string | null>(null);
+
+    const fetchSources = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/sheet-sources`);
+            const data = await response.json();
+            if (data.success) {
+                setSources(data.data);
+            } else {
+                message.error(data.error?.message || t('common.error'));
+            }
+        } catch (error) {
+            console.error('Error fetching sheet sources:', error);
+            message.error(t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        fetchSources();
+    }, [fetchSources]);
+
+    // Fill the form once the editor has mounted it
+    useEffect(() => {
+        if (!editing) return;
+
+        const source = editing;
+        form.resetFields();
+        form.setFieldsValue({
+            spreadsheetId: source.spreadsheetId ?? undefined,
+            tabPattern: source.tabPattern,
+            headerRow: source.headerRow,
+            monthsBack: source.monthsBack,
+            enabled: source.enabled,
+            columns: Object.fromEntries(
+                source.fields.map((field) => [
+                    field,
+                    {
+                        header: headerList(source.columns[field]?.header),
+                        index: source.columns[field]?.index ?? null,
+                    },
+                ])
+            ),
+            filters: source.filters,
+        });
+    }, [editing, form]);
+
+    const handleSave = async () => {
+        if (!editing) return;
+
+        try {
+            const values = await form.validateFields();
+            setSaving(true);
+
+            const columns: Record<string, ColumnMapping> = {};
+            for (const [field, mapping] of Object.entries(values.columns || {})) {
+                const headers = mapping.header || [];
+                const index = mapping.index ?? null;
+                if (headers.length === 0 && index === null) continue;
+
+                columns[field] = {
+                    header: headers.length === 0 ? null : headers.length === 1 ? headers[0] : headers,
+                    index,
+                };
+            }
+
+            const response = await apiFetch(`${API_BASE_URL}/sheet-sources/${editing.key}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    spreadsheetId: values.spreadsheetId?.trim() || null,
+                    tabPattern: values.tabPattern,
+                    headerRow: values.headerRow,
+                    monthsBack: values.monthsBack ?? 0,
+                    enabled: values.enabled,
+                    columns,
+                    filters: (values.filters || []).map((filter) => ({
+                        column: filter.column,
+                        operator: filter.operator,
+                        value: filter.value || null,
+                    })),
+                }),
+            });
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error?.message || data.message || t('common.error'));
+            }
+
+            message.success(t('sheet_sources.saved'));
+            setEditing(null);
+            fetchSources();
+        } catch (error) {
+            // Form validation errors are shown on the fields
+            if (error instanceof Error) {
+                message.error(error.message);
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleReset = async (source: SheetSource) => {
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/sheet-sources/${source.key}`, {
+                method: 'DELETE',
+            });
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error?.message || data.message || t('common.error'));
+            }
+
+            message.success(t('sheet_sources.reset_done'));
+            fetchSources();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        }
+    };
+
+    const handlePreview = async (source: SheetSource) => {
+        setPreviewLoading(source.key);
+        try {
+            const response = await apiFetch(`${API_BASE_URL}/sheet-sources/${source.key}/preview`);
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error?.message || data.message || t('common.error'));
+            }
+
+            setPreview({ key: source.key, data: data.data });
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : t('common.error'));
+        } finally {
+            setPreviewLoading(null);
+        }
+    };
+
+    const columns = [
+        {
+            title: t('sheet_sources.source'),
+            dataIndex: 'key',
+            key: 'key',
+            render: (key: string, record: SheetSource) => (
+                <Space>
+                    <Typography.Text strong>{t(`sheet_sources.source_${key}`)}</Typography.Text>
+                    {record.isDefault && <Tag>{t('sheet_sources.built_in')}</Tag>}
+                    {!record.enabled && <Tag color="default">{t('sheet_sources.disabled')}</Tag>}
+                </Space>
+            ),
+        },
+        {
+            title: t('sheet_sources.spreadsheet'),
+            key: 'spreadsheetId',
+            render: (_: unknown, record: SheetSource) =>
+                record.spreadsheetId || (
+                    <Typography.Text type="secondary">
+                        {record.defaultSpreadsheetId || t('sheet_sources.not_configured')}
+                    </Typography.Text>
+                ),
+        },
+        {
+            title: t('sheet_sources.tab_pattern'),
+            dataIndex: 'tabPattern',
+            key: 'tabPattern',
+            render: (pattern: string, record: SheetSource) => (
+                <Space size={4}>
+                    <Typography.Text code>{pattern}</Typography.Text>
+                    {record.monthsBack > 0 && (
+                        <Typography.Text type="secondary">
+                            {t('sheet_sources.months_back_count', { count: record.monthsBack })}
+                        </Typography.Text>
+                    )}
+                </Space>
+            ),
+        },
+        {
+            title: t('sheet_sources.columns'),
+            key: 'columns',
+            render: (_: unknown, record: SheetSource) => (
+                <Space direction="vertical" size={0}>
+                    {record.fields.map((field) => (
+                        <Typography.Text key={field} style={{ fontSize: 12 }}>
+                            {t(`sheet_sources.field_${field}`)}: {formatMapping(record.columns[field])}
+                        </Typography.Text>
+                    ))}
+                </Space>
+            ),
+        },
+        {
+            title: t('sheet_sources.filters'),
+            key: 'filters',
+            render: (_: unknown, record: SheetSource) =>
+                record.filters.length === 0
+                    ? '-'
+                    : record.filters.map((filter, index) => (
+                        <Tag key={index}>
+                            {t(`sheet_sources.field_${filter.column}`)} {t(`sheet_sources.op_${filter.operator}`)}{' '}
+                            {filter.value || ''}
+                        </Tag>
+                    )),
+        },
+        {
+            title: t('common.actions'),
+            key: 'actions',
+            render: (_: unknown, record: SheetSource) => (
+                <Space>
+                    <Button size="small" icon={<EditOutlined />} onClick={() => setEditing(record)}>
+                        {t('common.edit')}
+                    </Button>
+                    <Button
+                        size="small"
+                        icon={<EyeOutlined />}
+                        loading={previewLoading === record.key}
+                        onClick={() => handlePreview(record)}
+                    >
+                        {t('sheet_sources.check')}
+                    </Button>
+                    {!record.isDefault && (
+                        <Popconfirm
+                            title={t('sheet_sources.reset_confirm')}
+                            onConfirm={() => handleReset(record)}
+                            okText={t('common.yes')}
+                            cancelText={t('common.no')}
+                        >
+                            <Button size="small" icon={<UndoOutlined />}>
+                                {t('sheet_sources.reset')}
+                            </Button>
+                        </Popconfirm>
+                    )}
+                </Space>
+            ),
+        },
+    ];
+
+    return (
+        <Card
+            title={t('sheet_sources.title')}
+            extra={
+                <Button icon={<ReloadOutlined />} onClick={fetchSources} loading={loading}>
+                    {t('common.refresh')}
+                </Button>
+            }
+        >
+            <Alert message={t('sheet_sources.info')} type="info" showIcon style={{ marginBottom: 16 }} />
+
+            <Table dataSource={sources} columns={columns} rowKey="key" loading={loading} pagination={false} />
+
+            <Modal
+                title={editing ? t(`sheet_sources.source_${editing.key}`) : ''}
+                open={!!editing}
+                onCancel={() => setEditing(null)}
+                onOk={handleSave}
+                okText={t('common.update')}
+                cancelText={t('common.cancel')}
+                confirmLoading={saving}
+                width={760}
+                destroyOnHidden
+            >
+                {editing && (
+                    <Form form={form} layout="vertical">
+                        <Form.Item
+                            name="spreadsheetId"
+                            label={t('sheet_sources.spreadsheet')}
+                            extra={t('sheet_sources.spreadsheet_hint')}
+                        >
+                            <Input placeholder={editing.defaultSpreadsheetId || t('sheet_sources.not_configured')} />
+                        </Form.Item>
+                        <Space size="large" align="start">
+                            <Form.Item
+                                name="tabPattern"
+                                label={t('sheet_sources.tab_pattern')}
+                                extra={t('sheet_sources.tab_pattern_hint')}
+                                rules={[{ required: true, message: t('sheet_sources.tab_pattern_required') }]}
+                            >
+                                <Input style={{ width: 240 }} />
+                            </Form.Item>
+                            <Form.Item name="headerRow" label={t('sheet_sources.header_row')}>
+                                <InputNumber min={1} max={100} />
+                            </Form.Item>
+                            {editing.key === 'loads' && (
+                                <Form.Item
+                                    name="monthsBack"
+                                    label={t('sheet_sources.months_back')}
+                                    extra={t('sheet_sources.months_back_hint')}
+                                >
+                                    <InputNumber min={0} max={11} />
+                                </Form.Item>
+                            )}
+                            <Form.Item name="enabled" label={t('sheet_sources.enabled')} valuePropName="checked">
+                                <Switch />
+                            </Form.Item>
+                        </Space>
+
+                        <Typography.Title level={5}>{t('sheet_sources.columns')}</Typography.Title>
+                        <Typography.Paragraph type="secondary">{t('sheet_sources.columns_hint')}</Typography.Paragraph>
+                        {editing.fields.map((field) => (
+                            <Space key={field} align="start" style={{ display: 'flex' }}>
+                                <Typography.Text style={{ display: 'inline-block', width: 140, paddingTop: 5 }}>
+                                    {t(`sheet_sources.field_${field}`)}
+                                    {editing.requiredFields.includes(field) && ' *'}
+                                </Typography.Text>
+                                <Form.Item name={['columns', field, 'header']}>
+                                    <Select
+                                        mode="tags"
+                                        style={{ width: 320 }}
+                                        placeholder={t('sheet_sources.header_placeholder')}
+                                        open={false}
+                                        suffixIcon={null}
+                                    />
+                                </Form.Item>
+                                <Form.Item name={['columns', field, 'index']}>
+                                    <InputNumber
+                                        min={0}
+                                        max={701}
+                                        placeholder={t('sheet_sources.index_placeholder')}
+                                        style={{ width: 140 }}
+                                    />
+                                </Form.Item>
+                            </Space>
+                        ))}
+
+                        <Typography.Title level={5}>{t('sheet_sources.filters')}</Typography.Title>
+                        <Typography.Paragraph type="secondary">{t('sheet_sources.filters_hint')}</Typography.Paragraph>
+                        <Form.List name="filters">
+                            {(fields, { add, remove }) => (
+                                <>
+                                    {fields.map(({ key, name }) => (
+                                        <Space key={key} align="start" style={{ display: 'flex' }}>
+                                            <Form.Item
+                                                name={[name, 'column']}
+                                                rules={[{ required: true, message: t('sheet_sources.filter_column_required') }]}
+                                            >
+                                                <Select
+                                                    style={{ width: 180 }}
+                                                    placeholder={t('sheet_sources.filter_column')}
+                                                    options={editing.fields.map((field) => ({
+                                                        value: field,
+                                                        label: t(`sheet_sources.field_${field}`),
+                                                    }))}
+                                                />
+                                            </Form.Item>
+                                            <Form.Item name={[name, 'operator']} initialValue="equals">
+                                                <Select
+                                                    style={{ width: 160 }}
+                                                    options={OPERATORS.map((operator) => ({
+                                                        value: operator,
+                                                        label: t(`sheet_sources.op_${operator}`),
+                                                    }))}
+                                                />
+                                            </Form.Item>
+                                            <Form.Item name={[name, 'value']}>
+                                                <Input style={{ width: 180 }} placeholder={t('sheet_sources.filter_value')} />
+                                            </Form.Item>
+                                            <Button icon={<DeleteOutlined />} onClick={() => remove(name)} />
+                                        </Space>
+                                    ))}
+                                    <Button type="dashed" icon={<PlusOutlined />} onClick={() => add()}>
+                                        {t('sheet_sources.add_filter')}
+                                    </Button>
+                                </>
+                            )}
+                        </Form.List>
+                    </Form>
+                )}
+            </Modal>
+
+            <Modal
+                title={preview ? t(`sheet_sources.source_${preview.key}`) : ''}
+                open={!!preview}
+                onCancel={() => setPreview(null)}
+                footer={null}
+                width={640}
+            >
+                {preview && (
+                    <>
+                        {preview.data.warnings.map((warning) => (
+                            <Alert key={warning} message={warning} type="warning" showIcon style={{ marginBottom: 8 }} />
+                        ))}
+                        <Descriptions column={2} size="small" bordered style={{ marginBottom: 16 }}>
+                            <Descriptions.Item label={t('sheet_sources.tab')}>{preview.data.tabName}</Descriptions.Item>
+                            <Descriptions.Item label={t('sheet_sources.rows')}>
+                                {preview.data.totalRows} ({t('sheet_sources.filtered_count', { count: preview.data.filtered })})
+                            </Descriptions.Item>
+                        </Descriptions>
+                        <Table
+                            size="small"
+                            pagination={false}
+                            rowKey="field"
+                            dataSource={Object.entries(preview.data.columns).map(([field, column]) => ({ field, column }))}
+                            columns={[
+                                {
+                                    title: t('sheet_sources.field'),
+                                    dataIndex: 'field',
+                                    key: 'field',
+                                    render: (field: string) => t(`sheet_sources.field_${field}`),
+                                },
+                                {
+                                    title: t('sheet_sources.column'),
+                                    key: 'column',
+                                    render: (_: unknown, record: { column: SheetSourcePreview['columns'][string] }) =>
+                                        record.column ? (
+                                            <Space>
+                                                <Tag color="blue">{record.column.letter}</Tag>
+                                                {record.column.header || '-'}
+                                            </Space>
+                                        ) : (
+                                            <Tag color="error">{t('sheet_sources.not_found')}</Tag>
+                                        ),
+                                },
+                            ]}
+                        />
+                    </>
+                )}
+            </Modal>
+        </Card>
+    );
+};
@@ -0,0 +1,23 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Spin } from 'antd';
+import { useAuth } from '../../hooks/useAuth';
+
+export const ProtectedRoute = ({ children }: { children: ReactNode }) => {
+    const { user, initializing } = useAuth();
+    const location = useLocation();
+
+    if (initializing) {
+        return (
+            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+                <Spin size="large" />
+            </div>
+        );
+    }
+
+    if (!user) {
+        return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+    }
+
+    return <>{children}</>;
+};
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { API_BASE_URL } from '../config';
+import {
+    apiFetch,
+    clearTokens,
+    getAccessToken,
+    getRefreshToken,
+    saveTokens,
+    SESSION_EXPIRED_EVENT,
+} from '../lib/api';
+import { AuthContext } from './auth-context';
+import type { AuthUser } from './auth-context';
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+    const [user, setUser] = useState<AuthUser | null>(null);
+    const [initializing, setInitializing] = useState(true);
+
+    // Restore the session from stored tokens on first load
+    useEffect(() => {
+        const restoreSession = async () => {
+            if (!getAccessToken()) {
+                setInitializing(false);
+                return;
+            }
+
+            try {
+                const response = await apiFetch(`${API_BASE_URL}/auth/me`);
+                const result = await response.json();
+
+                if (response.ok && result.success) {
+                    setUser(result.data);
+                } else {
+                    clearTokens();
+                }
+            } catch {
+                clearTokens();
+            } finally {
+                setInitializing(false);
+            }
+        };
+
+        restoreSession();
+    }, []);
+
+    useEffect(() => {
+        const handleExpired = () => setUser(null);
+        window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+        return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    }, []);
+
+    const login = useCallback(async (email: string, password: string) => {
+        const response = await fetch(`${API_BASE_URL}/auth/login`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email, password }),
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+            throw new Error(result.error?.message || 'Login failed');
+        }
+
+        saveTokens(result.data.tokens);
+        setUser(result.data.user);
+    }, []);
+
+    const logout = useCallback(async () => {
+        const refreshToken = getRefreshToken();
+
+        if (refreshToken) {
+            try {
+                await fetch(`${API_BASE_URL}/auth/logout`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ refreshToken }),
+                });
+            } catch {
+                // Session is dropped locally regardless of the server response
+            }
+        }
+
+        clearTokens();
+        setUser(null);
+    }, []);
+
+    const value = useMemo(
+        () => ({ user, initializing, login, logout }),
+        [user, initializing, login, logout]
+    );
+
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
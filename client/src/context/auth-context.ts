@@ -0,0 +1,19 @@
+import { createContext } from 'react';
+
+export type UserRole = 'USER' | 'ADMIN';
+
+export interface AuthUser {
+    id: string;
+    email: string;
+    name: string | null;
+    role: UserRole;
+}
+
+export interface AuthContextValue {
+    user: AuthUser | null;
+    initializing: boolean;
+    login: (email: string, password: string) => Promise<void>;
+    logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
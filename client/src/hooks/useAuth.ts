@@ -0,0 +1,15 @@
+import { useContext } from 'react';
+import { AuthContext } from '../context/auth-context';
+import type { AuthContextValue } from '../context/auth-context';
+
+/**
+ * Access the current user and login/logout actions.
+ * Must be used inside <AuthProvider>.
+ */
+export function useAuth(): AuthContextValue {
+    const context = useContext(AuthContext);
+    if (!context) {
+        throw new Error('useAuth must be used within an AuthProvider');
+    }
+    return context;
+}
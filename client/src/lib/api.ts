@@ -0,0 +1,87 @@
+import { API_BASE_URL } from '../config';
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export interface AuthTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+}
+
+export const getAccessToken = (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const saveTokens = (tokens: AuthTokens): void => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+};
+
+export const clearTokens = (): void => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Fired when the session can no longer be refreshed so the auth provider
+ * can drop the user and send them back to the login page.
+ */
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+// Shared between concurrent requests so a burst of 401s only refreshes once
+let refreshPromise: Promise<boolean> | null = null;
+
+const refreshTokens = async (): Promise<boolean> => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return false;
+
+    try {
+        const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.success) return false;
+
+        saveTokens(result.data);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const withAuthHeader = (init: RequestInit = {}): RequestInit => {
+    const headers = new Headers(init.headers);
+    const token = getAccessToken();
+    if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+    }
+    return { ...init, headers };
+};
+
+/**
+ * Drop-in replacement for fetch() that attaches the access token and
+ * transparently refreshes it once when the API answers 401.
+ */
+export const apiFetch = async (input: string, init?: RequestInit): Promise<Response> => {
+    const response = await fetch(input, withAuthHeader(init));
+
+    if (response.status !== 401 || !getRefreshToken()) {
+        return response;
+    }
+
+    refreshPromise ??= refreshTokens().finally(() => {
+        refreshPromise = null;
+    });
+
+    if (!(await refreshPromise)) {
+        clearTokens();
+        window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+        return response;
+    }
+
+    return fetch(input, withAuthHeader(init));
+};
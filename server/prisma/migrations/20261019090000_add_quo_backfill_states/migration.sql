@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `quo_backfill_states` (
+    `id` VARCHAR(191) NOT NULL,
+    `phone_number_id` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'idle',
+    `page_token` VARCHAR(512) NULL,
+    `high_water_mark` DATETIME(3) NULL,
+    `pending_high_water_mark` DATETIME(3) NULL,
+    `pages_fetched` INTEGER NOT NULL DEFAULT 0,
+    `conversations_synced` INTEGER NOT NULL DEFAULT 0,
+    `messages_synced` INTEGER NOT NULL DEFAULT 0,
+    `failed_conversations` INTEGER NOT NULL DEFAULT 0,
+    `last_error` TEXT NULL,
+    `started_at` DATETIME(3) NULL,
+    `completed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `quo_backfill_states_phone_number_id_key`(`phone_number_id`),
+    INDEX `quo_backfill_states_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
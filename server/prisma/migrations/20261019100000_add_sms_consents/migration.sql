@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `sms_consents` (
+    `id` VARCHAR(191) NOT NULL,
+    `phone_number` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL,
+    `channel` VARCHAR(191) NOT NULL,
+    `keyword` VARCHAR(191) NULL,
+    `source_message_id` VARCHAR(191) NULL,
+    `changed_by` VARCHAR(191) NULL,
+    `changed_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `sms_consents_phone_number_key`(`phone_number`),
+    INDEX `sms_consents_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Migrate the legacy `drivers.notes = "x"` opt-out marker to consent records
+INSERT INTO `sms_consents` (`id`, `phone_number`, `status`, `channel`, `changed_at`, `created_at`, `updated_at`)
+SELECT UUID(), `phone_number`, 'opted_out', 'legacy', `updated_at`, CURRENT_TIMESTAMP(3), CURRENT_TIMESTAMP(3)
+FROM `drivers`
+WHERE LOWER(TRIM(`notes`)) = 'x';
+
+UPDATE `drivers` SET `notes` = NULL WHERE LOWER(TRIM(`notes`)) = 'x';
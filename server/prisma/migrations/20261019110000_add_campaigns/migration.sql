@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE `campaigns` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `template` TEXT NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'draft',
+    `created_by_id` VARCHAR(191) NULL,
+    `scheduled_at` DATETIME(3) NULL,
+    `started_at` DATETIME(3) NULL,
+    `completed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `campaigns_status_idx`(`status`),
+    INDEX `campaigns_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `campaign_id` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `queued_messages_campaign_id_idx` ON `queued_messages`(`campaign_id`);
+
+-- AddForeignKey
+ALTER TABLE `campaigns` ADD CONSTRAINT `campaigns_created_by_id_fkey` FOREIGN KEY (`created_by_id`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `queued_messages` ADD CONSTRAINT `queued_messages_campaign_id_fkey` FOREIGN KEY (`campaign_id`) REFERENCES `campaigns`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `scheduled_for` DATETIME(3) NULL,
+    ADD COLUMN `timezone` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `queued_messages_status_scheduled_for_idx` ON `queued_messages`(`status`, `scheduled_for`);
+
+-- CreateTable
+CREATE TABLE `quiet_hours` (
+    `id` VARCHAR(191) NOT NULL,
+    `timezone` VARCHAR(191) NOT NULL,
+    `start_time` VARCHAR(5) NOT NULL,
+    `end_time` VARCHAR(5) NOT NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `updated_by` VARCHAR(191) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `quiet_hours_timezone_key`(`timezone`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
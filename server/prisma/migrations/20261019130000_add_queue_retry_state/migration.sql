@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `error_type` VARCHAR(191) NULL,
+    ADD COLUMN `next_attempt_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `queued_messages_status_next_attempt_at_idx` ON `queued_messages`(`status`, `next_attempt_at`);
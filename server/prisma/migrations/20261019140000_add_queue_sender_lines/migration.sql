@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `phone_number_id` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `campaigns` ADD COLUMN `phone_number_id` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `queued_messages_phone_number_id_idx` ON `queued_messages`(`phone_number_id`);
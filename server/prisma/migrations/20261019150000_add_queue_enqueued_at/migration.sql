@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `enqueued_at` DATETIME(3) NULL;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `scheduled_jobs` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `schedule` VARCHAR(191) NULL,
+    `lease_owner` VARCHAR(191) NULL,
+    `lease_expires_at` DATETIME(3) NULL,
+    `last_run_at` DATETIME(3) NULL,
+    `last_finished_at` DATETIME(3) NULL,
+    `last_status` VARCHAR(191) NULL,
+    `last_error` TEXT NULL,
+    `last_duration_ms` INTEGER NULL,
+    `last_run_by` VARCHAR(191) NULL,
+    `next_run_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `scheduled_jobs_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
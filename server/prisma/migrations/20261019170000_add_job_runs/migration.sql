@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `job_runs` (
+    `id` VARCHAR(191) NOT NULL,
+    `job_name` VARCHAR(191) NOT NULL,
+    `trigger` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'running',
+    `started_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `finished_at` DATETIME(3) NULL,
+    `duration_ms` INTEGER NULL,
+    `counts` JSON NULL,
+    `error` TEXT NULL,
+    `error_samples` JSON NULL,
+    `run_by` VARCHAR(191) NULL,
+
+    INDEX `job_runs_job_name_started_at_idx`(`job_name`, `started_at`),
+    INDEX `job_runs_started_at_idx`(`started_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
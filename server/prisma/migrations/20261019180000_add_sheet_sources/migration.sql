@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `sheet_sources` (
+    `id` VARCHAR(191) NOT NULL,
+    `key` VARCHAR(191) NOT NULL,
+    `spreadsheet_id` VARCHAR(191) NULL,
+    `tab_pattern` VARCHAR(191) NOT NULL,
+    `header_row` INTEGER NOT NULL DEFAULT 1,
+    `columns` JSON NOT NULL,
+    `filters` JSON NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `updated_by` VARCHAR(191) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `sheet_sources_key_key`(`key`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE `job_run_diagnostics` (
+    `id` VARCHAR(191) NOT NULL,
+    `run_id` VARCHAR(191) NOT NULL,
+    `tab` VARCHAR(191) NULL,
+    `row_number` INTEGER NOT NULL,
+    `column` VARCHAR(191) NULL,
+    `value` VARCHAR(500) NULL,
+    `reason` VARCHAR(191) NOT NULL,
+    `severity` VARCHAR(191) NOT NULL,
+    `message` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `job_run_diagnostics_run_id_row_number_idx`(`run_id`, `row_number`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `job_run_diagnostics` ADD CONSTRAINT `job_run_diagnostics_run_id_fkey` FOREIGN KEY (`run_id`) REFERENCES `job_runs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
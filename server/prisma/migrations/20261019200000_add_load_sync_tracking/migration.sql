@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `loads` ADD COLUMN `sheet_tab` VARCHAR(191) NULL,
+    ADD COLUMN `row_hash` CHAR(64) NULL,
+    ADD COLUMN `closed_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `loads_sheet_tab_closed_at_idx` ON `loads`(`sheet_tab`, `closed_at`);
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE `sheet_sources` ADD COLUMN `months_back` INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `loads` ADD COLUMN `sheet_source` VARCHAR(191) NULL;
+
+-- Loads with a tab so far all came from the loads sheet
+UPDATE `loads` SET `sheet_source` = 'loads' WHERE `sheet_tab` IS NOT NULL;
+
+-- DropIndex
+DROP INDEX `loads_sheet_tab_closed_at_idx` ON `loads`;
+
+-- CreateIndex
+CREATE INDEX `loads_sheet_source_sheet_tab_closed_at_idx` ON `loads`(`sheet_source`, `sheet_tab`, `closed_at`);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `sheet_write_backs` (
+    `id` VARCHAR(191) NOT NULL,
+    `load_id` VARCHAR(191) NOT NULL,
+    `driver_phone` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'pending',
+    `tab` VARCHAR(191) NULL,
+    `row_number` INTEGER NULL,
+    `conflict` VARCHAR(191) NULL,
+    `existing_value` VARCHAR(500) NULL,
+    `error` TEXT NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `processed_at` DATETIME(3) NULL,
+
+    UNIQUE INDEX `sheet_write_backs_load_id_key`(`load_id`),
+    INDEX `sheet_write_backs_status_created_at_idx`(`status`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `sheet_write_backs` ADD CONSTRAINT `sheet_write_backs_load_id_fkey` FOREIGN KEY (`load_id`) REFERENCES `loads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable: keep the STATUS text as raw_status, add the normalized status
+ALTER TABLE `loads` RENAME COLUMN `status` TO `raw_status`;
+ALTER TABLE `loads` ADD COLUMN `status` VARCHAR(191) NOT NULL DEFAULT 'unknown',
+    ADD COLUMN `status_changed_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `loads_status_idx` ON `loads`(`status`);
+
+-- Loads with a STATUS text are written again by the next sync, which normalizes it
+UPDATE `loads` SET `row_hash` = NULL WHERE `raw_status` IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE `load_status_events` (
+    `id` VARCHAR(191) NOT NULL,
+    `load_id` VARCHAR(191) NOT NULL,
+    `from_status` VARCHAR(191) NOT NULL,
+    `to_status` VARCHAR(191) NOT NULL,
+    `source` VARCHAR(191) NOT NULL,
+    `raw_value` VARCHAR(500) NULL,
+    `message_id` VARCHAR(191) NULL,
+    `phone_number` VARCHAR(191) NULL,
+    `occurred_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `load_status_events_load_id_message_id_key`(`load_id`, `message_id`),
+    INDEX `load_status_events_load_id_occurred_at_idx`(`load_id`, `occurred_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `load_status_events` ADD CONSTRAINT `load_status_events_load_id_fkey` FOREIGN KEY (`load_id`) REFERENCES `loads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
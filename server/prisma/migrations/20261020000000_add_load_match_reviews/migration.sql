@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE `load_match_reviews` (
+    `id` VARCHAR(191) NOT NULL,
+    `phone_number` VARCHAR(191) NOT NULL,
+    `load_id` VARCHAR(191) NOT NULL,
+    `conversation_id` VARCHAR(191) NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'pending',
+    `resolved_load_id` VARCHAR(191) NULL,
+    `resolved_by_id` VARCHAR(191) NULL,
+    `resolved_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `load_match_reviews_phone_number_load_id_key`(`phone_number`, `load_id`),
+    INDEX `load_match_reviews_status_updated_at_idx`(`status`, `updated_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `load_match_candidates` (
+    `id` VARCHAR(191) NOT NULL,
+    `review_id` VARCHAR(191) NOT NULL,
+    `load_id` VARCHAR(191) NOT NULL,
+    `score` INTEGER NOT NULL DEFAULT 0,
+    `reasons` JSON NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `load_match_candidates_review_id_load_id_key`(`review_id`, `load_id`),
+    INDEX `load_match_candidates_load_id_idx`(`load_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `load_match_reviews` ADD CONSTRAINT `load_match_reviews_resolved_load_id_fkey` FOREIGN KEY (`resolved_load_id`) REFERENCES `loads`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `load_match_reviews` ADD CONSTRAINT `load_match_reviews_resolved_by_id_fkey` FOREIGN KEY (`resolved_by_id`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `load_match_candidates` ADD CONSTRAINT `load_match_candidates_review_id_fkey` FOREIGN KEY (`review_id`) REFERENCES `load_match_reviews`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `load_match_candidates` ADD CONSTRAINT `load_match_candidates_load_id_fkey` FOREIGN KEY (`load_id`) REFERENCES `loads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `messages_text_idx` ON `messages`(`text`);
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE `conversations` ADD COLUMN `assignee_id` VARCHAR(191) NULL,
+    ADD COLUMN `status` VARCHAR(191) NOT NULL DEFAULT 'open',
+    ADD COLUMN `status_changed_at` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `conversation_tags` (
+    `id` VARCHAR(191) NOT NULL,
+    `conversation_id` VARCHAR(191) NOT NULL,
+    `tag` VARCHAR(191) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `conversation_tags_conversation_id_tag_key`(`conversation_id`, `tag`),
+    INDEX `conversation_tags_tag_idx`(`tag`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `conversation_notes` (
+    `id` VARCHAR(191) NOT NULL,
+    `conversation_id` VARCHAR(191) NOT NULL,
+    `author_id` VARCHAR(191) NULL,
+    `body` TEXT NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `conversation_notes_conversation_id_created_at_idx`(`conversation_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `conversations_status_last_activity_at_idx` ON `conversations`(`status`, `last_activity_at`);
+
+-- CreateIndex
+CREATE INDEX `conversations_assignee_id_idx` ON `conversations`(`assignee_id`);
+
+-- AddForeignKey
+ALTER TABLE `conversations` ADD CONSTRAINT `conversations_assignee_id_fkey` FOREIGN KEY (`assignee_id`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `conversation_tags` ADD CONSTRAINT `conversation_tags_conversation_id_fkey` FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `conversation_notes` ADD CONSTRAINT `conversation_notes_conversation_id_fkey` FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `conversation_notes` ADD CONSTRAINT `conversation_notes_author_id_fkey` FOREIGN KEY (`author_id`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `quo_message_id` VARCHAR(191) NULL,
+    ADD COLUMN `delivery_status` VARCHAR(191) NULL,
+    ADD COLUMN `delivery_updated_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `queued_messages_quo_message_id_key` ON `queued_messages`(`quo_message_id`);
+
+-- CreateIndex
+CREATE INDEX `queued_messages_phone_number_delivery_status_idx` ON `queued_messages`(`phone_number`, `delivery_status`);
+
+-- CreateIndex
+CREATE INDEX `queued_messages_campaign_id_delivery_status_idx` ON `queued_messages`(`campaign_id`, `delivery_status`);
+
+-- CreateTable
+CREATE TABLE `sms_reachability` (
+    `id` VARCHAR(191) NOT NULL,
+    `phone_number` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'reachable',
+    `hard_failures` INTEGER NOT NULL DEFAULT 0,
+    `last_error` TEXT NULL,
+    `last_failure_at` DATETIME(3) NULL,
+    `last_delivered_at` DATETIME(3) NULL,
+    `unreachable_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `sms_reachability_phone_number_key`(`phone_number`),
+    INDEX `sms_reachability_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
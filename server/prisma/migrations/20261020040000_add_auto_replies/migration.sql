@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE `auto_reply_rules` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `priority` INTEGER NOT NULL DEFAULT 0,
+    `keywords` JSON NOT NULL,
+    `load_condition` VARCHAR(191) NOT NULL DEFAULT 'any',
+    `load_statuses` JSON NOT NULL,
+    `template` TEXT NOT NULL,
+    `cooldown_minutes` INTEGER NOT NULL DEFAULT 60,
+    `created_by_id` VARCHAR(191) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `auto_reply_rules_enabled_priority_idx`(`enabled`, `priority`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `auto_reply_logs` (
+    `id` VARCHAR(191) NOT NULL,
+    `rule_id` VARCHAR(191) NULL,
+    `phone_number` VARCHAR(191) NOT NULL,
+    `conversation_id` VARCHAR(191) NOT NULL,
+    `trigger_message_id` VARCHAR(191) NOT NULL,
+    `load_id` VARCHAR(191) NULL,
+    `content` TEXT NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'sending',
+    `quo_message_id` VARCHAR(191) NULL,
+    `error` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `auto_reply_logs_trigger_message_id_key`(`trigger_message_id`),
+    INDEX `auto_reply_logs_rule_id_phone_number_created_at_idx`(`rule_id`, `phone_number`, `created_at`),
+    INDEX `auto_reply_logs_phone_number_idx`(`phone_number`),
+    INDEX `auto_reply_logs_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `auto_reply_rules` ADD CONSTRAINT `auto_reply_rules_created_by_id_fkey` FOREIGN KEY (`created_by_id`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `auto_reply_logs` ADD CONSTRAINT `auto_reply_logs_rule_id_fkey` FOREIGN KEY (`rule_id`) REFERENCES `auto_reply_rules`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `quo_backfill_states` ADD COLUMN `oldest_failure_at` DATETIME(3) NULL;
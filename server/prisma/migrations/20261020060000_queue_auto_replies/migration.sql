@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `priority` INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `auto_reply_logs` ADD COLUMN `queued_message_id` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `auto_reply_logs_queued_message_id_key` ON `auto_reply_logs`(`queued_message_id`);
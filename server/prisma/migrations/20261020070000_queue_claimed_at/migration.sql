@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `queued_messages` ADD COLUMN `claimed_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `queued_messages_status_claimed_at_idx` ON `queued_messages`(`status`, `claimed_at`);
@@ -33,10 +33,20 @@ import { authRoutes } from './modules/auth/auth.routes.js';
 import { resourceRoutes } from './modules/resources/resources.routes.js';
 import { adminRoutes } from './modules/admin/admin.routes.js';
 import { quoMessagesRoutes } from './modules/quo-messages/quo-messages.routes.js';
+import { quoWebhookRoutes } from './modules/quo-messages/quo-webhook.routes.js';
 import { driverRoutes } from './modules/drivers/driver.routes.js';
 import { unknownDriverRoutes } from './modules/drivers/unknown-driver.routes.js';
 import { pickupRoutes } from './modules/pickups/pickups.routes.js';
 import { loadInquiryRoutes } from './modules/load-inquiries/load-inquiries.routes.js';
+import { consentRoutes } from './modules/consent/consent.routes.js';
+import { campaignRoutes } from './modules/campaigns/campaigns.routes.js';
+import { quietHoursRoutes } from './modules/quiet-hours/quiet-hours.routes.js';
+import { sheetSourceRoutes } from './modules/sheet-sources/sheet-sources.routes.js';
+import { loadRoutes } from './modules/loads/loads.routes.js';
+import { loadReviewRoutes } from './modules/load-reviews/load-reviews.routes.js';
+import { inboxRoutes } from './modules/inbox/inbox.routes.js';
+import { deliveryRoutes } from './modules/deliveries/deliveries.routes.js';
+import { autoReplyRoutes } from './modules/auto-replies/auto-replies.routes.js';
 import {
     requireRole,
     requireAdmin,
@@ -76,10 +86,20 @@ const buildApp = async () => {
     await app.register(resourceRoutes, { prefix: `${env.API_PREFIX}/resources` });
     await app.register(adminRoutes, { prefix: `${env.API_PREFIX}/admin` });
     await app.register(quoMessagesRoutes, { prefix: env.API_PREFIX });
+    await app.register(quoWebhookRoutes, { prefix: `${env.API_PREFIX}/webhooks` });
     await app.register(driverRoutes, { prefix: env.API_PREFIX });
     await app.register(unknownDriverRoutes, { prefix: `${env.API_PREFIX}/unknown-drivers` });
     await app.register(pickupRoutes, { prefix: env.API_PREFIX });
     await app.register(loadInquiryRoutes, { prefix: env.API_PREFIX });
+    await app.register(consentRoutes, { prefix: env.API_PREFIX });
+    await app.register(campaignRoutes, { prefix: env.API_PREFIX });
+    await app.register(quietHoursRoutes, { prefix: env.API_PREFIX });
+    await app.register(sheetSourceRoutes, { prefix: env.API_PREFIX });
+    await app.register(loadRoutes, { prefix: env.API_PREFIX });
+    await app.register(loadReviewRoutes, { prefix: env.API_PREFIX });
+    await app.register(inboxRoutes, { prefix: env.API_PREFIX });
+    await app.register(deliveryRoutes, { prefix: env.API_PREFIX });
+    await app.register(autoReplyRoutes, { prefix: env.API_PREFIX });
 
     // 6. Serve static files from public directory (after routes to avoid conflicts)
     await app.register(fastifyStatic, {
@@ -3,12 +3,24 @@
  *
  * Scheduled tasks that run periodically:
  * - Match unknown drivers to locations every 10 minutes
+ * - Dispatch due queued messages every 5 seconds (to the BullMQ worker, or sent inline without Redis)
+ * - Start scheduled campaigns every minute
+ * - Delete old job run history daily
+ *
+ * Each job runs under a lease (see scheduled-jobs.service.ts), so with
+ * several API instances every run happens once.
  */
 
-import cron from 'node-cron';
 import logger from '../libs/logger.js';
-import { unknownDriverService } from '../modules/drivers/unknown-driver.service.js';
+import { dispatchSyncJob } from '../libs/sync-jobs.js';
+import { scheduledJobService } from '../modules/scheduled-jobs/scheduled-jobs.service.js';
 import { messageQueueService } from '../services/message-queue.service.js';
+import { campaignService } from '../modules/campaigns/campaigns.service.js';
+
+/**
+ * Days of job run history kept
+ */
+const JOB_RUN_RETENTION_DAYS = 30;
 
 export function initCronJobs() {
     logger.info('[CRON] Initializing scheduled jobs...');
@@ -26,10 +38,8 @@ export function initCronJobs() {
     (async () => {
         try {
             logger.info('[CRON] Running unknown driver matching on startup...');
-            const result = await unknownDriverService.matchUnknownDrivers();
-            logger.info(
-                { matchedCount: result.matchedCount, totalChecked: result.totalChecked },
-                '[CRON] SUCCESS: Startup unknown driver matching completed'
+            await scheduledJobService.run('unknown-driver-matching', () =>
+                dispatchSyncJob('unknown-driver-matching', 'startup')
             );
         } catch (error: any) {
             logger.error({ error: error.message }, '[CRON] ERROR: Startup unknown driver matching failed');
@@ -37,33 +47,52 @@ export function initCronJobs() {
     })();
 
     // Then schedule to run every 10 minutes
-    cron.schedule('*/10 * * * *', async () => {
-        try {
-            logger.info('[CRON] Running scheduled unknown driver matching...');
-            const result = await unknownDriverService.matchUnknownDrivers();
-            logger.info(
-                { matchedCount: result.matchedCount, totalChecked: result.totalChecked },
-                '[CRON] SUCCESS: Scheduled unknown driver matching completed'
-            );
-        } catch (error: any) {
-            logger.error({ error: error.message }, '[CRON] ERROR: Unknown driver matching cron job failed');
-        }
-    });
+    scheduledJobService.schedule('unknown-driver-matching', '*/10 * * * *', () =>
+        dispatchSyncJob('unknown-driver-matching')
+    );
 
     /**
      * Process Message Queue
-     * Runs every 20 seconds
+     * Runs every 5 seconds
      *
-     * This job processes the message queue and sends one message every 20 seconds
-     * to avoid rate limiting and ensure reliable delivery.
+     * This job hands due queued messages to the worker process as BullMQ
+     * jobs, one queue per sender line with a BullMQ rate limiter
+     * (QUEUE_SEND_RATE_PER_MINUTE, default 3 per minute). When Redis is
+     * unavailable it sends them from this process instead. Messages whose
+     * recipient is in quiet hours are deferred (see quiet-hours.service.ts).
+     * Only runs that dispatched messages or failed are recorded.
      */
 
-    cron.schedule('*/20 * * * * *', async () => {
-        try {
-            await messageQueueService.processNext();
-        } catch (error: any) {
-            logger.error({ error: error.message }, '[CRON] ERROR: Message queue processing failed');
-        }
+    scheduledJobService.schedule(
+        'message-dispatch',
+        '*/5 * * * * *',
+        () => messageQueueService.dispatchDue(),
+        { isIdle: (dispatched) => dispatched === 0 }
+    );
+
+    /**
+     * Start Scheduled Campaigns
+     * Runs every minute
+     *
+     * Moves campaigns whose scheduledAt has passed from scheduled to running,
+     * so the message queue starts sending their messages.
+     */
+
+    scheduledJobService.schedule('campaign-start', '* * * * *', () =>
+        campaignService.startDueCampaigns()
+    );
+
+    /**
+     * Delete Old Job Runs
+     * Runs daily at 3:30 AM
+     *
+     * Keeps the job run history (GET /admin/jobs/:name/runs) to the last
+     * JOB_RUN_RETENTION_DAYS days.
+     */
+
+    scheduledJobService.schedule('job-run-cleanup', '30 3 * * *', async () => {
+        const deleted = await scheduledJobService.pruneRuns(JOB_RUN_RETENTION_DAYS);
+        logger.info({ deleted }, '[CRON] SUCCESS: Old job runs deleted');
     });
 
     logger.info('[CRON] All scheduled jobs initialized successfully');
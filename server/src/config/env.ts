@@ -65,11 +65,43 @@ const envSchema = z.object({
     QUO_API: z.string().min(1, 'QUO_API key is required'),
     QUO_NUMBER: z.string().min(1, 'QUO_NUMBER is required for sending messages'),
     QUO_PHONE_NUMBER_ID: z.string().optional(), // Phone number ID to sync (defaults to PNqErUjbAJ)
+    QUO_WEBHOOK_SECRET: z.string().optional(), // Base64 webhook signing key (webhooks rejected if unset)
+
+    // Message Queue Send Window (defaults for time zones without their own quiet hours)
+    QUIET_HOURS_START: z
+        .string()
+        .regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+        .default('21:00'),
+    QUIET_HOURS_END: z
+        .string()
+        .regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+        .default('08:00'),
+    QUEUE_DEFAULT_TIMEZONE: z.string().default('America/New_York'), // Used when a recipient's state is unknown
+
+    // Message Queue Throughput (token bucket per sender line)
+    QUEUE_SEND_RATE_PER_MINUTE: z.coerce.number().positive().default(3), // Sustained sends per line
+    QUEUE_SEND_BURST: z.coerce.number().int().min(1).default(1), // Max sends at once per line
+    QUEUE_LINE_RATE_LIMITS: z.string().optional(), // JSON per-line overrides: {"PN...": {"ratePerMinute": 6, "burst": 2}}
+
+    // Message Queue Retries (transient Quo errors; permanent errors are not retried)
+    QUEUE_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5), // Then the message is moved to 'dead'
+    QUEUE_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().default(60000), // 1 minute, doubles per attempt
+    QUEUE_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().default(3600000), // 1 hour
+
+    // Delivery tracking: a number is flagged unreachable after this many hard failures in a row
+    UNREACHABLE_AFTER_HARD_FAILURES: z.coerce.number().int().min(1).default(3),
+
+    // Auto-replies only answer driver texts newer than this (syncs and backfills replay history)
+    AUTO_REPLY_MAX_AGE_MINUTES: z.coerce.number().int().min(1).default(30),
 
     // Google Sheets Configuration
     GOOGLE_SHEETS_CREDENTIALS: z.string().optional(), // Base64 encoded credentials JSON
     GOOGLE_SHEET_ID: z.string().optional(), // The Google Sheet ID to sync loads from
     GOOGLE_ALLCARS_SHEET_ID: z.string().optional(), // The allcars Google Sheet ID for VIN/load inquiry tracking
+    SHEET_WRITE_BACK: z
+        .string()
+        .transform((val) => val === 'true')
+        .optional(), // Write phones of drivers matched via SMS back to the loads sheet (needs edit access)
 });
 
 /**
@@ -0,0 +1,23 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { env } from '../../config/env.js';
+import { UnauthorizedError } from '../../utils/errors.js';
+import logger from '../logger.js';
+import { QUO_SIGNATURE_HEADER, verifyQuoSignature } from '../quo-webhook-signature.js';
+
+/**
+ * Reject webhook deliveries that are not signed with QUO_WEBHOOK_SECRET.
+ * Requires the raw body captured by the webhook routes' content type parser.
+ */
+export async function verifyQuoWebhookMiddleware(request: FastifyRequest, _reply: FastifyReply) {
+    if (!env.QUO_WEBHOOK_SECRET) {
+        logger.warn('[QUO WEBHOOK] QUO_WEBHOOK_SECRET is not set - rejecting webhook delivery');
+        throw new UnauthorizedError('Webhook signing secret is not configured');
+    }
+
+    const header = request.headers[QUO_SIGNATURE_HEADER];
+    const signature = Array.isArray(header) ? header.join(',') : header;
+
+    if (!verifyQuoSignature(signature, request.rawBody ?? '', env.QUO_WEBHOOK_SECRET)) {
+        throw new UnauthorizedError('Invalid webhook signature');
+    }
+}
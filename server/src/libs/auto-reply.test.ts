@@ -0,0 +1,95 @@
+/**
+ * Auto-Reply Rules Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    type AutoReplyConditions,
+    isInCooldown,
+    matchesKeywords,
+    matchesRule,
+    normalizeKeywords,
+} from './auto-reply';
+
+describe('normalizeKeywords', () => {
+    it('should trim, lowercase and dedupe keywords', () => {
+        expect(normalizeKeywords([' Available ', 'still  there', 'available', ''])).toEqual([
+            'available',
+            'still there',
+        ]);
+    });
+});
+
+describe('matchesKeywords', () => {
+    it('should match keywords as whole words, ignoring case', () => {
+        expect(matchesKeywords('Is 4B21C7 still AVAILABLE?', ['available'])).toBe(true);
+        expect(matchesKeywords('that one is unavailable', ['available'])).toBe(false);
+    });
+
+    it('should match phrases across extra whitespace', () => {
+        expect(matchesKeywords('still\n  there?', ['still there'])).toBe(true);
+    });
+
+    it('should match any text without keywords', () => {
+        expect(matchesKeywords('hello', [])).toBe(true);
+    });
+});
+
+describe('matchesRule', () => {
+    const rule = (overrides: Partial<AutoReplyConditions>): AutoReplyConditions => ({
+        keywords: [],
+        loadCondition: 'any',
+        loadStatuses: [],
+        ...overrides,
+    });
+    const text = 'is 4B21C7 still available?';
+
+    it('should check whether the mentioned load exists', () => {
+        const known = { text, loadId: '4B21C7', load: { status: 'posted' as const } };
+        const unknown = { text, loadId: '4B21C7', load: null };
+        const none = { text: 'any loads?', loadId: null, load: null };
+
+        expect(matchesRule(rule({ loadCondition: 'exists' }), known)).toBe(true);
+        expect(matchesRule(rule({ loadCondition: 'exists' }), unknown)).toBe(false);
+        expect(matchesRule(rule({ loadCondition: 'missing' }), unknown)).toBe(true);
+        expect(matchesRule(rule({ loadCondition: 'missing' }), none)).toBe(false);
+        expect(matchesRule(rule({ loadCondition: 'mentioned' }), unknown)).toBe(true);
+        expect(matchesRule(rule({ loadCondition: 'none' }), none)).toBe(true);
+    });
+
+    it('should require a load with one of the statuses', () => {
+        const statusRule = rule({ loadStatuses: ['posted', 'unknown'] });
+
+        expect(
+            matchesRule(statusRule, { text, loadId: '4B21C7', load: { status: 'posted' } })
+        ).toBe(true);
+        expect(
+            matchesRule(statusRule, { text, loadId: '4B21C7', load: { status: 'dispatched' } })
+        ).toBe(false);
+        expect(matchesRule(statusRule, { text, loadId: '4B21C7', load: null })).toBe(false);
+    });
+
+    it('should combine text and load conditions', () => {
+        const availability = rule({ keywords: ['available'], loadCondition: 'exists' });
+        const load = { status: 'posted' as const };
+
+        expect(matchesRule(availability, { text, loadId: '4B21C7', load })).toBe(true);
+        expect(
+            matchesRule(availability, { text: 'picked up 4B21C7', loadId: '4B21C7', load })
+        ).toBe(false);
+    });
+});
+
+describe('isInCooldown', () => {
+    const now = new Date('2026-10-20T12:00:00Z');
+
+    it('should hold replies within the cooldown', () => {
+        expect(isInCooldown(new Date('2026-10-20T11:30:00Z'), 60, now)).toBe(true);
+        expect(isInCooldown(new Date('2026-10-20T10:59:00Z'), 60, now)).toBe(false);
+    });
+
+    it('should not hold replies without a previous one or a cooldown', () => {
+        expect(isInCooldown(null, 60, now)).toBe(false);
+        expect(isInCooldown(new Date('2026-10-20T11:59:00Z'), 0, now)).toBe(false);
+    });
+});
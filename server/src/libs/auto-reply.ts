@@ -0,0 +1,128 @@
+/**
+ * Auto-Reply Rules
+ *
+ * Whether an auto-reply rule answers a driver's text. A rule can look at:
+ *
+ * - the text: any of its keywords, matched as whole words ("available"
+ *   matches "is it still available?" but not "unavailable")
+ * - the Load ID the text mentions: none, any, one we have a load for, or one
+ *   we don't
+ * - the status of that load
+ *
+ * Conditions a rule leaves empty always match. Rules are tried in priority
+ * order and the first match answers.
+ */
+
+import type { LoadStatus } from './load-status.js';
+
+export const AUTO_REPLY_LOAD_CONDITIONS = [
+    'any',
+    'none',
+    'mentioned',
+    'exists',
+    'missing',
+] as const;
+
+export type AutoReplyLoadCondition = (typeof AUTO_REPLY_LOAD_CONDITIONS)[number];
+
+/**
+ * Placeholders an auto-reply template can use
+ */
+export const AUTO_REPLY_PLACEHOLDERS = [
+    'name',
+    'companyName',
+    'loadId',
+    'loadStatus',
+    'pickupLocation',
+    'deliveryLocation',
+] as const;
+
+export interface AutoReplyConditions {
+    /** Lowercase words or phrases; empty = any text */
+    keywords: string[];
+    loadCondition: AutoReplyLoadCondition;
+    /** Statuses the mentioned load must have; empty = any */
+    loadStatuses: LoadStatus[];
+}
+
+export interface AutoReplyContext {
+    text: string;
+    /** Load ID the text mentions */
+    loadId: string | null;
+    /** Our load for that Load ID */
+    load: { status: LoadStatus } | null;
+}
+
+/**
+ * Trim, lowercase and dedupe rule keywords
+ */
+export function normalizeKeywords(keywords: string[]): string[] {
+    const normalized = keywords
+        .map((keyword) => keyword.trim().toLowerCase().replace(/\s+/g, ' '))
+        .filter((keyword) => keyword.length > 0);
+
+    return [...new Set(normalized)];
+}
+
+/**
+ * Whether a text contains any of the keywords as whole words
+ */
+export function matchesKeywords(text: string, keywords: string[]): boolean {
+    if (keywords.length === 0) return true;
+
+    const normalized = text.toLowerCase().replace(/\s+/g, ' ');
+    return keywords.some((keyword) => {
+        const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(normalized);
+    });
+}
+
+/**
+ * Whether the Load ID condition of a rule holds
+ */
+function matchesLoadCondition(
+    condition: AutoReplyLoadCondition,
+    context: AutoReplyContext
+): boolean {
+    switch (condition) {
+        case 'any':
+            return true;
+        case 'none':
+            return context.loadId === null;
+        case 'mentioned':
+            return context.loadId !== null;
+        case 'exists':
+            return context.load !== null;
+        case 'missing':
+            return context.loadId !== null && context.load === null;
+    }
+}
+
+/**
+ * Whether a rule answers a text
+ *
+ * A status filter needs a load, whatever the Load ID condition says.
+ */
+export function matchesRule(rule: AutoReplyConditions, context: AutoReplyContext): boolean {
+    if (!matchesLoadCondition(rule.loadCondition, context)) return false;
+
+    if (rule.loadStatuses.length > 0) {
+        if (!context.load || !rule.loadStatuses.includes(context.load.status)) return false;
+    }
+
+    return matchesKeywords(context.text, rule.keywords);
+}
+
+/**
+ * Whether a rule answered a driver too recently to answer again
+ *
+ * @param lastSentAt - When the rule last answered the driver
+ */
+export function isInCooldown(
+    lastSentAt: Date | null,
+    cooldownMinutes: number,
+    now: Date = new Date()
+): boolean {
+    if (!lastSentAt || cooldownMinutes <= 0) return false;
+    return now.getTime() - lastSentAt.getTime() < cooldownMinutes * 60 * 1000;
+}
@@ -0,0 +1,25 @@
+/**
+ * Retry Backoff Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getBackoffDelay } from './backoff';
+
+const options = { baseDelayMs: 60_000, maxDelayMs: 600_000 };
+
+describe('getBackoffDelay', () => {
+    it('should double the delay after every failed attempt', () => {
+        expect(getBackoffDelay(1, options)).toBe(60_000);
+        expect(getBackoffDelay(2, options)).toBe(120_000);
+        expect(getBackoffDelay(3, options)).toBe(240_000);
+    });
+
+    it('should cap the delay', () => {
+        expect(getBackoffDelay(10, options)).toBe(600_000);
+    });
+
+    it('should honor a longer Retry-After', () => {
+        expect(getBackoffDelay(1, options, 90_000)).toBe(90_000);
+        expect(getBackoffDelay(3, options, 5_000)).toBe(240_000);
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * Retry Backoff
+ *
+ * Exponential backoff schedule for retrying failed work (e.g. queued SMS).
+ */
+
+export interface BackoffOptions {
+    /** Delay before the first retry */
+    baseDelayMs: number;
+    /** Upper bound for any single delay */
+    maxDelayMs: number;
+}
+
+/**
+ * Delay before the next attempt
+ *
+ * The delay doubles with every failed attempt (base, 2x base, 4x base, ...)
+ * up to `maxDelayMs`. A longer delay requested by the remote side
+ * (Retry-After) wins.
+ *
+ * @param failedAttempts - Number of attempts made so far (>= 1)
+ * @param options - Base and maximum delay
+ * @param retryAfterMs - Delay requested by the remote side, if any
+ */
+export function getBackoffDelay(
+    failedAttempts: number,
+    options: BackoffOptions,
+    retryAfterMs?: number
+): number {
+    const exponent = Math.max(0, failedAttempts - 1);
+    const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** exponent);
+
+    return retryAfterMs !== undefined ? Math.max(delay, retryAfterMs) : delay;
+}
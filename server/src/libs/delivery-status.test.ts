@@ -0,0 +1,91 @@
+/**
+ * Delivery Status Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    isFinalDeliveryStatus,
+    isRecipientRejection,
+    nextReachability,
+    summarizeDeliveries,
+} from './delivery-status';
+
+describe('isFinalDeliveryStatus', () => {
+    it('should treat delivered, undelivered and failed as final', () => {
+        expect(isFinalDeliveryStatus('delivered')).toBe(true);
+        expect(isFinalDeliveryStatus('undelivered')).toBe(true);
+        expect(isFinalDeliveryStatus('failed')).toBe(true);
+    });
+
+    it('should treat in-flight and unknown statuses as not final', () => {
+        expect(isFinalDeliveryStatus('sent')).toBe(false);
+        expect(isFinalDeliveryStatus('queued')).toBe(false);
+        expect(isFinalDeliveryStatus(null)).toBe(false);
+    });
+});
+
+describe('isRecipientRejection', () => {
+    it('should blame the number only for invalid or refused request statuses', () => {
+        expect(isRecipientRejection(400)).toBe(true);
+        expect(isRecipientRejection(403)).toBe(true);
+        expect(isRecipientRejection(422)).toBe(true);
+        expect(isRecipientRejection(401)).toBe(false);
+        expect(isRecipientRejection(undefined)).toBe(false);
+    });
+});
+
+describe('summarizeDeliveries', () => {
+    it('should work out rates over the messages with a final status', () => {
+        const summary = summarizeDeliveries([
+            { status: 'delivered', count: 6 },
+            { status: 'undelivered', count: 1 },
+            { status: 'failed', count: 1 },
+            { status: 'sent', count: 3 },
+            { status: null, count: 1 },
+        ]);
+
+        expect(summary).toEqual({
+            delivered: 6,
+            undelivered: 1,
+            failed: 1,
+            pending: 4,
+            total: 12,
+            deliveredRate: 0.75,
+            undeliveredRate: 0.125,
+            failedRate: 0.125,
+        });
+    });
+
+    it('should leave rates empty until a message has a final status', () => {
+        const summary = summarizeDeliveries([{ status: 'sent', count: 2 }]);
+
+        expect(summary.pending).toBe(2);
+        expect(summary.deliveredRate).toBeNull();
+        expect(summary.failedRate).toBeNull();
+    });
+});
+
+describe('nextReachability', () => {
+    const reachable = { status: 'reachable' as const, hardFailures: 0 };
+
+    it('should flag a number after repeated hard failures', () => {
+        let state = nextReachability(reachable, 'failed', 3);
+        state = nextReachability(state, 'failed', 3);
+        expect(state).toEqual({ status: 'reachable', hardFailures: 2 });
+
+        state = nextReachability(state, 'failed', 3);
+        expect(state).toEqual({ status: 'unreachable', hardFailures: 3 });
+    });
+
+    it('should not count undelivered texts', () => {
+        const state = nextReachability({ status: 'reachable', hardFailures: 2 }, 'undelivered', 3);
+
+        expect(state).toEqual({ status: 'reachable', hardFailures: 2 });
+    });
+
+    it('should clear the flag when a text is delivered', () => {
+        const state = nextReachability({ status: 'unreachable', hardFailures: 4 }, 'delivered', 3);
+
+        expect(state).toEqual({ status: 'reachable', hardFailures: 0 });
+    });
+});
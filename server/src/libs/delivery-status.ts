@@ -0,0 +1,120 @@
+/**
+ * Delivery Status
+ *
+ * How the Quo status of a text we sent counts in delivery reports, and when
+ * failures to reach a number make it unreachable.
+ *
+ * Quo moves an outgoing message through queued -> sending -> sent and ends on
+ * one of:
+ * - delivered
+ * - undelivered: the carrier could not hand it over (phone off, out of
+ *   coverage...), which may work next time
+ * - failed: the carrier refused it (landline, invalid or disconnected number)
+ *
+ * Only `failed`, and Quo rejecting the send itself for the recipient, are
+ * hard failures.
+ */
+
+export const FINAL_DELIVERY_STATUSES = ['delivered', 'undelivered', 'failed'] as const;
+
+export type FinalDeliveryStatus = (typeof FINAL_DELIVERY_STATUSES)[number];
+
+export type ReachabilityStatus = 'reachable' | 'unreachable';
+
+export interface DeliveryCounts {
+    delivered: number;
+    undelivered: number;
+    failed: number;
+    /** Sent but no final status from Quo yet */
+    pending: number;
+}
+
+export interface DeliveryRates extends DeliveryCounts {
+    total: number;
+    /** Shares of the messages with a final status (null until one has) */
+    deliveredRate: number | null;
+    undeliveredRate: number | null;
+    failedRate: number | null;
+}
+
+export interface ReachabilityState {
+    status: ReachabilityStatus;
+    /** Hard failures since the last delivered text */
+    hardFailures: number;
+}
+
+/**
+ * Quo statuses of a send request rejected because of the recipient (invalid,
+ * unsupported or refused number). Other permanent errors (401...) are ours.
+ */
+const RECIPIENT_REJECTION_STATUSES = new Set([400, 403, 422]);
+
+/**
+ * Whether Quo has settled the delivery of a message
+ */
+export function isFinalDeliveryStatus(status: string | null | undefined): boolean {
+    return FINAL_DELIVERY_STATUSES.includes(status as FinalDeliveryStatus);
+}
+
+/**
+ * Whether a rejected send request counts against the recipient's number
+ *
+ * @param httpStatus - HTTP status of the Quo API error
+ */
+export function isRecipientRejection(httpStatus: number | undefined): boolean {
+    return httpStatus !== undefined && RECIPIENT_REJECTION_STATUSES.has(httpStatus);
+}
+
+/**
+ * Count messages by delivery outcome and work out the rates
+ *
+ * @param groups - Message counts by Quo status (null = not reported yet)
+ */
+export function summarizeDeliveries(
+    groups: Array<{ status: string | null; count: number }>
+): DeliveryRates {
+    const counts: DeliveryCounts = { delivered: 0, undelivered: 0, failed: 0, pending: 0 };
+
+    for (const { status, count } of groups) {
+        if (isFinalDeliveryStatus(status)) counts[status as FinalDeliveryStatus] += count;
+        else counts.pending += count;
+    }
+
+    const settled = counts.delivered + counts.undelivered + counts.failed;
+    const rate = (count: number) =>
+        settled > 0 ? Math.round((count / settled) * 1000) / 1000 : null;
+
+    return {
+        ...counts,
+        total: settled + counts.pending,
+        deliveredRate: rate(counts.delivered),
+        undeliveredRate: rate(counts.undelivered),
+        failedRate: rate(counts.failed),
+    };
+}
+
+/**
+ * Reachability of a number after one more delivery outcome
+ *
+ * A delivered text makes the number reachable again; a hard failure counts
+ * towards `threshold`, at which the number becomes unreachable. Undelivered
+ * texts change nothing.
+ */
+export function nextReachability(
+    state: ReachabilityState,
+    outcome: FinalDeliveryStatus,
+    threshold: number
+): ReachabilityState {
+    if (outcome === 'delivered') {
+        return { status: 'reachable', hardFailures: 0 };
+    }
+    if (outcome === 'undelivered') {
+        return state;
+    }
+
+    const hardFailures = state.hardFailures + 1;
+    return {
+        status: hardFailures >= threshold ? 'unreachable' : state.status,
+        hardFailures,
+    };
+}
@@ -1,16 +1,23 @@
 /**
  * Driver Sync Scheduler
  *
- * Coordinates three critical jobs:
+ * Coordinates three critical jobs, plus an optional fourth:
  * 1. Sheet Sync: Syncs load data from CentralDispatch Google Sheet
  * 2. Driver Matching: Correlates messages with loads to identify driver locations
  * 3. Allcars Sync: Syncs VINs from allcars sheet for load inquiry tracking
+ * 4. Sheet Write-Back (SHEET_WRITE_BACK=true): Fills matched driver phones into the sheet
+ *
+ * Each tick dispatches a sync job (see sync-jobs.ts): the worker process runs
+ * it while Redis is up, otherwise it runs here. Every run takes a lease, so
+ * with several instances it happens once.
  */
 
-import cron from 'node-cron';
 import { sheetSyncService } from '../modules/drivers/sheet-sync.service.js';
 import { driverMatchingService } from '../modules/drivers/driver-matching.service.js';
 import { allcarsSyncService } from '../modules/load-inquiries/allcars-sync.service.js';
+import { dispatchSyncJob } from './sync-jobs.js';
+import { scheduledJobService } from '../modules/scheduled-jobs/scheduled-jobs.service.js';
+import { ConflictError } from '../utils/errors.js';
 import logger from './logger.js';
 import { env } from '../config/env.js';
 
@@ -38,18 +45,14 @@ export function startDriverSyncScheduler(): void {
     // ============================================================
 
     // Run sheet sync immediately on startup
-    sheetSyncService.syncLoadsFromSheet().catch((error) => {
-        logger.error({ error: error.message }, '[SHEET SYNC] ERROR: Initial sync failed');
-    });
+    scheduledJobService
+        .run('sheet-sync', () => dispatchSyncJob('sheet-sync', 'startup'))
+        .catch((error) => {
+            logger.error({ error: error.message }, '[SHEET SYNC] ERROR: Initial sync failed');
+        });
 
     // Schedule sheet sync every 10 minutes
-    cron.schedule('*/10 * * * *', async () => {
-        try {
-            await sheetSyncService.syncLoadsFromSheet();
-        } catch (error: any) {
-            logger.error({ error: error.message }, '[SHEET SYNC] ERROR: Scheduled sync failed');
-        }
-    });
+    scheduledJobService.schedule('sheet-sync', '*/10 * * * *', () => dispatchSyncJob('sheet-sync'));
 
     // ============================================================
     // Job 2: Driver Matching (runs every 10 minutes, offset by 5)
@@ -57,8 +60,8 @@ export function startDriverSyncScheduler(): void {
 
     // Run initial matching after 2 minutes (gives sheet sync time to complete)
     setTimeout(() => {
-        driverMatchingService
-            .batchProcessRecentConversations(7) // Process last 7 days
+        scheduledJobService
+            .run('driver-matching', () => dispatchSyncJob('driver-matching', 'startup'))
             .catch((error) => {
                 logger.error(
                     { error: error.message },
@@ -68,21 +71,9 @@ export function startDriverSyncScheduler(): void {
     }, 2 * 60 * 1000); // 2 minutes delay
 
     // Schedule driver matching every 10 minutes, offset by 5 minutes
-    cron.schedule('5,15,25,35,45,55 * * * *', async () => {
-        try {
-            const result =
-                await driverMatchingService.batchProcessRecentConversations(7);
-            logger.info(
-                { processed: result.processed, matched: result.matched },
-                '[DRIVER MATCHING] SUCCESS: Completed'
-            );
-        } catch (error: any) {
-            logger.error(
-                { error: error.message },
-                '[DRIVER MATCHING] ERROR: Scheduled matching failed'
-            );
-        }
-    });
+    scheduledJobService.schedule('driver-matching', '5,15,25,35,45,55 * * * *', () =>
+        dispatchSyncJob('driver-matching')
+    );
 
     // ============================================================
     // Job 3: Allcars Sheet Sync (runs every 10 minutes, offset by 3)
@@ -91,65 +82,117 @@ export function startDriverSyncScheduler(): void {
     if (env.GOOGLE_ALLCARS_SHEET_ID) {
         // Run allcars sync after 1 minute on startup
         setTimeout(() => {
-            allcarsSyncService.syncFromAllcars().catch((error) => {
-                const message = error instanceof Error ? error.message : String(error);
-                logger.error({ error: message }, '[ALLCARS SYNC] ERROR: Initial sync failed');
-            });
+            scheduledJobService
+                .run('allcars-sync', () => dispatchSyncJob('allcars-sync', 'startup'))
+                .catch((error) => {
+                    const message = error instanceof Error ? error.message : String(error);
+                    logger.error({ error: message }, '[ALLCARS SYNC] ERROR: Initial sync failed');
+                });
         }, 60 * 1000); // 1 minute delay
 
         // Schedule allcars sync every 10 minutes, offset by 3
-        cron.schedule('3,13,23,33,43,53 * * * *', async () => {
-            try {
-                const result = await allcarsSyncService.syncFromAllcars();
-                logger.info(
-                    { synced: result.synced, enriched: result.enriched, errors: result.errors },
-                    '[ALLCARS SYNC] SUCCESS: Completed'
-                );
-            } catch (error: unknown) {
-                const message = error instanceof Error ? error.message : String(error);
-                logger.error({ error: message }, '[ALLCARS SYNC] ERROR: Scheduled sync failed');
-            }
-        });
+        scheduledJobService.schedule('allcars-sync', '3,13,23,33,43,53 * * * *', () =>
+            dispatchSyncJob('allcars-sync')
+        );
 
         logger.info('[ALLCARS SYNC] Allcars sync scheduler started');
     }
 
+    // ============================================================
+    // Job 4: Sheet Write-Back (opt-in, every 10 minutes, offset by 8)
+    // ============================================================
+
+    if (env.SHEET_WRITE_BACK) {
+        // Runs after driver matching, which queues the matched phones
+        scheduledJobService.schedule('sheet-write-back', '8,18,28,38,48,58 * * * *', () =>
+            dispatchSyncJob('sheet-write-back')
+        );
+
+        logger.info('[SHEET WRITE-BACK] Sheet write-back scheduler started');
+    }
+
     logger.info('[SHEET SYNC] Driver sync scheduler started');
 }
 
+/**
+ * Run one step of the manual sync under its job's lease, recorded as a
+ * manual run
+ *
+ * @throws ConflictError if another run of the job holds the lease
+ */
+async function runManualStep<T>(name: string, task: () => Promise<T>): Promise<T> {
+    let result: T | undefined;
+
+    const ran = await scheduledJobService.run(name, async () => {
+        result = await scheduledJobService.track(name, 'manual', task);
+    });
+    if (!ran) {
+        throw new ConflictError(`${name} is already running, try again in a few minutes`);
+    }
+
+    return result as T;
+}
+
 /**
  * Manual trigger: Run sheet sync + driver matching immediately
  *
- * Useful for testing or manual data refresh
+ * Useful for testing or manual data refresh. The sheet sync part is a
+ * changes summary (rows added, updated, unchanged and removed). Each step
+ * takes its job's lease like a scheduled run.
  */
 export async function runDriverSyncManually(): Promise<{
-    sheetSync: { synced: number; errors: number; driversCreated: number };
+    sheetSync: {
+        synced: number;
+        added: number;
+        updated: number;
+        unchanged: number;
+        removed: number;
+        errors: number;
+        driversCreated: number;
+        issues: number;
+    };
     driverMatching: { processed: number; matched: number; failed: number };
     allcarsSync: { synced: number; enriched: number; errors: number } | null;
 }> {
     logger.info('Running manual driver sync');
 
     // Step 1: Sync CentralDispatch sheet
-    const sheetResult = await sheetSyncService.syncLoadsFromSheet();
-    logger.info({ sheetResult }, 'Manual sheet sync completed');
+    const sheetResult = await runManualStep('sheet-sync', () =>
+        sheetSyncService.syncLoadsFromSheet()
+    );
+    const sheetSync = {
+        synced: sheetResult.synced,
+        added: sheetResult.added,
+        updated: sheetResult.updated,
+        unchanged: sheetResult.unchanged,
+        removed: sheetResult.removed,
+        errors: sheetResult.errors,
+        driversCreated: sheetResult.driversCreated,
+        issues: sheetResult.issues,
+    };
+    logger.info(sheetSync, 'Manual sheet sync completed');
 
     // Step 2: Sync allcars sheet (if configured)
     let allcarsResult: { synced: number; enriched: number; errors: number } | null = null;
     if (env.GOOGLE_ALLCARS_SHEET_ID) {
-        allcarsResult = await allcarsSyncService.syncFromAllcars();
-        logger.info({ allcarsResult }, 'Manual allcars sync completed');
+        const { synced, enriched, errors } = await runManualStep('allcars-sync', () =>
+            allcarsSyncService.syncFromAllcars()
+        );
+        allcarsResult = { synced, enriched, errors };
+        logger.info(allcarsResult, 'Manual allcars sync completed');
     }
 
     // Step 3: Wait 5 seconds for DB to settle
     await new Promise((resolve) => setTimeout(resolve, 5000));
 
     // Step 4: Run driver matching
-    const matchingResult =
-        await driverMatchingService.batchProcessRecentConversations(7);
+    const matchingResult = await runManualStep('driver-matching', () =>
+        driverMatchingService.batchProcessRecentConversations(7)
+    );
     logger.info({ matchingResult }, 'Manual driver matching completed');
 
     return {
-        sheetSync: sheetResult,
+        sheetSync,
         driverMatching: matchingResult,
         allcarsSync: allcarsResult,
     };
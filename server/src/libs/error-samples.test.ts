@@ -0,0 +1,20 @@
+/**
+ * Error Samples Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type ErrorSample, MAX_ERROR_SAMPLES, addErrorSample } from './error-samples';
+
+describe('addErrorSample', () => {
+    it('should keep samples up to the limit', () => {
+        const samples: ErrorSample[] = [];
+
+        for (let row = 1; row <= MAX_ERROR_SAMPLES + 5; row++) {
+            addErrorSample(samples, { row, error: 'boom' });
+        }
+
+        expect(samples).toHaveLength(MAX_ERROR_SAMPLES);
+        expect(samples[0]).toEqual({ row: 1, error: 'boom' });
+        expect(samples.at(-1)?.row).toBe(MAX_ERROR_SAMPLES);
+    });
+});
@@ -0,0 +1,28 @@
+/**
+ * Error Samples
+ *
+ * Bounded list of per-row failures collected by the sync jobs and stored on
+ * their JobRun, so a failed row can be found without searching the logs.
+ */
+
+/**
+ * Max samples kept per run
+ */
+export const MAX_ERROR_SAMPLES = 20;
+
+export interface ErrorSample {
+    /** Sheet row number (1-based, as shown in Google Sheets) */
+    row?: number;
+    /** Other identifier of the failed item, e.g. a conversation ID */
+    key?: string;
+    error: string;
+}
+
+/**
+ * Add a sample unless the list is full
+ */
+export function addErrorSample(samples: ErrorSample[], sample: ErrorSample): void {
+    if (samples.length < MAX_ERROR_SAMPLES) {
+        samples.push(sample);
+    }
+}
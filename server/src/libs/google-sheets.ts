@@ -2,6 +2,9 @@
  * Google Sheets Client
  * 
  * Client for reading data from Google Sheets
+ *
+ * Read-only unless SHEET_WRITE_BACK is enabled, in which case the client asks
+ * for edit access so matched driver phones can be written back.
  */
 
 import { google, sheets_v4 } from 'googleapis';
@@ -35,7 +38,11 @@ class GoogleSheetsClient {
             // Create auth client
             const auth = new google.auth.GoogleAuth({
                 credentials,
-                scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
+                scopes: [
+                    env.SHEET_WRITE_BACK
+                        ? 'https://www.googleapis.com/auth/spreadsheets'
+                        : 'https://www.googleapis.com/auth/spreadsheets.readonly',
+                ],
             });
 
             // Create sheets client
@@ -78,6 +85,64 @@ class GoogleSheetsClient {
         }
     }
 
+    /**
+     * Get the numeric sheet ID of every tab, by tab name
+     */
+    async getTabIds(spreadsheetId: string): Promise<Map<string, number> | null> {
+        if (!this.sheets) {
+            const initialized = await this.initialize();
+            if (!initialized) return null;
+        }
+
+        try {
+            const response = await this.sheets!.spreadsheets.get({
+                spreadsheetId,
+                fields: 'sheets.properties(sheetId,title)',
+            });
+
+            const tabIds = new Map<string, number>();
+            for (const sheet of response.data.sheets ?? []) {
+                const { title, sheetId } = sheet.properties ?? {};
+                if (title && typeof sheetId === 'number') tabIds.set(title, sheetId);
+            }
+
+            return tabIds;
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error(
+                { error: errorMessage, spreadsheetId },
+                'Failed to fetch tabs from Google Sheets'
+            );
+            throw error;
+        }
+    }
+
+    /**
+     * Apply several changes to a spreadsheet in one request
+     *
+     * The requests are applied atomically: if one is invalid, none is.
+     */
+    async batchUpdate(spreadsheetId: string, requests: sheets_v4.Schema$Request[]): Promise<void> {
+        if (!this.sheets) {
+            const initialized = await this.initialize();
+            if (!initialized) throw new Error('Google Sheets client is not configured');
+        }
+
+        try {
+            await this.sheets!.spreadsheets.batchUpdate({
+                spreadsheetId,
+                requestBody: { requests },
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error(
+                { error: errorMessage, spreadsheetId, requests: requests.length },
+                'Failed to update Google Sheets'
+            );
+            throw error;
+        }
+    }
+
     /**
      * Get all data from the first sheet
      */
@@ -0,0 +1,226 @@
+/**
+ * Job Lease Tests
+ *
+ * Two instances compete for leases against in-memory fakes of Redis
+ * (SET NX PX and the token-checked scripts) and of the scheduled_jobs row
+ * behind the MySQL fallback.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from './db';
+import { acquireLease, releaseLease, renewLease } from './job-lease';
+import { isRedisAvailable, redis } from './redis';
+
+interface FakeRow {
+    leaseOwner: string | null;
+    leaseExpiresAt: Date | null;
+}
+
+type Condition = Partial<Record<keyof FakeRow, string | null | { lt: Date }>>;
+
+interface LeaseWhere extends Condition {
+    name: string;
+    OR?: Condition[];
+}
+
+const redisKeys = new Map<string, { value: string; expiresAt: number }>();
+const jobRows = new Map<string, FakeRow>();
+
+function liveRedisValue(key: string): string | null {
+    const entry = redisKeys.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return entry.value;
+}
+
+/**
+ * Whether a row matches the equality and `lt` conditions of a where clause
+ */
+function matchesCondition(row: FakeRow, condition: Condition): boolean {
+    return Object.entries(condition).every(([field, expected]) => {
+        const value = row[field as keyof FakeRow];
+        if (expected && typeof expected === 'object') {
+            return value instanceof Date && value < expected.lt;
+        }
+        return value === expected;
+    });
+}
+
+vi.mock('./redis', () => ({
+    isRedisAvailable: vi.fn(),
+    redis: { set: vi.fn(), eval: vi.fn() },
+}));
+
+vi.mock('./db', () => ({
+    prisma: {
+        scheduledJob: { upsert: vi.fn(), updateMany: vi.fn() },
+    },
+}));
+
+const TTL_MS = 60_000;
+
+describe('job leases', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-20T12:00:00Z'));
+        redisKeys.clear();
+        jobRows.clear();
+
+        vi.mocked(redis.set).mockImplementation((async (
+            key: string,
+            value: string,
+            _px: 'PX',
+            ttlMs: number,
+            _nx: 'NX'
+        ) => {
+            if (liveRedisValue(key)) return null;
+            redisKeys.set(key, { value, expiresAt: Date.now() + ttlMs });
+            return 'OK';
+        }) as never);
+
+        // Both scripts only act for the token that holds the key
+        vi.mocked(redis.eval).mockImplementation((async (
+            script: string,
+            _keys: number,
+            key: string,
+            token: string,
+            ttlMs?: number
+        ) => {
+            if (liveRedisValue(key) !== token) return 0;
+            if (script.includes('pexpire')) {
+                redisKeys.set(key, { value: token, expiresAt: Date.now() + Number(ttlMs) });
+            } else {
+                redisKeys.delete(key);
+            }
+            return 1;
+        }) as never);
+
+        vi.mocked(prisma.scheduledJob.upsert).mockImplementation((async ({
+            where,
+        }: {
+            where: { name: string };
+        }) => {
+            if (!jobRows.has(where.name)) {
+                jobRows.set(where.name, { leaseOwner: null, leaseExpiresAt: null });
+            }
+        }) as never);
+
+        vi.mocked(prisma.scheduledJob.updateMany).mockImplementation((async ({
+            where,
+            data,
+        }: {
+            where: LeaseWhere;
+            data: Partial<FakeRow>;
+        }) => {
+            const { name, OR, ...condition } = where;
+            const row = jobRows.get(name);
+            if (!row || !matchesCondition(row, condition)) return { count: 0 };
+            if (OR && !OR.some((alternative) => matchesCondition(row, alternative))) {
+                return { count: 0 };
+            }
+
+            Object.assign(row, data);
+            return { count: 1 };
+        }) as never);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('with Redis', () => {
+        beforeEach(() => {
+            vi.mocked(isRedisAvailable).mockReturnValue(true);
+        });
+
+        it('takes the lease with SET NX PX', async () => {
+            const lease = await acquireLease('sheet-sync', TTL_MS);
+
+            expect(lease).toMatchObject({ name: 'sheet-sync', backend: 'redis' });
+            expect(redis.set).toHaveBeenCalledWith(
+                'lease:sheet-sync',
+                lease!.token,
+                'PX',
+                TTL_MS,
+                'NX'
+            );
+        });
+
+        it('lets only one instance hold the lease', async () => {
+            const first = await acquireLease('sheet-sync', TTL_MS);
+            const second = await acquireLease('sheet-sync', TTL_MS);
+
+            expect(first).not.toBeNull();
+            expect(second).toBeNull();
+
+            await releaseLease(first!);
+            expect(await acquireLease('sheet-sync', TTL_MS)).not.toBeNull();
+        });
+
+        it('frees an expired lease and stops its holder from renewing it', async () => {
+            const first = await acquireLease('sheet-sync', TTL_MS);
+            vi.advanceTimersByTime(TTL_MS + 1);
+
+            const second = await acquireLease('sheet-sync', TTL_MS);
+
+            expect(second).not.toBeNull();
+            expect(await renewLease(first!, TTL_MS)).toBe(false);
+            expect(await renewLease(second!, TTL_MS)).toBe(true);
+        });
+
+        it('does not release a lease taken over by another instance', async () => {
+            const first = await acquireLease('sheet-sync', TTL_MS);
+            vi.advanceTimersByTime(TTL_MS + 1);
+            const second = await acquireLease('sheet-sync', TTL_MS);
+
+            await releaseLease(first!);
+
+            expect(liveRedisValue('lease:sheet-sync')).toBe(second!.token);
+        });
+
+        it('falls back to MySQL when the Redis command fails', async () => {
+            vi.mocked(redis.set).mockRejectedValueOnce(new Error('Connection is closed'));
+
+            const lease = await acquireLease('sheet-sync', TTL_MS);
+
+            expect(lease).toMatchObject({ backend: 'mysql' });
+            expect(jobRows.get('sheet-sync')?.leaseOwner).toBe(lease!.token);
+        });
+    });
+
+    describe('MySQL fallback', () => {
+        beforeEach(() => {
+            vi.mocked(isRedisAvailable).mockReturnValue(false);
+        });
+
+        it('takes the lease with a conditional update of the job row', async () => {
+            const lease = await acquireLease('sheet-sync', TTL_MS);
+
+            expect(lease).toMatchObject({ backend: 'mysql' });
+            expect(redis.set).not.toHaveBeenCalled();
+            expect(jobRows.get('sheet-sync')).toEqual({
+                leaseOwner: lease!.token,
+                leaseExpiresAt: new Date(Date.now() + TTL_MS),
+            });
+        });
+
+        it('lets only one instance hold the lease until it is released', async () => {
+            const first = await acquireLease('sheet-sync', TTL_MS);
+
+            expect(await acquireLease('sheet-sync', TTL_MS)).toBeNull();
+
+            await releaseLease(first!);
+            expect(await acquireLease('sheet-sync', TTL_MS)).not.toBeNull();
+        });
+
+        it('frees an expired lease and stops its holder from renewing it', async () => {
+            const first = await acquireLease('sheet-sync', TTL_MS);
+            vi.advanceTimersByTime(TTL_MS + 1);
+
+            const second = await acquireLease('sheet-sync', TTL_MS);
+
+            expect(second).not.toBeNull();
+            expect(await renewLease(first!, TTL_MS)).toBe(false);
+            expect(await renewLease(second!, TTL_MS)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Job Leases
+ *
+ * Named, expiring locks so a scheduled job runs on one instance at a time.
+ *
+ * Leases live in Redis (SET NX PX, released/renewed only by the token that
+ * took them). While Redis is unavailable they fall back to a conditional
+ * UPDATE on the job's `scheduled_jobs` row. An instance without Redis cannot
+ * see Redis leases, so mixed availability across instances may double-run a
+ * job; a single degraded instance is always safe.
+ */
+
+import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import { scheduledJobRepo } from '../modules/scheduled-jobs/scheduled-jobs.repo.js';
+import logger from './logger.js';
+import { isRedisAvailable, redis } from './redis.js';
+
+/**
+ * Identifies this process in lease owners and run info
+ */
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+export interface JobLease {
+    name: string;
+    token: string;
+    backend: 'redis' | 'mysql';
+}
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const leaseKey = (name: string) => `lease:${name}`;
+
+/**
+ * Try to take the lease of a job
+ *
+ * @param name - Job name
+ * @param ttlMs - Lease lifetime unless renewed
+ * @returns The lease, or null if another run holds it
+ */
+export async function acquireLease(name: string, ttlMs: number): Promise<JobLease | null> {
+    const token = `${INSTANCE_ID}:${randomUUID()}`;
+
+    if (isRedisAvailable()) {
+        try {
+            const result = await redis.set(leaseKey(name), token, 'PX', ttlMs, 'NX');
+            return result === 'OK' ? { name, token, backend: 'redis' } : null;
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { job: name, error: errorMessage },
+                '[SCHEDULER] WARN: Redis lease failed, falling back to MySQL'
+            );
+        }
+    }
+
+    const acquired = await scheduledJobRepo.tryAcquireLease(
+        name,
+        token,
+        new Date(Date.now() + ttlMs)
+    );
+
+    return acquired ? { name, token, backend: 'mysql' } : null;
+}
+
+/**
+ * Extend a held lease
+ *
+ * @returns false if the lease expired and was lost
+ */
+export async function renewLease(lease: JobLease, ttlMs: number): Promise<boolean> {
+    if (lease.backend === 'redis') {
+        const result = await redis.eval(RENEW_SCRIPT, 1, leaseKey(lease.name), lease.token, ttlMs);
+        return result === 1;
+    }
+
+    return scheduledJobRepo.renewLease(lease.name, lease.token, new Date(Date.now() + ttlMs));
+}
+
+/**
+ * Give up a held lease (a no-op if it already expired)
+ */
+export async function releaseLease(lease: JobLease): Promise<void> {
+    if (lease.backend === 'redis') {
+        await redis.eval(RELEASE_SCRIPT, 1, leaseKey(lease.name), lease.token);
+        return;
+    }
+
+    await scheduledJobRepo.releaseLease(lease.name, lease.token);
+}
@@ -0,0 +1,105 @@
+/**
+ * Load Disambiguation Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type LoadMatchCandidateInput, disambiguateLoads } from './load-disambiguation';
+
+const candidate = (
+    id: string,
+    overrides: Partial<LoadMatchCandidateInput> = {}
+): LoadMatchCandidateInput => ({
+    id,
+    pickupLocation: null,
+    deliveryLocation: null,
+    driverPhone: null,
+    closedAt: null,
+    syncedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+});
+
+const context = {
+    phoneNumber: '+15551234567',
+    otherLoads: [],
+    knownLocations: [],
+};
+
+describe('disambiguateLoads', () => {
+    it('should pick the only candidate', () => {
+        expect(disambiguateLoads([candidate('a')], context).loadId).toBe('a');
+    });
+
+    it('should pick the load with the driver phone on the sheet', () => {
+        const result = disambiguateLoads(
+            [candidate('a'), candidate('b', { driverPhone: '(555) 123-4567' })],
+            context
+        );
+
+        expect(result.loadId).toBe('b');
+        expect(result.candidates[0].reasons).toContain('sheet_phone');
+    });
+
+    it('should prefer an open load over a closed one', () => {
+        const result = disambiguateLoads(
+            [candidate('a', { closedAt: new Date('2026-09-01T00:00:00Z') }), candidate('b')],
+            context
+        );
+
+        expect(result.loadId).toBe('b');
+    });
+
+    it('should leave two open loads for review when only recency differs', () => {
+        const result = disambiguateLoads(
+            [candidate('a'), candidate('b', { syncedAt: new Date('2026-10-02T00:00:00Z') })],
+            context
+        );
+
+        expect(result.loadId).toBeNull();
+        expect(result.candidates.map((c) => c.id)).toEqual(['b', 'a']);
+    });
+
+    it('should use other loads of the conversation with the same pickup', () => {
+        const result = disambiguateLoads(
+            [
+                candidate('a', { pickupLocation: 'VA - HAMPTON' }),
+                candidate('b', { pickupLocation: 'Newark, NJ' }),
+            ],
+            { ...context, otherLoads: [{ pickupLocation: 'va hampton', deliveryLocation: null }] }
+        );
+
+        expect(result.loadId).toBe('a');
+        expect(result.candidates[0].reasons).toContain('shared_route');
+    });
+
+    it('should match known locations by city and state', () => {
+        const result = disambiguateLoads(
+            [
+                candidate('a', { deliveryLocation: 'Miami, FL' }),
+                candidate('b', { deliveryLocation: 'Dallas, TX' }),
+            ],
+            { ...context, knownLocations: ['Miami, FL'] }
+        );
+
+        expect(result.candidates[0]).toEqual({
+            id: 'a',
+            score: 5,
+            reasons: ['open', 'known_location'],
+        });
+        expect(result.loadId).toBeNull();
+    });
+
+    it('should score a known state lower than a known city', () => {
+        const result = disambiguateLoads(
+            [
+                candidate('a', { deliveryLocation: 'Orlando, FL' }),
+                candidate('b', { deliveryLocation: 'Miami, GA' }),
+            ],
+            { ...context, knownLocations: ['Miami, FL'] }
+        );
+
+        expect(result.candidates.find((c) => c.id === 'a')?.reasons).toContain('known_state');
+        expect(result.candidates.find((c) => c.id === 'b')?.reasons).not.toContain(
+            'known_location'
+        );
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Load Disambiguation
+ *
+ * A Load ID is only the last 6 characters of a VIN, so two VINs can share it.
+ * When a driver texts such a Load ID, the loads that share it are scored
+ * against what the conversation tells about the driver:
+ *
+ * - the sheet already has the driver's phone on one of them
+ * - open loads over closed ones, and the most recently synced one
+ * - other loads the driver mentioned that start or end at the same place
+ * - the driver's known locations (city, or only state)
+ *
+ * A candidate wins only with a clear lead; otherwise the match goes to a
+ * dispatcher for review.
+ */
+
+export type LoadMatchReason =
+    | 'sheet_phone'
+    | 'open'
+    | 'most_recent'
+    | 'shared_route'
+    | 'known_location'
+    | 'known_state';
+
+export interface LoadMatchCandidateInput {
+    id: string;
+    pickupLocation: string | null;
+    deliveryLocation: string | null;
+    driverPhone: string | null;
+    closedAt: Date | null;
+    syncedAt: Date;
+}
+
+export interface LoadMatchContext {
+    phoneNumber: string;
+    /** Loads of the other Load IDs mentioned in the conversation */
+    otherLoads: Array<{ pickupLocation: string | null; deliveryLocation: string | null }>;
+    /** Names of the driver's known locations ("Miami, FL", "NJ") */
+    knownLocations: string[];
+}
+
+export interface ScoredLoadCandidate {
+    id: string;
+    score: number;
+    reasons: LoadMatchReason[];
+}
+
+export interface LoadDisambiguation {
+    /** The winning Load.id, or null if the match needs review */
+    loadId: string | null;
+    /** Candidates, best first */
+    candidates: ScoredLoadCandidate[];
+}
+
+const REASON_SCORES: Record<LoadMatchReason, number> = {
+    sheet_phone: 10,
+    open: 3,
+    shared_route: 3,
+    known_location: 2,
+    known_state: 1,
+    most_recent: 1,
+};
+
+/**
+ * Lead the best candidate needs over the next one to win
+ */
+export const MIN_SCORE_LEAD = 3;
+
+/**
+ * Score the loads sharing a Load ID and pick one if the context is clear
+ */
+export function disambiguateLoads(
+    candidates: LoadMatchCandidateInput[],
+    context: LoadMatchContext
+): LoadDisambiguation {
+    if (candidates.length === 0) return { loadId: null, candidates: [] };
+
+    const newest = Math.max(...candidates.map((c) => c.syncedAt.getTime()));
+    const newestCount = candidates.filter((c) => c.syncedAt.getTime() === newest).length;
+
+    const scored = candidates.map((candidate) => {
+        const reasons: LoadMatchReason[] = [];
+
+        if (samePhone(candidate.driverPhone, context.phoneNumber)) reasons.push('sheet_phone');
+        if (!candidate.closedAt) reasons.push('open');
+        if (newestCount === 1 && candidate.syncedAt.getTime() === newest) {
+            reasons.push('most_recent');
+        }
+        if (sharesRoute(candidate, context.otherLoads)) reasons.push('shared_route');
+
+        const known = matchKnownLocation(
+            [candidate.pickupLocation, candidate.deliveryLocation],
+            context.knownLocations
+        );
+        if (known) reasons.push(known);
+
+        const score = reasons.reduce((sum, reason) => sum + REASON_SCORES[reason], 0);
+        return { id: candidate.id, score, reasons };
+    });
+
+    scored.sort((a, b) => b.score - a.score);
+
+    const [best, next] = scored;
+    const wins = best !== undefined && (!next || best.score - next.score >= MIN_SCORE_LEAD);
+    return { loadId: wins ? best.id : null, candidates: scored };
+}
+
+/**
+ * Whether two phone numbers are the same (last 10 digits)
+ */
+function samePhone(a: string | null, b: string): boolean {
+    if (!a) return false;
+    const digitsA = a.replace(/\D/g, '').slice(-10);
+    return digitsA.length === 10 && digitsA === b.replace(/\D/g, '').slice(-10);
+}
+
+/**
+ * Lowercase words of a location ("VA - HAMPTON" -> "va hampton")
+ */
+function locationWords(location: string | null): string {
+    return (location ?? '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Whether another mentioned load starts or ends where the candidate does
+ */
+function sharesRoute(
+    candidate: LoadMatchCandidateInput,
+    otherLoads: LoadMatchContext['otherLoads']
+): boolean {
+    const pickup = locationWords(candidate.pickupLocation);
+    const delivery = locationWords(candidate.deliveryLocation);
+
+    return otherLoads.some(
+        (other) =>
+            (pickup !== '' && locationWords(other.pickupLocation) === pickup) ||
+            (delivery !== '' && locationWords(other.deliveryLocation) === delivery)
+    );
+}
+
+/**
+ * How well the candidate's locations match the driver's known locations
+ *
+ * A known "City, ST" matches a location naming the city (and the state, if
+ * the location has one); a known state alone only gives `known_state`.
+ */
+function matchKnownLocation(
+    locations: Array<string | null>,
+    knownLocations: string[]
+): LoadMatchReason | null {
+    let found: LoadMatchReason | null = null;
+
+    for (const location of locations) {
+        const words = ` ${locationWords(location)} `;
+        if (words.trim() === '') continue;
+
+        for (const known of knownLocations) {
+            const [cityPart = '', statePart = ''] = known.includes(',')
+                ? known.split(',', 2)
+                : /^[A-Za-z]{2}$/.test(known.trim())
+                  ? ['', known]
+                  : [known, ''];
+            const city = locationWords(cityPart);
+            const state = locationWords(statePart);
+
+            const hasState = state !== '' && words.includes(` ${state} `);
+            if (city !== '' && words.includes(` ${city} `)) {
+                if (hasState || state === '' || !/\b[a-z]{2}\b/.test(words)) {
+                    return 'known_location';
+                }
+            }
+            if (hasState) found = 'known_state';
+        }
+    }
+
+    return found;
+}
@@ -0,0 +1,81 @@
+/**
+ * Load Status Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    detectStatusKeyword,
+    isStatusAdvance,
+    normalizeLoadStatus,
+    toLoadStatus,
+} from './load-status';
+
+describe('normalizeLoadStatus', () => {
+    it('should map STATUS texts to statuses', () => {
+        expect(normalizeLoadStatus('Dispatched')).toBe('dispatched');
+        expect(normalizeLoadStatus('PICKED UP')).toBe('picked_up');
+        expect(normalizeLoadStatus('picked-up')).toBe('picked_up');
+        expect(normalizeLoadStatus('In Transit')).toBe('in_transit');
+        expect(normalizeLoadStatus('delivered ')).toBe('delivered');
+        expect(normalizeLoadStatus('CNC')).toBe('cancelled');
+        expect(normalizeLoadStatus('Cancelled')).toBe('cancelled');
+        expect(normalizeLoadStatus('Posted')).toBe('posted');
+    });
+
+    it('should not read "not signed" as signed', () => {
+        expect(normalizeLoadStatus('Not Signed')).toBe('posted');
+        expect(normalizeLoadStatus('Signed')).toBe('dispatched');
+    });
+
+    it('should return null for empty or unknown texts', () => {
+        expect(normalizeLoadStatus(null)).toBeNull();
+        expect(normalizeLoadStatus('  ')).toBeNull();
+        expect(normalizeLoadStatus('call broker')).toBeNull();
+    });
+});
+
+describe('detectStatusKeyword', () => {
+    it('should detect pickup and delivery phrases', () => {
+        expect(detectStatusKeyword('Picked up 4A2B3C, heading out')).toBe('picked_up');
+        expect(detectStatusKeyword('got the car')).toBe('picked_up');
+        expect(detectStatusKeyword('Delivered!')).toBe('delivered');
+        expect(detectStatusKeyword('dropped it off at the dealer')).toBe('delivered');
+        expect(detectStatusKeyword('en route to Atlanta')).toBe('in_transit');
+    });
+
+    it('should ignore negated phrases and questions', () => {
+        expect(detectStatusKeyword('not picked up yet')).toBeNull();
+        expect(detectStatusKeyword("I haven't delivered it")).toBeNull();
+        expect(detectStatusKeyword('was it delivered?')).toBeNull();
+        expect(detectStatusKeyword('Can you call me? Picked up.')).toBe('picked_up');
+    });
+
+    it('should keep the furthest status of a message', () => {
+        expect(detectStatusKeyword('picked up this morning and delivered by 5')).toBe('delivered');
+    });
+
+    it('should return null without a status', () => {
+        expect(detectStatusKeyword('what time is pickup tomorrow')).toBeNull();
+    });
+});
+
+describe('isStatusAdvance', () => {
+    it('should only move forward', () => {
+        expect(isStatusAdvance('dispatched', 'picked_up')).toBe(true);
+        expect(isStatusAdvance('unknown', 'delivered')).toBe(true);
+        expect(isStatusAdvance('delivered', 'picked_up')).toBe(false);
+        expect(isStatusAdvance('picked_up', 'picked_up')).toBe(false);
+    });
+
+    it('should never leave a cancelled load', () => {
+        expect(isStatusAdvance('cancelled', 'delivered')).toBe(false);
+    });
+});
+
+describe('toLoadStatus', () => {
+    it('should fall back to unknown', () => {
+        expect(toLoadStatus('picked_up')).toBe('picked_up');
+        expect(toLoadStatus('whatever')).toBe('unknown');
+        expect(toLoadStatus(null)).toBe('unknown');
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Load Status
+ *
+ * The normalized lifecycle of a load, and how it is read from the two places
+ * it shows up:
+ *
+ * - the STATUS text of a load source ("Picked Up", "CNC", ...), which is
+ *   authoritative and may move a load in any direction
+ * - keywords in a driver's SMS ("picked up", "delivered"), which only move
+ *   a load forward
+ */
+
+export const LOAD_STATUSES = [
+    'unknown',
+    'posted',
+    'dispatched',
+    'picked_up',
+    'in_transit',
+    'delivered',
+    'cancelled',
+] as const;
+
+export type LoadStatus = (typeof LOAD_STATUSES)[number];
+
+/**
+ * Progress of each status (cancelled ends a load like delivered)
+ */
+const STATUS_RANK: Record<LoadStatus, number> = {
+    unknown: 0,
+    posted: 1,
+    dispatched: 2,
+    picked_up: 3,
+    in_transit: 4,
+    delivered: 5,
+    cancelled: 5,
+};
+
+/**
+ * STATUS texts, checked in order (the first match wins)
+ */
+const SOURCE_STATUS_PATTERNS: Array<[RegExp, LoadStatus]> = [
+    [/\b(CANCEL+ED|CANCEL|CNC|CXL)\b/, 'cancelled'],
+    [/\bDELIVERED\b/, 'delivered'],
+    [/\b(IN TRANSIT|EN ROUTE)\b/, 'in_transit'],
+    [/\b(PICKED UP|PICKED|LOADED)\b/, 'picked_up'],
+    [/\b(NOT SIGNED|POSTED|NEW|OPEN|AVAILABLE)\b/, 'posted'],
+    [/\b(DISPATCHED|ASSIGNED|ACCEPTED|SIGNED|BOOKED)\b/, 'dispatched'],
+];
+
+/**
+ * Driver phrases, by the status they report
+ */
+const SMS_STATUS_PATTERNS: Array<[RegExp, LoadStatus]> = [
+    [
+        /\b(picked (it |them |the car |the vehicle )?up|got the (car|vehicle|unit)|loaded (it|up))\b/,
+        'picked_up',
+    ],
+    [/\b(in transit|en route)\b/, 'in_transit'],
+    [/\b(delivered|dropped (it |them |the car |the vehicle )?off)\b/, 'delivered'],
+];
+
+/**
+ * Words that turn a phrase around ("not picked up yet", "haven't delivered")
+ */
+const NEGATION_PATTERN =
+    /\b(not|never|no|cant|can't|cannot|didnt|didn't|havent|haven't|hasnt|hasn't|wont|won't|isnt|isn't|wasnt|wasn't|arent|aren't|yet to)\s+(\w+\s+){0,2}$/;
+
+/**
+ * Normalize the STATUS text of a load source
+ *
+ * @returns null for an empty or unrecognized text
+ */
+export function normalizeLoadStatus(raw: unknown): LoadStatus | null {
+    if (raw === undefined || raw === null) return null;
+
+    const text = String(raw)
+        .toUpperCase()
+        .replace(/[^A-Z]+/g, ' ')
+        .trim();
+    if (!text) return null;
+
+    for (const [pattern, status] of SOURCE_STATUS_PATTERNS) {
+        if (pattern.test(text)) return status;
+    }
+
+    return null;
+}
+
+/**
+ * Detect a status a driver reports in an SMS
+ *
+ * Questions and negated phrases are ignored. If a message reports several
+ * statuses ("picked up and delivered"), the furthest one wins.
+ *
+ * @returns null if the message reports no status
+ */
+export function detectStatusKeyword(text: string): LoadStatus | null {
+    let found: LoadStatus | null = null;
+
+    // Sentences with the punctuation that ends them ("?" marks a question)
+    for (const [, sentence, end] of text.toLowerCase().matchAll(/([^.!?\n]+)([.!?\n]|$)/g)) {
+        if (!sentence || end === '?') continue;
+
+        for (const [pattern, status] of SMS_STATUS_PATTERNS) {
+            const match = pattern.exec(sentence);
+            if (!match || NEGATION_PATTERN.test(sentence.slice(0, match.index))) continue;
+
+            if (!found || STATUS_RANK[status] > STATUS_RANK[found]) found = status;
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Whether an SMS keyword may move a load from one status to another
+ *
+ * Only forward, and never out of delivered or cancelled.
+ */
+export function isStatusAdvance(from: LoadStatus, to: LoadStatus): boolean {
+    if (from === 'delivered' || from === 'cancelled') return false;
+    return STATUS_RANK[to] > STATUS_RANK[from];
+}
+
+/**
+ * A stored status as a LoadStatus ('unknown' for anything else)
+ */
+export function toLoadStatus(value: string | null | undefined): LoadStatus {
+    return (LOAD_STATUSES as readonly string[]).includes(value ?? '')
+        ? (value as LoadStatus)
+        : 'unknown';
+}
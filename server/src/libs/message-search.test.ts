@@ -0,0 +1,88 @@
+/**
+ * Message Search Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildSnippet, isEmptyQuery, parseSearchQuery, toBooleanQuery } from './message-search';
+
+describe('parseSearchQuery', () => {
+    it('should split words, phrases and VIN fragments', () => {
+        expect(parseSearchQuery('Hampton "picked up" 4a2b3c')).toEqual({
+            words: ['hampton'],
+            phrases: ['picked up'],
+            fragments: ['4A2B3C'],
+        });
+    });
+
+    it('should drop words the index does not hold', () => {
+        expect(parseSearchQuery('at VA lot')).toEqual({
+            words: ['lot'],
+            phrases: [],
+            fragments: [],
+        });
+        expect(isEmptyQuery(parseSearchQuery('a ok'))).toBe(true);
+    });
+
+    it('should strip punctuation and operators', () => {
+        expect(parseSearchQuery('+newark* -(NJ)')).toEqual({
+            words: ['newark'],
+            phrases: [],
+            fragments: [],
+        });
+    });
+});
+
+describe('toBooleanQuery', () => {
+    it('should require every word as a prefix and every phrase', () => {
+        expect(toBooleanQuery(parseSearchQuery('hampton "picked up"'))).toBe(
+            '+hampton* +"picked up"'
+        );
+    });
+
+    it('should return null without words or phrases', () => {
+        expect(toBooleanQuery(parseSearchQuery('4A2B3C'))).toBeNull();
+    });
+});
+
+describe('buildSnippet', () => {
+    it('should mark every match', () => {
+        const { snippet, highlights } = buildSnippet(
+            'Going to Hampton, then back to hampton lot',
+            parseSearchQuery('hampton')
+        );
+
+        expect(snippet).toBe('Going to Hampton, then back to hampton lot');
+        expect(highlights.map(([from, to]) => snippet.slice(from, to))).toEqual([
+            'Hampton',
+            'hampton',
+        ]);
+    });
+
+    it('should find VIN fragments inside a VIN', () => {
+        const { snippet, highlights } = buildSnippet(
+            'VIN 1HGCM82633A004352 ready',
+            parseSearchQuery('3A0043')
+        );
+
+        expect(highlights.map(([from, to]) => snippet.slice(from, to))).toEqual(['3A0043']);
+    });
+
+    it('should cut long texts around the first match', () => {
+        const text = `${'word '.repeat(40)}Hampton ${'more '.repeat(40)}`;
+        const { snippet, highlights } = buildSnippet(text, parseSearchQuery('hampton'));
+
+        expect(snippet.startsWith('…')).toBe(true);
+        expect(snippet.endsWith('…')).toBe(true);
+        expect(snippet.length).toBeLessThan(140);
+        expect(highlights.map(([from, to]) => snippet.slice(from, to))).toEqual(['Hampton']);
+    });
+
+    it('should match phrases across punctuation', () => {
+        const { snippet, highlights } = buildSnippet(
+            'Picked, up the car',
+            parseSearchQuery('"picked up"')
+        );
+
+        expect(highlights.map(([from, to]) => snippet.slice(from, to))).toEqual(['Picked, up']);
+    });
+});
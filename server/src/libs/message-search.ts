@@ -0,0 +1,159 @@
+/**
+ * Message Search
+ *
+ * Turns what a dispatcher types ("hampton", "\"picked up\"", "4A2B3C") into a
+ * MySQL FULLTEXT boolean query, and cuts highlighted snippets out of the
+ * matching messages.
+ *
+ * FULLTEXT only matches whole words and word prefixes, so partial VINs
+ * (a VIN fragment can sit anywhere in the VIN) are matched with LIKE instead.
+ */
+
+export interface MessageSearchQuery {
+    /** Words matched by the FULLTEXT index (as word prefixes) */
+    words: string[];
+    /** Quoted phrases matched by the FULLTEXT index */
+    phrases: string[];
+    /** VIN-like fragments (letters and digits) matched anywhere in the text */
+    fragments: string[];
+}
+
+export interface MessageSnippet {
+    snippet: string;
+    /** [start, end) offsets of the matches in the snippet */
+    highlights: Array<[number, number]>;
+}
+
+/**
+ * Shortest word the FULLTEXT index holds (innodb_ft_min_token_size)
+ */
+const MIN_WORD_LENGTH = 3;
+
+/**
+ * Shortest VIN fragment worth a LIKE scan
+ */
+const MIN_FRAGMENT_LENGTH = 4;
+
+/**
+ * Characters of context on each side of the first match
+ */
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Split a search text into words, phrases and VIN fragments
+ */
+export function parseSearchQuery(text: string): MessageSearchQuery {
+    const query: MessageSearchQuery = { words: [], phrases: [], fragments: [] };
+
+    for (const [, phrase, token] of text.matchAll(/"([^"]+)"|(\S+)/g)) {
+        if (phrase !== undefined) {
+            const words = phrase.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+            if (words.length > 1) query.phrases.push(words.join(' '));
+            else if (words[0]) addWord(query, words[0]);
+            continue;
+        }
+
+        for (const word of token?.match(/[\p{L}\p{N}]+/gu) ?? []) {
+            addWord(query, word);
+        }
+    }
+
+    return query;
+}
+
+function addWord(query: MessageSearchQuery, word: string): void {
+    if (/\d/.test(word) && /^[a-z0-9]+$/i.test(word) && word.length >= MIN_FRAGMENT_LENGTH) {
+        const fragment = word.toUpperCase();
+        if (!query.fragments.includes(fragment)) query.fragments.push(fragment);
+        return;
+    }
+
+    const lower = word.toLowerCase();
+    if (lower.length >= MIN_WORD_LENGTH && !query.words.includes(lower)) query.words.push(lower);
+}
+
+/**
+ * Whether the query has anything to search for
+ */
+export function isEmptyQuery(query: MessageSearchQuery): boolean {
+    return query.words.length + query.phrases.length + query.fragments.length === 0;
+}
+
+/**
+ * The FULLTEXT part of a query in boolean mode: every word (as a prefix) and
+ * phrase is required
+ *
+ * @returns null if the query has no words or phrases
+ */
+export function toBooleanQuery(query: MessageSearchQuery): string | null {
+    const parts = [
+        ...query.words.map((word) => `+${word}*`),
+        ...query.phrases.map((phrase) => `+"${phrase}"`),
+    ];
+
+    return parts.length > 0 ? parts.join(' ') : null;
+}
+
+/**
+ * Cut a snippet around the first match and mark every match in it
+ */
+export function buildSnippet(text: string, query: MessageSearchQuery): MessageSnippet {
+    const ranges = findMatches(text, query);
+    const first = ranges[0];
+
+    let start = 0;
+    let end = text.length;
+    if (first) {
+        start = Math.max(0, first[0] - SNIPPET_RADIUS);
+        end = Math.min(text.length, first[1] + SNIPPET_RADIUS);
+    } else {
+        end = Math.min(text.length, SNIPPET_RADIUS * 2);
+    }
+
+    // Don't cut words in half
+    if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space >= 0 && space < (first?.[0] ?? 0)) start = space + 1;
+    }
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > (first?.[1] ?? 0)) end = space;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const offset = prefix.length - start;
+
+    return {
+        snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+        highlights: ranges
+            .filter(([from, to]) => from >= start && to <= end)
+            .map(([from, to]) => [from + offset, to + offset]),
+    };
+}
+
+/**
+ * Ranges of every match (word prefixes, phrases, fragments), in text order
+ */
+function findMatches(text: string, query: MessageSearchQuery): Array<[number, number]> {
+    const patterns = [
+        ...query.words.map((word) => `(?<![\\p{L}\\p{N}])${escapeRegExp(word)}[\\p{L}\\p{N}]*`),
+        ...query.phrases.map((phrase) =>
+            phrase.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}]+')
+        ),
+        ...query.fragments.map(escapeRegExp),
+    ];
+    if (patterns.length === 0) return [];
+
+    const ranges: Array<[number, number]> = [];
+    for (const match of text.matchAll(new RegExp(patterns.join('|'), 'giu'))) {
+        if (match[0].length === 0) continue;
+        ranges.push([match.index, match.index + match[0].length]);
+    }
+
+    return ranges;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,59 @@
+/**
+ * Message Template Renderer Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { findUnknownPlaceholders, hasPlaceholders, renderTemplate } from './message-template';
+
+describe('renderTemplate', () => {
+    it('should fill placeholders from the recipient variables', () => {
+        const text = renderTemplate(
+            'Hi {{name}} ({{companyName}}), load {{loadId}} at {{location}}',
+            {
+                name: 'Giorgi',
+                companyName: 'Tigra Trans',
+                loadId: '4B21C7',
+                location: 'NJ - SOMERVILLE',
+            }
+        );
+
+        expect(text).toBe('Hi Giorgi (Tigra Trans), load 4B21C7 at NJ - SOMERVILLE');
+    });
+
+    it('should use the fallback when a value is missing', () => {
+        expect(renderTemplate('Hi {{name|there}}!', { name: null })).toBe('Hi there!');
+        expect(renderTemplate('Hi {{ name | driver }}!', { name: '  ' })).toBe('Hi driver!');
+    });
+
+    it('should drop missing values without leaving double spaces', () => {
+        expect(renderTemplate('Hi {{name}} any loads today?', {})).toBe('Hi any loads today?');
+    });
+});
+
+describe('findUnknownPlaceholders', () => {
+    it('should report unsupported placeholders once', () => {
+        expect(findUnknownPlaceholders('{{name}} {{vin}} {{vin}} {{price|0}}')).toEqual([
+            'vin',
+            'price',
+        ]);
+    });
+
+    it('should accept supported placeholders', () => {
+        expect(findUnknownPlaceholders('{{name}} {{companyName}} {{location}} {{loadId}}')).toEqual(
+            []
+        );
+    });
+
+    it('should check against the given placeholders', () => {
+        expect(findUnknownPlaceholders('{{loadStatus}} {{location}}', ['loadStatus'])).toEqual([
+            'location',
+        ]);
+    });
+});
+
+describe('hasPlaceholders', () => {
+    it('should detect templates with placeholders', () => {
+        expect(hasPlaceholders('Hello {{name}}')).toBe(true);
+        expect(hasPlaceholders('Hello there')).toBe(false);
+    });
+});
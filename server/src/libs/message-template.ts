@@ -0,0 +1,71 @@
+/**
+ * Message Template Renderer
+ *
+ * Fills `{{placeholder}}` tokens in campaign message templates with
+ * per-recipient values from the Driver / Location records.
+ *
+ * Supported placeholders: {{name}}, {{companyName}}, {{location}}, {{loadId}}
+ * (other templates, such as auto-replies, pass their own list)
+ * A fallback can be given after a pipe: "Hi {{name|there}}" renders
+ * "Hi there" when the driver's name is unknown. Placeholders without a
+ * value or fallback render as an empty string.
+ */
+
+export const TEMPLATE_PLACEHOLDERS = ['name', 'companyName', 'location', 'loadId'] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+export type TemplateVariables = Partial<Record<TemplatePlaceholder, string | null>>;
+
+// {{ key }} or {{ key | fallback }}
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Find placeholders in a template that are not supported
+ *
+ * @param template - Message template
+ * @param placeholders - Supported placeholder names
+ * @returns Unknown placeholder names (empty if the template is valid)
+ */
+export function findUnknownPlaceholders(
+    template: string,
+    placeholders: readonly string[] = TEMPLATE_PLACEHOLDERS
+): string[] {
+    const unknown = new Set<string>();
+
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        const key = match[1]!;
+        if (!placeholders.includes(key)) {
+            unknown.add(key);
+        }
+    }
+
+    return [...unknown];
+}
+
+/**
+ * Render a template for one recipient
+ *
+ * @param template - Message template
+ * @param variables - Values for this recipient
+ * @returns Rendered message text
+ */
+export function renderTemplate(
+    template: string,
+    variables: Partial<Record<string, string | null>>
+): string {
+    return template
+        .replace(PLACEHOLDER_PATTERN, (_token, key: string, fallback?: string) => {
+            const value = variables[key]?.trim();
+            return value || fallback?.trim() || '';
+        })
+        .replace(/[ \t]{2,}/g, ' ')
+        .trim();
+}
+
+/**
+ * Whether a template contains any placeholders
+ */
+export function hasPlaceholders(template: string): boolean {
+    return new RegExp(PLACEHOLDER_PATTERN.source).test(template);
+}
@@ -4,11 +4,13 @@
  * Coordinates pickup sync jobs:
  * 1. Regular sync every 10 minutes - upserts today's pickups from sheet
  * 2. Daily reset at 2PM - deletes all records and re-syncs fresh data
+ *
+ * Both are dispatched as sync jobs (see sync-jobs.ts) under a lease, so with
+ * several instances each run happens once.
  */
 
-import cron from 'node-cron';
-import { pickupSyncService } from '../modules/pickups/pickup-sync.service.js';
-import { pickupRepo } from '../modules/pickups/pickups.repo.js';
+import { dispatchSyncJob } from './sync-jobs.js';
+import { scheduledJobService } from '../modules/scheduled-jobs/scheduled-jobs.service.js';
 import logger from './logger.js';
 import { env } from '../config/env.js';
 
@@ -30,44 +32,26 @@ export function startPickupSyncScheduler(): void {
     // ============================================================
     // Run sync immediately on startup
     // ============================================================
-    pickupSyncService.syncPickupsToday().catch((error) => {
-        const message = error instanceof Error ? error.message : String(error);
-        logger.error({ error: message }, '[PICKUP SYNC] ERROR: Initial sync failed');
-    });
+    scheduledJobService
+        .run('pickup-sync', () => dispatchSyncJob('pickup-sync', 'startup'))
+        .catch((error) => {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.error({ error: message }, '[PICKUP SYNC] ERROR: Initial sync failed');
+        });
 
     // ============================================================
     // Job 1: Regular sync every 10 minutes
     // ============================================================
-    cron.schedule('*/10 * * * *', async () => {
-        try {
-            const result = await pickupSyncService.syncPickupsToday();
-            logger.info(result, '[PICKUP SYNC] SUCCESS: Scheduled sync completed');
-        } catch (error: unknown) {
-            const message = error instanceof Error ? error.message : String(error);
-            logger.error({ error: message }, '[PICKUP SYNC] ERROR: Scheduled sync failed');
-        }
-    });
+    scheduledJobService.schedule('pickup-sync', '*/10 * * * *', () =>
+        dispatchSyncJob('pickup-sync')
+    );
 
     // ============================================================
     // Job 2: Daily reset at 2AM - delete all + re-sync
     // ============================================================
-    cron.schedule('0 2 * * *', async () => {
-        try {
-            logger.info('[PICKUP SYNC] Starting daily 2AM reset...');
-
-            const deleteResult = await pickupRepo.deleteAll();
-            logger.info(
-                { deleted: deleteResult.count },
-                '[PICKUP SYNC] Deleted all pickups for daily reset'
-            );
-
-            const syncResult = await pickupSyncService.syncPickupsToday();
-            logger.info(syncResult, '[PICKUP SYNC] SUCCESS: 2AM reset+sync completed');
-        } catch (error: unknown) {
-            const message = error instanceof Error ? error.message : String(error);
-            logger.error({ error: message }, '[PICKUP SYNC] ERROR: 2AM reset failed');
-        }
-    });
+    scheduledJobService.schedule('pickup-reset', '0 2 * * *', () =>
+        dispatchSyncJob('pickup-reset')
+    );
 
     logger.info('[PICKUP SYNC] Pickup sync scheduler started (10-min sync + 2AM daily reset)');
 }
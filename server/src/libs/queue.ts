@@ -9,6 +9,7 @@
 import { Queue } from 'bullmq';
 import { redis } from './redis.js';
 import logger from './logger.js';
+import type { JobTrigger } from '../modules/scheduled-jobs/scheduled-jobs.types.js';
 
 /**
  * File Processing Queue
@@ -77,3 +78,117 @@ fileQueue.on('waiting', (job) => {
 logger.info('File queue initialized');
 
 
+
+/**
+ * Shared error logging for the queues below
+ */
+function logQueueErrors(queue: Queue, name: string): void {
+    queue.on('error', (error: Error) => {
+        // Suppress ECONNREFUSED logs during reconnection attempts to reduce noise
+        if (error.message.includes('ECONNREFUSED') || error.stack?.includes('ECONNREFUSED')) {
+            return;
+        }
+
+        logger.error({ queue: name, error: error.message, stack: error.stack }, 'Queue error');
+    });
+}
+
+/**
+ * Outbound SMS Queues
+ *
+ * One queue per sender line ("sms-<phoneNumberId>", "sms-default" for
+ * QUO_NUMBER) so each line gets its own BullMQ rate limiter. A job only
+ * carries the QueuedMessage ID; the database row stays the source of truth
+ * and its ID is the job ID, so a message is never queued twice.
+ *
+ * Job Types:
+ * - send-message
+ */
+export interface SendMessageJobData {
+    queuedMessageId: string;
+}
+
+const messageQueues = new Map<string, Queue<SendMessageJobData>>();
+
+/**
+ * Queue name for a sender line (null = default line)
+ *
+ * Callers pass the default line's own ID as null too (see
+ * senderLinesService.toLineKey), so it has a single queue.
+ */
+export function messageQueueName(phoneNumberId: string | null): string {
+    return `sms-${phoneNumberId ?? 'default'}`;
+}
+
+/**
+ * Get (or create) the SMS queue of a sender line
+ */
+export function getMessageQueue(phoneNumberId: string | null): Queue<SendMessageJobData> {
+    const name = messageQueueName(phoneNumberId);
+    let queue = messageQueues.get(name);
+
+    if (!queue) {
+        queue = new Queue<SendMessageJobData>(name, {
+            connection: redis as any,
+            defaultJobOptions: {
+                // Send errors are retried by the message queue service, not BullMQ
+                attempts: 1,
+                removeOnComplete: true,
+                removeOnFail: true,
+            },
+        });
+        logQueueErrors(queue, name);
+        messageQueues.set(name, queue);
+    }
+
+    return queue;
+}
+
+/**
+ * Sync Queue
+ *
+ * Sheet syncs and driver matching, processed one at a time by the worker.
+ *
+ * Job Types: see SyncJobName
+ */
+export type SyncJobName =
+    | 'sheet-sync'
+    | 'allcars-sync'
+    | 'pickup-sync'
+    | 'pickup-reset'
+    | 'driver-matching'
+    | 'unknown-driver-matching'
+    | 'sheet-write-back';
+
+export interface SyncJobData {
+    /** What started the run (stored in the job run history) */
+    trigger?: JobTrigger;
+}
+
+export const syncQueue = new Queue('sync', {
+    connection: redis as any,
+    defaultJobOptions: {
+        // The next scheduled run is the retry
+        attempts: 1,
+        removeOnComplete: {
+            age: 3600,
+            count: 100,
+        },
+        removeOnFail: {
+            age: 86400,
+        },
+    },
+});
+
+logQueueErrors(syncQueue, 'sync');
+
+/**
+ * Close every queue (graceful shutdown)
+ */
+export async function closeQueues(): Promise<void> {
+    await Promise.all([
+        fileQueue.close(),
+        syncQueue.close(),
+        ...[...messageQueues.values()].map((queue) => queue.close()),
+    ]);
+}
@@ -0,0 +1,75 @@
+/**
+ * Quiet Hours Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getNextSendTime, isQuietTime, timezoneForState } from './quiet-hours';
+
+const overnight = { start: '21:00', end: '08:00' };
+
+describe('timezoneForState', () => {
+    it('should map state abbreviations to time zones', () => {
+        expect(timezoneForState('FL')).toBe('America/New_York');
+        expect(timezoneForState(' tx ')).toBe('America/Chicago');
+        expect(timezoneForState('CA')).toBe('America/Los_Angeles');
+    });
+
+    it('should return null for unknown or missing states', () => {
+        expect(timezoneForState('ZZ')).toBeNull();
+        expect(timezoneForState(null)).toBeNull();
+    });
+});
+
+describe('isQuietTime', () => {
+    it('should handle windows that wrap past midnight', () => {
+        // 03:00 in New York (EDT, UTC-4)
+        expect(isQuietTime(new Date('2026-10-19T07:00:00Z'), 'America/New_York', overnight)).toBe(
+            true
+        );
+        // 12:00 in New York
+        expect(isQuietTime(new Date('2026-10-19T16:00:00Z'), 'America/New_York', overnight)).toBe(
+            false
+        );
+    });
+
+    it('should use the recipient time zone', () => {
+        // 22:00 in New York is 19:00 in Los Angeles
+        const date = new Date('2026-10-20T02:00:00Z');
+        expect(isQuietTime(date, 'America/New_York', overnight)).toBe(true);
+        expect(isQuietTime(date, 'America/Los_Angeles', overnight)).toBe(false);
+    });
+
+    it('should handle same-day windows and empty windows', () => {
+        const date = new Date('2026-10-19T16:30:00Z'); // 12:30 in New York
+        expect(isQuietTime(date, 'America/New_York', { start: '12:00', end: '13:00' })).toBe(true);
+        expect(isQuietTime(date, 'America/New_York', { start: '00:00', end: '00:00' })).toBe(false);
+    });
+});
+
+describe('getNextSendTime', () => {
+    it('should return null when sending is allowed', () => {
+        expect(
+            getNextSendTime(new Date('2026-10-19T16:00:00Z'), 'America/New_York', overnight)
+        ).toBeNull();
+    });
+
+    it('should return the local end of the quiet window', () => {
+        // 03:15:30 in New York -> 08:00 the same morning
+        const next = getNextSendTime(
+            new Date('2026-10-19T07:15:30Z'),
+            'America/New_York',
+            overnight
+        );
+        expect(next).toEqual(new Date('2026-10-19T12:00:00Z'));
+    });
+
+    it('should roll over to the next day before midnight', () => {
+        // 23:00 in Chicago (CDT, UTC-5) -> 08:00 the next morning
+        const next = getNextSendTime(
+            new Date('2026-10-20T04:00:00Z'),
+            'America/Chicago',
+            overnight
+        );
+        expect(next).toEqual(new Date('2026-10-20T13:00:00Z'));
+    });
+});
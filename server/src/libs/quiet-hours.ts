@@ -0,0 +1,168 @@
+/**
+ * Quiet Hours
+ *
+ * Time zone inference and send-window math for the message queue.
+ *
+ * A recipient's time zone is inferred from the state of the driver's most
+ * recently seen Location. A quiet-hours window is given as local "HH:MM"
+ * start and end times and may wrap past midnight (e.g. 21:00 - 08:00).
+ */
+
+/**
+ * Primary IANA time zone for each US state / DC (by two-letter abbreviation)
+ *
+ * States split across zones use the zone covering most of the population.
+ */
+export const STATE_TIMEZONES: Record<string, string> = {
+    AL: 'America/Chicago',
+    AK: 'America/Anchorage',
+    AZ: 'America/Phoenix',
+    AR: 'America/Chicago',
+    CA: 'America/Los_Angeles',
+    CO: 'America/Denver',
+    CT: 'America/New_York',
+    DC: 'America/New_York',
+    DE: 'America/New_York',
+    FL: 'America/New_York',
+    GA: 'America/New_York',
+    HI: 'Pacific/Honolulu',
+    ID: 'America/Boise',
+    IL: 'America/Chicago',
+    IN: 'America/Indiana/Indianapolis',
+    IA: 'America/Chicago',
+    KS: 'America/Chicago',
+    KY: 'America/New_York',
+    LA: 'America/Chicago',
+    ME: 'America/New_York',
+    MD: 'America/New_York',
+    MA: 'America/New_York',
+    MI: 'America/Detroit',
+    MN: 'America/Chicago',
+    MS: 'America/Chicago',
+    MO: 'America/Chicago',
+    MT: 'America/Denver',
+    NE: 'America/Chicago',
+    NV: 'America/Los_Angeles',
+    NH: 'America/New_York',
+    NJ: 'America/New_York',
+    NM: 'America/Denver',
+    NY: 'America/New_York',
+    NC: 'America/New_York',
+    ND: 'America/Chicago',
+    OH: 'America/New_York',
+    OK: 'America/Chicago',
+    OR: 'America/Los_Angeles',
+    PA: 'America/New_York',
+    RI: 'America/New_York',
+    SC: 'America/New_York',
+    SD: 'America/Chicago',
+    TN: 'America/Chicago',
+    TX: 'America/Chicago',
+    UT: 'America/Denver',
+    VT: 'America/New_York',
+    VA: 'America/New_York',
+    WA: 'America/Los_Angeles',
+    WV: 'America/New_York',
+    WI: 'America/Chicago',
+    WY: 'America/Denver',
+    PR: 'America/Puerto_Rico',
+};
+
+/**
+ * Local quiet-hours window ("HH:MM", 24h clock)
+ */
+export interface QuietWindow {
+    start: string;
+    end: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Look up the time zone for a state abbreviation
+ *
+ * @returns IANA time zone, or null for unknown / missing states
+ */
+export function timezoneForState(state: string | null | undefined): string | null {
+    if (!state) return null;
+    return STATE_TIMEZONES[state.trim().toUpperCase()] ?? null;
+}
+
+/**
+ * Check that a string is an IANA time zone this runtime knows
+ */
+export function isValidTimezone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check that a string is a valid "HH:MM" time
+ */
+export function isValidTime(time: string): boolean {
+    return TIME_PATTERN.test(time);
+}
+
+/**
+ * Convert "HH:MM" to minutes after midnight
+ */
+function toMinutes(time: string): number {
+    const match = TIME_PATTERN.exec(time);
+    if (!match) {
+        throw new Error(`Invalid time "${time}", expected HH:MM`);
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Local wall-clock time of an instant in a time zone
+ */
+function getLocalTime(date: Date, timeZone: string): { minutes: number; seconds: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(date);
+
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+    return { minutes: get('hour') * 60 + get('minute'), seconds: get('second') };
+}
+
+/**
+ * Check whether an instant falls inside the quiet-hours window of a time zone
+ *
+ * A window whose start equals its end is empty (never quiet).
+ */
+export function isQuietTime(date: Date, timeZone: string, window: QuietWindow): boolean {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start === end) return false;
+
+    const { minutes } = getLocalTime(date, timeZone);
+
+    return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * When a message that is blocked by quiet hours may be sent
+ *
+ * @returns The local end of the quiet window, or null if sending is allowed now
+ */
+export function getNextSendTime(date: Date, timeZone: string, window: QuietWindow): Date | null {
+    if (!isQuietTime(date, timeZone, window)) return null;
+
+    const { minutes, seconds } = getLocalTime(date, timeZone);
+    const minutesUntilEnd = (toMinutes(window.end) - minutes + 1440) % 1440;
+
+    const next = new Date(date.getTime() + minutesUntilEnd * 60_000 - seconds * 1000);
+    next.setUTCMilliseconds(0);
+
+    return next;
+}
@@ -39,7 +39,7 @@ vi.mock('axios', () => {
 });
 
 import axios from 'axios';
-import { quoApiClient } from '../libs/quo-api.js';
+import { classifyQuoError, quoApiClient } from '../libs/quo-api.js';
 
 describe('QuoApiClient', () => {
     const mockInstance = (axios as any).__mockInstance;
@@ -132,3 +132,51 @@ describe('QuoApiClient', () => {
         });
     });
 });
+
+describe('classifyQuoError', () => {
+    const httpError = (status: number, data?: unknown, headers: Record<string, unknown> = {}) =>
+        Object.assign(new Error(`Request failed with status code ${status}`), {
+            response: { status, data, headers },
+        });
+
+    it('should treat rejected requests as permanent', () => {
+        expect(classifyQuoError(httpError(400, { message: 'Invalid phone number' }))).toEqual({
+            type: 'permanent',
+            status: 400,
+            message: 'Invalid phone number',
+        });
+        expect(classifyQuoError(httpError(422)).type).toBe('permanent');
+    });
+
+    it('should fail fast on a rejected API key', () => {
+        expect(classifyQuoError(httpError(401, { message: 'Invalid API key' }))).toEqual({
+            type: 'permanent',
+            status: 401,
+            message: 'Invalid API key',
+        });
+    });
+
+    it('should fail fast on a refused recipient', () => {
+        expect(classifyQuoError(httpError(403, { message: 'Recipient is blocked' }))).toEqual({
+            type: 'permanent',
+            status: 403,
+            message: 'Recipient is blocked',
+        });
+    });
+
+    it('should treat rate limits and server errors as transient', () => {
+        expect(classifyQuoError(httpError(429, undefined, { 'retry-after': '30' }))).toMatchObject({
+            type: 'transient',
+            status: 429,
+            retryAfterMs: 30000,
+        });
+        expect(classifyQuoError(httpError(503)).type).toBe('transient');
+    });
+
+    it('should treat network failures as transient', () => {
+        expect(classifyQuoError(new Error('timeout of 30000ms exceeded'))).toEqual({
+            type: 'transient',
+            message: 'timeout of 30000ms exceeded',
+        });
+    });
+});
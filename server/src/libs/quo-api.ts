@@ -17,6 +17,82 @@ import logger from './logger.js';
 const QUO_API_BASE_URL = 'https://api.openphone.com';
 const QUO_API_VERSION = 'v1';
 
+/**
+ * How a failed Quo API call should be treated by callers that retry
+ *
+ * - permanent: the request itself is bad (invalid number, rejected content);
+ *   sending it again cannot succeed
+ * - transient: rate limiting (429), server errors (5xx), timeouts and network
+ *   failures; worth retrying later
+ */
+export interface QuoErrorClassification {
+    type: 'permanent' | 'transient';
+    status?: number;
+    message: string;
+    /** Delay requested by the API via Retry-After (429/503) */
+    retryAfterMs?: number;
+}
+
+/**
+ * 4xx statuses that are not the request's fault and may succeed later
+ * (408/409: timing). 401/403 are permanent: retrying a bad API key or a
+ * refused recipient only burns the attempts.
+ */
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 409, 425, 429]);
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ */
+function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Classify an error thrown by quoApiClient as permanent or transient
+ *
+ * @param error - Error thrown by an Axios request (or anything else)
+ */
+export function classifyQuoError(error: unknown): QuoErrorClassification {
+    const err = error as {
+        message?: string;
+        response?: {
+            status?: number;
+            data?: { message?: unknown };
+            headers?: Record<string, unknown>;
+        };
+    };
+    const status = err?.response?.status;
+    const apiMessage = err?.response?.data?.message;
+    const message =
+        typeof apiMessage === 'string' && apiMessage
+            ? apiMessage
+            : error instanceof Error
+              ? error.message
+              : String(error);
+
+    // No response: timeout, DNS, connection reset...
+    if (!status) {
+        return { type: 'transient', message };
+    }
+
+    if (status >= 500 || RETRYABLE_CLIENT_STATUSES.has(status)) {
+        return {
+            type: 'transient',
+            status,
+            message,
+            retryAfterMs: parseRetryAfter(err.response?.headers?.['retry-after']),
+        };
+    }
+
+    return { type: 'permanent', status, message };
+}
+
 /**
  * Quo API Client Class
  * 
@@ -2,11 +2,14 @@
  * Quo Sync Scheduler
  * 
  * Cron job to periodically sync conversations from Quo API
+ *
+ * New messages normally arrive in real time through the webhook endpoint
+ * (quo-webhook.routes.ts); this poll reconciles anything a webhook missed.
  */
 
-import cron from 'node-cron';
 import { quoSyncService } from '../modules/quo-messages/quo-sync.service.js';
 import logger from './logger.js';
+import { scheduledJobService } from '../modules/scheduled-jobs/scheduled-jobs.service.js';
 import { env } from '../config/env.js';
 
 /**
@@ -25,20 +28,23 @@ export function startQuoSyncScheduler(): void {
 
     // Run immediately on startup
     logger.info('[QUO SCHEDULER] Running initial sync on startup...');
-    quoSyncService.syncAllConversations(phoneNumberId).catch((error) => {
-        logger.error({ error: error.message }, '[QUO SCHEDULER] ERROR: Initial sync failed');
-    });
+    scheduledJobService
+        .run('quo-sync', () =>
+            scheduledJobService.track('quo-sync', 'startup', () =>
+                quoSyncService.syncAllConversations(phoneNumberId)
+            )
+        )
+        .catch((error) => {
+            logger.error({ error: error.message }, '[QUO SCHEDULER] ERROR: Initial sync failed');
+        });
 
     // Schedule to run every 10 minutes
-    cron.schedule('*/10 * * * *', async () => {
+    scheduledJobService.schedule('quo-sync', '*/10 * * * *', async () => {
         logger.info('[QUO SCHEDULER] Running scheduled Quo sync...');
-
-        try {
-            await quoSyncService.syncAllConversations(phoneNumberId);
-            logger.info('[QUO SCHEDULER] SUCCESS: Scheduled sync completed successfully');
-        } catch (error: any) {
-            logger.error({ error: error.message }, '[QUO SCHEDULER] ERROR: Scheduled sync failed');
-        }
+        await scheduledJobService.track('quo-sync', 'cron', () =>
+            quoSyncService.syncAllConversations(phoneNumberId)
+        );
+        logger.info('[QUO SCHEDULER] SUCCESS: Scheduled sync completed successfully');
     });
 
     logger.info('[QUO SCHEDULER] Quo sync scheduler started successfully');
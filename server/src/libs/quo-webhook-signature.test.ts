@@ -0,0 +1,51 @@
+/**
+ * Quo Webhook Signature Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    QUO_SIGNATURE_TOLERANCE_MS,
+    computeQuoSignature,
+    verifyQuoSignature,
+} from './quo-webhook-signature';
+
+const SIGNING_KEY = Buffer.from('test-webhook-signing-key').toString('base64');
+const BODY = JSON.stringify({ id: 'EV123', type: 'message.received' });
+const NOW = 1_760_000_000_000;
+
+const sign = (timestamp: number, body = BODY, key = SIGNING_KEY) =>
+    `hmac;1;${timestamp};${computeQuoSignature(key, String(timestamp), body)}`;
+
+describe('verifyQuoSignature', () => {
+    it('should accept a valid signature', () => {
+        expect(verifyQuoSignature(sign(NOW), BODY, SIGNING_KEY, NOW)).toBe(true);
+    });
+
+    it('should reject a missing header', () => {
+        expect(verifyQuoSignature(undefined, BODY, SIGNING_KEY, NOW)).toBe(false);
+    });
+
+    it('should reject a tampered body', () => {
+        expect(verifyQuoSignature(sign(NOW), `${BODY} `, SIGNING_KEY, NOW)).toBe(false);
+    });
+
+    it('should reject a signature made with another key', () => {
+        const otherKey = Buffer.from('another-key').toString('base64');
+        expect(verifyQuoSignature(sign(NOW, BODY, otherKey), BODY, SIGNING_KEY, NOW)).toBe(false);
+    });
+
+    it('should reject a stale timestamp', () => {
+        const stale = NOW - QUO_SIGNATURE_TOLERANCE_MS - 1;
+        expect(verifyQuoSignature(sign(stale), BODY, SIGNING_KEY, NOW)).toBe(false);
+    });
+
+    it('should accept any valid entry in a comma-separated header', () => {
+        const header = `hmac;1;${NOW};bm90LXZhbGlk,${sign(NOW)}`;
+        expect(verifyQuoSignature(header, BODY, SIGNING_KEY, NOW)).toBe(true);
+    });
+
+    it('should reject unknown schemes', () => {
+        const header = sign(NOW).replace('hmac;1', 'hmac;2');
+        expect(verifyQuoSignature(header, BODY, SIGNING_KEY, NOW)).toBe(false);
+    });
+});
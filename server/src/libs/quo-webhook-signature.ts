@@ -0,0 +1,78 @@
+/**
+ * Quo (OpenPhone) Webhook Signature Verification
+ *
+ * OpenPhone signs every webhook delivery with the webhook's signing key.
+ * The `openphone-signature` header has the form:
+ *
+ *   hmac;1;<timestamp>;<base64 digest>
+ *
+ * where the digest is HMAC-SHA256 over `<timestamp>.<raw body>` using the
+ * base64-decoded signing key. Several signatures may be sent comma-separated
+ * while a key is being rotated.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Header carrying the webhook signature
+ */
+export const QUO_SIGNATURE_HEADER = 'openphone-signature';
+
+/**
+ * Reject deliveries whose timestamp is older than this (replay protection)
+ */
+export const QUO_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Compute the base64 HMAC digest for a payload
+ *
+ * @param signingKey - Base64 signing key from the OpenPhone webhook settings
+ * @param timestamp - Timestamp string from the signature header
+ * @param rawBody - Exact request body as received
+ */
+export function computeQuoSignature(
+    signingKey: string,
+    timestamp: string,
+    rawBody: string
+): string {
+    return createHmac('sha256', Buffer.from(signingKey, 'base64'))
+        .update(`${timestamp}.${rawBody}`)
+        .digest('base64');
+}
+
+/**
+ * Verify an `openphone-signature` header against the raw request body
+ *
+ * @param header - Value of the signature header (may be undefined)
+ * @param rawBody - Exact request body as received
+ * @param signingKey - Base64 signing key
+ * @param now - Current time in ms (injectable for tests)
+ * @returns true if at least one signature is valid and fresh
+ */
+export function verifyQuoSignature(
+    header: string | undefined,
+    rawBody: string,
+    signingKey: string,
+    now: number = Date.now()
+): boolean {
+    if (!header) return false;
+
+    for (const entry of header.split(',')) {
+        const [scheme, version, timestamp, digest] = entry.trim().split(';');
+        if (scheme !== 'hmac' || version !== '1' || !timestamp || !digest) continue;
+
+        const sentAt = Number(timestamp);
+        if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > QUO_SIGNATURE_TOLERANCE_MS) {
+            continue;
+        }
+
+        const expected = Buffer.from(computeQuoSignature(signingKey, timestamp, rawBody));
+        const received = Buffer.from(digest);
+
+        if (expected.length === received.length && timingSafeEqual(expected, received)) {
+            return true;
+        }
+    }
+
+    return false;
+}
@@ -133,4 +133,27 @@ redis.connect().catch(() => {
  */
 export const isRedisAvailable = (): boolean => isRedisConnected;
 
+/**
+ * Wait for the initial connection (the client connects lazily at startup)
+ *
+ * @returns true once Redis is ready, false on timeout or after giving up
+ */
+export const waitForRedis = (timeoutMs = 5000): Promise<boolean> => {
+    if (isRedisConnected) return Promise.resolve(true);
+    if (hasGivenUp) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+        const onReady = () => {
+            clearTimeout(timer);
+            resolve(true);
+        };
+        const timer = setTimeout(() => {
+            redis.off('ready', onReady);
+            resolve(false);
+        }, timeoutMs);
+
+        redis.once('ready', onReady);
+    });
+};
+
 export { redis };
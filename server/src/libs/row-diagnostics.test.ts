@@ -0,0 +1,66 @@
+/**
+ * Row Diagnostics Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MAX_ROW_DIAGNOSTICS, RowDiagnostics, diagnosticValue } from './row-diagnostics';
+
+describe('RowDiagnostics', () => {
+    it('should record findings with the tab name', () => {
+        const diagnostics = new RowDiagnostics('FEB');
+
+        diagnostics.add({
+            row: 12,
+            column: 'vin',
+            value: 'ABC',
+            reason: 'invalid_vin',
+            severity: 'error',
+        });
+
+        expect(diagnostics.items).toEqual([
+            {
+                tab: 'FEB',
+                row: 12,
+                column: 'vin',
+                value: 'ABC',
+                reason: 'invalid_vin',
+                severity: 'error',
+                message: null,
+            },
+        ]);
+        expect(diagnostics.total).toBe(1);
+    });
+
+    it('should keep initial diagnostics', () => {
+        const initial = new RowDiagnostics('FEB');
+        initial.add({ row: 1, column: 'status', reason: 'column_not_found', severity: 'warning' });
+
+        const diagnostics = new RowDiagnostics('FEB', initial.items);
+
+        expect(diagnostics.total).toBe(1);
+        expect(diagnostics.items[0]?.reason).toBe('column_not_found');
+    });
+
+    it('should stop storing at the limit but keep counting', () => {
+        const diagnostics = new RowDiagnostics();
+
+        for (let i = 0; i < MAX_ROW_DIAGNOSTICS + 5; i++) {
+            diagnostics.add({ row: i + 2, reason: 'row_failed', severity: 'error' });
+        }
+
+        expect(diagnostics.items).toHaveLength(MAX_ROW_DIAGNOSTICS);
+        expect(diagnostics.total).toBe(MAX_ROW_DIAGNOSTICS + 5);
+    });
+});
+
+describe('diagnosticValue', () => {
+    it('should convert cells to text', () => {
+        expect(diagnosticValue(42)).toBe('42');
+        expect(diagnosticValue('')).toBeNull();
+        expect(diagnosticValue(undefined)).toBeNull();
+    });
+
+    it('should truncate long values', () => {
+        expect(diagnosticValue('x'.repeat(600))).toHaveLength(500);
+    });
+});
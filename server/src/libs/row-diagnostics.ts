@@ -0,0 +1,114 @@
+/**
+ * Row Diagnostics
+ *
+ * Structured per-row findings of the sheet syncs: which row and column, the
+ * raw value and why it was rejected or only partly used. They are stored
+ * with the sync's JobRun (job_run_diagnostics) so the dispatch team can fix
+ * the sheet itself.
+ *
+ * Severity:
+ * - error: the row was not synced
+ * - warning: the row was synced, but a value was ignored or could not be understood
+ */
+
+/**
+ * Max diagnostics kept per run (the total is still counted)
+ */
+export const MAX_ROW_DIAGNOSTICS = 500;
+
+/**
+ * Max stored length of a raw cell value
+ */
+const MAX_VALUE_LENGTH = 500;
+
+export type RowDiagnosticReason =
+    | 'invalid_vin'
+    | 'invalid_phone'
+    | 'invalid_pickup_day'
+    | 'unknown_location'
+    | 'unknown_status'
+    | 'column_not_found'
+    | 'row_failed';
+
+export type RowDiagnosticSeverity = 'error' | 'warning';
+
+export interface RowDiagnostic {
+    /** Sheet tab the row is on */
+    tab: string | null;
+    /** Row number (1-based, as shown in Google Sheets) */
+    row: number;
+    /** Field the finding is about, e.g. "vin" (null = whole row) */
+    column: string | null;
+    /** Raw cell value */
+    value: string | null;
+    reason: RowDiagnosticReason;
+    severity: RowDiagnosticSeverity;
+    message: string | null;
+}
+
+export interface RowDiagnosticInput {
+    /** Tab of the row (default: the tab the diagnostics were created for) */
+    tab?: string | null;
+    row: number;
+    column?: string | null;
+    value?: unknown;
+    reason: RowDiagnosticReason;
+    severity: RowDiagnosticSeverity;
+    message?: string | null;
+}
+
+/**
+ * Diagnostics of one sync run (bounded)
+ */
+export class RowDiagnostics {
+    readonly items: RowDiagnostic[] = [];
+    private count = 0;
+
+    constructor(
+        private readonly tab: string | null = null,
+        initial: RowDiagnostic[] = []
+    ) {
+        for (const diagnostic of initial) this.push(diagnostic);
+    }
+
+    /**
+     * Record a finding
+     */
+    add(input: RowDiagnosticInput): void {
+        this.push({
+            tab: input.tab ?? this.tab,
+            row: input.row,
+            column: input.column ?? null,
+            value: diagnosticValue(input.value),
+            reason: input.reason,
+            severity: input.severity,
+            message: input.message ?? null,
+        });
+    }
+
+    /**
+     * Number of findings, including those past the limit
+     */
+    get total(): number {
+        return this.count;
+    }
+
+    private push(diagnostic: RowDiagnostic): void {
+        this.count++;
+        if (this.items.length < MAX_ROW_DIAGNOSTICS) {
+            this.items.push(diagnostic);
+        }
+    }
+}
+
+/**
+ * Raw cell value as stored text (null for empty cells)
+ */
+export function diagnosticValue(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+
+    const text = String(value);
+    if (text.length === 0) return null;
+
+    return text.length > MAX_VALUE_LENGTH ? text.slice(0, MAX_VALUE_LENGTH) : text;
+}
@@ -0,0 +1,92 @@
+/**
+ * Sheet Changes Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type StoredRow, diffRows, hashRow } from './sheet-changes';
+
+const row = (key: string, values: unknown[] = [key], tab = 'FEB') => ({
+    key,
+    tab,
+    hash: hashRow(values),
+    data: key,
+});
+
+const stored = (key: string, overrides: Partial<StoredRow> = {}): StoredRow => ({
+    id: `id-${key}`,
+    key,
+    hash: hashRow([key]),
+    tab: 'FEB',
+    closedAt: null,
+    ...overrides,
+});
+
+describe('hashRow', () => {
+    it('should depend on every value', () => {
+        expect(hashRow(['VIN1', 'FL'])).toBe(hashRow(['VIN1', 'FL']));
+        expect(hashRow(['VIN1', 'FL'])).not.toBe(hashRow(['VIN1', 'GA']));
+        expect(hashRow(['VIN1', null])).not.toBe(hashRow(['VIN1', '']));
+    });
+});
+
+describe('diffRows', () => {
+    it('should skip unchanged rows', () => {
+        const changes = diffRows(['FEB'], [row('A'), row('B')], [stored('A'), stored('B')]);
+
+        expect(changes.added).toEqual([]);
+        expect(changes.updated).toEqual([]);
+        expect(changes.unchanged).toBe(2);
+        expect(changes.removed).toEqual([]);
+    });
+
+    it('should find added and updated rows', () => {
+        const changes = diffRows(['FEB'], [row('A', ['A', 'new']), row('B')], [stored('A')]);
+
+        expect(changes.added.map((r) => r.key)).toEqual(['B']);
+        expect(changes.updated.map((r) => r.id)).toEqual(['id-A']);
+    });
+
+    it('should update rows that moved tab or were closed', () => {
+        const changes = diffRows(
+            ['FEB'],
+            [row('A'), row('B')],
+            [stored('A', { tab: 'JAN' }), stored('B', { closedAt: new Date() })]
+        );
+
+        expect(changes.updated.map((r) => r.key)).toEqual(['A', 'B']);
+    });
+
+    it('should report open rows of the tab that left the sheet', () => {
+        const changes = diffRows(
+            ['FEB'],
+            [row('A')],
+            [
+                stored('A'),
+                stored('B'),
+                stored('C', { tab: 'JAN' }),
+                stored('D', { closedAt: new Date() }),
+            ]
+        );
+
+        expect(changes.removed.map((r) => r.key)).toEqual(['B']);
+    });
+
+    it('should keep each row on its newest tab', () => {
+        const changes = diffRows(
+            ['JAN', 'FEB'],
+            [row('A', ['A'], 'JAN'), row('B', ['B'], 'JAN'), row('A', ['A'], 'FEB')],
+            [stored('A'), stored('B', { tab: 'JAN' }), stored('C', { tab: 'JAN' })]
+        );
+
+        expect(changes.unchanged).toBe(2);
+        expect(changes.updated).toEqual([]);
+        expect(changes.removed.map((r) => r.key)).toEqual(['C']);
+    });
+
+    it('should keep the last row of a duplicated key', () => {
+        const changes = diffRows(['FEB'], [row('A', ['A', 1]), row('A', ['A', 2])], []);
+
+        expect(changes.added).toHaveLength(1);
+        expect(changes.added[0]?.hash).toBe(hashRow(['A', 2]));
+    });
+});
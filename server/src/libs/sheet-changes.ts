@@ -0,0 +1,87 @@
+/**
+ * Sheet Changes
+ *
+ * Change detection for the sheet syncs. Each row is hashed over the fields a
+ * sync stores, and the rows read from one or more tabs are compared with
+ * what the database already holds:
+ *
+ * - added: key not stored yet
+ * - updated: hash, tab or closed flag differs
+ * - unchanged: nothing to write
+ * - removed: stored as open on one of the read tabs, but no longer in them
+ *
+ * If a key appears twice, the last row wins (as with the previous row-by-row
+ * upserts), so rows of several tabs are passed oldest tab first.
+ */
+
+import { createHash } from 'node:crypto';
+
+export interface HashedRow<T> {
+    /** Unique key of the row, e.g. the VIN */
+    key: string;
+    /** Tab the row was read from */
+    tab: string;
+    hash: string;
+    data: T;
+}
+
+export interface StoredRow {
+    id: string;
+    key: string;
+    hash: string | null;
+    tab: string | null;
+    closedAt: Date | null;
+}
+
+export interface RowChanges<T> {
+    added: HashedRow<T>[];
+    updated: Array<HashedRow<T> & { id: string }>;
+    unchanged: number;
+    removed: StoredRow[];
+}
+
+/**
+ * SHA-256 of the stored values of a row (hex)
+ */
+export function hashRow(values: unknown[]): string {
+    return createHash('sha256').update(JSON.stringify(values)).digest('hex');
+}
+
+/**
+ * Compare the rows of some tabs with the stored rows
+ *
+ * @param tabs - Tabs that were read completely (only their rows can be removed)
+ * @param stored - Stored rows whose key is in `rows`, plus the open rows of `tabs`
+ */
+export function diffRows<T>(
+    tabs: string[],
+    rows: HashedRow<T>[],
+    stored: StoredRow[]
+): RowChanges<T> {
+    const latest = new Map(rows.map((row) => [row.key, row]));
+    const storedByKey = new Map(stored.map((row) => [row.key, row]));
+
+    const changes: RowChanges<T> = { added: [], updated: [], unchanged: 0, removed: [] };
+
+    for (const row of latest.values()) {
+        const existing = storedByKey.get(row.key);
+
+        if (!existing) {
+            changes.added.push(row);
+        } else if (existing.hash !== row.hash || existing.tab !== row.tab || existing.closedAt) {
+            changes.updated.push({ ...row, id: existing.id });
+        } else {
+            changes.unchanged++;
+        }
+    }
+
+    for (const existing of stored) {
+        const onReadTab = existing.tab !== null && tabs.includes(existing.tab);
+
+        if (onReadTab && !existing.closedAt && !latest.has(existing.key)) {
+            changes.removed.push(existing);
+        }
+    }
+
+    return changes;
+}
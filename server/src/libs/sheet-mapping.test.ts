@@ -0,0 +1,104 @@
+/**
+ * Sheet Column Mapping Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    columnLetter,
+    isFilteredOut,
+    resolveColumns,
+    resolveTabName,
+    tabRange,
+} from './sheet-mapping';
+
+describe('resolveColumns', () => {
+    it('should find columns by header name', () => {
+        const { columns, warnings } = resolveColumns(['VIN', 'Date', ' driver  num '], {
+            vin: { header: 'vin', index: 5 },
+            driverPhone: { header: ['PHONE', 'DRIVER NUM'], index: 6 },
+        });
+
+        expect(columns).toEqual({ vin: 0, driverPhone: 2 });
+        expect(warnings).toEqual([]);
+    });
+
+    it('should fall back to the index when the header is missing', () => {
+        const { columns, warnings, missing } = resolveColumns(['VIN', 'Date'], {
+            vin: { header: 'VIN', index: 0 },
+            status: { header: 'STATUS', index: 8 },
+            pickupDay: { index: 2 },
+        });
+
+        expect(columns).toEqual({ vin: 0, status: 8, pickupDay: 2 });
+        expect(warnings).toEqual(['status: header "STATUS" not found, using column I']);
+        expect(missing).toEqual([{ field: 'status', headers: ['STATUS'], index: 8 }]);
+    });
+
+    it('should leave fields without a match or index unresolved', () => {
+        const { columns, warnings } = resolveColumns([], { vin: { header: 'VIN' } });
+
+        expect(columns.vin).toBeNull();
+        expect(warnings).toHaveLength(1);
+    });
+
+    it('should follow a column that moved', () => {
+        const mapping = { vin: { header: 'VIN', index: 0 }, from: { header: 'FROM', index: 7 } };
+
+        expect(resolveColumns(['VIN', 'NEW', 'FROM'], mapping).columns.from).toBe(2);
+    });
+});
+
+describe('isFilteredOut', () => {
+    const columns = { cnc: 1 };
+
+    it('should match values case-insensitively', () => {
+        const filters = [{ column: 'cnc', operator: 'equals' as const, value: 'CNC' }];
+
+        expect(isFilteredOut(['VIN', ' cnc '], columns, filters)).toBe(true);
+        expect(isFilteredOut(['VIN', 'OK'], columns, filters)).toBe(false);
+        expect(isFilteredOut(['VIN'], columns, filters)).toBe(false);
+    });
+
+    it('should support empty and contains checks', () => {
+        expect(isFilteredOut(['VIN'], columns, [{ column: 'cnc', operator: 'empty' }])).toBe(true);
+        expect(
+            isFilteredOut(['VIN', 'was CNC'], columns, [
+                { column: 'cnc', operator: 'contains', value: 'cnc' },
+            ])
+        ).toBe(true);
+    });
+
+    it('should keep every row without filters', () => {
+        expect(isFilteredOut(['VIN', 'CNC'], columns, [])).toBe(false);
+    });
+});
+
+describe('resolveTabName', () => {
+    const date = new Date(2026, 1, 15);
+
+    it('should replace month and year tokens', () => {
+        expect(resolveTabName('{MON}', date)).toBe('FEB');
+        expect(resolveTabName('{YYYY}', date)).toBe('2026');
+        expect(resolveTabName('{MONTH} {YY}', date)).toBe('FEBRUARY 26');
+        expect(resolveTabName('{YYYY}-{MM}', date)).toBe('2026-02');
+    });
+
+    it('should keep fixed tab names', () => {
+        expect(resolveTabName('Loads', date)).toBe('Loads');
+    });
+});
+
+describe('tabRange', () => {
+    it('should quote tab names', () => {
+        expect(tabRange('2026')).toBe("'2026'");
+        expect(tabRange("Bob's")).toBe("'Bob''s'");
+    });
+});
+
+describe('columnLetter', () => {
+    it('should convert indexes to letters', () => {
+        expect(columnLetter(0)).toBe('A');
+        expect(columnLetter(25)).toBe('Z');
+        expect(columnLetter(26)).toBe('AA');
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * Sheet Column Mapping
+ *
+ * Resolves where each field lives in a Google Sheet tab. A column is found
+ * by its header name (case- and whitespace-insensitive, with optional
+ * aliases) and falls back to a fixed index when no header matches, so an
+ * inserted column no longer shifts every field.
+ *
+ * Also resolves tab-name patterns and applies row filters (e.g. skip rows
+ * marked CNC).
+ */
+
+const MONTH_ABBREVIATIONS = [
+    'JAN',
+    'FEB',
+    'MAR',
+    'APR',
+    'MAY',
+    'JUN',
+    'JUL',
+    'AUG',
+    'SEP',
+    'OCT',
+    'NOV',
+    'DEC',
+] as const;
+
+const MONTH_NAMES = [
+    'JANUARY',
+    'FEBRUARY',
+    'MARCH',
+    'APRIL',
+    'MAY',
+    'JUNE',
+    'JULY',
+    'AUGUST',
+    'SEPTEMBER',
+    'OCTOBER',
+    'NOVEMBER',
+    'DECEMBER',
+] as const;
+
+/**
+ * Where to find one field
+ */
+export interface ColumnMapping {
+    /** Header name(s) to look for */
+    header?: string | string[] | null;
+    /** 0-based column index used when no header matches */
+    index?: number | null;
+}
+
+export type FilterOperator = 'equals' | 'notEquals' | 'contains' | 'empty' | 'notEmpty';
+
+/**
+ * Row filter: rows matching any filter are skipped
+ */
+export interface RowFilter {
+    /** Mapped field the filter reads */
+    column: string;
+    operator: FilterOperator;
+    /** Compared case-insensitively (not used by empty / notEmpty) */
+    value?: string | null;
+}
+
+/**
+ * Column index of each field (null = not found)
+ */
+export type ResolvedColumns<F extends string> = Record<F, number | null>;
+
+export interface MissingHeader<F extends string> {
+    field: F;
+    headers: string[];
+    /** Fallback index used instead (null = the field was not found) */
+    index: number | null;
+}
+
+export interface ColumnResolution<F extends string> {
+    columns: ResolvedColumns<F>;
+    /** Fields whose header was not found (index fallback or missing) */
+    warnings: string[];
+    missing: MissingHeader<F>[];
+}
+
+/**
+ * Normalize a header for comparison ("  Driver  Phone " -> "DRIVER PHONE")
+ */
+export function normalizeHeader(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    return String(value).trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+/**
+ * Resolve the column index of every mapped field from the header row
+ */
+export function resolveColumns<F extends string>(
+    headerRow: unknown[],
+    mapping: Record<F, ColumnMapping>
+): ColumnResolution<F> {
+    const headerIndex = new Map<string, number>();
+    headerRow.forEach((value, index) => {
+        const header = normalizeHeader(value);
+        // The first column with a given header wins
+        if (header && !headerIndex.has(header)) headerIndex.set(header, index);
+    });
+
+    const columns = {} as ResolvedColumns<F>;
+    const warnings: string[] = [];
+    const missing: MissingHeader<F>[] = [];
+
+    for (const field of Object.keys(mapping) as F[]) {
+        const { header, index } = mapping[field];
+        const headers = (Array.isArray(header) ? header : header ? [header] : []).map(
+            normalizeHeader
+        );
+
+        const found = headers.map((name) => headerIndex.get(name)).find((i) => i !== undefined);
+
+        if (found !== undefined) {
+            columns[field] = found;
+            continue;
+        }
+
+        columns[field] = index ?? null;
+
+        if (headers.length > 0) {
+            missing.push({ field, headers, index: index ?? null });
+            warnings.push(
+                index !== undefined && index !== null
+                    ? `${field}: header "${headers.join('" / "')}" not found, using column ${columnLetter(index)}`
+                    : `${field}: header "${headers.join('" / "')}" not found`
+            );
+        }
+    }
+
+    return { columns, warnings, missing };
+}
+
+/**
+ * Cell of a row at a resolved column (undefined if the column was not found)
+ */
+export function cellAt(row: unknown[], index: number | null | undefined): unknown {
+    return index === undefined || index === null ? undefined : row[index];
+}
+
+/**
+ * Whether a row matches any of the filters (and should be skipped)
+ */
+export function isFilteredOut<F extends string>(
+    row: unknown[],
+    columns: Partial<ResolvedColumns<F>>,
+    filters: RowFilter[]
+): boolean {
+    return filters.some((filter) => {
+        const raw = cellAt(row, columns[filter.column as F]);
+        const cell = raw === undefined || raw === null ? '' : String(raw).trim().toUpperCase();
+        const value = (filter.value ?? '').trim().toUpperCase();
+
+        switch (filter.operator) {
+            case 'equals':
+                return cell === value;
+            case 'notEquals':
+                return cell !== value;
+            case 'contains':
+                return value.length > 0 && cell.includes(value);
+            case 'empty':
+                return cell.length === 0;
+            case 'notEmpty':
+                return cell.length > 0;
+            default:
+                return false;
+        }
+    });
+}
+
+/**
+ * Tab name for a date
+ *
+ * Tokens: {MON} = JAN, {MONTH} = JANUARY, {MM} = 01, {M} = 1, {YYYY} = 2026, {YY} = 26
+ */
+export function resolveTabName(pattern: string, date: Date): string {
+    const month = date.getMonth();
+    const year = date.getFullYear();
+
+    return pattern
+        .replace(/\{MONTH\}/g, MONTH_NAMES[month]!)
+        .replace(/\{MON\}/g, MONTH_ABBREVIATIONS[month]!)
+        .replace(/\{MM\}/g, String(month + 1).padStart(2, '0'))
+        .replace(/\{M\}/g, String(month + 1))
+        .replace(/\{YYYY\}/g, String(year))
+        .replace(/\{YY\}/g, String(year).slice(-2));
+}
+
+/**
+ * A1 range covering a whole tab (quotes escaped)
+ */
+export function tabRange(tabName: string): string {
+    return `'${tabName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Column letter of a 0-based index (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+    let letter = '';
+    let n = index + 1;
+
+    while (n > 0) {
+        const remainder = (n - 1) % 26;
+        letter = String.fromCharCode(65 + remainder) + letter;
+        n = Math.floor((n - 1) / 26);
+    }
+
+    return letter;
+}
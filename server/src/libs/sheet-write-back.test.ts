@@ -0,0 +1,72 @@
+/**
+ * Sheet Write-Back Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { decideWriteBack, formatSheetPhone } from './sheet-write-back';
+
+const columns = { vin: 0, driverPhone: 2 };
+
+describe('decideWriteBack', () => {
+    it('should write into an empty phone cell', () => {
+        expect(
+            decideWriteBack(
+                ['1HGCM82633A004352', 'x', ''],
+                columns,
+                '1HGCM82633A004352',
+                '+15551234567'
+            )
+        ).toEqual({
+            action: 'write',
+        });
+        expect(
+            decideWriteBack(['1hgcm82633a004352'], columns, '1HGCM82633A004352', '+15551234567')
+        ).toEqual({
+            action: 'write',
+        });
+    });
+
+    it('should skip a cell that already holds the number', () => {
+        expect(
+            decideWriteBack(['VIN123456', '', '555-123-4567'], columns, 'VIN123456', '+15551234567')
+        ).toEqual({ action: 'skip' });
+    });
+
+    it('should never overwrite another phone', () => {
+        expect(
+            decideWriteBack(
+                ['VIN123456', '', '(555) 999-0000'],
+                columns,
+                'VIN123456',
+                '+15551234567'
+            )
+        ).toEqual({
+            action: 'conflict',
+            conflict: 'phone_filled',
+            existingValue: '(555) 999-0000',
+        });
+    });
+
+    it('should not write into a row that holds another load', () => {
+        expect(decideWriteBack(['OTHER12345'], columns, 'VIN123456', '+15551234567')).toEqual({
+            action: 'conflict',
+            conflict: 'row_moved',
+            existingValue: 'OTHER12345',
+        });
+    });
+
+    it('should report a missing row', () => {
+        expect(decideWriteBack(undefined, columns, 'VIN123456', '+15551234567')).toEqual({
+            action: 'conflict',
+            conflict: 'row_not_found',
+            existingValue: null,
+        });
+    });
+});
+
+describe('formatSheetPhone', () => {
+    it('should format US numbers', () => {
+        expect(formatSheetPhone('+15551234567')).toBe('(555) 123-4567');
+        expect(formatSheetPhone('+445551234567')).toBe('+445551234567');
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Sheet Write-Back
+ *
+ * Decides whether the phone of a driver matched via SMS may be written into
+ * a loads sheet row. The row is re-read right before writing, and a cell a
+ * human already filled in is never overwritten:
+ *
+ * - write: the row still holds the load and its phone cell is empty
+ * - skip: the phone cell already holds the same number
+ * - conflict: the row is gone, holds another VIN, or has another phone
+ */
+
+import { cellAt } from './sheet-mapping.js';
+
+/**
+ * Note left on a written phone cell (the "matched via SMS" marker)
+ */
+export const SMS_MATCH_NOTE = 'Matched via SMS';
+
+export type WriteBackConflict = 'row_not_found' | 'row_moved' | 'phone_filled';
+
+export type WriteBackDecision =
+    | { action: 'write' }
+    | { action: 'skip' }
+    | { action: 'conflict'; conflict: WriteBackConflict; existingValue: string | null };
+
+/**
+ * Check a sheet row before writing a driver phone into it
+ *
+ * @param cells - Current cells of the row (undefined if the row is not in the tab)
+ */
+export function decideWriteBack(
+    cells: unknown[] | undefined,
+    columns: { vin: number | null; driverPhone: number | null },
+    vin: string,
+    phone: string
+): WriteBackDecision {
+    if (!cells) {
+        return { action: 'conflict', conflict: 'row_not_found', existingValue: null };
+    }
+
+    const rowVin = cellText(cellAt(cells, columns.vin));
+    if (rowVin?.toUpperCase() !== vin.trim().toUpperCase()) {
+        return { action: 'conflict', conflict: 'row_moved', existingValue: rowVin };
+    }
+
+    const rowPhone = cellText(cellAt(cells, columns.driverPhone));
+    if (!rowPhone) {
+        return { action: 'write' };
+    }
+
+    if (phoneDigits(rowPhone) === phoneDigits(phone)) {
+        return { action: 'skip' };
+    }
+
+    return { action: 'conflict', conflict: 'phone_filled', existingValue: rowPhone };
+}
+
+/**
+ * Phone as written to the sheet: "(555) 123-4567" for US numbers
+ */
+export function formatSheetPhone(phone: string): string {
+    const digits = phoneDigits(phone);
+    if (digits.length !== 10) return phone;
+
+    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+}
+
+/**
+ * Digits of a phone without the US country code
+ */
+function phoneDigits(phone: string): string {
+    const digits = phone.replace(/\D/g, '');
+    return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+}
+
+function cellText(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+    const text = String(value).trim();
+    return text.length > 0 ? text : null;
+}
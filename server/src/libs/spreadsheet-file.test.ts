@@ -0,0 +1,64 @@
+/**
+ * Spreadsheet File Tests
+ */
+
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { parseCsv, readSpreadsheetFile, spreadsheetFileType } from './spreadsheet-file';
+
+describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+        expect(parseCsv('VIN,NUM,FROM\r\n1HGCM82633A004352,555-123-4567,Miami FL\n')).toEqual([
+            ['VIN', 'NUM', 'FROM'],
+            ['1HGCM82633A004352', '555-123-4567', 'Miami FL'],
+        ]);
+    });
+
+    it('should handle quoted fields', () => {
+        expect(parseCsv('VIN,FROM\nABC123,"Hampton, VA ""Lot 2"""')).toEqual([
+            ['VIN', 'FROM'],
+            ['ABC123', 'Hampton, VA "Lot 2"'],
+        ]);
+        expect(parseCsv('VIN,NOTE\nABC123,"two\nlines"')).toEqual([
+            ['VIN', 'NOTE'],
+            ['ABC123', 'two\nlines'],
+        ]);
+    });
+
+    it('should detect semicolons and strip a BOM', () => {
+        expect(parseCsv('﻿VIN;FROM\nABC123;Newark, NJ')).toEqual([
+            ['VIN', 'FROM'],
+            ['ABC123', 'Newark, NJ'],
+        ]);
+    });
+
+    it('should keep empty fields', () => {
+        expect(parseCsv('VIN,,FROM\nABC123,,')).toEqual([
+            ['VIN', '', 'FROM'],
+            ['ABC123', '', ''],
+        ]);
+    });
+});
+
+describe('readSpreadsheetFile', () => {
+    it('should read the first worksheet of an XLSX file', async () => {
+        const workbook = new ExcelJS.Workbook();
+        const worksheet = workbook.addWorksheet('OCT');
+        worksheet.addRow(['VIN', 'NUM', 'FROM']);
+        worksheet.addRow(['1HGCM82633A004352', 5551234567, 'Miami, FL']);
+        const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+        expect(await readSpreadsheetFile('xlsx', buffer)).toEqual([
+            ['VIN', 'NUM', 'FROM'],
+            ['1HGCM82633A004352', '5551234567', 'Miami, FL'],
+        ]);
+    });
+});
+
+describe('spreadsheetFileType', () => {
+    it('should detect the type by extension', () => {
+        expect(spreadsheetFileType('loads.CSV')).toBe('csv');
+        expect(spreadsheetFileType('export.xlsx')).toBe('xlsx');
+        expect(spreadsheetFileType('loads.xls')).toBeNull();
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Spreadsheet Files
+ *
+ * Reads an uploaded CSV or XLSX file into rows of cell text, the same shape
+ * googleSheetsClient.getSheetData returns for a tab, so file imports can be
+ * mapped by header like a sheet. Only the first worksheet of an XLSX file
+ * is read.
+ */
+
+import ExcelJS from 'exceljs';
+
+export type SpreadsheetFileType = 'csv' | 'xlsx';
+
+/**
+ * File type by extension (null if not supported)
+ */
+export function spreadsheetFileType(fileName: string): SpreadsheetFileType | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'csv') return 'csv';
+    if (extension === 'xlsx') return 'xlsx';
+    return null;
+}
+
+/**
+ * Rows of a CSV or XLSX file
+ */
+export async function readSpreadsheetFile(
+    type: SpreadsheetFileType,
+    buffer: Buffer
+): Promise<string[][]> {
+    if (type === 'csv') {
+        return parseCsv(buffer.toString('utf8'));
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) return [];
+
+    const rows: string[][] = [];
+    for (let r = 1; r <= worksheet.rowCount; r++) {
+        const row = worksheet.getRow(r);
+        const cells: string[] = [];
+        for (let c = 1; c <= row.cellCount; c++) {
+            cells.push(row.getCell(c).text);
+        }
+        rows.push(cells);
+    }
+
+    return rows;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, CRLF or LF)
+ *
+ * The delimiter is a comma, or a semicolon if the first line has more of
+ * them (spreadsheet exports in some locales).
+ */
+export function parseCsv(text: string): string[][] {
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text; // Strip BOM
+    const firstLine = input.slice(0, input.search(/\r?\n|$/));
+    const delimiter =
+        (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field.length === 0) {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    // Last line without a trailing newline
+    if (field.length > 0 || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
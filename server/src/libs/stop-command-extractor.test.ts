@@ -0,0 +1,75 @@
+/**
+ * Stop Command Extractor Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    detectConsentKeyword,
+    findLatestConsentChange,
+    isStopMessage,
+} from './stop-command-extractor';
+
+describe('detectConsentKeyword', () => {
+    it('should recognize opt-out keywords with or without a slash', () => {
+        expect(detectConsentKeyword('/STOP')).toEqual({ action: 'opt_out', keyword: 'STOP' });
+        expect(detectConsentKeyword('stop')).toEqual({ action: 'opt_out', keyword: 'STOP' });
+        expect(detectConsentKeyword(' Unsubscribe. ')).toEqual({
+            action: 'opt_out',
+            keyword: 'UNSUBSCRIBE',
+        });
+    });
+
+    it('should recognize opt-in keywords', () => {
+        expect(detectConsentKeyword('START')).toEqual({ action: 'opt_in', keyword: 'START' });
+        expect(detectConsentKeyword('/unstop!')).toEqual({ action: 'opt_in', keyword: 'UNSTOP' });
+    });
+
+    it('should ignore keywords inside longer messages', () => {
+        expect(detectConsentKeyword('stop by the yard at 5')).toBeNull();
+        expect(detectConsentKeyword('can I start tomorrow?')).toBeNull();
+        expect(detectConsentKeyword('STOPPED')).toBeNull();
+    });
+});
+
+describe('isStopMessage', () => {
+    it('should only be true for opt-out keywords', () => {
+        expect(isStopMessage('/STOP')).toBe(true);
+        expect(isStopMessage('UNSUBSCRIBE')).toBe(true);
+        expect(isStopMessage('START')).toBe(false);
+    });
+});
+
+describe('findLatestConsentChange', () => {
+    it('should return the most recent incoming keyword', () => {
+        const change = findLatestConsentChange([
+            { id: 'AC1', direction: 'incoming', text: 'STOP', timestamp: '2026-10-01T10:00:00Z' },
+            { id: 'AC2', direction: 'outgoing', text: 'You have been unsubscribed' },
+            { id: 'AC3', direction: 'incoming', text: 'START', timestamp: '2026-10-02T10:00:00Z' },
+        ]);
+
+        expect(change).toMatchObject({ action: 'opt_in', keyword: 'START', messageId: 'AC3' });
+    });
+
+    it('should ignore keywords sent by us', () => {
+        expect(
+            findLatestConsentChange([
+                { direction: 'outgoing', text: 'Reply STOP' },
+                { direction: 'outgoing', text: 'STOP' },
+            ])
+        ).toBeNull();
+    });
+
+    it('should not let an older keyword override a newer one', () => {
+        const change = findLatestConsentChange([
+            {
+                id: 'AC2',
+                direction: 'incoming',
+                text: 'UNSUBSCRIBE',
+                timestamp: '2026-10-03T10:00:00Z',
+            },
+            { id: 'AC1', direction: 'incoming', text: 'UNSTOP', timestamp: '2026-10-01T10:00:00Z' },
+        ]);
+
+        expect(change).toMatchObject({ action: 'opt_out', messageId: 'AC2' });
+    });
+});
@@ -1,9 +1,11 @@
 /**
  * Stop Command Extractor
  *
- * Detects /STOP opt-out commands in inbound conversation messages.
- * When a driver sends "/STOP", they should be marked with "x" in their
- * notes field so they no longer receive automated dispatch suggestions.
+ * Detects SMS consent keywords in inbound conversation messages.
+ * Opt-out keywords (STOP, UNSUBSCRIBE) and opt-in keywords (START, UNSTOP)
+ * are recognized as whole-message replies, with or without a leading slash
+ * ("/STOP" was the original convention). The latest keyword a driver sent
+ * decides their consent status (see consent.service.ts).
  *
  * Only checks INCOMING messages (direction === 'incoming').
  */
@@ -11,42 +13,113 @@
 import logger from './logger.js';
 
 interface ConversationMessage {
+    id?: string;
     direction: string;
     text?: string;
     from?: string;
     timestamp?: Date | string;
 }
 
-const STOP_PATTERN = /^\/STOP$/i;
+export type ConsentAction = 'opt_out' | 'opt_in';
+
+export const OPT_OUT_KEYWORDS = ['STOP', 'UNSUBSCRIBE'] as const;
+export const OPT_IN_KEYWORDS = ['START', 'UNSTOP'] as const;
+
+export type ConsentKeyword = (typeof OPT_OUT_KEYWORDS)[number] | (typeof OPT_IN_KEYWORDS)[number];
+
+/**
+ * Exact message texts that are candidate keyword replies.
+ * Used to pre-filter stored messages in SQL (MySQL comparison is case-insensitive).
+ */
+export const CONSENT_KEYWORD_TEXTS: string[] = [...OPT_OUT_KEYWORDS, ...OPT_IN_KEYWORDS].flatMap(
+    (keyword) => [keyword, `/${keyword}`]
+);
+
+// Whole message: optional leading slash, keyword, optional trailing punctuation
+const KEYWORD_PATTERN = /^\/?([a-z]+)[.!]*$/i;
+
+/**
+ * A consent keyword found in a conversation
+ */
+export interface ConsentChange {
+    action: ConsentAction;
+    keyword: ConsentKeyword;
+    messageId?: string;
+    from?: string;
+    timestamp?: Date | string;
+}
+
+/**
+ * Detect a consent keyword in a single message text
+ *
+ * @param text - Raw message text
+ * @returns The keyword and whether it opts out or in, or null
+ */
+export function detectConsentKeyword(
+    text: string
+): { action: ConsentAction; keyword: ConsentKeyword } | null {
+    const match = KEYWORD_PATTERN.exec(text.trim());
+    if (!match) return null;
+
+    const word = match[1]!.toUpperCase();
+
+    if ((OPT_OUT_KEYWORDS as readonly string[]).includes(word)) {
+        return { action: 'opt_out', keyword: word as ConsentKeyword };
+    }
+    if ((OPT_IN_KEYWORDS as readonly string[]).includes(word)) {
+        return { action: 'opt_in', keyword: word as ConsentKeyword };
+    }
+
+    return null;
+}
 
 /**
- * Check if a single message text is a /STOP opt-out command
+ * Check if a single message text is an opt-out command
  *
  * @param text - Raw message text
- * @returns true if the text is a /STOP command
+ * @returns true if the text is STOP / UNSUBSCRIBE (optionally slash-prefixed)
  */
 export function isStopMessage(text: string): boolean {
-    return STOP_PATTERN.test(text.trim());
+    return detectConsentKeyword(text)?.action === 'opt_out';
 }
 
 /**
- * Check if any incoming message in the conversation contains the /STOP command
+ * Find the most recent consent keyword among incoming messages
  *
  * @param messages - Array of conversation messages (chronological order)
- * @returns true if an incoming /STOP command is found
+ * @returns The latest opt-out/opt-in keyword reply, or null if there is none
  */
-export function hasStopCommand(messages: ConversationMessage[]): boolean {
+export function findLatestConsentChange(messages: ConversationMessage[]): ConsentChange | null {
+    let latest: ConsentChange | null = null;
+
     for (const msg of messages) {
         if (msg.direction !== 'incoming') continue;
 
-        if (isStopMessage(msg.text || '')) {
-            logger.info(
-                { from: msg.from, timestamp: msg.timestamp },
-                '[STOP COMMAND] Detected /STOP opt-out command from driver'
-            );
-            return true;
+        const detected = detectConsentKeyword(msg.text || '');
+        if (!detected) continue;
+
+        if (
+            latest?.timestamp &&
+            msg.timestamp &&
+            new Date(msg.timestamp).getTime() < new Date(latest.timestamp).getTime()
+        ) {
+            continue;
         }
+
+        latest = {
+            ...detected,
+            messageId: msg.id,
+            from: msg.from,
+            timestamp: msg.timestamp,
+        };
+    }
+
+    if (latest) {
+        logger.info(
+            { from: latest.from, keyword: latest.keyword, timestamp: latest.timestamp },
+            '[STOP COMMAND] Detected consent keyword from driver'
+        );
     }
 
-    return false;
+    return latest;
 }
@@ -0,0 +1,131 @@
+/**
+ * Sync Jobs
+ *
+ * Sheet syncs and driver matching as named jobs. The schedulers dispatch a
+ * job on each tick: with Redis up it is added to the BullMQ sync queue and
+ * run by the worker process (src/workers/sync.worker.ts); without Redis it
+ * runs inline in the calling process. Either way the run is recorded in the
+ * job run history (see scheduledJobService.track).
+ */
+
+import { driverMatchingService } from '../modules/drivers/driver-matching.service.js';
+import { sheetSyncService } from '../modules/drivers/sheet-sync.service.js';
+import { sheetWriteBackService } from '../modules/drivers/sheet-write-back.service.js';
+import { unknownDriverService } from '../modules/drivers/unknown-driver.service.js';
+import { allcarsSyncService } from '../modules/load-inquiries/allcars-sync.service.js';
+import { pickupSyncService } from '../modules/pickups/pickup-sync.service.js';
+import { pickupRepo } from '../modules/pickups/pickups.repo.js';
+import { scheduledJobService } from '../modules/scheduled-jobs/scheduled-jobs.service.js';
+import type { JobTrigger } from '../modules/scheduled-jobs/scheduled-jobs.types.js';
+import logger from './logger.js';
+import { type SyncJobData, type SyncJobName, syncQueue } from './queue.js';
+import { waitForRedis } from './redis.js';
+
+/**
+ * Days of conversations re-checked by each driver matching run
+ */
+const DRIVER_MATCHING_DAYS = 7;
+
+/**
+ * A sync result without its per-row lists (for logging)
+ */
+function summarize<T extends { errorSamples: unknown; diagnostics: unknown }>(
+    result: T
+): Omit<T, 'errorSamples' | 'diagnostics'> {
+    const { errorSamples: _errorSamples, diagnostics: _diagnostics, ...counts } = result;
+    return counts;
+}
+
+/**
+ * What each sync job does
+ */
+export const syncJobHandlers: Record<SyncJobName, () => Promise<unknown>> = {
+    'sheet-sync': async () => {
+        const result = await sheetSyncService.syncLoadsFromSheet();
+        logger.info(summarize(result), '[SHEET SYNC] SUCCESS: Sync completed');
+        return result;
+    },
+
+    'allcars-sync': async () => {
+        const result = await allcarsSyncService.syncFromAllcars();
+        logger.info(summarize(result), '[ALLCARS SYNC] SUCCESS: Completed');
+        return result;
+    },
+
+    'pickup-sync': async () => {
+        const result = await pickupSyncService.syncPickupsToday();
+        logger.info(summarize(result), '[PICKUP SYNC] SUCCESS: Sync completed');
+        return result;
+    },
+
+    'pickup-reset': async () => {
+        logger.info('[PICKUP SYNC] Starting daily 2AM reset...');
+
+        const deleteResult = await pickupRepo.deleteAll();
+        logger.info(
+            { deleted: deleteResult.count },
+            '[PICKUP SYNC] Deleted all pickups for daily reset'
+        );
+
+        const syncResult = await pickupSyncService.syncPickupsToday();
+        logger.info(summarize(syncResult), '[PICKUP SYNC] SUCCESS: 2AM reset+sync completed');
+        return syncResult;
+    },
+
+    'driver-matching': async () => {
+        const result =
+            await driverMatchingService.batchProcessRecentConversations(DRIVER_MATCHING_DAYS);
+        logger.info(
+            { processed: result.processed, matched: result.matched },
+            '[DRIVER MATCHING] SUCCESS: Completed'
+        );
+        return result;
+    },
+
+    'unknown-driver-matching': async () => {
+        const result = await unknownDriverService.matchUnknownDrivers();
+        logger.info(
+            { matchedCount: result.matchedCount, totalChecked: result.totalChecked },
+            '[CRON] SUCCESS: Unknown driver matching completed'
+        );
+        return result;
+    },
+
+    'sheet-write-back': async () => {
+        const result = await sheetWriteBackService.flush();
+        logger.info(result, '[SHEET WRITE-BACK] SUCCESS: Completed');
+        return result;
+    },
+};
+
+/**
+ * Run a sync job in this process and record it in the run history
+ */
+export async function runSyncJob(name: SyncJobName, trigger: JobTrigger): Promise<unknown> {
+    return scheduledJobService.track(name, trigger, syncJobHandlers[name]);
+}
+
+/**
+ * Run a sync job on the worker, or inline when Redis is unavailable
+ *
+ * The job ID is the job name plus the current minute, so API instances
+ * ticking on the same schedule add the job only once.
+ *
+ * @returns 'queued' or 'inline'
+ */
+export async function dispatchSyncJob(
+    name: SyncJobName,
+    trigger: JobTrigger = 'cron'
+): Promise<'queued' | 'inline'> {
+    if (await waitForRedis()) {
+        const minute = Math.floor(Date.now() / 60_000);
+        const data: SyncJobData = { trigger };
+        await syncQueue.add(name, data, { jobId: `${name}-${minute}` });
+
+        logger.debug({ job: name, trigger }, '[SYNC JOBS] Job queued');
+        return 'queued';
+    }
+
+    await runSyncJob(name, trigger);
+    return 'inline';
+}
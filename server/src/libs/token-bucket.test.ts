@@ -0,0 +1,39 @@
+/**
+ * Token Bucket Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+    it('should allow a burst up to capacity', () => {
+        const bucket = new TokenBucket({ ratePerMinute: 3, capacity: 2 }, 0);
+
+        expect(bucket.tryTake(0)).toBe(true);
+        expect(bucket.tryTake(0)).toBe(true);
+        expect(bucket.tryTake(0)).toBe(false);
+    });
+
+    it('should refill at the configured rate', () => {
+        const bucket = new TokenBucket({ ratePerMinute: 3, capacity: 1 }, 0);
+        bucket.tryTake(0);
+
+        expect(bucket.tryTake(19_999)).toBe(false);
+        expect(bucket.tryTake(20_000)).toBe(true);
+    });
+
+    it('should not refill beyond capacity', () => {
+        const bucket = new TokenBucket({ ratePerMinute: 60, capacity: 1 }, 0);
+
+        expect(bucket.tryTake(600_000)).toBe(true);
+        expect(bucket.tryTake(600_000)).toBe(false);
+    });
+
+    it('should report the wait for the next token', () => {
+        const bucket = new TokenBucket({ ratePerMinute: 3, capacity: 1 }, 0);
+        bucket.tryTake(0);
+
+        expect(bucket.msUntilNextToken(5_000)).toBe(15_000);
+        expect(bucket.hasToken(5_000)).toBe(false);
+    });
+});
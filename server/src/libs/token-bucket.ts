@@ -0,0 +1,67 @@
+/**
+ * Token Bucket
+ *
+ * In-memory rate limiter: the bucket holds up to `capacity` tokens and
+ * refills continuously at `ratePerMinute`. Each send takes one token, so
+ * `capacity` is the largest burst and `ratePerMinute` the sustained rate.
+ */
+
+export interface TokenBucketOptions {
+    /** Sustained rate (tokens added per minute) */
+    ratePerMinute: number;
+    /** Maximum tokens held (burst size) */
+    capacity: number;
+}
+
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(
+        private readonly options: TokenBucketOptions,
+        now: number = Date.now()
+    ) {
+        this.tokens = options.capacity;
+        this.lastRefill = now;
+    }
+
+    /**
+     * Take a token if one is available
+     *
+     * @returns true if the caller may proceed
+     */
+    tryTake(now: number = Date.now()): boolean {
+        this.refill(now);
+        if (this.tokens < 1) return false;
+
+        this.tokens -= 1;
+        return true;
+    }
+
+    /**
+     * Check for an available token without taking it
+     */
+    hasToken(now: number = Date.now()): boolean {
+        this.refill(now);
+        return this.tokens >= 1;
+    }
+
+    /**
+     * Milliseconds until the next token is available (0 if one is available now)
+     */
+    msUntilNextToken(now: number = Date.now()): number {
+        this.refill(now);
+        if (this.tokens >= 1) return 0;
+
+        return Math.ceil(((1 - this.tokens) * 60_000) / this.options.ratePerMinute);
+    }
+
+    private refill(now: number): void {
+        const elapsed = Math.max(0, now - this.lastRefill);
+        this.tokens = Math.min(
+            this.options.capacity,
+            this.tokens + (elapsed * this.options.ratePerMinute) / 60_000
+        );
+        this.lastRefill = now;
+    }
+}
@@ -7,6 +7,17 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import { successResponse, paginatedResponse } from '../../utils/response.js';
 import { BadRequestError } from '../../utils/errors.js';
 import * as adminService from './admin.service.js';
+import { quoBackfillService } from '../quo-messages/quo-backfill.service.js';
+import { messageQueueService } from '../../services/message-queue.service.js';
+import { scheduledJobService } from '../scheduled-jobs/scheduled-jobs.service.js';
+import {
+    DeadMessagesActionSchema,
+    JobNameSchema,
+    ListDeadMessagesSchema,
+    ListJobRunsSchema,
+    QueuedMessageIdSchema,
+    StartQuoBackfillSchema,
+} from './admin.schemas.js';
 import type { ListUsersInput, UserIdInput, ChangeRoleInput } from './admin.schemas.js';
 
 /**
@@ -120,3 +131,174 @@ export async function getSystemStats(
         successResponse('System statistics retrieved successfully', stats)
     );
 }
+
+/**
+ * GET /admin/quo-backfill
+ * Get Quo history backfill progress per phone number
+ */
+export async function getQuoBackfillStatus(
+    _request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const status = await quoBackfillService.getStatus();
+
+    return reply
+        .status(200)
+        .send(successResponse('Quo backfill status retrieved successfully', status));
+}
+
+/**
+ * POST /admin/quo-backfill/start
+ * Start or resume the Quo history backfill
+ */
+export async function startQuoBackfill(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const options = StartQuoBackfillSchema.parse(request.body ?? {});
+
+    const states = await quoBackfillService.start(options);
+
+    return reply.status(202).send(successResponse('Quo backfill started', states));
+}
+
+/**
+ * POST /admin/quo-backfill/pause
+ * Pause the running Quo history backfill
+ */
+export async function pauseQuoBackfill(
+    _request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const states = await quoBackfillService.pause();
+
+    return reply.status(200).send(successResponse('Quo backfill pause requested', states));
+}
+
+/**
+ * GET /admin/queue/dead
+ * List queued messages that exhausted their retries
+ */
+export async function listDeadMessages(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const { campaignId, page, limit } = ListDeadMessagesSchema.parse(request.query);
+
+    const { items, totalItems } = await messageQueueService.listDeadMessages({
+        campaignId,
+        page,
+        limit,
+    });
+
+    return reply
+        .status(200)
+        .send(
+            paginatedResponse(
+                'Dead messages retrieved successfully',
+                items,
+                page,
+                limit,
+                totalItems
+            )
+        );
+}
+
+/**
+ * POST /admin/queue/dead/retry
+ * Requeue dead messages (by IDs, campaign or all)
+ */
+export async function retryDeadMessages(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const { ids, campaignId } = DeadMessagesActionSchema.parse(request.body ?? {});
+
+    const retriedCount = await messageQueueService.retryDeadMessages({ ids, campaignId });
+
+    return reply
+        .status(200)
+        .send(successResponse(`${retriedCount} dead messages requeued`, { retriedCount }));
+}
+
+/**
+ * POST /admin/queue/dead/discard
+ * Discard dead messages (by IDs, campaign or all)
+ */
+export async function discardDeadMessages(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const { ids, campaignId } = DeadMessagesActionSchema.parse(request.body ?? {});
+
+    const discardedCount = await messageQueueService.discardDeadMessages({ ids, campaignId });
+
+    return reply
+        .status(200)
+        .send(successResponse(`${discardedCount} dead messages discarded`, { discardedCount }));
+}
+
+/**
+ * POST /admin/queue/dead/:id/retry
+ * Requeue a single dead message
+ */
+export async function retryDeadMessage(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const { id } = QueuedMessageIdSchema.parse(request.params);
+
+    await messageQueueService.retryDeadMessage(id);
+
+    return reply.status(200).send(successResponse('Dead message requeued', { id }));
+}
+
+/**
+ * POST /admin/queue/dead/:id/discard
+ * Discard a single dead message
+ */
+export async function discardDeadMessage(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const { id } = QueuedMessageIdSchema.parse(request.params);
+
+    await messageQueueService.discardDeadMessage(id);
+
+    return reply.status(200).send(successResponse('Dead message discarded', { id }));
+}
+
+/**
+ * GET /admin/jobs
+ * List jobs with their schedule, lease, next run and latest recorded run
+ */
+export async function listScheduledJobs(
+    _request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const jobs = await scheduledJobService.listJobs();
+
+    return reply.status(200).send(successResponse('Scheduled jobs retrieved successfully', jobs));
+}
+
+/**
+ * GET /admin/jobs/:name/runs
+ * Run history of a job (newest first)
+ */
+export async function listJobRuns(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<FastifyReply> {
+    const { name } = JobNameSchema.parse(request.params);
+    const { status, page, limit } = ListJobRunsSchema.parse(request.query);
+
+    const { items, totalItems } = await scheduledJobService.listRuns(name, {
+        status,
+        page,
+        limit,
+    });
+
+    return reply
+        .status(200)
+        .send(paginatedResponse('Job runs retrieved successfully', items, page, limit, totalItems));
+}
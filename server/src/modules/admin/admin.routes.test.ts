@@ -0,0 +1,103 @@
+/**
+ * Admin Route Tests
+ *
+ * Checks the role guards of the admin routes on a local Fastify instance
+ * with the real authenticate and RBAC middleware and stubbed controllers.
+ */
+
+import fastify, { type FastifyInstance } from 'fastify';
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { env } from '../../config/env';
+import { authenticateMiddleware } from '../../libs/auth/authenticate.middleware';
+import { requireAdmin, requireAny } from '../../libs/auth/rbac.middleware';
+import { setupErrorHandler } from '../../libs/error-handler';
+import * as adminController from './admin.controller';
+import { adminRoutes } from './admin.routes';
+
+vi.mock('./admin.controller', () => ({
+    listAllUsers: vi.fn(),
+    getUserById: vi.fn(),
+    deleteUser: vi.fn(),
+    changeUserRole: vi.fn(),
+    verifyUserEmail: vi.fn(),
+    getSystemStats: vi.fn(),
+    getQuoBackfillStatus: vi.fn(),
+    startQuoBackfill: vi.fn(),
+    pauseQuoBackfill: vi.fn(),
+    listDeadMessages: vi.fn(),
+    retryDeadMessages: vi.fn(),
+    discardDeadMessages: vi.fn(),
+    retryDeadMessage: vi.fn(),
+    discardDeadMessage: vi.fn(),
+    listScheduledJobs: vi.fn(),
+    listJobRuns: vi.fn(),
+}));
+
+function token(role: 'USER' | 'ADMIN') {
+    return jwt.sign(
+        { userId: `${role.toLowerCase()}-1`, email: 'dispatch@example.com', role },
+        env.JWT_SECRET,
+        { issuer: env.JWT_ISSUER }
+    );
+}
+
+const jobRoutes = [
+    { url: '/jobs', handler: () => adminController.listScheduledJobs },
+    { url: '/jobs/sheet-sync/runs', handler: () => adminController.listJobRuns },
+] as const;
+
+describe('Admin Routes', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = fastify();
+        app.decorate('authenticate', authenticateMiddleware);
+        app.decorate('requireAdmin', requireAdmin);
+        app.decorate('requireAny', requireAny);
+        app.setErrorHandler(setupErrorHandler);
+        await app.register(adminRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        for (const route of jobRoutes) {
+            vi.mocked(route.handler()).mockResolvedValue({ success: true } as never);
+        }
+    });
+
+    for (const route of jobRoutes) {
+        it(`lets a USER token read GET ${route.url}`, async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: route.url,
+                headers: { authorization: `Bearer ${token('USER')}` },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(route.handler()).toHaveBeenCalledTimes(1);
+        });
+    }
+
+    it('keeps the job routes behind authentication', async () => {
+        const response = await app.inject({ method: 'GET', url: '/jobs' });
+
+        expect(response.statusCode).toBe(401);
+        expect(adminController.listScheduledJobs).not.toHaveBeenCalled();
+    });
+
+    it('rejects a USER token on a route that changes state', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/quo-backfill/start',
+            headers: { authorization: `Bearer ${token('USER')}` },
+        });
+
+        expect(response.statusCode).toBe(403);
+        expect(adminController.startQuoBackfill).not.toHaveBeenCalled();
+    });
+});
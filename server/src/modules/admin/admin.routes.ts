@@ -3,7 +3,8 @@ import * as adminController from './admin.controller.js';
 
 /**
  * Admin Routes
- * All routes require ADMIN role
+ * All routes require ADMIN role, except the read-only job status routes
+ * that dispatchers use to see when syncs last ran
  */
 export async function adminRoutes(app: FastifyInstance) {
     /**
@@ -59,4 +60,95 @@ export async function adminRoutes(app: FastifyInstance) {
         preHandler: [app.authenticate, app.requireAdmin()],
         handler: adminController.getSystemStats,
     });
+
+    /**
+     * GET /admin/quo-backfill
+     * Quo history backfill progress per phone number
+     */
+    app.get('/quo-backfill', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.getQuoBackfillStatus,
+    });
+
+    /**
+     * POST /admin/quo-backfill/start
+     * Start or resume the Quo history backfill
+     */
+    app.post('/quo-backfill/start', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.startQuoBackfill,
+    });
+
+    /**
+     * POST /admin/quo-backfill/pause
+     * Pause the running Quo history backfill
+     */
+    app.post('/quo-backfill/pause', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.pauseQuoBackfill,
+    });
+
+    /**
+     * GET /admin/queue/dead
+     * List queued messages that exhausted their retries
+     */
+    app.get('/queue/dead', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.listDeadMessages,
+    });
+
+    /**
+     * POST /admin/queue/dead/retry
+     * Requeue dead messages. Body: { ids } | { campaignId } | { all: true }
+     */
+    app.post('/queue/dead/retry', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.retryDeadMessages,
+    });
+
+    /**
+     * POST /admin/queue/dead/discard
+     * Discard dead messages. Body: { ids } | { campaignId } | { all: true }
+     */
+    app.post('/queue/dead/discard', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.discardDeadMessages,
+    });
+
+    /**
+     * POST /admin/queue/dead/:id/retry
+     * Requeue a single dead message
+     */
+    app.post('/queue/dead/:id/retry', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.retryDeadMessage,
+    });
+
+    /**
+     * POST /admin/queue/dead/:id/discard
+     * Discard a single dead message
+     */
+    app.post('/queue/dead/:id/discard', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: adminController.discardDeadMessage,
+    });
+
+    /**
+     * GET /admin/jobs
+     * List jobs with their schedule, lease, next run and latest recorded run
+     * (any authenticated user)
+     */
+    app.get('/jobs', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: adminController.listScheduledJobs,
+    });
+
+    /**
+     * GET /admin/jobs/:name/runs
+     * Run history of a job. Query: status, page, limit (any authenticated user)
+     */
+    app.get('/jobs/:name/runs', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: adminController.listJobRuns,
+    });
 }
@@ -33,3 +33,65 @@ export const ChangeRoleSchema = z.object({
 });
 
 export type ChangeRoleInput = z.infer<typeof ChangeRoleSchema>;
+
+/**
+ * Start Quo backfill request body
+ */
+export const StartQuoBackfillSchema = z.object({
+    phoneNumberIds: z.array(z.string().min(1)).optional(),
+    restart: z.boolean().default(false),
+});
+
+export type StartQuoBackfillInput = z.infer<typeof StartQuoBackfillSchema>;
+
+/**
+ * List dead queued messages query
+ */
+export const ListDeadMessagesSchema = z.object({
+    campaignId: z.string().uuid('Invalid campaign ID format').optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListDeadMessagesInput = z.infer<typeof ListDeadMessagesSchema>;
+
+/**
+ * Bulk retry / discard of dead queued messages
+ *
+ * Selects by message IDs, by campaign, or everything with `all: true`.
+ */
+export const DeadMessagesActionSchema = z
+    .object({
+        ids: z.array(z.string().uuid('Invalid message ID format')).min(1).max(1000).optional(),
+        campaignId: z.string().uuid('Invalid campaign ID format').optional(),
+        all: z.boolean().optional(),
+    })
+    .refine((data) => data.ids || data.campaignId || data.all, {
+        message: 'Provide ids, campaignId or all: true',
+    });
+
+export type DeadMessagesActionInput = z.infer<typeof DeadMessagesActionSchema>;
+
+/**
+ * Queued message ID parameter
+ */
+export const QueuedMessageIdSchema = z.object({
+    id: z.string().uuid('Invalid message ID format'),
+});
+
+export type QueuedMessageIdInput = z.infer<typeof QueuedMessageIdSchema>;
+
+/**
+ * List job runs: job name parameter + query
+ */
+export const JobNameSchema = z.object({
+    name: z.string().min(1).max(100),
+});
+
+export const ListJobRunsSchema = z.object({
+    status: z.enum(['running', 'success', 'failed']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListJobRunsInput = z.infer<typeof ListJobRunsSchema>;
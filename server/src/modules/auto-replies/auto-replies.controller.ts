@@ -0,0 +1,115 @@
+/**
+ * Auto-Replies Controller
+ *
+ * HTTP request handlers for auto-reply rules and their audit log
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse } from '../../utils/pagination.js';
+import { successResponse } from '../../utils/response.js';
+import {
+    createRuleSchema,
+    listLogsSchema,
+    ruleIdSchema,
+    updateRuleSchema,
+} from './auto-replies.schemas.js';
+import { autoReplyService } from './auto-replies.service.js';
+
+class AutoReplyController {
+    /**
+     * GET /api/v1/auto-replies/rules
+     *
+     * All rules in the order they are tried
+     */
+    async listRules(_request: FastifyRequest, reply: FastifyReply) {
+        const rules = await autoReplyService.listRules();
+
+        return reply.send(successResponse('Auto-reply rules retrieved successfully', rules));
+    }
+
+    /**
+     * POST /api/v1/auto-replies/rules
+     *
+     * Create a rule
+     */
+    async createRule(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = createRuleSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid auto-reply rule');
+        }
+
+        const rule = await autoReplyService.createRule(parsed.data, request.user?.userId);
+
+        return reply
+            .status(201)
+            .send(successResponse('Auto-reply rule created successfully', rule));
+    }
+
+    /**
+     * PATCH /api/v1/auto-replies/rules/:id
+     *
+     * Update a rule (e.g. enable or disable it)
+     */
+    async updateRule(request: FastifyRequest, reply: FastifyReply) {
+        const id = this.parseId(request.params);
+
+        const parsed = updateRuleSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid auto-reply rule');
+        }
+
+        const rule = await autoReplyService.updateRule(id, parsed.data);
+
+        return reply.send(successResponse('Auto-reply rule updated successfully', rule));
+    }
+
+    /**
+     * DELETE /api/v1/auto-replies/rules/:id
+     *
+     * Delete a rule
+     */
+    async deleteRule(request: FastifyRequest, reply: FastifyReply) {
+        const id = this.parseId(request.params);
+
+        await autoReplyService.deleteRule(id);
+
+        return reply.send(successResponse('Auto-reply rule deleted successfully', null));
+    }
+
+    /**
+     * GET /api/v1/auto-replies/logs
+     *
+     * Audit log of the replies sent (filter by rule, phone number, status)
+     */
+    async listLogs(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listLogsSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await autoReplyService.listLogs(parsed.data);
+
+        return reply.send(
+            paginatedResponse(
+                'Auto-reply log retrieved successfully',
+                items,
+                page,
+                limit,
+                totalItems
+            )
+        );
+    }
+
+    private parseId(params: unknown): string {
+        const parsed = ruleIdSchema.safeParse(params);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid rule ID');
+        }
+
+        return parsed.data.id;
+    }
+}
+
+export const autoReplyController = new AutoReplyController();
@@ -0,0 +1,213 @@
+/**
+ * Auto-Replies Repository
+ *
+ * Database queries for auto-reply rules and the audit log of the replies
+ * they sent (through the message queue)
+ */
+
+import type { AutoReplyLog, AutoReplyRule, Prisma } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type { AutoReplyLogStatus, AutoReplyRuleData } from './auto-replies.types.js';
+
+const ruleInclude = {
+    createdBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.AutoReplyRuleInclude;
+
+class AutoReplyRepo {
+    /**
+     * List all rules in the order they are tried
+     */
+    async findRules() {
+        return prisma.autoReplyRule.findMany({
+            include: ruleInclude,
+            orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    /**
+     * Enabled rules in the order they are tried
+     */
+    async findEnabledRules(): Promise<AutoReplyRule[]> {
+        return prisma.autoReplyRule.findMany({
+            where: { enabled: true },
+            orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    async findRule(id: string) {
+        return prisma.autoReplyRule.findUnique({
+            where: { id },
+            include: ruleInclude,
+        });
+    }
+
+    async createRule(data: AutoReplyRuleData) {
+        const { keywords, loadStatuses, ...fields } = data;
+
+        return prisma.autoReplyRule.create({
+            data: { ...fields, keywords, loadStatuses },
+            include: ruleInclude,
+        });
+    }
+
+    async updateRule(id: string, data: Partial<AutoReplyRuleData>) {
+        return prisma.autoReplyRule.update({
+            where: { id },
+            data,
+            include: ruleInclude,
+        });
+    }
+
+    async deleteRule(id: string): Promise<number> {
+        const result = await prisma.autoReplyRule.deleteMany({
+            where: { id },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Loads with any of the Load IDs, open and most recent first
+     */
+    async findLoadsByLoadIds(loadIds: string[]) {
+        if (loadIds.length === 0) return [];
+        return prisma.load.findMany({
+            where: { loadId: { in: loadIds } },
+            select: {
+                loadId: true,
+                status: true,
+                pickupLocation: true,
+                deliveryLocation: true,
+                driverPhone: true,
+            },
+            orderBy: [{ closedAt: { sort: 'asc', nulls: 'first' } }, { syncedAt: 'desc' }],
+        });
+    }
+
+    /**
+     * Driver by phone number (for template placeholders)
+     */
+    async findDriver(phoneNumber: string) {
+        return prisma.driver.findFirst({
+            where: { phoneNumber },
+            select: { name: true, companyName: true },
+        });
+    }
+
+    /**
+     * Quo line a conversation is on
+     */
+    async findConversationLine(conversationId: string) {
+        const conversation = await prisma.conversation.findUnique({
+            where: { id: conversationId },
+            select: { phoneNumberId: true },
+        });
+
+        return conversation?.phoneNumberId ?? null;
+    }
+
+    /**
+     * When a rule last answered a driver
+     */
+    async findLastReplyAt(ruleId: string, phoneNumber: string): Promise<Date | null> {
+        const log = await prisma.autoReplyLog.findFirst({
+            where: { ruleId, phoneNumber, status: { in: ['sending', 'sent'] } },
+            select: { createdAt: true },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return log?.createdAt ?? null;
+    }
+
+    /**
+     * Claim a driver's text for an auto-reply
+     *
+     * @returns The log entry, or null if the text was already answered
+     */
+    async claimTrigger(
+        data: Pick<
+            AutoReplyLog,
+            'ruleId' | 'phoneNumber' | 'conversationId' | 'triggerMessageId' | 'loadId' | 'content'
+        >
+    ): Promise<AutoReplyLog | null> {
+        const { count } = await prisma.autoReplyLog.createMany({
+            data: [{ ...data, status: 'sending' }],
+            skipDuplicates: true,
+        });
+        if (count === 0) return null;
+
+        return prisma.autoReplyLog.findUnique({
+            where: { triggerMessageId: data.triggerMessageId },
+        });
+    }
+
+    async updateLog(
+        id: string,
+        data: {
+            status: AutoReplyLogStatus;
+            queuedMessageId?: string | null;
+            quoMessageId?: string | null;
+            error?: string | null;
+        }
+    ): Promise<AutoReplyLog> {
+        return prisma.autoReplyLog.update({
+            where: { id },
+            data,
+        });
+    }
+
+    /**
+     * Copy the outcome of a queued reply to its log entry once it was sent
+     * or failed (a reply waiting for a retry stays 'sending')
+     */
+    async recordQueuedOutcome(queuedMessageId: string): Promise<void> {
+        const message = await prisma.queuedMessage.findUnique({
+            where: { id: queuedMessageId },
+            select: { status: true, error: true, quoMessageId: true },
+        });
+
+        if (message?.status === 'sent') {
+            await prisma.autoReplyLog.updateMany({
+                where: { queuedMessageId },
+                data: { status: 'sent', quoMessageId: message.quoMessageId, error: null },
+            });
+        } else if (message?.status === 'failed' || message?.status === 'dead') {
+            await prisma.autoReplyLog.updateMany({
+                where: { queuedMessageId },
+                data: { status: 'failed', error: message.error },
+            });
+        }
+    }
+
+    /**
+     * List the audit log (newest first)
+     */
+    async findLogs(filters: {
+        ruleId?: string;
+        phoneNumber?: string;
+        status?: AutoReplyLogStatus;
+        skip: number;
+        take: number;
+    }) {
+        const where: Prisma.AutoReplyLogWhereInput = {
+            ...(filters.ruleId ? { ruleId: filters.ruleId } : {}),
+            ...(filters.phoneNumber ? { phoneNumber: { contains: filters.phoneNumber } } : {}),
+            ...(filters.status ? { status: filters.status } : {}),
+        };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.autoReplyLog.findMany({
+                where,
+                include: { rule: { select: { id: true, name: true } } },
+                orderBy: { createdAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.autoReplyLog.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+}
+
+export const autoReplyRepo = new AutoReplyRepo();
@@ -0,0 +1,59 @@
+/**
+ * Auto-Replies Routes
+ *
+ * API endpoints for auto-reply rules and their audit log
+ * Rule changes require ADMIN role; reading rules and the log is open to all users
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { autoReplyController } from './auto-replies.controller.js';
+
+/**
+ * Register auto-reply routes
+ */
+export async function autoReplyRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/auto-replies/rules
+     * All rules in the order they are tried
+     */
+    app.get('/auto-replies/rules', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: autoReplyController.listRules.bind(autoReplyController),
+    });
+
+    /**
+     * POST /api/v1/auto-replies/rules
+     * Create a rule
+     */
+    app.post('/auto-replies/rules', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: autoReplyController.createRule.bind(autoReplyController),
+    });
+
+    /**
+     * PATCH /api/v1/auto-replies/rules/:id
+     * Update a rule
+     */
+    app.patch('/auto-replies/rules/:id', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: autoReplyController.updateRule.bind(autoReplyController),
+    });
+
+    /**
+     * DELETE /api/v1/auto-replies/rules/:id
+     * Delete a rule (its log entries are kept)
+     */
+    app.delete('/auto-replies/rules/:id', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: autoReplyController.deleteRule.bind(autoReplyController),
+    });
+
+    /**
+     * GET /api/v1/auto-replies/logs
+     * Audit log of the replies sent
+     */
+    app.get('/auto-replies/logs', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: autoReplyController.listLogs.bind(autoReplyController),
+    });
+}
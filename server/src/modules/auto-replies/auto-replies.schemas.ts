@@ -0,0 +1,44 @@
+/**
+ * Auto-Replies Schemas
+ *
+ * Zod validation schemas for auto-reply rule and log endpoints
+ */
+
+import { z } from 'zod';
+import { AUTO_REPLY_LOAD_CONDITIONS } from '../../libs/auto-reply.js';
+import { LOAD_STATUSES } from '../../libs/load-status.js';
+import { AUTO_REPLY_LOG_STATUSES } from './auto-replies.types.js';
+
+export const ruleIdSchema = z.object({
+    id: z.string().uuid('Invalid rule ID'),
+});
+
+export const createRuleSchema = z.object({
+    name: z.string().trim().min(1, 'Rule name is required').max(191),
+    enabled: z.boolean().default(true),
+    priority: z.number().int().min(0).max(1000).default(0),
+    keywords: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+    loadCondition: z.enum(AUTO_REPLY_LOAD_CONDITIONS).default('any'),
+    loadStatuses: z.array(z.enum(LOAD_STATUSES)).max(LOAD_STATUSES.length).default([]),
+    template: z.string().trim().min(1, 'Reply template is required').max(1600),
+    cooldownMinutes: z
+        .number()
+        .int()
+        .min(0)
+        .max(7 * 24 * 60)
+        .default(60),
+});
+
+export const updateRuleSchema = createRuleSchema.partial();
+
+export const listLogsSchema = z.object({
+    ruleId: z.string().uuid().optional(),
+    phoneNumber: z.string().trim().min(1).optional(),
+    status: z.enum(AUTO_REPLY_LOG_STATUSES).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CreateRuleInput = z.infer<typeof createRuleSchema>;
+export type UpdateRuleInput = z.infer<typeof updateRuleSchema>;
+export type ListLogsInput = z.infer<typeof listLogsSchema>;
@@ -0,0 +1,275 @@
+/**
+ * Auto-Replies Service
+ *
+ * Answers common driver texts ("is 4B21C7 still available?") with
+ * configurable rules, and manages those rules.
+ *
+ * The parse pipeline hands over every conversation it parses. Only the
+ * newest message counts, and only if it is an unanswered driver text
+ * received within AUTO_REPLY_MAX_AGE_MINUTES, so replaying history never
+ * answers old texts. Opted-out drivers get nothing. The first enabled rule
+ * that matches answers (see libs/auto-reply.ts), unless it already answered
+ * the driver within its cooldown.
+ *
+ * Every reply is logged before it is sent. The log holds one row per driver
+ * text, which also keeps a sync and a webhook from answering it twice.
+ * Replies go through the message queue ahead of campaign messages, so the
+ * line's send budget and quiet hours apply; the queue updates the log
+ * once the reply is sent or failed.
+ */
+
+import type { AutoReplyRule } from '@prisma/client';
+import { env } from '../../config/env.js';
+import {
+    AUTO_REPLY_PLACEHOLDERS,
+    type AutoReplyConditions,
+    type AutoReplyContext,
+    type AutoReplyLoadCondition,
+    isInCooldown,
+    matchesRule,
+    normalizeKeywords,
+} from '../../libs/auto-reply.js';
+import { extractLoadIdsFromText } from '../../libs/load-id-extractor.js';
+import { type LoadStatus, toLoadStatus } from '../../libs/load-status.js';
+import logger from '../../libs/logger.js';
+import { findUnknownPlaceholders, renderTemplate } from '../../libs/message-template.js';
+import { messageQueueService } from '../../services/message-queue.service.js';
+import { BadRequestError, NotFoundError } from '../../utils/errors.js';
+import { calculateOffset } from '../../utils/pagination.js';
+import { consentService } from '../consent/consent.service.js';
+import { autoReplyRepo } from './auto-replies.repo.js';
+import type { CreateRuleInput, ListLogsInput, UpdateRuleInput } from './auto-replies.schemas.js';
+import type { IncomingTextMessage } from './auto-replies.types.js';
+
+type MentionedLoad = Awaited<ReturnType<typeof autoReplyRepo.findLoadsByLoadIds>>[number];
+
+class AutoReplyService {
+    /**
+     * Answer the newest message of a conversation if it is a recent driver
+     * text that a rule matches
+     *
+     * Never throws: a failed reply is logged and the pipeline goes on.
+     *
+     * @param messages - Conversation messages, oldest first
+     */
+    async handleConversation(
+        conversationId: string,
+        phoneNumber: string,
+        messages: IncomingTextMessage[]
+    ): Promise<void> {
+        const trigger = messages[messages.length - 1];
+        if (!trigger || trigger.direction !== 'incoming' || !trigger.text?.trim()) return;
+
+        const ageMs = Date.now() - new Date(trigger.timestamp).getTime();
+        if (ageMs > env.AUTO_REPLY_MAX_AGE_MINUTES * 60 * 1000) return;
+
+        try {
+            const rules = await autoReplyRepo.findEnabledRules();
+            if (rules.length === 0) return;
+
+            if (await consentService.isOptedOut(phoneNumber)) return;
+
+            const { context, load } = await this.buildContext(phoneNumber, trigger.text);
+            const rule = rules.find((r) => matchesRule(toConditions(r), context));
+            if (!rule) return;
+
+            const lastReplyAt = await autoReplyRepo.findLastReplyAt(rule.id, phoneNumber);
+            if (isInCooldown(lastReplyAt, rule.cooldownMinutes)) {
+                logger.info(
+                    { phone: phoneNumber, ruleId: rule.id, messageId: trigger.id },
+                    '[AUTO-REPLY] Skipped - rule in cooldown for this driver'
+                );
+                return;
+            }
+
+            await this.reply(rule, {
+                conversationId,
+                phoneNumber,
+                triggerMessageId: trigger.id,
+                loadId: context.loadId,
+                load,
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { conversationId, messageId: trigger.id, error: errorMessage },
+                '[AUTO-REPLY] WARN: Failed to process auto-reply (non-critical)'
+            );
+        }
+    }
+
+    async listRules() {
+        return autoReplyRepo.findRules();
+    }
+
+    async getRule(id: string) {
+        const rule = await autoReplyRepo.findRule(id);
+        if (!rule) {
+            throw new NotFoundError('Auto-reply rule not found');
+        }
+
+        return rule;
+    }
+
+    async createRule(data: CreateRuleInput, userId?: string) {
+        this.assertTemplate(data.template);
+
+        const rule = await autoReplyRepo.createRule({
+            ...data,
+            keywords: normalizeKeywords(data.keywords),
+            createdById: userId ?? null,
+        });
+
+        logger.info({ ruleId: rule.id, userId }, '[AUTO-REPLY] Rule created');
+
+        return rule;
+    }
+
+    async updateRule(id: string, data: UpdateRuleInput) {
+        await this.getRule(id);
+        if (data.template !== undefined) {
+            this.assertTemplate(data.template);
+        }
+
+        return autoReplyRepo.updateRule(id, {
+            ...data,
+            ...(data.keywords ? { keywords: normalizeKeywords(data.keywords) } : {}),
+        });
+    }
+
+    /**
+     * Delete a rule (its log entries are kept)
+     */
+    async deleteRule(id: string): Promise<void> {
+        const deleted = await autoReplyRepo.deleteRule(id);
+        if (deleted === 0) {
+            throw new NotFoundError('Auto-reply rule not found');
+        }
+    }
+
+    async listLogs(filters: ListLogsInput) {
+        return autoReplyRepo.findLogs({
+            ruleId: filters.ruleId,
+            phoneNumber: filters.phoneNumber,
+            status: filters.status,
+            skip: calculateOffset(filters.page, filters.limit),
+            take: filters.limit,
+        });
+    }
+
+    /**
+     * @throws BadRequestError if the template uses unsupported placeholders
+     */
+    private assertTemplate(template: string): void {
+        const unknown = findUnknownPlaceholders(template, AUTO_REPLY_PLACEHOLDERS);
+        if (unknown.length > 0) {
+            throw new BadRequestError(`Unknown template placeholders: ${unknown.join(', ')}`);
+        }
+    }
+
+    /**
+     * What the rules look at in a driver text
+     *
+     * Of the Load IDs mentioned, the first we have a load for wins. Of the
+     * loads sharing that Load ID, the one with the driver's phone wins, then
+     * open and most recent ones.
+     */
+    private async buildContext(
+        phoneNumber: string,
+        text: string
+    ): Promise<{ context: AutoReplyContext; load: MentionedLoad | null }> {
+        const loadIds = extractLoadIdsFromText(text);
+        const loads = await autoReplyRepo.findLoadsByLoadIds(loadIds);
+
+        const loadId = loadIds.find((id) => loads.some((l) => l.loadId === id)) ?? loadIds[0];
+        const candidates = loads.filter((l) => l.loadId === loadId);
+        const load = candidates.find((l) => l.driverPhone === phoneNumber) ?? candidates[0] ?? null;
+
+        return {
+            context: {
+                text,
+                loadId: loadId ?? null,
+                load: load ? { status: toLoadStatus(load.status) } : null,
+            },
+            load,
+        };
+    }
+
+    /**
+     * Log and queue the reply of a rule
+     */
+    private async reply(
+        rule: AutoReplyRule,
+        trigger: {
+            conversationId: string;
+            phoneNumber: string;
+            triggerMessageId: string;
+            loadId: string | null;
+            load: MentionedLoad | null;
+        }
+    ): Promise<void> {
+        const driver = await autoReplyRepo.findDriver(trigger.phoneNumber);
+        const content = renderTemplate(rule.template, {
+            name: driver?.name,
+            companyName: driver?.companyName,
+            loadId: trigger.loadId,
+            loadStatus: trigger.load ? toLoadStatus(trigger.load.status).replace(/_/g, ' ') : null,
+            pickupLocation: trigger.load?.pickupLocation,
+            deliveryLocation: trigger.load?.deliveryLocation,
+        });
+        if (!content) return;
+
+        const log = await autoReplyRepo.claimTrigger({
+            ruleId: rule.id,
+            phoneNumber: trigger.phoneNumber,
+            conversationId: trigger.conversationId,
+            triggerMessageId: trigger.triggerMessageId,
+            loadId: trigger.loadId,
+            content,
+        });
+        if (!log) return; // Already answered
+
+        try {
+            const queued = await messageQueueService.addReply({
+                phoneNumber: trigger.phoneNumber,
+                content,
+                phoneNumberId: await autoReplyRepo.findConversationLine(trigger.conversationId),
+            });
+
+            await autoReplyRepo.updateLog(log.id, {
+                status: 'sending',
+                queuedMessageId: queued.id,
+            });
+
+            logger.info(
+                {
+                    phone: trigger.phoneNumber,
+                    ruleId: rule.id,
+                    messageId: trigger.triggerMessageId,
+                },
+                '[AUTO-REPLY] Reply queued'
+            );
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            await autoReplyRepo.updateLog(log.id, { status: 'failed', error: errorMessage });
+
+            logger.warn(
+                { phone: trigger.phoneNumber, ruleId: rule.id, error: errorMessage },
+                '[AUTO-REPLY] WARN: Failed to queue reply'
+            );
+        }
+    }
+}
+
+/**
+ * Read the stored conditions of a rule
+ */
+function toConditions(rule: AutoReplyRule): AutoReplyConditions {
+    return {
+        keywords: Array.isArray(rule.keywords) ? (rule.keywords as string[]) : [],
+        loadCondition: rule.loadCondition as AutoReplyLoadCondition,
+        loadStatuses: Array.isArray(rule.loadStatuses) ? (rule.loadStatuses as LoadStatus[]) : [],
+    };
+}
+
+export const autoReplyService = new AutoReplyService();
@@ -0,0 +1,36 @@
+/**
+ * Auto-Replies Module Types
+ */
+
+import type { AutoReplyLoadCondition } from '../../libs/auto-reply.js';
+import type { LoadStatus } from '../../libs/load-status.js';
+
+/**
+ * Where an auto-reply stands: sending while the Quo request is in flight
+ * (the driver's text is claimed, so no other run answers it)
+ */
+export const AUTO_REPLY_LOG_STATUSES = ['sending', 'sent', 'failed'] as const;
+
+export type AutoReplyLogStatus = (typeof AUTO_REPLY_LOG_STATUSES)[number];
+
+export interface AutoReplyRuleData {
+    name: string;
+    enabled: boolean;
+    priority: number;
+    keywords: string[];
+    loadCondition: AutoReplyLoadCondition;
+    loadStatuses: LoadStatus[];
+    template: string;
+    cooldownMinutes: number;
+    createdById?: string | null;
+}
+
+/**
+ * A driver text as the parse pipeline reads it
+ */
+export interface IncomingTextMessage {
+    id: string;
+    direction: string;
+    text: string | null;
+    timestamp: Date;
+}
@@ -0,0 +1,149 @@
+/**
+ * Campaigns Controller
+ *
+ * HTTP request handlers for bulk message campaigns
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse, successResponse } from '../../utils/response.js';
+import {
+    createCampaignSchema,
+    listCampaignMessagesQuerySchema,
+    listCampaignsQuerySchema,
+    previewCampaignSchema,
+} from './campaigns.schemas.js';
+import { campaignService } from './campaigns.service.js';
+
+type CampaignParams = { Params: { id: string } };
+
+class CampaignController {
+    /**
+     * GET /api/v1/campaigns
+     *
+     * List campaigns with per-campaign message stats
+     */
+    async listCampaigns(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listCampaignsQuerySchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError('Invalid query parameters');
+        }
+
+        const { status, page, limit } = parsed.data;
+        const { items, totalItems } = await campaignService.listCampaigns({ status, page, limit });
+
+        return reply.send(
+            paginatedResponse('Campaigns retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * GET /api/v1/campaigns/:id
+     *
+     * Get a campaign with its message stats
+     */
+    async getCampaign(request: FastifyRequest<CampaignParams>, reply: FastifyReply) {
+        const campaign = await campaignService.getCampaign(request.params.id);
+
+        return reply.send(successResponse('Campaign retrieved successfully', campaign));
+    }
+
+    /**
+     * GET /api/v1/campaigns/:id/messages
+     *
+     * List the queued messages of a campaign
+     */
+    async getCampaignMessages(request: FastifyRequest<CampaignParams>, reply: FastifyReply) {
+        const parsed = listCampaignMessagesQuerySchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError('Invalid query parameters');
+        }
+
+        const { status, page, limit } = parsed.data;
+        const { items, totalItems } = await campaignService.getCampaignMessages(request.params.id, {
+            status,
+            page,
+            limit,
+        });
+
+        return reply.send(
+            paginatedResponse(
+                'Campaign messages retrieved successfully',
+                items,
+                page,
+                limit,
+                totalItems
+            )
+        );
+    }
+
+    /**
+     * POST /api/v1/campaigns
+     *
+     * Create a campaign and queue its messages
+     */
+    async createCampaign(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = createCampaignSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid campaign data');
+        }
+
+        const campaign = await campaignService.createCampaign(parsed.data, request.user?.userId);
+
+        return reply.status(201).send(successResponse('Campaign created successfully', campaign));
+    }
+
+    /**
+     * POST /api/v1/campaigns/preview
+     *
+     * Render a template for up to 5 recipients
+     */
+    async previewCampaign(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = previewCampaignSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid preview data');
+        }
+
+        const preview = await campaignService.previewTemplate(
+            parsed.data.template,
+            parsed.data.phoneNumbers
+        );
+
+        return reply.send(successResponse('Campaign preview rendered successfully', preview));
+    }
+
+    /**
+     * POST /api/v1/campaigns/:id/start
+     *
+     * Start a draft campaign or resume a paused one
+     */
+    async startCampaign(request: FastifyRequest<CampaignParams>, reply: FastifyReply) {
+        const campaign = await campaignService.startCampaign(request.params.id);
+
+        return reply.send(successResponse('Campaign started successfully', campaign));
+    }
+
+    /**
+     * POST /api/v1/campaigns/:id/pause
+     *
+     * Pause a running or scheduled campaign
+     */
+    async pauseCampaign(request: FastifyRequest<CampaignParams>, reply: FastifyReply) {
+        const campaign = await campaignService.pauseCampaign(request.params.id);
+
+        return reply.send(successResponse('Campaign paused successfully', campaign));
+    }
+
+    /**
+     * POST /api/v1/campaigns/:id/cancel
+     *
+     * Cancel a campaign and its pending messages
+     */
+    async cancelCampaign(request: FastifyRequest<CampaignParams>, reply: FastifyReply) {
+        const campaign = await campaignService.cancelCampaign(request.params.id);
+
+        return reply.send(successResponse('Campaign cancelled successfully', campaign));
+    }
+}
+
+export const campaignController = new CampaignController();
@@ -0,0 +1,252 @@
+/**
+ * Campaigns Repository
+ *
+ * Database queries for campaigns and their queued messages
+ */
+
+import type { Campaign, Prisma } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import { summarizeDeliveries } from '../../libs/delivery-status.js';
+import type { TemplateVariables } from '../../libs/message-template.js';
+import type { CampaignStats, CampaignStatus } from './campaigns.types.js';
+
+const creatorSelect = {
+    select: { id: true, name: true, email: true },
+} as const;
+
+class CampaignRepo {
+    /**
+     * Create a campaign (no messages yet)
+     */
+    async create(data: {
+        name: string;
+        template: string;
+        phoneNumberId: string | null;
+        createdById: string | null;
+        scheduledAt: Date | null;
+    }): Promise<Campaign> {
+        return prisma.campaign.create({ data });
+    }
+
+    /**
+     * Delete a campaign and its queued messages
+     */
+    async delete(id: string): Promise<void> {
+        await prisma.campaign.delete({ where: { id } });
+    }
+
+    /**
+     * Find a campaign by ID, including its creator
+     */
+    async findById(id: string) {
+        return prisma.campaign.findUnique({
+            where: { id },
+            include: { createdBy: creatorSelect },
+        });
+    }
+
+    /**
+     * List campaigns (newest first)
+     */
+    async findMany(filters: { status?: CampaignStatus; skip: number; take: number }) {
+        const where = filters.status ? { status: filters.status } : {};
+
+        const [items, totalItems] = await Promise.all([
+            prisma.campaign.findMany({
+                where,
+                include: { createdBy: creatorSelect },
+                orderBy: { createdAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.campaign.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Update campaign fields
+     */
+    async update(id: string, data: Prisma.CampaignUpdateInput): Promise<Campaign> {
+        return prisma.campaign.update({ where: { id }, data });
+    }
+
+    /**
+     * Move scheduled campaigns whose start time has passed to running
+     */
+    async startDueScheduled(now: Date): Promise<number> {
+        const result = await prisma.campaign.updateMany({
+            where: { status: 'scheduled', scheduledAt: { lte: now } },
+            data: { status: 'running', startedAt: now },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Mark a running campaign completed once none of its messages are pending
+     * or being sent
+     *
+     * @returns true if the campaign was completed by this call
+     */
+    async completeIfFinished(id: string): Promise<boolean> {
+        const unfinished = await prisma.queuedMessage.count({
+            where: { campaignId: id, status: { in: ['pending', 'sending'] } },
+        });
+        if (unfinished > 0) return false;
+
+        const result = await prisma.campaign.updateMany({
+            where: { id, status: 'running' },
+            data: { status: 'completed', completedAt: new Date() },
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Move completed campaigns back to running (their messages were requeued)
+     */
+    async reopenCompleted(ids: string[]): Promise<number> {
+        if (ids.length === 0) return 0;
+
+        const result = await prisma.campaign.updateMany({
+            where: { id: { in: ids }, status: 'completed' },
+            data: { status: 'running', completedAt: null },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Cancel every pending message of a campaign
+     */
+    async cancelPendingMessages(id: string): Promise<number> {
+        const result = await prisma.queuedMessage.updateMany({
+            where: { campaignId: id, status: 'pending' },
+            data: { status: 'cancelled' },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Message counts by status, and delivery rates of the sent messages, for
+     * each of the given campaigns
+     */
+    async getStats(campaignIds: string[]): Promise<Map<string, CampaignStats>> {
+        const stats = new Map<string, CampaignStats>(
+            campaignIds.map((id) => [
+                id,
+                {
+                    total: 0,
+                    pending: 0,
+                    sent: 0,
+                    failed: 0,
+                    dead: 0,
+                    cancelled: 0,
+                    delivery: summarizeDeliveries([]),
+                },
+            ])
+        );
+        if (campaignIds.length === 0) return stats;
+
+        const [groups, deliveryGroups] = await Promise.all([
+            prisma.queuedMessage.groupBy({
+                by: ['campaignId', 'status'],
+                where: { campaignId: { in: campaignIds } },
+                _count: { _all: true },
+            }),
+            prisma.queuedMessage.groupBy({
+                by: ['campaignId', 'deliveryStatus'],
+                where: { campaignId: { in: campaignIds }, quoMessageId: { not: null } },
+                _count: { _all: true },
+            }),
+        ]);
+
+        for (const group of groups) {
+            const entry = stats.get(group.campaignId!);
+            if (!entry) continue;
+
+            const count = group._count._all;
+            entry.total += count;
+            if (group.status in entry) {
+                entry[group.status as keyof Omit<CampaignStats, 'total' | 'delivery'>] += count;
+            }
+        }
+
+        for (const [id, entry] of stats) {
+            entry.delivery = summarizeDeliveries(
+                deliveryGroups
+                    .filter((g) => g.campaignId === id)
+                    .map((g) => ({ status: g.deliveryStatus, count: g._count._all }))
+            );
+        }
+
+        return stats;
+    }
+
+    /**
+     * Queued messages of a campaign (newest first)
+     */
+    async findMessages(
+        campaignId: string,
+        filters: { status?: string; skip: number; take: number }
+    ) {
+        const where = {
+            campaignId,
+            ...(filters.status ? { status: filters.status } : {}),
+        };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.queuedMessage.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.queuedMessage.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Template variables for each phone number, from Driver and its most recent Location
+     *
+     * Phone numbers without a Driver record get no entry.
+     */
+    async findRecipientVariables(phoneNumbers: string[]): Promise<Map<string, TemplateVariables>> {
+        const drivers = await prisma.driver.findMany({
+            where: { phoneNumber: { in: phoneNumbers } },
+            select: {
+                phoneNumber: true,
+                name: true,
+                companyName: true,
+                lastLoadId: true,
+                locations: {
+                    orderBy: { lastSeenAt: 'desc' },
+                    take: 1,
+                    select: { location: { select: { name: true, auctionName: true } } },
+                },
+            },
+        });
+
+        return new Map(
+            drivers.map((driver) => {
+                const location = driver.locations[0]?.location;
+                return [
+                    driver.phoneNumber,
+                    {
+                        name: driver.name,
+                        companyName: driver.companyName,
+                        loadId: driver.lastLoadId,
+                        location: location ? location.auctionName || location.name : null,
+                    },
+                ];
+            })
+        );
+    }
+}
+
+export const campaignRepo = new CampaignRepo();
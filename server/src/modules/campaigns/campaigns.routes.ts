@@ -0,0 +1,87 @@
+/**
+ * Campaigns Routes
+ *
+ * API endpoints for bulk message campaigns
+ * All routes require authentication; creating and controlling campaigns
+ * requires ADMIN role
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { campaignController } from './campaigns.controller.js';
+
+/**
+ * Register campaign routes
+ */
+export async function campaignRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/campaigns
+     * List campaigns with stats
+     */
+    app.get('/campaigns', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: campaignController.listCampaigns.bind(campaignController),
+    });
+
+    /**
+     * POST /api/v1/campaigns
+     * Create a campaign (ADMIN only)
+     */
+    app.post('/campaigns', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: campaignController.createCampaign.bind(campaignController),
+    });
+
+    /**
+     * POST /api/v1/campaigns/preview
+     * Render a template for a few recipients
+     */
+    app.post('/campaigns/preview', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: campaignController.previewCampaign.bind(campaignController),
+    });
+
+    /**
+     * GET /api/v1/campaigns/:id
+     * Get a campaign with stats
+     */
+    app.get('/campaigns/:id', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: campaignController.getCampaign.bind(campaignController),
+    });
+
+    /**
+     * GET /api/v1/campaigns/:id/messages
+     * List the messages of a campaign
+     */
+    app.get('/campaigns/:id/messages', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: campaignController.getCampaignMessages.bind(campaignController),
+    });
+
+    /**
+     * POST /api/v1/campaigns/:id/start
+     * Start or resume a campaign (ADMIN only)
+     */
+    app.post('/campaigns/:id/start', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: campaignController.startCampaign.bind(campaignController),
+    });
+
+    /**
+     * POST /api/v1/campaigns/:id/pause
+     * Pause a campaign (ADMIN only)
+     */
+    app.post('/campaigns/:id/pause', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: campaignController.pauseCampaign.bind(campaignController),
+    });
+
+    /**
+     * POST /api/v1/campaigns/:id/cancel
+     * Cancel a campaign (ADMIN only)
+     */
+    app.post('/campaigns/:id/cancel', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: campaignController.cancelCampaign.bind(campaignController),
+    });
+}
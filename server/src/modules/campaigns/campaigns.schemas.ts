@@ -0,0 +1,45 @@
+/**
+ * Campaign Schemas
+ *
+ * Zod validation schemas for campaign endpoints
+ */
+
+import { z } from 'zod';
+import { CAMPAIGN_STATUSES } from './campaigns.types.js';
+
+export const createCampaignSchema = z.object({
+    name: z.string().trim().min(1, 'Campaign name is required').max(191),
+    template: z.string().min(1, 'Message template is required').max(1600),
+    phoneNumbers: z.array(z.string().min(1)).min(1, 'At least one phone number is required'),
+    phoneNumberId: z
+        .string()
+        .regex(/^PN(.*)$/, 'phoneNumberId must start with "PN"')
+        .optional(),
+    scheduledAt: z.coerce.date().optional(),
+    start: z.boolean().default(false),
+});
+
+export type CreateCampaignInput = z.infer<typeof createCampaignSchema>;
+
+export const previewCampaignSchema = z.object({
+    template: z.string().min(1).max(1600),
+    phoneNumbers: z.array(z.string().min(1)).min(1).max(5),
+});
+
+export type PreviewCampaignInput = z.infer<typeof previewCampaignSchema>;
+
+export const listCampaignsQuerySchema = z.object({
+    status: z.enum(CAMPAIGN_STATUSES).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListCampaignsQuery = z.infer<typeof listCampaignsQuerySchema>;
+
+export const listCampaignMessagesQuerySchema = z.object({
+    status: z.enum(['pending', 'sent', 'failed', 'cancelled']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListCampaignMessagesQuery = z.infer<typeof listCampaignMessagesQuerySchema>;
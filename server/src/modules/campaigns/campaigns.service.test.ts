@@ -0,0 +1,65 @@
+/**
+ * Campaigns Service Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { messageQueueService } from '../../services/message-queue.service';
+import { campaignRepo } from './campaigns.repo';
+import { campaignService } from './campaigns.service';
+
+vi.mock('./campaigns.repo', () => ({
+    campaignRepo: {
+        create: vi.fn(),
+        delete: vi.fn(),
+        findById: vi.fn(),
+        getStats: vi.fn(),
+        findRecipientVariables: vi.fn(),
+    },
+}));
+
+vi.mock('../../services/message-queue.service', () => ({
+    messageQueueService: { addToQueue: vi.fn() },
+}));
+
+const campaign = { id: 'campaign-1', name: 'October loads', status: 'draft' };
+
+describe('campaignService.createCampaign', () => {
+    beforeEach(() => {
+        vi.mocked(campaignRepo.create).mockResolvedValue(campaign as never);
+        vi.mocked(campaignRepo.findById).mockResolvedValue(campaign as never);
+        vi.mocked(campaignRepo.getStats).mockResolvedValue(new Map([['campaign-1', {}]]) as never);
+    });
+
+    it('queues one message per distinct recipient', async () => {
+        vi.mocked(messageQueueService.addToQueue).mockResolvedValue(2);
+
+        await campaignService.createCampaign({
+            name: 'October loads',
+            template: 'New loads are up',
+            phoneNumbers: ['+15555550123', ' +15555550123', '+15555550124'],
+        });
+
+        expect(messageQueueService.addToQueue).toHaveBeenCalledWith(
+            [
+                expect.objectContaining({ phoneNumber: '+15555550123', campaignId: 'campaign-1' }),
+                expect.objectContaining({ phoneNumber: '+15555550124', campaignId: 'campaign-1' }),
+            ],
+            { phoneNumberId: undefined }
+        );
+        expect(campaignRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('deletes the campaign again when its messages cannot be queued', async () => {
+        vi.mocked(messageQueueService.addToQueue).mockRejectedValue(new Error('Deadlock'));
+
+        await expect(
+            campaignService.createCampaign({
+                name: 'October loads',
+                template: 'New loads are up',
+                phoneNumbers: ['+15555550123'],
+            })
+        ).rejects.toThrow('Deadlock');
+
+        expect(campaignRepo.delete).toHaveBeenCalledWith('campaign-1');
+    });
+});
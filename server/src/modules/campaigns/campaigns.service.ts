@@ -0,0 +1,236 @@
+/**
+ * Campaigns Service
+ *
+ * Business logic for bulk message campaigns.
+ *
+ * A campaign renders its template once per recipient when it is created and
+ * stores the results as QueuedMessage rows. The message queue only sends
+ * messages of running campaigns, so pausing or scheduling a campaign holds
+ * its messages back without touching them.
+ *
+ * Status flow:
+ *   draft -> running | scheduled -> running <-> paused -> completed
+ *   any state except completed -> cancelled
+ */
+
+import logger from '../../libs/logger.js';
+import {
+    findUnknownPlaceholders,
+    hasPlaceholders,
+    renderTemplate,
+} from '../../libs/message-template.js';
+import { messageQueueService } from '../../services/message-queue.service.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../../utils/errors.js';
+import { senderLinesService } from '../quo-messages/sender-lines.service.js';
+import { campaignRepo } from './campaigns.repo.js';
+import type { CampaignStatus, CreateCampaignData } from './campaigns.types.js';
+
+class CampaignService {
+    /**
+     * Create a campaign and queue one rendered message per recipient
+     *
+     * Opted-out recipients are skipped. With `start`, the campaign starts
+     * sending right away (or at `scheduledAt`). If its messages cannot be
+     * queued, the campaign is deleted again rather than left empty.
+     */
+    async createCampaign(data: CreateCampaignData, userId?: string) {
+        const unknown = findUnknownPlaceholders(data.template);
+        if (unknown.length > 0) {
+            throw new BadRequestError(`Unknown template placeholders: ${unknown.join(', ')}`);
+        }
+
+        if (data.phoneNumberId) {
+            await senderLinesService.assertLine(data.phoneNumberId);
+        }
+
+        const phoneNumbers = [...new Set(data.phoneNumbers.map((p) => p.trim()).filter(Boolean))];
+
+        const campaign = await campaignRepo.create({
+            name: data.name,
+            template: data.template,
+            phoneNumberId: data.phoneNumberId ?? null,
+            createdById: userId ?? null,
+            scheduledAt: data.scheduledAt ?? null,
+        });
+
+        let queued: number;
+        try {
+            const messages = await this.renderMessages(data.template, phoneNumbers);
+            queued = await messageQueueService.addToQueue(
+                messages.map((message) => ({
+                    ...message,
+                    campaignId: campaign.id,
+                    scheduledFor: data.scheduledAt ?? null,
+                })),
+                { phoneNumberId: data.phoneNumberId }
+            );
+        } catch (error: unknown) {
+            // Still a draft, so none of its messages were sent
+            await campaignRepo.delete(campaign.id);
+            throw error;
+        }
+
+        logger.info(
+            { campaignId: campaign.id, recipients: phoneNumbers.length, queued },
+            '[CAMPAIGN] Campaign created'
+        );
+
+        if (data.start) {
+            return this.startCampaign(campaign.id);
+        }
+
+        return this.getCampaign(campaign.id);
+    }
+
+    /**
+     * Render the template for a few recipients without queueing anything
+     */
+    async previewTemplate(template: string, phoneNumbers: string[]) {
+        const unknown = findUnknownPlaceholders(template);
+        if (unknown.length > 0) {
+            throw new BadRequestError(`Unknown template placeholders: ${unknown.join(', ')}`);
+        }
+
+        return this.renderMessages(template, phoneNumbers);
+    }
+
+    /**
+     * Start a draft campaign (or resume a paused one)
+     *
+     * A draft with a future `scheduledAt` becomes scheduled instead.
+     */
+    async startCampaign(id: string) {
+        const campaign = await this.findCampaignOrThrow(id);
+        const now = new Date();
+
+        if (campaign.status === 'draft' && campaign.scheduledAt && campaign.scheduledAt > now) {
+            await campaignRepo.update(id, { status: 'scheduled' });
+        } else if (campaign.status === 'draft' || campaign.status === 'paused') {
+            await campaignRepo.update(id, {
+                status: 'running',
+                startedAt: campaign.startedAt ?? now,
+            });
+            // Nothing to send (e.g. every recipient opted out)
+            await campaignRepo.completeIfFinished(id);
+        } else {
+            throw new ConflictError(`Cannot start a ${campaign.status} campaign`);
+        }
+
+        logger.info({ campaignId: id }, '[CAMPAIGN] Campaign started');
+        return this.getCampaign(id);
+    }
+
+    /**
+     * Pause a running or scheduled campaign; its pending messages stay queued
+     */
+    async pauseCampaign(id: string) {
+        const campaign = await this.findCampaignOrThrow(id);
+
+        if (campaign.status !== 'running' && campaign.status !== 'scheduled') {
+            throw new ConflictError(`Cannot pause a ${campaign.status} campaign`);
+        }
+
+        await campaignRepo.update(id, { status: 'paused' });
+
+        logger.info({ campaignId: id }, '[CAMPAIGN] Campaign paused');
+        return this.getCampaign(id);
+    }
+
+    /**
+     * Cancel a campaign and drop its pending messages
+     */
+    async cancelCampaign(id: string) {
+        const campaign = await this.findCampaignOrThrow(id);
+
+        if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+            throw new ConflictError(`Cannot cancel a ${campaign.status} campaign`);
+        }
+
+        await campaignRepo.update(id, { status: 'cancelled', completedAt: new Date() });
+        const cancelled = await campaignRepo.cancelPendingMessages(id);
+
+        logger.info({ campaignId: id, cancelled }, '[CAMPAIGN] Campaign cancelled');
+        return this.getCampaign(id);
+    }
+
+    /**
+     * Start scheduled campaigns whose time has come (called by cron)
+     */
+    async startDueCampaigns(): Promise<number> {
+        const started = await campaignRepo.startDueScheduled(new Date());
+
+        if (started > 0) {
+            logger.info({ started }, '[CAMPAIGN] Scheduled campaigns started');
+        }
+
+        return started;
+    }
+
+    /**
+     * List campaigns with their message stats
+     */
+    async listCampaigns(filters: { status?: CampaignStatus; page: number; limit: number }) {
+        const { items, totalItems } = await campaignRepo.findMany({
+            status: filters.status,
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        });
+
+        const stats = await campaignRepo.getStats(items.map((c) => c.id));
+
+        return {
+            items: items.map((campaign) => ({ ...campaign, stats: stats.get(campaign.id)! })),
+            totalItems,
+        };
+    }
+
+    /**
+     * Get a campaign with its message stats
+     */
+    async getCampaign(id: string) {
+        const campaign = await this.findCampaignOrThrow(id);
+        const stats = await campaignRepo.getStats([id]);
+
+        return { ...campaign, stats: stats.get(id)! };
+    }
+
+    /**
+     * List the queued messages of a campaign
+     */
+    async getCampaignMessages(
+        id: string,
+        filters: { status?: string; page: number; limit: number }
+    ) {
+        await this.findCampaignOrThrow(id);
+
+        return campaignRepo.findMessages(id, {
+            status: filters.status,
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        });
+    }
+
+    private async findCampaignOrThrow(id: string) {
+        const campaign = await campaignRepo.findById(id);
+        if (!campaign) {
+            throw new NotFoundError('Campaign not found');
+        }
+        return campaign;
+    }
+
+    /**
+     * Render the template for each phone number from its Driver/Location data
+     */
+    private async renderMessages(template: string, phoneNumbers: string[]) {
+        const variables = hasPlaceholders(template)
+            ? await campaignRepo.findRecipientVariables(phoneNumbers)
+            : new Map();
+
+        return phoneNumbers.map((phoneNumber) => ({
+            phoneNumber,
+            content: renderTemplate(template, variables.get(phoneNumber) ?? {}),
+        }));
+    }
+}
+
+export const campaignService = new CampaignService();
@@ -0,0 +1,42 @@
+/**
+ * Campaign Types
+ *
+ * Type definitions for the campaigns module
+ */
+
+import type { DeliveryRates } from '../../libs/delivery-status.js';
+
+export const CAMPAIGN_STATUSES = [
+    'draft',
+    'scheduled',
+    'running',
+    'paused',
+    'cancelled',
+    'completed',
+] as const;
+
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+/**
+ * Message counts for one campaign, by queued message status, and how the
+ * sent ones were delivered
+ */
+export interface CampaignStats {
+    total: number;
+    pending: number;
+    sent: number;
+    failed: number;
+    dead: number;
+    cancelled: number;
+    delivery: DeliveryRates;
+}
+
+export interface CreateCampaignData {
+    name: string;
+    template: string;
+    phoneNumbers: string[];
+    /** Sender line for recipients without a conversation (default line if unset) */
+    phoneNumberId?: string;
+    scheduledAt?: Date;
+    start?: boolean;
+}
@@ -0,0 +1,74 @@
+/**
+ * Consent Controller
+ *
+ * HTTP request handlers for SMS consent (opt-out / opt-in)
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse, successResponse } from '../../utils/response.js';
+import { listConsentsQuerySchema, updateConsentSchema } from './consent.schemas.js';
+import { consentService } from './consent.service.js';
+
+class ConsentController {
+    /**
+     * GET /api/v1/consents
+     *
+     * List consent records, optionally filtered by status
+     */
+    async listConsents(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listConsentsQuerySchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError('Invalid query parameters');
+        }
+
+        const { status, page, limit } = parsed.data;
+        const { items, totalItems } = await consentService.listConsents({ status, page, limit });
+
+        return reply.send(
+            paginatedResponse('Consents retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * GET /api/v1/consents/:phoneNumber
+     *
+     * Get the consent record for a phone number (null if never opted out)
+     */
+    async getConsent(
+        request: FastifyRequest<{ Params: { phoneNumber: string } }>,
+        reply: FastifyReply
+    ) {
+        const consent = await consentService.getConsent(request.params.phoneNumber);
+
+        return reply.send(successResponse('Consent retrieved successfully', consent));
+    }
+
+    /**
+     * PUT /api/v1/consents/:phoneNumber
+     *
+     * Manually opt a phone number out or back in
+     */
+    async updateConsent(
+        request: FastifyRequest<{
+            Params: { phoneNumber: string };
+            Body: { status: string };
+        }>,
+        reply: FastifyReply
+    ) {
+        const parsed = updateConsentSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError('Status must be opted_in or opted_out');
+        }
+
+        const consent = await consentService.setConsent(
+            request.params.phoneNumber,
+            parsed.data.status,
+            request.user?.userId
+        );
+
+        return reply.send(successResponse('Consent updated successfully', consent));
+    }
+}
+
+export const consentController = new ConsentController();
@@ -0,0 +1,78 @@
+/**
+ * Consent Repository
+ *
+ * Database queries for SMS consent records
+ */
+
+import type { SmsConsent } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type { ConsentStatus, UpsertConsentData } from './consent.types.js';
+
+class ConsentRepo {
+    /**
+     * Find the consent record for a phone number
+     */
+    async findByPhoneNumber(phoneNumber: string): Promise<SmsConsent | null> {
+        return prisma.smsConsent.findUnique({
+            where: { phoneNumber },
+        });
+    }
+
+    /**
+     * Of the given phone numbers, return those that are opted out
+     */
+    async findOptedOutPhoneNumbers(phoneNumbers: string[]): Promise<string[]> {
+        if (phoneNumbers.length === 0) return [];
+
+        const records = await prisma.smsConsent.findMany({
+            where: {
+                phoneNumber: { in: phoneNumbers },
+                status: 'opted_out',
+            },
+            select: { phoneNumber: true },
+        });
+
+        return records.map((r) => r.phoneNumber);
+    }
+
+    /**
+     * List consent records (newest change first)
+     */
+    async findMany(filters: { status?: ConsentStatus; skip: number; take: number }) {
+        const where = filters.status ? { status: filters.status } : {};
+
+        const [items, totalItems] = await Promise.all([
+            prisma.smsConsent.findMany({
+                where,
+                orderBy: { changedAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.smsConsent.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Create or replace the consent record for a phone number
+     */
+    async upsert(data: UpsertConsentData): Promise<SmsConsent> {
+        const fields = {
+            status: data.status,
+            channel: data.channel,
+            keyword: data.keyword ?? null,
+            sourceMessageId: data.sourceMessageId ?? null,
+            changedBy: data.changedBy ?? null,
+            changedAt: data.changedAt,
+        };
+
+        return prisma.smsConsent.upsert({
+            where: { phoneNumber: data.phoneNumber },
+            create: { phoneNumber: data.phoneNumber, ...fields },
+            update: fields,
+        });
+    }
+}
+
+export const consentRepo = new ConsentRepo();
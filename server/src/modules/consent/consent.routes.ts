@@ -0,0 +1,41 @@
+/**
+ * Consent Routes
+ *
+ * API endpoints for SMS opt-out / opt-in records
+ * All routes require authentication; manual changes require ADMIN role
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { consentController } from './consent.controller.js';
+
+/**
+ * Register consent routes
+ */
+export async function consentRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/consents
+     * List consent records
+     */
+    app.get('/consents', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: consentController.listConsents.bind(consentController),
+    });
+
+    /**
+     * GET /api/v1/consents/:phoneNumber
+     * Get consent for a phone number
+     */
+    app.get('/consents/:phoneNumber', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: consentController.getConsent.bind(consentController),
+    });
+
+    /**
+     * PUT /api/v1/consents/:phoneNumber
+     * Manually opt a phone number out or back in (ADMIN only)
+     */
+    app.put('/consents/:phoneNumber', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: consentController.updateConsent.bind(consentController),
+    });
+}
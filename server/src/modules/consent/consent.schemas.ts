@@ -0,0 +1,21 @@
+/**
+ * Consent Schemas
+ *
+ * Zod validation schemas for consent endpoints
+ */
+
+import { z } from 'zod';
+
+export const listConsentsQuerySchema = z.object({
+    status: z.enum(['opted_in', 'opted_out']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListConsentsQuery = z.infer<typeof listConsentsQuerySchema>;
+
+export const updateConsentSchema = z.object({
+    status: z.enum(['opted_in', 'opted_out']),
+});
+
+export type UpdateConsentInput = z.infer<typeof updateConsentSchema>;
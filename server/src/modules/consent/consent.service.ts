@@ -0,0 +1,113 @@
+/**
+ * Consent Service
+ *
+ * Business logic for SMS opt-out / opt-in.
+ *
+ * Every phone number has at most one consent record holding its current
+ * status and where it came from. A number without a record has never opted
+ * out and may be messaged.
+ */
+
+import logger from '../../libs/logger.js';
+import type { ConsentChange } from '../../libs/stop-command-extractor.js';
+import { consentRepo } from './consent.repo.js';
+import type { ConsentStatus } from './consent.types.js';
+
+class ConsentService {
+    /**
+     * Whether the phone number has opted out of SMS
+     */
+    async isOptedOut(phoneNumber: string): Promise<boolean> {
+        const consent = await consentRepo.findByPhoneNumber(phoneNumber);
+        return consent?.status === 'opted_out';
+    }
+
+    /**
+     * Of the given phone numbers, return the set that has opted out
+     */
+    async getOptedOutSet(phoneNumbers: string[]): Promise<Set<string>> {
+        const unique = [...new Set(phoneNumbers)];
+        return new Set(await consentRepo.findOptedOutPhoneNumbers(unique));
+    }
+
+    /**
+     * Get the consent record for a phone number (null = never opted out)
+     */
+    async getConsent(phoneNumber: string) {
+        return consentRepo.findByPhoneNumber(phoneNumber);
+    }
+
+    /**
+     * List consent records
+     */
+    async listConsents(filters: { status?: ConsentStatus; page: number; limit: number }) {
+        return consentRepo.findMany({
+            status: filters.status,
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        });
+    }
+
+    /**
+     * Apply a keyword reply (STOP, START, ...) received from a driver
+     *
+     * Keywords older than the current record are ignored, so replaying
+     * history (sync, backfill) never undoes a newer change.
+     *
+     * @returns true if the driver's consent status changed
+     */
+    async applyKeyword(phoneNumber: string, change: ConsentChange): Promise<boolean> {
+        const changedAt = change.timestamp ? new Date(change.timestamp) : new Date();
+        const status: ConsentStatus = change.action === 'opt_out' ? 'opted_out' : 'opted_in';
+        const existing = await consentRepo.findByPhoneNumber(phoneNumber);
+
+        if (existing && existing.changedAt >= changedAt) {
+            return false;
+        }
+
+        // A START from a number that never opted out changes nothing
+        if (!existing && status === 'opted_in') {
+            return false;
+        }
+
+        await consentRepo.upsert({
+            phoneNumber,
+            status,
+            channel: 'sms',
+            keyword: change.keyword,
+            sourceMessageId: change.messageId ?? null,
+            changedAt,
+        });
+
+        const statusChanged = existing?.status !== status;
+        if (statusChanged) {
+            logger.info(
+                { phone: phoneNumber, keyword: change.keyword, messageId: change.messageId },
+                status === 'opted_out'
+                    ? '[STOP COMMAND] Driver opted out'
+                    : '[STOP COMMAND] Driver opted back in'
+            );
+        }
+
+        return statusChanged;
+    }
+
+    /**
+     * Set consent by hand (dispatcher override)
+     */
+    async setConsent(phoneNumber: string, status: ConsentStatus, userId?: string) {
+        const consent = await consentRepo.upsert({
+            phoneNumber,
+            status,
+            channel: 'manual',
+            changedBy: userId ?? null,
+            changedAt: new Date(),
+        });
+
+        logger.info({ phone: phoneNumber, status, userId }, '[CONSENT] Consent changed manually');
+
+        return consent;
+    }
+}
+
+export const consentService = new ConsentService();
@@ -0,0 +1,23 @@
+/**
+ * Consent Module Types
+ */
+
+export type ConsentStatus = 'opted_in' | 'opted_out';
+
+/**
+ * How the consent change reached us
+ * - sms: keyword reply from the driver (STOP, START, ...)
+ * - manual: set by a dispatcher
+ * - legacy: migrated from the old `Driver.notes = "x"` marker
+ */
+export type ConsentChannel = 'sms' | 'manual' | 'legacy';
+
+export interface UpsertConsentData {
+    phoneNumber: string;
+    status: ConsentStatus;
+    channel: ConsentChannel;
+    keyword?: string | null;
+    sourceMessageId?: string | null;
+    changedBy?: string | null;
+    changedAt: Date;
+}
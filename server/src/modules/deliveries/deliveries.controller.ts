@@ -0,0 +1,74 @@
+/**
+ * Deliveries Controller
+ *
+ * HTTP request handlers for delivery reports and unreachable numbers
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse } from '../../utils/pagination.js';
+import { successResponse } from '../../utils/response.js';
+import {
+    listReachabilitySchema,
+    listRecipientsSchema,
+    phoneNumberParamSchema,
+} from './deliveries.schemas.js';
+import { deliveryService } from './deliveries.service.js';
+
+class DeliveryController {
+    /**
+     * GET /api/v1/deliveries/recipients
+     *
+     * Delivered, undelivered and failed rates per recipient
+     */
+    async listRecipients(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listRecipientsSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await deliveryService.listRecipients(parsed.data);
+
+        return reply.send(
+            paginatedResponse('Recipients retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * GET /api/v1/deliveries/reachability
+     *
+     * Numbers with recorded delivery failures, optionally by status
+     */
+    async listReachability(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listReachabilitySchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await deliveryService.listReachability(parsed.data);
+
+        return reply.send(
+            paginatedResponse('Reachability retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * POST /api/v1/deliveries/reachability/:phoneNumber/clear
+     *
+     * Clear the unreachable flag of a number
+     */
+    async clearUnreachable(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = phoneNumberParamSchema.safeParse(request.params);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid phone number');
+        }
+
+        const record = await deliveryService.clearUnreachable(parsed.data.phoneNumber);
+
+        return reply.send(successResponse('Unreachable flag cleared', record));
+    }
+}
+
+export const deliveryController = new DeliveryController();
@@ -0,0 +1,197 @@
+/**
+ * Deliveries Repository
+ *
+ * Database queries for the delivery status of queued messages we sent and the
+ * reachability of the numbers they went to
+ */
+
+import type { Prisma, SmsReachability } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import { FINAL_DELIVERY_STATUSES, type ReachabilityStatus } from '../../libs/delivery-status.js';
+
+/**
+ * Sent messages whose delivery Quo has not settled yet
+ */
+const unsettledWhere: Prisma.QueuedMessageWhereInput = {
+    OR: [{ deliveryStatus: null }, { deliveryStatus: { notIn: [...FINAL_DELIVERY_STATUSES] } }],
+};
+
+class DeliveryRepo {
+    /**
+     * Record the Quo status of the message a queued message produced, unless
+     * its delivery is already settled
+     *
+     * @returns The queued message if its status changed
+     */
+    async updateStatus(quoMessageId: string, status: string, at: Date = new Date()) {
+        const { count } = await prisma.queuedMessage.updateMany({
+            where: {
+                quoMessageId,
+                OR: [
+                    { deliveryStatus: null },
+                    { deliveryStatus: { notIn: [...FINAL_DELIVERY_STATUSES, status] } },
+                ],
+            },
+            data: { deliveryStatus: status, deliveryUpdatedAt: at },
+        });
+        if (count === 0) return null;
+
+        return prisma.queuedMessage.findUnique({
+            where: { quoMessageId },
+            select: { id: true, phoneNumber: true, campaignId: true },
+        });
+    }
+
+    /**
+     * Sent messages still waiting for a final status (oldest first)
+     */
+    async findUnsettled(sentAfter: Date, take: number) {
+        return prisma.queuedMessage.findMany({
+            where: {
+                quoMessageId: { not: null },
+                sentAt: { gte: sentAfter },
+                ...unsettledWhere,
+            },
+            select: { quoMessageId: true },
+            orderBy: { sentAt: 'asc' },
+            take,
+        });
+    }
+
+    /**
+     * Stored Quo messages with a final status
+     */
+    async findSettledMessages(ids: string[]) {
+        if (ids.length === 0) return [];
+        return prisma.message.findMany({
+            where: { id: { in: ids }, status: { in: [...FINAL_DELIVERY_STATUSES] } },
+            select: { id: true, status: true, syncedAt: true },
+        });
+    }
+
+    /**
+     * Phone numbers we sent to, most texts first
+     *
+     * @param phoneNumbers - Only these numbers (e.g. the unreachable ones)
+     */
+    async findRecipients(filters: {
+        campaignId?: string;
+        phoneNumbers?: string[];
+        skip: number;
+        take: number;
+    }) {
+        const where: Prisma.QueuedMessageWhereInput = {
+            quoMessageId: { not: null },
+            ...(filters.campaignId ? { campaignId: filters.campaignId } : {}),
+            ...(filters.phoneNumbers ? { phoneNumber: { in: filters.phoneNumbers } } : {}),
+        };
+
+        const [page, all] = await Promise.all([
+            prisma.queuedMessage.groupBy({
+                by: ['phoneNumber'],
+                where,
+                _count: { _all: true },
+                orderBy: [{ _count: { phoneNumber: 'desc' } }, { phoneNumber: 'asc' }],
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.queuedMessage.groupBy({ by: ['phoneNumber'], where }),
+        ]);
+
+        return { phoneNumbers: page.map((g) => g.phoneNumber), totalItems: all.length };
+    }
+
+    /**
+     * Sent message counts by Quo status for each phone number
+     */
+    async countByPhone(phoneNumbers: string[], campaignId?: string) {
+        if (phoneNumbers.length === 0) return [];
+
+        const groups = await prisma.queuedMessage.groupBy({
+            by: ['phoneNumber', 'deliveryStatus'],
+            where: {
+                phoneNumber: { in: phoneNumbers },
+                quoMessageId: { not: null },
+                ...(campaignId ? { campaignId } : {}),
+            },
+            _count: { _all: true },
+        });
+
+        return groups.map((g) => ({
+            phoneNumber: g.phoneNumber,
+            status: g.deliveryStatus,
+            count: g._count._all,
+        }));
+    }
+
+    /**
+     * Drivers by phone number
+     */
+    async findDriversByPhones(phoneNumbers: string[]) {
+        if (phoneNumbers.length === 0) return [];
+        return prisma.driver.findMany({
+            where: { phoneNumber: { in: phoneNumbers } },
+            select: { id: true, phoneNumber: true, name: true, companyName: true },
+        });
+    }
+
+    async findReachability(phoneNumber: string): Promise<SmsReachability | null> {
+        return prisma.smsReachability.findUnique({ where: { phoneNumber } });
+    }
+
+    async findReachabilityByPhones(phoneNumbers: string[]): Promise<SmsReachability[]> {
+        if (phoneNumbers.length === 0) return [];
+        return prisma.smsReachability.findMany({ where: { phoneNumber: { in: phoneNumbers } } });
+    }
+
+    /**
+     * Phone numbers flagged unreachable
+     */
+    async findUnreachablePhoneNumbers(): Promise<string[]> {
+        const records = await prisma.smsReachability.findMany({
+            where: { status: 'unreachable' },
+            select: { phoneNumber: true },
+        });
+
+        return records.map((r) => r.phoneNumber);
+    }
+
+    /**
+     * List reachability records (most recent failure first)
+     */
+    async findReachabilities(filters: {
+        status?: ReachabilityStatus;
+        skip: number;
+        take: number;
+    }) {
+        const where = filters.status ? { status: filters.status } : {};
+
+        const [items, totalItems] = await Promise.all([
+            prisma.smsReachability.findMany({
+                where,
+                orderBy: [{ lastFailureAt: 'desc' }, { updatedAt: 'desc' }],
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.smsReachability.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Create or update the reachability record of a phone number
+     */
+    async saveReachability(
+        phoneNumber: string,
+        data: Omit<Prisma.SmsReachabilityCreateInput, 'phoneNumber'>
+    ): Promise<SmsReachability> {
+        return prisma.smsReachability.upsert({
+            where: { phoneNumber },
+            create: { phoneNumber, ...data },
+            update: data,
+        });
+    }
+}
+
+export const deliveryRepo = new DeliveryRepo();
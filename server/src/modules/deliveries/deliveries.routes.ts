@@ -0,0 +1,42 @@
+/**
+ * Deliveries Routes
+ *
+ * Delivery reports for the texts the message queue sent, and numbers our
+ * texts can't reach
+ * Reports are open to all users; clearing a flag requires ADMIN role
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { deliveryController } from './deliveries.controller.js';
+
+/**
+ * Register delivery routes
+ */
+export async function deliveryRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/deliveries/recipients
+     * Delivery rates per recipient (campaignId, unreachable)
+     */
+    app.get('/deliveries/recipients', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: deliveryController.listRecipients.bind(deliveryController),
+    });
+
+    /**
+     * GET /api/v1/deliveries/reachability
+     * Numbers with recorded delivery failures (status)
+     */
+    app.get('/deliveries/reachability', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: deliveryController.listReachability.bind(deliveryController),
+    });
+
+    /**
+     * POST /api/v1/deliveries/reachability/:phoneNumber/clear
+     * Clear the unreachable flag of a number (ADMIN only)
+     */
+    app.post('/deliveries/reachability/:phoneNumber/clear', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: deliveryController.clearUnreachable.bind(deliveryController),
+    });
+}
@@ -0,0 +1,31 @@
+/**
+ * Deliveries Schemas
+ *
+ * Zod validation schemas for delivery report endpoints
+ */
+
+import { z } from 'zod';
+
+export const listRecipientsSchema = z.object({
+    campaignId: z.string().uuid().optional(),
+    /** Only numbers flagged unreachable */
+    unreachable: z
+        .enum(['true', 'false'])
+        .transform((value) => value === 'true')
+        .optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const listReachabilitySchema = z.object({
+    status: z.enum(['reachable', 'unreachable']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const phoneNumberParamSchema = z.object({
+    phoneNumber: z.string().trim().min(3).max(20),
+});
+
+export type ListRecipientsInput = z.infer<typeof listRecipientsSchema>;
+export type ListReachabilityInput = z.infer<typeof listReachabilitySchema>;
@@ -0,0 +1,221 @@
+/**
+ * Deliveries Service
+ *
+ * Follows the texts the message queue sent until Quo settles their delivery,
+ * and keeps track of numbers our texts can't reach.
+ *
+ * A queued message is linked to the Quo message it produced when it is sent.
+ * Its delivery status then comes from the same place every stored message's
+ * status does: the sync and the message.delivered webhook, both of which go
+ * through quoSyncService.upsertMessage. After every sync, a sweep picks up
+ * statuses that were stored before the link existed.
+ *
+ * Hard failures (see libs/delivery-status.ts) in a row flag a number
+ * unreachable; a delivered text clears the flag.
+ */
+
+import { env } from '../../config/env.js';
+import {
+    type FinalDeliveryStatus,
+    type ReachabilityStatus,
+    isFinalDeliveryStatus,
+    nextReachability,
+    summarizeDeliveries,
+} from '../../libs/delivery-status.js';
+import logger from '../../libs/logger.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { calculateOffset } from '../../utils/pagination.js';
+import { deliveryRepo } from './deliveries.repo.js';
+
+/**
+ * How far back the sweep looks for sent messages without a final status
+ */
+const RECONCILE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on messages checked per sweep
+ */
+const RECONCILE_BATCH_SIZE = 500;
+
+class DeliveryService {
+    /**
+     * Apply the Quo status of a stored outgoing message to the queued message
+     * that produced it, if any
+     *
+     * Statuses after a final one are ignored, so replaying history never
+     * counts a failure twice.
+     */
+    async applyMessageStatus(quoMessageId: string, status: string): Promise<void> {
+        const queued = await deliveryRepo.updateStatus(quoMessageId, status);
+        if (!queued || !isFinalDeliveryStatus(status)) return;
+
+        await this.recordOutcome(
+            queued.phoneNumber,
+            status as FinalDeliveryStatus,
+            status === 'failed' ? 'Quo reported the message as failed' : null
+        );
+    }
+
+    /**
+     * Count a send request Quo rejected because of the recipient as a hard
+     * failure
+     */
+    async recordRejection(phoneNumber: string, error: string): Promise<void> {
+        await this.recordOutcome(phoneNumber, 'failed', error);
+    }
+
+    /**
+     * Apply final statuses stored for sent messages that still look unsettled
+     *
+     * @returns Number of messages settled
+     */
+    async reconcileUnsettled(): Promise<number> {
+        const unsettled = await deliveryRepo.findUnsettled(
+            new Date(Date.now() - RECONCILE_WINDOW_MS),
+            RECONCILE_BATCH_SIZE
+        );
+        const messages = await deliveryRepo.findSettledMessages(
+            unsettled.map((m) => m.quoMessageId).filter((id) => id !== null)
+        );
+
+        for (const message of messages) {
+            await this.applyMessageStatus(message.id, message.status);
+        }
+
+        if (messages.length > 0) {
+            logger.info(
+                { settled: messages.length, checked: unsettled.length },
+                '[DELIVERIES] Reconciled delivery statuses'
+            );
+        }
+
+        return messages.length;
+    }
+
+    /**
+     * Delivery rates per recipient, with their driver and reachability
+     *
+     * @param unreachable - Only numbers flagged unreachable
+     */
+    async listRecipients(filters: {
+        campaignId?: string;
+        unreachable?: boolean;
+        page: number;
+        limit: number;
+    }) {
+        const { phoneNumbers, totalItems } = await deliveryRepo.findRecipients({
+            campaignId: filters.campaignId,
+            phoneNumbers: filters.unreachable
+                ? await deliveryRepo.findUnreachablePhoneNumbers()
+                : undefined,
+            skip: calculateOffset(filters.page, filters.limit),
+            take: filters.limit,
+        });
+
+        const [counts, drivers, reachabilities] = await Promise.all([
+            deliveryRepo.countByPhone(phoneNumbers, filters.campaignId),
+            deliveryRepo.findDriversByPhones(phoneNumbers),
+            deliveryRepo.findReachabilityByPhones(phoneNumbers),
+        ]);
+        const driverMap = new Map(drivers.map((d) => [d.phoneNumber, d]));
+        const reachabilityMap = new Map(reachabilities.map((r) => [r.phoneNumber, r]));
+
+        return {
+            items: phoneNumbers.map((phoneNumber) => {
+                const reachability = reachabilityMap.get(phoneNumber);
+
+                return {
+                    phoneNumber,
+                    driver: driverMap.get(phoneNumber) ?? null,
+                    delivery: summarizeDeliveries(
+                        counts.filter((c) => c.phoneNumber === phoneNumber)
+                    ),
+                    reachability: {
+                        status: (reachability?.status ?? 'reachable') as ReachabilityStatus,
+                        hardFailures: reachability?.hardFailures ?? 0,
+                        lastError: reachability?.lastError ?? null,
+                        unreachableAt: reachability?.unreachableAt ?? null,
+                    },
+                };
+            }),
+            totalItems,
+        };
+    }
+
+    /**
+     * List reachability records
+     */
+    async listReachability(filters: { status?: ReachabilityStatus; page: number; limit: number }) {
+        return deliveryRepo.findReachabilities({
+            status: filters.status,
+            skip: calculateOffset(filters.page, filters.limit),
+            take: filters.limit,
+        });
+    }
+
+    /**
+     * Clear the unreachable flag of a number (e.g. the driver confirmed it)
+     *
+     * @throws NotFoundError if we never recorded a failure for the number
+     */
+    async clearUnreachable(phoneNumber: string) {
+        const current = await deliveryRepo.findReachability(phoneNumber);
+        if (!current) {
+            throw new NotFoundError('No delivery failures recorded for this number');
+        }
+
+        const record = await deliveryRepo.saveReachability(phoneNumber, {
+            status: 'reachable',
+            hardFailures: 0,
+            unreachableAt: null,
+        });
+
+        logger.info({ phoneNumber }, '[DELIVERIES] Unreachable flag cleared');
+
+        return record;
+    }
+
+    /**
+     * Update a number's reachability with one more delivery outcome
+     *
+     * Numbers that never failed get no record.
+     */
+    private async recordOutcome(
+        phoneNumber: string,
+        outcome: FinalDeliveryStatus,
+        error: string | null
+    ): Promise<void> {
+        if (outcome === 'undelivered') return;
+
+        const current = await deliveryRepo.findReachability(phoneNumber);
+        if (!current && outcome === 'delivered') return;
+
+        const state = nextReachability(
+            {
+                status: (current?.status ?? 'reachable') as ReachabilityStatus,
+                hardFailures: current?.hardFailures ?? 0,
+            },
+            outcome,
+            env.UNREACHABLE_AFTER_HARD_FAILURES
+        );
+        const now = new Date();
+        const flagged = state.status === 'unreachable' && current?.status !== 'unreachable';
+
+        await deliveryRepo.saveReachability(phoneNumber, {
+            ...state,
+            ...(outcome === 'delivered'
+                ? { lastDeliveredAt: now, unreachableAt: null }
+                : { lastError: error, lastFailureAt: now }),
+            ...(flagged ? { unreachableAt: now } : {}),
+        });
+
+        if (flagged) {
+            logger.warn(
+                { phoneNumber, hardFailures: state.hardFailures, error },
+                '[DELIVERIES] WARN: Number flagged unreachable after repeated hard failures'
+            );
+        }
+    }
+}
+
+export const deliveryService = new DeliveryService();
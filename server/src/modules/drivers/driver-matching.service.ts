@@ -5,15 +5,21 @@
  *
  * Process:
  * 1. Extract Load IDs from message text (partial VINs)
- * 2. Look up Load in database (synced from Google Sheets)
+ * 2. Look up Load in database (synced from Google Sheets); a Load ID shared by
+ *    several loads is settled from conversation context, or else queued for
+ *    dispatcher review (see modules/load-reviews)
  * 3. Create/Update Driver record with phone number
  * 4. Create/Update Location record with normalized location
  * 5. Link Driver <-> Location with timestamp and source
  */
 
 import { prisma } from '../../libs/db.js';
-import { sheetSyncService } from './sheet-sync.service.js';
+import { disambiguateLoads } from '../../libs/load-disambiguation.js';
+import { loadService } from '../loads/loads.service.js';
+import { loadReviewRepo } from '../load-reviews/load-reviews.repo.js';
+import { sheetWriteBackService } from './sheet-write-back.service.js';
 import logger from '../../libs/logger.js';
+import { addErrorSample, type ErrorSample } from '../../libs/error-samples.js';
 import { STATE_MAPPINGS } from '../../libs/location-normalizer.js';
 
 interface MatchResult {
@@ -22,8 +28,37 @@ interface MatchResult {
     locationId?: string;
     loadId?: string;
     reason?: string;
+    /** The Load ID is shared by several loads and waits for review */
+    ambiguous?: boolean;
 }
 
+/**
+ * What the conversation tells about the Load ID being matched
+ */
+interface MatchContext {
+    conversationId?: string;
+    /** Other Load IDs mentioned in the conversation */
+    otherLoadIds?: string[];
+}
+
+/**
+ * Load fields used to link a driver
+ */
+interface MatchedLoad {
+    id: string;
+    vin: string;
+    pickupLocation: string | null;
+    deliveryLocation: string | null;
+    driverPhone: string | null;
+    sheetSource: string | null;
+    sheetRowNumber: number | null;
+}
+
+/**
+ * Other Load IDs of a conversation looked at as context
+ */
+const MAX_CONTEXT_LOAD_IDS = 20;
+
 /**
  * Driver Matching Service Class
  */
@@ -77,20 +112,29 @@ class DriverMatchingService {
             );
 
             // Try to match each Load ID
+            let ambiguous = false;
             for (const loadId of loadIds) {
                 const result = await this.matchDriverToLocation(
                     phoneNumber,
-                    loadId
+                    loadId,
+                    {
+                        conversationId,
+                        otherLoadIds: loadIds.filter((id) => id !== loadId),
+                    }
                 );
 
                 if (result.matched) {
                     return result; // Return first successful match
                 }
+                ambiguous ||= result.ambiguous === true;
             }
 
             return {
                 matched: false,
-                reason: 'No matching loads found in database',
+                ambiguous,
+                reason: ambiguous
+                    ? 'Load ID shared by several loads, queued for review'
+                    : 'No matching loads found in database',
             };
         } catch (error: any) {
             logger.error(
@@ -109,23 +153,56 @@ class DriverMatchingService {
      *
      * @param phoneNumber - Driver's phone number
      * @param loadId - Load ID (last 6 of VIN)
+     * @param context - Conversation context, used when several loads share the Load ID
      */
     async matchDriverToLocation(
         phoneNumber: string,
-        loadId: string
+        loadId: string,
+        context: MatchContext = {}
     ): Promise<MatchResult> {
-        try {
-            // Look up Load in database
-            const load = await sheetSyncService.findLoadByLoadId(loadId);
+        // Look up Load in database
+        const loads = await loadService.findLoadsByLoadId(loadId);
 
-            if (!load) {
-                logger.debug({ loadId }, 'Load not found in database');
-                return {
-                    matched: false,
-                    reason: `Load ${loadId} not found in database`,
-                };
-            }
+        if (loads.length === 0) {
+            logger.debug({ loadId }, 'Load not found in database');
+            return {
+                matched: false,
+                reason: `Load ${loadId} not found in database`,
+            };
+        }
+
+        const load =
+            loads.length === 1
+                ? loads[0]
+                : await this.pickLoad(phoneNumber, loadId, loads, context);
+
+        if (!load) {
+            return {
+                matched: false,
+                ambiguous: true,
+                loadId,
+                reason: `Load ${loadId} is shared by ${loads.length} loads`,
+            };
+        }
+
+        return this.linkDriverToLoad(phoneNumber, loadId, load);
+    }
 
+    /**
+     * Link a driver to the location of a load
+     *
+     * Also used when a dispatcher picks the load of an ambiguous Load ID.
+     *
+     * @param phoneNumber - Driver's phone number
+     * @param loadId - Load ID (last 6 of VIN) the driver texted
+     * @param load - The load it refers to
+     */
+    async linkDriverToLoad(
+        phoneNumber: string,
+        loadId: string,
+        load: MatchedLoad
+    ): Promise<MatchResult> {
+        try {
             logger.info(
                 { phoneNumber, loadId, loadVin: load.vin },
                 'Found matching load'
@@ -164,6 +241,9 @@ class DriverMatchingService {
                 data: { driverId: driver.id },
             });
 
+            // Fill the phone into the sheet row (if write-back is enabled)
+            await sheetWriteBackService.enqueue(load, phoneNumber);
+
             logger.info(
                 {
                     driverId: driver.id,
@@ -190,6 +270,69 @@ class DriverMatchingService {
         }
     }
 
+    /**
+     * Pick one of the loads sharing a Load ID
+     *
+     * A load a dispatcher already picked for this driver wins. Otherwise the
+     * loads are scored against the conversation (see libs/load-disambiguation);
+     * without a clear winner they are queued for review.
+     *
+     * @returns null if the match waits for review (or was dismissed)
+     */
+    private async pickLoad<T extends MatchedLoad & { closedAt: Date | null; syncedAt: Date }>(
+        phoneNumber: string,
+        loadId: string,
+        loads: T[],
+        context: MatchContext
+    ): Promise<T | null> {
+        const review = await loadReviewRepo.findByPhoneAndLoadId(phoneNumber, loadId);
+
+        if (review?.status === 'resolved') {
+            const picked = loads.find((l) => l.id === review.resolvedLoadId);
+            if (picked) return picked;
+        }
+        if (review?.status === 'dismissed') return null;
+
+        const [knownLocations, otherLoads] = await Promise.all([
+            prisma.driverLocation.findMany({
+                where: { driver: { phoneNumber } },
+                select: { location: { select: { name: true } } },
+            }),
+            loadService.findOpenLoadsByLoadIds(
+                (context.otherLoadIds ?? []).slice(0, MAX_CONTEXT_LOAD_IDS)
+            ),
+        ]);
+
+        const result = disambiguateLoads(loads, {
+            phoneNumber,
+            otherLoads,
+            knownLocations: knownLocations.map((l) => l.location.name),
+        });
+
+        const picked = loads.find((l) => l.id === result.loadId);
+        if (picked) {
+            logger.info(
+                { phoneNumber, loadId, loadVin: picked.vin, candidates: result.candidates },
+                '[LOAD MATCH] Shared Load ID settled from context'
+            );
+            return picked;
+        }
+
+        await loadReviewRepo.savePending({
+            phoneNumber,
+            loadId,
+            conversationId: context.conversationId,
+            candidates: result.candidates,
+        });
+
+        logger.info(
+            { phoneNumber, loadId, candidates: result.candidates },
+            '[LOAD MATCH] Shared Load ID queued for review'
+        );
+
+        return null;
+    }
+
     /**
      * Extract Load IDs from text
      *
@@ -412,6 +555,7 @@ class DriverMatchingService {
         processed: number;
         matched: number;
         failed: number;
+        errorSamples: ErrorSample[];
     }> {
         const cutoffDate = new Date();
         cutoffDate.setDate(cutoffDate.getDate() - daysSince);
@@ -438,6 +582,7 @@ class DriverMatchingService {
         let processed = 0;
         let matched = 0;
         let failed = 0;
+        const errorSamples: ErrorSample[] = [];
 
         for (const conversation of conversations) {
             try {
@@ -474,6 +619,7 @@ class DriverMatchingService {
                     'Failed to process conversation in batch'
                 );
                 failed++;
+                addErrorSample(errorSamples, { key: conversation.id, error: error.message });
             }
         }
 
@@ -482,7 +628,7 @@ class DriverMatchingService {
             'Batch processing completed'
         );
 
-        return { processed, matched, failed };
+        return { processed, matched, failed, errorSamples };
     }
 }
 
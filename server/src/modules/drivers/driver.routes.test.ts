@@ -0,0 +1,88 @@
+/**
+ * Driver Route Tests
+ *
+ * Checks the role guard of driver deletion on a local Fastify instance with
+ * the real authenticate and RBAC middleware and a stubbed controller.
+ */
+
+import fastify, { type FastifyInstance } from 'fastify';
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { env } from '../../config/env';
+import { authenticateMiddleware } from '../../libs/auth/authenticate.middleware';
+import { requireAdmin, requireAny } from '../../libs/auth/rbac.middleware';
+import { setupErrorHandler } from '../../libs/error-handler';
+import { driverController } from './driver.controller';
+import { driverRoutes } from './driver.routes';
+
+vi.mock('./driver.controller', () => ({
+    driverController: {
+        getDrivers: vi.fn(),
+        getDriverStats: vi.fn(),
+        getDriverByPhone: vi.fn(),
+        getDriverById: vi.fn(),
+        createDriver: vi.fn(),
+        updateDriver: vi.fn(),
+        deleteDriver: vi.fn(),
+        getLocations: vi.fn(),
+        getLocationStats: vi.fn(),
+        getTopLocations: vi.fn(),
+        searchLocations: vi.fn(),
+        getLocationById: vi.fn(),
+        getDriverLocations: vi.fn(),
+        matchConversation: vi.fn(),
+        manualSync: vi.fn(),
+    },
+}));
+
+function token(role: 'USER' | 'ADMIN') {
+    return jwt.sign(
+        { userId: `${role.toLowerCase()}-1`, email: 'dispatch@example.com', role },
+        env.JWT_SECRET,
+        { issuer: env.JWT_ISSUER }
+    );
+}
+
+describe('Driver Routes', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = fastify();
+        app.decorate('authenticate', authenticateMiddleware);
+        app.decorate('requireAdmin', requireAdmin);
+        app.decorate('requireAny', requireAny);
+        app.setErrorHandler(setupErrorHandler);
+        await app.register(driverRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        vi.mocked(driverController.deleteDriver).mockResolvedValue({ success: true } as never);
+    });
+
+    it('rejects a USER token on DELETE /drivers/:id', async () => {
+        const response = await app.inject({
+            method: 'DELETE',
+            url: '/drivers/driver-1',
+            headers: { authorization: `Bearer ${token('USER')}` },
+        });
+
+        expect(response.statusCode).toBe(403);
+        expect(driverController.deleteDriver).not.toHaveBeenCalled();
+    });
+
+    it('lets an ADMIN token delete a driver', async () => {
+        const response = await app.inject({
+            method: 'DELETE',
+            url: '/drivers/driver-1',
+            headers: { authorization: `Bearer ${token('ADMIN')}` },
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(driverController.deleteDriver).toHaveBeenCalledTimes(1);
+    });
+});
@@ -2,6 +2,7 @@
  * Driver Routes
  *
  * API endpoints for driver and location operations
+ * All routes require authentication; deleting a driver requires ADMIN role
  */
 
 import type { FastifyInstance } from 'fastify';
@@ -25,6 +26,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * - phoneNumber: Filter by phone number (partial match)
      */
     app.get('/drivers', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getDrivers.bind(driverController),
     });
 
@@ -33,6 +35,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Get driver statistics
      */
     app.get('/drivers/stats', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getDriverStats.bind(driverController),
     });
 
@@ -41,6 +44,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Get a specific driver by ID with their locations
      */
     app.get('/drivers/:id', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getDriverById.bind(driverController),
     });
 
@@ -49,6 +53,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Get a driver by phone number
      */
     app.get('/drivers/phone/:phoneNumber', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getDriverByPhone.bind(driverController),
     });
 
@@ -57,6 +62,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Create a new driver
      */
     app.post('/drivers', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.createDriver.bind(driverController),
     });
 
@@ -65,14 +71,16 @@ export async function driverRoutes(app: FastifyInstance) {
      * Update a driver
      */
     app.patch('/drivers/:id', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.updateDriver.bind(driverController),
     });
 
     /**
      * DELETE /api/v1/drivers/:id
-     * Delete a driver
+     * Delete a driver (ADMIN only)
      */
     app.delete('/drivers/:id', {
+        preHandler: [app.authenticate, app.requireAdmin()],
         handler: driverController.deleteDriver.bind(driverController),
     });
 
@@ -81,6 +89,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Manually trigger driver matching for a specific conversation
      */
     app.post('/drivers/match/:conversationId', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.matchConversation.bind(driverController),
     });
 
@@ -89,6 +98,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Manually trigger sheet sync + driver matching
      */
     app.post('/drivers/sync', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.manualSync.bind(driverController),
     });
 
@@ -106,6 +116,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * - name: Filter by location name
      */
     app.get('/locations', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getLocations.bind(driverController),
     });
 
@@ -114,6 +125,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Get location statistics
      */
     app.get('/locations/stats', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getLocationStats.bind(driverController),
     });
 
@@ -125,6 +137,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * - limit: Number of locations to return (default: 10)
      */
     app.get('/locations/top', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getTopLocations.bind(driverController),
     });
 
@@ -136,6 +149,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * - q: Search query (required)
      */
     app.get('/locations/search', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.searchLocations.bind(driverController),
     });
 
@@ -144,6 +158,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * Get a specific location by ID with drivers
      */
     app.get('/locations/:id', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getLocationById.bind(driverController),
     });
 
@@ -161,6 +176,7 @@ export async function driverRoutes(app: FastifyInstance) {
      * - recentDays: Only show links from last N days
      */
     app.get('/driver-locations', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: driverController.getDriverLocations.bind(driverController),
     });
 }
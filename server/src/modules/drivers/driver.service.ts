@@ -8,6 +8,7 @@ import { driverRepository } from './driver.repo.js';
 import { locationRepository } from './location.repo.js';
 import { driverLocationRepository } from './driver-location.repo.js';
 import { NotFoundError, ConflictError } from '../../utils/errors.js';
+import { consentService } from '../consent/consent.service.js';
 
 
 /**
@@ -572,10 +573,13 @@ class DriverService {
             }
         }
 
+        // Flag drivers who have opted out of SMS
+        const optedOut = await consentService.getOptedOutSet([...driverMap.keys()]);
+
         // Convert map to array and sort by lastSeenAt descending
-        return Array.from(driverMap.values()).sort(
-            (a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()
-        );
+        return Array.from(driverMap.values())
+            .map((driver) => ({ ...driver, isOptedOut: optedOut.has(driver.number) }))
+            .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
     }
 
     /**
@@ -0,0 +1,307 @@
+/**
+ * Sheet Write-Back Service
+ *
+ * Opt-in (SHEET_WRITE_BACK=true): when driver matching works out which
+ * driver texted about a load that has no phone in the loads sheet, the
+ * phone is queued in `sheet_write_backs`. The 'sheet-write-back' job then
+ * re-reads the loads tabs and fills the queued phones into the rows given by
+ * Load.sheetTab / sheetRowNumber in one batch update, with a
+ * "Matched via SMS" note on each cell.
+ *
+ * Conflict detection (see libs/sheet-write-back.ts): a row that moved, or a
+ * phone cell a human already filled in, is recorded as a conflict and never
+ * overwritten.
+ */
+
+import type { Prisma, SheetWriteBack } from '@prisma/client';
+import type { sheets_v4 } from 'googleapis';
+import { env } from '../../config/env.js';
+import { prisma } from '../../libs/db.js';
+import { googleSheetsClient } from '../../libs/google-sheets.js';
+import logger from '../../libs/logger.js';
+import {
+    SMS_MATCH_NOTE,
+    type WriteBackConflict,
+    decideWriteBack,
+    formatSheetPhone,
+} from '../../libs/sheet-write-back.js';
+import { sheetSourceService } from '../sheet-sources/sheet-sources.service.js';
+import type { SheetSourceTab } from '../sheet-sources/sheet-sources.types.js';
+
+/**
+ * Write-backs processed per run
+ */
+const FLUSH_BATCH_SIZE = 200;
+
+/**
+ * Failed batch updates before a write-back is given up
+ */
+const MAX_WRITE_BACK_ATTEMPTS = 5;
+
+export type SheetWriteBackStatus = 'pending' | 'written' | 'conflict' | 'failed';
+
+export interface FlushWriteBacksResult {
+    written: number;
+    conflicts: number;
+    failed: number;
+    /** Left pending after a failed batch update (retried next run) */
+    retrying: number;
+}
+
+/**
+ * Sheet Write-Back Service Class
+ */
+class SheetWriteBackService {
+    /**
+     * Queue the phone of a driver matched to a load
+     *
+     * Only loads on the loads sheet without a phone there are queued, and only
+     * the first match of a load. Never throws: matching must not fail on it.
+     */
+    async enqueue(
+        load: {
+            id: string;
+            driverPhone: string | null;
+            sheetSource: string | null;
+            sheetRowNumber: number | null;
+        },
+        phoneNumber: string
+    ): Promise<void> {
+        if (!env.SHEET_WRITE_BACK) return;
+        if (load.driverPhone || load.sheetSource !== 'loads' || !load.sheetRowNumber) return;
+
+        try {
+            await prisma.sheetWriteBack.upsert({
+                where: { loadId: load.id },
+                create: { loadId: load.id, driverPhone: phoneNumber },
+                update: {},
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { loadId: load.id, error: errorMessage },
+                '[SHEET WRITE-BACK] WARN: Failed to queue write-back'
+            );
+        }
+    }
+
+    /**
+     * Write the pending phones into the loads sheet
+     */
+    async flush(): Promise<FlushWriteBacksResult> {
+        const result: FlushWriteBacksResult = { written: 0, conflicts: 0, failed: 0, retrying: 0 };
+        if (!env.SHEET_WRITE_BACK) return result;
+
+        const pending = await prisma.sheetWriteBack.findMany({
+            where: { status: 'pending' },
+            orderBy: { createdAt: 'asc' },
+            take: FLUSH_BATCH_SIZE,
+            include: {
+                load: {
+                    select: {
+                        vin: true,
+                        sheetSource: true,
+                        sheetTab: true,
+                        sheetRowNumber: true,
+                        closedAt: true,
+                    },
+                },
+            },
+        });
+
+        if (pending.length === 0) return result;
+
+        // Fresh cells: conflicts are checked against what the sheet holds now
+        const tabs = await sheetSourceService.readTabs('loads');
+        if (tabs.length === 0) return result;
+
+        const tabsByName = new Map(tabs.map((tab) => [tab.tabName, tab]));
+        const rowsByTab = new Map<string, Map<number, unknown[]>>();
+        const spreadsheetId = tabs[0]!.spreadsheetId;
+        const tabIds = (await googleSheetsClient.getTabIds(spreadsheetId)) ?? new Map();
+
+        const updates: Prisma.PrismaPromise<SheetWriteBack>[] = [];
+        const requests: sheets_v4.Schema$Request[] = [];
+        const toWrite: Array<{ id: string; tab: string; row: number }> = [];
+
+        const conflict = (
+            id: string,
+            reason: WriteBackConflict,
+            existingValue: string | null,
+            position: { tab: string | null; row: number | null }
+        ) => {
+            result.conflicts++;
+            updates.push(
+                this.finish(id, 'conflict', {
+                    conflict: reason,
+                    existingValue: existingValue?.slice(0, 500) ?? null,
+                    tab: position.tab,
+                    rowNumber: position.row,
+                })
+            );
+        };
+
+        for (const writeBack of pending) {
+            const { load } = writeBack;
+            const tab =
+                load.sheetSource === 'loads' && load.sheetTab && !load.closedAt
+                    ? tabsByName.get(load.sheetTab)
+                    : undefined;
+            const position = { tab: load.sheetTab, row: load.sheetRowNumber };
+
+            if (!tab || !load.sheetRowNumber) {
+                conflict(writeBack.id, 'row_not_found', null, position);
+                continue;
+            }
+
+            const cells = this.rowsOf(tab, rowsByTab).get(load.sheetRowNumber);
+            const decision = decideWriteBack(cells, tab.columns, load.vin, writeBack.driverPhone);
+
+            if (decision.action === 'conflict') {
+                conflict(writeBack.id, decision.conflict, decision.existingValue, position);
+                continue;
+            }
+
+            if (decision.action === 'skip') {
+                result.written++;
+                updates.push(
+                    this.finish(writeBack.id, 'written', {
+                        tab: tab.tabName,
+                        rowNumber: load.sheetRowNumber,
+                    })
+                );
+                continue;
+            }
+
+            const tabId = tabIds.get(tab.tabName);
+            const column = tab.columns.driverPhone;
+            if (tabId === undefined || column === null) {
+                result.failed++;
+                updates.push(
+                    this.finish(writeBack.id, 'failed', {
+                        error:
+                            column === null
+                                ? 'Driver phone column not found'
+                                : `Tab ${tab.tabName} not found`,
+                    })
+                );
+                continue;
+            }
+
+            requests.push({
+                updateCells: {
+                    range: {
+                        sheetId: tabId,
+                        startRowIndex: load.sheetRowNumber - 1,
+                        endRowIndex: load.sheetRowNumber,
+                        startColumnIndex: column,
+                        endColumnIndex: column + 1,
+                    },
+                    rows: [
+                        {
+                            values: [
+                                {
+                                    userEnteredValue: {
+                                        stringValue: formatSheetPhone(writeBack.driverPhone),
+                                    },
+                                    note: `${SMS_MATCH_NOTE} (${new Date().toISOString().slice(0, 10)})`,
+                                },
+                            ],
+                        },
+                    ],
+                    fields: 'userEnteredValue,note',
+                },
+            });
+            toWrite.push({ id: writeBack.id, tab: tab.tabName, row: load.sheetRowNumber });
+        }
+
+        if (toWrite.length > 0) {
+            try {
+                await googleSheetsClient.batchUpdate(spreadsheetId, requests);
+
+                result.written += toWrite.length;
+                for (const { id, tab, row } of toWrite) {
+                    updates.push(this.finish(id, 'written', { tab, rowNumber: row }));
+                }
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                const attempts = new Map(pending.map((w) => [w.id, w.attempts]));
+
+                for (const { id } of toWrite) {
+                    const giveUp = (attempts.get(id) ?? 0) + 1 >= MAX_WRITE_BACK_ATTEMPTS;
+                    if (giveUp) result.failed++;
+                    else result.retrying++;
+
+                    updates.push(
+                        prisma.sheetWriteBack.update({
+                            where: { id },
+                            data: {
+                                status: giveUp ? 'failed' : 'pending',
+                                attempts: { increment: 1 },
+                                error: errorMessage,
+                                ...(giveUp ? { processedAt: new Date() } : {}),
+                            },
+                        })
+                    );
+                }
+            }
+        }
+
+        await prisma.$transaction(updates);
+
+        logger.info(result, '[SHEET WRITE-BACK] Write-back run completed');
+        return result;
+    }
+
+    /**
+     * List write-backs (newest first), e.g. to review conflicts
+     */
+    async list(filters: { status?: SheetWriteBackStatus; page: number; limit: number }) {
+        const where = filters.status ? { status: filters.status } : {};
+
+        const [items, totalItems] = await Promise.all([
+            prisma.sheetWriteBack.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (filters.page - 1) * filters.limit,
+                take: filters.limit,
+                include: { load: { select: { vin: true, loadId: true } } },
+            }),
+            prisma.sheetWriteBack.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Record the outcome of a write-back
+     */
+    private finish(
+        id: string,
+        status: Exclude<SheetWriteBackStatus, 'pending'>,
+        data: Prisma.SheetWriteBackUpdateInput
+    ) {
+        return prisma.sheetWriteBack.update({
+            where: { id },
+            data: { ...data, status, processedAt: new Date() },
+        });
+    }
+
+    /**
+     * Cells of a tab by row number (built once per tab)
+     */
+    private rowsOf(
+        tab: SheetSourceTab<'loads'>,
+        cache: Map<string, Map<number, unknown[]>>
+    ): Map<number, unknown[]> {
+        let rows = cache.get(tab.tabName);
+        if (!rows) {
+            rows = new Map(tab.rows.map((row) => [row.rowNumber, row.cells]));
+            cache.set(tab.tabName, rows);
+        }
+
+        return rows;
+    }
+}
+
+export const sheetWriteBackService = new SheetWriteBackService();
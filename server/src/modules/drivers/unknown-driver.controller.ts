@@ -6,6 +6,7 @@
 
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { unknownDriverService } from './unknown-driver.service.js';
+import { scheduledJobService } from '../scheduled-jobs/scheduled-jobs.service.js';
 import { successResponse } from '../../utils/response.js';
 import { prisma } from '../../libs/db.js';
 
@@ -16,7 +17,9 @@ export class UnknownDriverController {
      * POST /api/v1/unknown-drivers/match
      */
     async matchUnknownDrivers(request: FastifyRequest, reply: FastifyReply) {
-        const result = await unknownDriverService.matchUnknownDrivers();
+        const result = await scheduledJobService.track('unknown-driver-matching', 'manual', () =>
+            unknownDriverService.matchUnknownDrivers()
+        );
 
         return reply.send(
             successResponse('Unknown driver matching completed', {
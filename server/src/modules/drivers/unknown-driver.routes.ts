@@ -2,6 +2,7 @@
  * Unknown Driver Routes
  *
  * Test endpoints for unknown driver matching
+ * All routes require authentication
  */
 
 import type { FastifyInstance } from 'fastify';
@@ -9,8 +10,14 @@ import { unknownDriverController } from './unknown-driver.controller.js';
 
 export async function unknownDriverRoutes(app: FastifyInstance) {
     // Manually trigger unknown driver matching (for testing)
-    app.post('/match', unknownDriverController.matchUnknownDrivers);
+    app.post('/match', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: unknownDriverController.matchUnknownDrivers,
+    });
 
     // Get all unmatched unknown drivers
-    app.get('/unmatched', unknownDriverController.getUnmatchedDrivers);
+    app.get('/unmatched', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: unknownDriverController.getUnmatchedDrivers,
+    });
 }
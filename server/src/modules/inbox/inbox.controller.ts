@@ -0,0 +1,245 @@
+/**
+ * Inbox Controller
+ *
+ * HTTP request handlers for the conversation inbox
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse } from '../../utils/pagination.js';
+import { successResponse } from '../../utils/response.js';
+import {
+    conversationIdSchema,
+    listConversationMessagesSchema,
+    listConversationsSchema,
+    noteIdSchema,
+    noteSchema,
+    replySchema,
+    searchMessagesSchema,
+    updateConversationSchema,
+} from './inbox.schemas.js';
+import { inboxService } from './inbox.service.js';
+import type { InboxActor } from './inbox.types.js';
+
+class InboxController {
+    /**
+     * GET /api/v1/inbox/conversations
+     *
+     * Conversations with their last message and driver
+     */
+    async listConversations(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listConversationsSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await inboxService.listConversations(
+            parsed.data,
+            this.actor(request).userId
+        );
+
+        return reply.send(
+            paginatedResponse(
+                'Conversations retrieved successfully',
+                items,
+                page,
+                limit,
+                totalItems
+            )
+        );
+    }
+
+    /**
+     * GET /api/v1/inbox/conversations/:id
+     *
+     * A conversation with its driver, known locations and load inquiries
+     */
+    async getConversation(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const conversation = await inboxService.getConversation(id);
+
+        return reply.send(successResponse('Conversation retrieved successfully', conversation));
+    }
+
+    /**
+     * GET /api/v1/inbox/conversations/:id/messages
+     *
+     * Messages of a conversation, newest first
+     */
+    async listMessages(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const parsed = listConversationMessagesSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await inboxService.listMessages(id, parsed.data);
+
+        return reply.send(
+            paginatedResponse('Messages retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * GET /api/v1/messages/search
+     *
+     * Full-text search over the synced messages, with highlighted snippets
+     */
+    async searchMessages(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = searchMessagesSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await inboxService.searchMessages(parsed.data);
+
+        return reply.send(
+            paginatedResponse('Messages retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * POST /api/v1/inbox/conversations/:id/reply
+     *
+     * Text the driver of a conversation
+     */
+    async reply(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const parsed = replySchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid request body');
+        }
+
+        const message = await inboxService.reply(id, parsed.data.content, this.actor(request));
+
+        return reply.status(201).send(successResponse('Reply sent successfully', message));
+    }
+
+    /**
+     * POST /api/v1/inbox/conversations/:id/claim
+     *
+     * Take a conversation
+     */
+    async claim(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const workflow = await inboxService.claim(id, this.actor(request));
+
+        return reply.send(successResponse('Conversation claimed', workflow));
+    }
+
+    /**
+     * PATCH /api/v1/inbox/conversations/:id
+     *
+     * Change the assignee, status or tags of a conversation
+     */
+    async updateConversation(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const parsed = updateConversationSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid request body');
+        }
+
+        const workflow = await inboxService.updateConversation(
+            id,
+            parsed.data,
+            this.actor(request)
+        );
+
+        return reply.send(successResponse('Conversation updated successfully', workflow));
+    }
+
+    /**
+     * GET /api/v1/inbox/assignees
+     *
+     * Users a conversation can be assigned to
+     */
+    async listAssignees(_request: FastifyRequest, reply: FastifyReply) {
+        const users = await inboxService.listAssignees();
+
+        return reply.send(successResponse('Assignees retrieved successfully', users));
+    }
+
+    /**
+     * GET /api/v1/inbox/tags
+     *
+     * Conversation tags in use
+     */
+    async listTags(_request: FastifyRequest, reply: FastifyReply) {
+        const tags = await inboxService.listTags();
+
+        return reply.send(successResponse('Tags retrieved successfully', tags));
+    }
+
+    /**
+     * GET /api/v1/inbox/conversations/:id/notes
+     *
+     * Internal notes of a conversation
+     */
+    async listNotes(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const notes = await inboxService.listNotes(id);
+
+        return reply.send(successResponse('Notes retrieved successfully', notes));
+    }
+
+    /**
+     * POST /api/v1/inbox/conversations/:id/notes
+     *
+     * Add an internal note
+     */
+    async addNote(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const parsed = noteSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid request body');
+        }
+
+        const note = await inboxService.addNote(id, parsed.data.body, this.actor(request));
+
+        return reply.status(201).send(successResponse('Note added successfully', note));
+    }
+
+    /**
+     * DELETE /api/v1/inbox/conversations/:id/notes/:noteId
+     *
+     * Delete an internal note (its author or an admin)
+     */
+    async deleteNote(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = noteIdSchema.safeParse(request.params);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid note ID');
+        }
+
+        await inboxService.deleteNote(parsed.data.id, parsed.data.noteId, this.actor(request));
+
+        return reply.send(successResponse('Note deleted successfully', null));
+    }
+
+    private actor(request: FastifyRequest): InboxActor {
+        return {
+            userId: request.user?.userId ?? '',
+            isAdmin: request.user?.role === 'ADMIN',
+        };
+    }
+
+    private parseId(params: unknown) {
+        const parsed = conversationIdSchema.safeParse(params);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid conversation ID');
+        }
+
+        return parsed.data;
+    }
+}
+
+export const inboxController = new InboxController();
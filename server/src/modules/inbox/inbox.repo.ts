@@ -0,0 +1,331 @@
+/**
+ * Inbox Repository
+ *
+ * Database queries for the conversations and messages synced from Quo
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type { ConversationStatus } from './inbox.types.js';
+
+const userSelect = { id: true, name: true, email: true } as const;
+
+const workflowInclude = {
+    assignee: { select: userSelect },
+    tags: { select: { tag: true }, orderBy: { tag: 'asc' } },
+} satisfies Prisma.ConversationInclude;
+
+class InboxRepo {
+    /**
+     * List conversations (most recent activity first)
+     *
+     * @param phoneNumbers - Also match conversations with these participants
+     * @param assigneeId - A user ID, or null for unassigned conversations
+     */
+    async findConversations(filters: {
+        search?: string;
+        phoneNumbers?: string[];
+        status?: ConversationStatus;
+        assigneeId?: string | null;
+        tag?: string;
+        skip: number;
+        take: number;
+    }) {
+        const or: Prisma.ConversationWhereInput[] = [];
+        if (filters.search) {
+            const digits = filters.search.replace(/\D/g, '');
+            if (digits.length >= 3) or.push({ participants: { contains: digits } });
+            or.push({ name: { contains: filters.search } });
+        }
+        for (const phoneNumber of filters.phoneNumbers ?? []) {
+            or.push({ participants: { contains: phoneNumber } });
+        }
+
+        const where: Prisma.ConversationWhereInput = {
+            deletedAt: null,
+            ...(filters.search ? { OR: or } : {}),
+            ...(filters.status ? { status: filters.status } : {}),
+            ...(filters.assigneeId !== undefined ? { assigneeId: filters.assigneeId } : {}),
+            ...(filters.tag ? { tags: { some: { tag: filters.tag } } } : {}),
+        };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.conversation.findMany({
+                where,
+                include: workflowInclude,
+                orderBy: { lastActivityAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.conversation.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Find a conversation by its Quo ID
+     */
+    async findConversation(id: string) {
+        return prisma.conversation.findFirst({
+            where: { id, deletedAt: null },
+            include: workflowInclude,
+        });
+    }
+
+    /**
+     * Assign a conversation to a user unless another user holds it
+     *
+     * @returns false if another user holds it
+     */
+    async claimConversation(id: string, userId: string): Promise<boolean> {
+        const { count } = await prisma.conversation.updateMany({
+            where: { id, OR: [{ assigneeId: null }, { assigneeId: userId }] },
+            data: { assigneeId: userId },
+        });
+
+        return count > 0;
+    }
+
+    /**
+     * Unassign a conversation if the user still holds it
+     */
+    async releaseConversation(id: string, userId: string): Promise<void> {
+        await prisma.conversation.updateMany({
+            where: { id, assigneeId: userId },
+            data: { assigneeId: null },
+        });
+    }
+
+    /**
+     * Update the workflow state of a conversation
+     *
+     * @param tags - Replaces the conversation's tags when given
+     */
+    async updateWorkflow(
+        id: string,
+        data: { assigneeId?: string | null; status?: ConversationStatus },
+        tags?: string[]
+    ) {
+        return prisma.$transaction(async (tx) => {
+            if (tags) {
+                await tx.conversationTag.deleteMany({
+                    where: { conversationId: id, tag: { notIn: tags } },
+                });
+                await tx.conversationTag.createMany({
+                    data: tags.map((tag) => ({ conversationId: id, tag })),
+                    skipDuplicates: true,
+                });
+            }
+
+            return tx.conversation.update({
+                where: { id },
+                data: {
+                    ...data,
+                    ...(data.status ? { statusChangedAt: new Date() } : {}),
+                },
+                include: workflowInclude,
+            });
+        });
+    }
+
+    /**
+     * Tags in use, most used first
+     */
+    async findTags() {
+        const tags = await prisma.conversationTag.groupBy({
+            by: ['tag'],
+            _count: { tag: true },
+            orderBy: { _count: { tag: 'desc' } },
+            take: 100,
+        });
+
+        return tags.map((t) => ({ tag: t.tag, count: t._count.tag }));
+    }
+
+    /**
+     * Users a conversation can be assigned to
+     */
+    async findAssignees() {
+        return prisma.user.findMany({
+            select: userSelect,
+            orderBy: [{ name: 'asc' }, { email: 'asc' }],
+        });
+    }
+
+    async findUser(id: string) {
+        return prisma.user.findUnique({ where: { id }, select: userSelect });
+    }
+
+    /**
+     * Internal notes of a conversation (oldest first)
+     */
+    async findNotes(conversationId: string) {
+        return prisma.conversationNote.findMany({
+            where: { conversationId },
+            include: { author: { select: userSelect } },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    async findNote(conversationId: string, id: string) {
+        return prisma.conversationNote.findFirst({ where: { id, conversationId } });
+    }
+
+    async createNote(conversationId: string, authorId: string | null, body: string) {
+        return prisma.conversationNote.create({
+            data: { conversationId, authorId, body },
+            include: { author: { select: userSelect } },
+        });
+    }
+
+    async deleteNote(id: string): Promise<void> {
+        await prisma.conversationNote.delete({ where: { id } });
+    }
+
+    /**
+     * Messages by ID (the last message of each listed conversation)
+     */
+    async findMessagesByIds(ids: string[]) {
+        if (ids.length === 0) return [];
+        return prisma.message.findMany({ where: { id: { in: ids } } });
+    }
+
+    /**
+     * Messages of a conversation (newest first)
+     */
+    async findMessages(conversationId: string, filters: { skip: number; take: number }) {
+        const where = { conversationId };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.message.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.message.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Messages matching a search (see libs/message-search)
+     *
+     * @param fulltext - FULLTEXT boolean query, if the search has words
+     * @param fragments - Text the message must contain (partial VINs)
+     */
+    async searchMessages(filters: {
+        fulltext: string | null;
+        fragments: string[];
+        direction?: string;
+        phoneDigits?: string;
+        conversationId?: string;
+        from?: Date;
+        to?: Date;
+        sort: 'relevance' | 'newest';
+        skip: number;
+        take: number;
+    }) {
+        const and: Prisma.MessageWhereInput[] = [];
+        if (filters.fulltext) and.push({ text: { search: filters.fulltext } });
+        for (const fragment of filters.fragments) and.push({ text: { contains: fragment } });
+        if (filters.direction) and.push({ direction: filters.direction });
+        if (filters.conversationId) and.push({ conversationId: filters.conversationId });
+        if (filters.phoneDigits) {
+            and.push({
+                OR: [
+                    { from: { contains: filters.phoneDigits } },
+                    { to: { contains: filters.phoneDigits } },
+                ],
+            });
+        }
+        if (filters.from || filters.to) {
+            and.push({ createdAt: { gte: filters.from, lte: filters.to } });
+        }
+
+        const where: Prisma.MessageWhereInput = { AND: and };
+        const orderBy: Prisma.MessageOrderByWithRelationInput[] =
+            filters.sort === 'relevance' && filters.fulltext
+                ? [
+                      { _relevance: { fields: ['text'], search: filters.fulltext, sort: 'desc' } },
+                      { createdAt: 'desc' },
+                  ]
+                : [{ createdAt: 'desc' }];
+
+        const [items, totalItems] = await Promise.all([
+            prisma.message.findMany({
+                where,
+                orderBy,
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.message.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Conversations by Quo ID
+     */
+    async findConversationsByIds(ids: string[]) {
+        if (ids.length === 0) return [];
+        return prisma.conversation.findMany({
+            where: { id: { in: ids } },
+            select: { id: true, name: true, participants: true },
+        });
+    }
+
+    /**
+     * Drivers by phone number
+     */
+    async findDriversByPhones(phoneNumbers: string[]) {
+        if (phoneNumbers.length === 0) return [];
+        return prisma.driver.findMany({
+            where: { phoneNumber: { in: phoneNumbers } },
+            select: { id: true, phoneNumber: true, name: true, companyName: true },
+        });
+    }
+
+    /**
+     * Phone numbers of drivers whose name matches
+     */
+    async findPhonesByDriverName(name: string): Promise<string[]> {
+        const drivers = await prisma.driver.findMany({
+            where: { name: { contains: name } },
+            select: { phoneNumber: true },
+            take: 50,
+        });
+
+        return drivers.map((d) => d.phoneNumber);
+    }
+
+    /**
+     * A driver with their known locations (most recently seen first)
+     */
+    async findDriverWithLocations(phoneNumber: string) {
+        return prisma.driver.findUnique({
+            where: { phoneNumber },
+            include: {
+                locations: {
+                    include: { location: true },
+                    orderBy: { lastSeenAt: 'desc' },
+                },
+            },
+        });
+    }
+
+    /**
+     * Move a conversation's last activity to a message we just sent
+     */
+    async touchConversation(id: string, messageId: string, at: Date): Promise<void> {
+        await prisma.conversation.update({
+            where: { id },
+            data: { lastActivityAt: at, lastActivityId: messageId },
+        });
+    }
+}
+
+export const inboxRepo = new InboxRepo();
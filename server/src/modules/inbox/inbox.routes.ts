@@ -0,0 +1,124 @@
+/**
+ * Inbox Routes
+ *
+ * Conversations with drivers and message search, served from the messages
+ * we sync from Quo
+ * Reading and the workflow (assignee, status, tags, notes) are open to all
+ * users; replying requires ADMIN role, like POST /messages
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { inboxController } from './inbox.controller.js';
+
+/**
+ * Register inbox routes
+ */
+export async function inboxRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/inbox/conversations
+     * List conversations (search by phone number, conversation or driver name)
+     */
+    app.get('/inbox/conversations', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.listConversations.bind(inboxController),
+    });
+
+    /**
+     * GET /api/v1/inbox/assignees
+     * Users a conversation can be assigned to
+     */
+    app.get('/inbox/assignees', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.listAssignees.bind(inboxController),
+    });
+
+    /**
+     * GET /api/v1/inbox/tags
+     * Conversation tags in use, most used first
+     */
+    app.get('/inbox/tags', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.listTags.bind(inboxController),
+    });
+
+    /**
+     * GET /api/v1/inbox/conversations/:id
+     * A conversation with its driver, known locations and load inquiries
+     */
+    app.get('/inbox/conversations/:id', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.getConversation.bind(inboxController),
+    });
+
+    /**
+     * GET /api/v1/inbox/conversations/:id/messages
+     * Messages of a conversation (newest first, paginated)
+     */
+    app.get('/inbox/conversations/:id/messages', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.listMessages.bind(inboxController),
+    });
+
+    /**
+     * GET /api/v1/messages/search
+     * Search synced messages (q, direction, phoneNumber, conversationId, from, to, sort)
+     */
+    app.get('/messages/search', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.searchMessages.bind(inboxController),
+    });
+
+    /**
+     * PATCH /api/v1/inbox/conversations/:id
+     * Change the assignee, status or tags ({ assigneeId?, status?, tags? })
+     */
+    app.patch('/inbox/conversations/:id', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.updateConversation.bind(inboxController),
+    });
+
+    /**
+     * POST /api/v1/inbox/conversations/:id/claim
+     * Assign the conversation to yourself (409 if someone else holds it)
+     */
+    app.post('/inbox/conversations/:id/claim', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.claim.bind(inboxController),
+    });
+
+    /**
+     * GET /api/v1/inbox/conversations/:id/notes
+     * Internal notes of a conversation (oldest first)
+     */
+    app.get('/inbox/conversations/:id/notes', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.listNotes.bind(inboxController),
+    });
+
+    /**
+     * POST /api/v1/inbox/conversations/:id/notes
+     * Add an internal note ({ body }), never sent to the driver
+     */
+    app.post('/inbox/conversations/:id/notes', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.addNote.bind(inboxController),
+    });
+
+    /**
+     * DELETE /api/v1/inbox/conversations/:id/notes/:noteId
+     * Delete an internal note (its author or an admin)
+     */
+    app.delete('/inbox/conversations/:id/notes/:noteId', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: inboxController.deleteNote.bind(inboxController),
+    });
+
+    /**
+     * POST /api/v1/inbox/conversations/:id/reply
+     * Text the driver from the conversation's line ({ content })
+     */
+    app.post('/inbox/conversations/:id/reply', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: inboxController.reply.bind(inboxController),
+    });
+}
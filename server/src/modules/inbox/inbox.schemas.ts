@@ -0,0 +1,86 @@
+/**
+ * Inbox Schemas
+ *
+ * Zod validation schemas for inbox endpoints
+ */
+
+import { z } from 'zod';
+import { CONVERSATION_STATUSES } from './inbox.types.js';
+
+const tagSchema = z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, 'Tags cannot be empty')
+    .max(40, 'Tags can be at most 40 characters');
+
+export const listConversationsSchema = z.object({
+    /** Part of the driver's phone number, the conversation name or the driver's name */
+    search: z.string().trim().min(1).max(100).optional(),
+    status: z.enum(CONVERSATION_STATUSES).optional(),
+    /** "me", "none" (unassigned) or a user ID */
+    assignee: z.string().trim().min(1).max(64).optional(),
+    tag: tagSchema.optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export const conversationIdSchema = z.object({
+    id: z.string().trim().min(1).max(64),
+});
+
+export const listConversationMessagesSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const replySchema = z.object({
+    content: z.string().trim().min(1, 'Message content is required').max(1600),
+});
+
+export const updateConversationSchema = z
+    .object({
+        /** User to assign, or null to unassign */
+        assigneeId: z.string().uuid('Invalid user ID').nullable().optional(),
+        status: z.enum(CONVERSATION_STATUSES).optional(),
+        /** Replaces the conversation's tags */
+        tags: z.array(tagSchema).max(20, 'At most 20 tags').optional(),
+    })
+    .refine(
+        (value) =>
+            value.assigneeId !== undefined ||
+            value.status !== undefined ||
+            value.tags !== undefined,
+        { message: 'Nothing to update' }
+    );
+
+export const noteSchema = z.object({
+    body: z.string().trim().min(1, 'Note is required').max(4000),
+});
+
+export const noteIdSchema = z.object({
+    id: z.string().trim().min(1).max(64),
+    noteId: z.string().uuid('Invalid note ID'),
+});
+
+export const searchMessagesSchema = z
+    .object({
+        /** Words, "quoted phrases" or part of a VIN */
+        q: z.string().trim().min(2, 'Enter at least 2 characters to search').max(200),
+        direction: z.enum(['incoming', 'outgoing']).optional(),
+        phoneNumber: z.string().trim().min(3).max(20).optional(),
+        conversationId: z.string().trim().min(1).max(64).optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        sort: z.enum(['relevance', 'newest']).default('relevance'),
+        page: z.coerce.number().int().min(1).default(1),
+        limit: z.coerce.number().int().min(1).max(50).default(20),
+    })
+    .refine((value) => !value.from || !value.to || value.from <= value.to, {
+        message: '"from" must be before "to"',
+    });
+
+export type ListConversationsInput = z.infer<typeof listConversationsSchema>;
+export type ListConversationMessagesInput = z.infer<typeof listConversationMessagesSchema>;
+export type UpdateConversationInput = z.infer<typeof updateConversationSchema>;
+export type SearchMessagesInput = z.infer<typeof searchMessagesSchema>;
@@ -0,0 +1,233 @@
+/**
+ * Inbox Service Tests
+ *
+ * Replies and the conversation workflow against a mocked inbox repository
+ * and Quo API.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConflictError } from '../../utils/errors';
+import { consentService } from '../consent/consent.service';
+import { quoMessagesService } from '../quo-messages/quo-messages.service';
+import { inboxRepo } from './inbox.repo';
+import { inboxService } from './inbox.service';
+
+vi.mock('./inbox.repo', () => ({
+    inboxRepo: {
+        findConversation: vi.fn(),
+        claimConversation: vi.fn(),
+        releaseConversation: vi.fn(),
+        touchConversation: vi.fn(),
+        updateWorkflow: vi.fn(),
+        findUser: vi.fn(),
+    },
+}));
+
+vi.mock('../consent/consent.service', () => ({
+    consentService: { isOptedOut: vi.fn() },
+}));
+
+vi.mock('../quo-messages/quo-messages.service', () => ({
+    quoMessagesService: { sendMessage: vi.fn() },
+}));
+
+vi.mock('../quo-messages/quo-sync.service', () => ({
+    quoSyncService: { upsertMessage: vi.fn() },
+}));
+
+vi.mock('../load-inquiries/load-inquiries.service', () => ({
+    loadInquiryService: { getByPhone: vi.fn() },
+}));
+
+const dispatcher = { userId: 'user-1', isAdmin: false };
+const otherDispatcher = { id: 'user-2', name: 'Nino', email: 'nino@example.com' };
+
+function conversation(assignee: typeof otherDispatcher | null = null) {
+    return {
+        id: 'conv-1',
+        name: null,
+        phoneNumberId: 'PNline',
+        participants: JSON.stringify(['+15555550123']),
+        assigneeId: assignee?.id ?? null,
+        assignee,
+        status: 'open',
+        statusChangedAt: null,
+        tags: [],
+    };
+}
+
+const sentMessage = {
+    id: 'AC1',
+    direction: 'outgoing',
+    from: '+15550000000',
+    to: ['+15555550123'],
+    text: 'On my way',
+    status: 'sent',
+    createdAt: '2026-10-20T12:00:00Z',
+};
+
+describe('inboxService.reply', () => {
+    beforeEach(() => {
+        vi.mocked(inboxRepo.findConversation).mockResolvedValue(conversation() as never);
+        vi.mocked(inboxRepo.claimConversation).mockResolvedValue(true);
+        vi.mocked(inboxRepo.releaseConversation).mockResolvedValue();
+        vi.mocked(consentService.isOptedOut).mockResolvedValue(false);
+        vi.mocked(quoMessagesService.sendMessage).mockResolvedValue(sentMessage as never);
+    });
+
+    it('sends from the conversation line and marks it waiting', async () => {
+        const reply = await inboxService.reply('conv-1', 'On my way', dispatcher);
+
+        expect(quoMessagesService.sendMessage).toHaveBeenCalledWith({
+            content: 'On my way',
+            to: ['+15555550123'],
+            phoneNumberId: 'PNline',
+        });
+        expect(inboxRepo.claimConversation).toHaveBeenCalledWith('conv-1', 'user-1');
+        expect(inboxRepo.updateWorkflow).toHaveBeenCalledWith('conv-1', { status: 'waiting' });
+        expect(reply).toMatchObject({ id: 'AC1', text: 'On my way' });
+    });
+
+    it('unassigns a conversation it took when the send fails', async () => {
+        vi.mocked(quoMessagesService.sendMessage).mockRejectedValue(new Error('Quo error'));
+
+        await expect(inboxService.reply('conv-1', 'On my way', dispatcher)).rejects.toThrow(
+            'Quo error'
+        );
+
+        expect(inboxRepo.releaseConversation).toHaveBeenCalledWith('conv-1', 'user-1');
+        expect(inboxRepo.updateWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('keeps a conversation the actor already held when the send fails', async () => {
+        vi.mocked(inboxRepo.findConversation).mockResolvedValue({
+            ...conversation(),
+            assigneeId: 'user-1',
+        } as never);
+        vi.mocked(quoMessagesService.sendMessage).mockRejectedValue(new Error('Quo error'));
+
+        await expect(inboxService.reply('conv-1', 'On my way', dispatcher)).rejects.toThrow();
+
+        expect(inboxRepo.releaseConversation).not.toHaveBeenCalled();
+    });
+
+    it('does not send in a conversation another user holds', async () => {
+        vi.mocked(inboxRepo.findConversation).mockResolvedValue(
+            conversation(otherDispatcher) as never
+        );
+        vi.mocked(inboxRepo.claimConversation).mockResolvedValue(false);
+
+        await expect(inboxService.reply('conv-1', 'On my way', dispatcher)).rejects.toThrow(
+            new ConflictError('Conversation is assigned to Nino')
+        );
+
+        expect(quoMessagesService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('does not send to a driver who opted out', async () => {
+        vi.mocked(consentService.isOptedOut).mockResolvedValue(true);
+
+        await expect(inboxService.reply('conv-1', 'On my way', dispatcher)).rejects.toThrow(
+            ConflictError
+        );
+
+        expect(inboxRepo.claimConversation).not.toHaveBeenCalled();
+        expect(quoMessagesService.sendMessage).not.toHaveBeenCalled();
+    });
+});
+
+describe('inboxService.claim', () => {
+    beforeEach(() => {
+        vi.mocked(inboxRepo.findConversation).mockResolvedValue(conversation() as never);
+    });
+
+    it('takes an unassigned conversation', async () => {
+        vi.mocked(inboxRepo.claimConversation).mockResolvedValue(true);
+
+        await inboxService.claim('conv-1', dispatcher);
+
+        expect(inboxRepo.claimConversation).toHaveBeenCalledWith('conv-1', 'user-1');
+    });
+
+    it('names the user who holds a conversation another user claimed first', async () => {
+        vi.mocked(inboxRepo.claimConversation).mockResolvedValue(false);
+        vi.mocked(inboxRepo.findConversation)
+            .mockResolvedValueOnce(conversation() as never)
+            .mockResolvedValue(conversation(otherDispatcher) as never);
+
+        await expect(inboxService.claim('conv-1', dispatcher)).rejects.toThrow(
+            new ConflictError('Conversation is assigned to Nino')
+        );
+    });
+});
+
+describe('inboxService.updateConversation', () => {
+    beforeEach(() => {
+        vi.mocked(inboxRepo.findConversation).mockResolvedValue(
+            conversation(otherDispatcher) as never
+        );
+        vi.mocked(inboxRepo.findUser).mockResolvedValue({ id: 'user-3' } as never);
+        vi.mocked(inboxRepo.updateWorkflow).mockResolvedValue(conversation() as never);
+    });
+
+    it('lets the assignee hand the conversation over', async () => {
+        await inboxService.updateConversation(
+            'conv-1',
+            { assigneeId: 'user-3' },
+            { userId: 'user-2', isAdmin: false }
+        );
+
+        expect(inboxRepo.updateWorkflow).toHaveBeenCalledWith(
+            'conv-1',
+            { assigneeId: 'user-3' },
+            undefined
+        );
+    });
+
+    it('lets an admin hand over a conversation someone else holds', async () => {
+        await inboxService.updateConversation(
+            'conv-1',
+            { assigneeId: null },
+            { userId: 'admin-1', isAdmin: true }
+        );
+
+        expect(inboxRepo.updateWorkflow).toHaveBeenCalledWith(
+            'conv-1',
+            { assigneeId: null },
+            undefined
+        );
+    });
+
+    it('stops another user from taking a held conversation', async () => {
+        await expect(
+            inboxService.updateConversation('conv-1', { assigneeId: 'user-1' }, dispatcher)
+        ).rejects.toThrow(new ConflictError('Conversation is assigned to Nino'));
+
+        expect(inboxRepo.updateWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('lets another user change the status and tags of a held conversation', async () => {
+        await inboxService.updateConversation(
+            'conv-1',
+            { status: 'closed', tags: ['urgent', 'urgent', 'damage'] },
+            dispatcher
+        );
+
+        expect(inboxRepo.updateWorkflow).toHaveBeenCalledWith('conv-1', { status: 'closed' }, [
+            'urgent',
+            'damage',
+        ]);
+    });
+
+    it('rejects a hand-over to a user who does not exist', async () => {
+        vi.mocked(inboxRepo.findUser).mockResolvedValue(null);
+
+        await expect(
+            inboxService.updateConversation(
+                'conv-1',
+                { assigneeId: 'user-9' },
+                { userId: 'user-2', isAdmin: false }
+            )
+        ).rejects.toThrow('User not found');
+    });
+});
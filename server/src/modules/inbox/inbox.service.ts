@@ -0,0 +1,480 @@
+/**
+ * Inbox Service
+ *
+ * Conversations with drivers as stored by the Quo sync and webhooks: the
+ * conversation list, message threads, what we know about the driver, and
+ * replies sent through the Quo API.
+ *
+ * Dispatchers work conversations with a local workflow: an assignee, a
+ * status, tags and internal notes. A conversation held by one dispatcher
+ * can't be answered by another until it is handed over.
+ */
+
+import type { Conversation, Message } from '@prisma/client';
+import { env } from '../../config/env.js';
+import logger from '../../libs/logger.js';
+import {
+    buildSnippet,
+    isEmptyQuery,
+    parseSearchQuery,
+    toBooleanQuery,
+} from '../../libs/message-search.js';
+import type { QuoMessage } from '../../types/quo-api.types.js';
+import {
+    BadRequestError,
+    ConflictError,
+    ForbiddenError,
+    NotFoundError,
+} from '../../utils/errors.js';
+import { calculateOffset } from '../../utils/pagination.js';
+import { consentService } from '../consent/consent.service.js';
+import { loadInquiryService } from '../load-inquiries/load-inquiries.service.js';
+import { quoMessagesService } from '../quo-messages/quo-messages.service.js';
+import { quoSyncService } from '../quo-messages/quo-sync.service.js';
+import { inboxRepo } from './inbox.repo.js';
+import type {
+    ListConversationMessagesInput,
+    ListConversationsInput,
+    SearchMessagesInput,
+    UpdateConversationInput,
+} from './inbox.schemas.js';
+import type { ConversationStatus, InboxActor } from './inbox.types.js';
+
+type WorkflowConversation = NonNullable<Awaited<ReturnType<typeof inboxRepo.findConversation>>>;
+
+class InboxService {
+    /**
+     * List conversations with their last message, the driver and the workflow
+     * state
+     *
+     * @param userId - Who "me" is in the assignee filter
+     */
+    async listConversations(input: ListConversationsInput, userId: string) {
+        const { page, limit, search, status, assignee, tag } = input;
+
+        const phoneNumbers = search ? await inboxRepo.findPhonesByDriverName(search) : [];
+        const { items, totalItems } = await inboxRepo.findConversations({
+            search,
+            phoneNumbers,
+            status,
+            assigneeId:
+                assignee === 'me' ? userId : assignee === 'none' ? null : assignee || undefined,
+            tag,
+            skip: calculateOffset(page, limit),
+            take: limit,
+        });
+
+        const driverPhones = items.map((c) => this.driverPhone(c)).filter((p) => p !== null);
+        const [lastMessages, drivers] = await Promise.all([
+            inboxRepo.findMessagesByIds(items.map((c) => c.lastActivityId)),
+            inboxRepo.findDriversByPhones([...new Set(driverPhones)]),
+        ]);
+        const messageMap = new Map(lastMessages.map((m) => [m.id, m]));
+        const driverMap = new Map(drivers.map((d) => [d.phoneNumber, d]));
+
+        return {
+            items: items.map((conversation) => {
+                const phoneNumber = this.driverPhone(conversation);
+                const lastMessage = messageMap.get(conversation.lastActivityId);
+
+                return {
+                    id: conversation.id,
+                    name: conversation.name,
+                    phoneNumberId: conversation.phoneNumberId,
+                    phoneNumber,
+                    lastActivityAt: conversation.lastActivityAt,
+                    lastMessage: lastMessage
+                        ? {
+                              direction: lastMessage.direction,
+                              text: lastMessage.text,
+                              createdAt: lastMessage.createdAt,
+                          }
+                        : null,
+                    driver: (phoneNumber && driverMap.get(phoneNumber)) || null,
+                    ...this.formatWorkflow(conversation),
+                };
+            }),
+            totalItems,
+        };
+    }
+
+    /**
+     * A conversation with the side panel data: the driver, their known
+     * locations, the loads they texted about and whether they opted out
+     *
+     * @throws NotFoundError if the conversation does not exist
+     */
+    async getConversation(id: string) {
+        const conversation = await this.findConversation(id);
+        const phoneNumber = this.driverPhone(conversation);
+
+        const [driver, inquiries, optedOut] = phoneNumber
+            ? await Promise.all([
+                  inboxRepo.findDriverWithLocations(phoneNumber),
+                  loadInquiryService.getByPhone(phoneNumber),
+                  consentService.isOptedOut(phoneNumber),
+              ])
+            : [null, [], false];
+
+        return {
+            id: conversation.id,
+            name: conversation.name,
+            phoneNumberId: conversation.phoneNumberId,
+            phoneNumber,
+            participants: this.participants(conversation),
+            lastActivityAt: conversation.lastActivityAt,
+            optedOut,
+            ...this.formatWorkflow(conversation),
+            driver: driver
+                ? {
+                      id: driver.id,
+                      phoneNumber: driver.phoneNumber,
+                      driverNumber: driver.driverNumber,
+                      name: driver.name,
+                      companyName: driver.companyName,
+                      notes: driver.notes,
+                      lastLoadId: driver.lastLoadId,
+                  }
+                : null,
+            locations: (driver?.locations ?? []).map((link) => ({
+                id: link.location.id,
+                name: link.location.name,
+                auctionName: link.location.auctionName,
+                matchCount: link.matchCount,
+                source: link.source,
+                lastSeenAt: link.lastSeenAt,
+            })),
+            inquiries,
+        };
+    }
+
+    /**
+     * Messages of a conversation, newest first
+     *
+     * @throws NotFoundError if the conversation does not exist
+     */
+    async listMessages(id: string, input: ListConversationMessagesInput) {
+        await this.findConversation(id);
+
+        const { page, limit } = input;
+        const { items, totalItems } = await inboxRepo.findMessages(id, {
+            skip: calculateOffset(page, limit),
+            take: limit,
+        });
+
+        return { items: items.map((m) => this.formatMessage(m)), totalItems };
+    }
+
+    /**
+     * Search the synced messages
+     *
+     * Each result has a snippet around the first match with the matches
+     * marked, and the thread it belongs to.
+     *
+     * @throws BadRequestError if the search has nothing the index can match
+     */
+    async searchMessages(input: SearchMessagesInput) {
+        const query = parseSearchQuery(input.q);
+        if (isEmptyQuery(query)) {
+            throw new BadRequestError(
+                'Search for words of at least 3 characters or at least 4 characters of a VIN'
+            );
+        }
+
+        const { page, limit } = input;
+        const phoneDigits = input.phoneNumber?.replace(/\D/g, '');
+        const { items, totalItems } = await inboxRepo.searchMessages({
+            fulltext: toBooleanQuery(query),
+            fragments: query.fragments,
+            direction: input.direction,
+            phoneDigits: phoneDigits || undefined,
+            conversationId: input.conversationId,
+            from: input.from,
+            to: input.to,
+            sort: input.sort,
+            skip: calculateOffset(page, limit),
+            take: limit,
+        });
+
+        const conversations = await inboxRepo.findConversationsByIds([
+            ...new Set(items.map((m) => m.conversationId)),
+        ]);
+        const conversationMap = new Map(conversations.map((c) => [c.id, c]));
+        const driverPhones = conversations
+            .map((c) => this.driverPhone(c))
+            .filter((p) => p !== null);
+        const drivers = await inboxRepo.findDriversByPhones([...new Set(driverPhones)]);
+        const driverMap = new Map(drivers.map((d) => [d.phoneNumber, d]));
+
+        return {
+            items: items.map((message) => {
+                const conversation = conversationMap.get(message.conversationId);
+                const phoneNumber = conversation ? this.driverPhone(conversation) : null;
+
+                return {
+                    ...this.formatMessage(message),
+                    conversationId: message.conversationId,
+                    ...buildSnippet(message.text, query),
+                    conversation: {
+                        id: message.conversationId,
+                        name: conversation?.name ?? null,
+                        phoneNumber,
+                        driverName: (phoneNumber && driverMap.get(phoneNumber)?.name) || null,
+                    },
+                    threadUrl: `${env.API_PREFIX}/inbox/conversations/${message.conversationId}/messages`,
+                };
+            }),
+            totalItems,
+        };
+    }
+
+    /**
+     * Take a conversation
+     *
+     * @throws NotFoundError if the conversation does not exist
+     * @throws ConflictError if another user holds it
+     */
+    async claim(id: string, actor: InboxActor) {
+        await this.findConversation(id);
+        await this.claimFor(id, actor.userId);
+
+        return this.formatWorkflow(await this.findConversation(id));
+    }
+
+    /**
+     * Change the assignee, status or tags of a conversation
+     *
+     * Anyone can change the status and tags. Only the assignee or an admin
+     * can hand over a conversation someone holds.
+     *
+     * @throws NotFoundError if the conversation or the new assignee does not exist
+     * @throws ConflictError if another user holds it
+     */
+    async updateConversation(id: string, input: UpdateConversationInput, actor: InboxActor) {
+        const conversation = await this.findConversation(id);
+        const { assigneeId, status, tags } = input;
+
+        if (assigneeId !== undefined && assigneeId !== conversation.assigneeId) {
+            if (
+                conversation.assignee &&
+                conversation.assigneeId !== actor.userId &&
+                !actor.isAdmin
+            ) {
+                throw this.heldBy(conversation.assignee);
+            }
+            if (assigneeId && !(await inboxRepo.findUser(assigneeId))) {
+                throw new NotFoundError('User not found');
+            }
+        }
+
+        const updated = await inboxRepo.updateWorkflow(
+            id,
+            {
+                ...(assigneeId !== undefined ? { assigneeId } : {}),
+                ...(status && status !== conversation.status ? { status } : {}),
+            },
+            tags ? [...new Set(tags)] : undefined
+        );
+
+        logger.info(
+            { conversationId: id, userId: actor.userId, assigneeId, status, tags },
+            '[INBOX] Conversation workflow updated'
+        );
+
+        return this.formatWorkflow(updated);
+    }
+
+    /**
+     * Users a conversation can be assigned to
+     */
+    async listAssignees() {
+        return inboxRepo.findAssignees();
+    }
+
+    /**
+     * Tags in use, most used first
+     */
+    async listTags() {
+        return inboxRepo.findTags();
+    }
+
+    /**
+     * Internal notes of a conversation, oldest first
+     *
+     * @throws NotFoundError if the conversation does not exist
+     */
+    async listNotes(id: string) {
+        await this.findConversation(id);
+        return inboxRepo.findNotes(id);
+    }
+
+    /**
+     * Add an internal note (never sent to the driver)
+     *
+     * @throws NotFoundError if the conversation does not exist
+     */
+    async addNote(id: string, body: string, actor: InboxActor) {
+        await this.findConversation(id);
+        return inboxRepo.createNote(id, actor.userId, body);
+    }
+
+    /**
+     * Delete an internal note
+     *
+     * @throws NotFoundError if the note does not exist
+     * @throws ForbiddenError unless the actor wrote it or is an admin
+     */
+    async deleteNote(id: string, noteId: string, actor: InboxActor): Promise<void> {
+        const note = await inboxRepo.findNote(id, noteId);
+        if (!note) {
+            throw new NotFoundError('Note not found');
+        }
+        if (note.authorId !== actor.userId && !actor.isAdmin) {
+            throw new ForbiddenError('Only the author or an admin can delete a note');
+        }
+
+        await inboxRepo.deleteNote(noteId);
+    }
+
+    /**
+     * Reply to the driver of a conversation from the conversation's line
+     *
+     * Replying takes an unassigned conversation and marks it as waiting for
+     * the driver; if the send fails the conversation is unassigned again.
+     * The sent message is stored right away so the thread shows it before
+     * the next sync.
+     *
+     * @throws NotFoundError if the conversation does not exist
+     * @throws ConflictError if the conversation has no driver, the driver
+     * opted out, or another user holds the conversation
+     */
+    async reply(id: string, content: string, actor: InboxActor) {
+        const conversation = await this.findConversation(id);
+        const phoneNumber = this.driverPhone(conversation);
+
+        if (!phoneNumber) {
+            throw new ConflictError('Conversation has no driver to reply to');
+        }
+        if (await consentService.isOptedOut(phoneNumber)) {
+            throw new ConflictError(`Recipient has opted out of SMS: ${phoneNumber}`);
+        }
+
+        await this.claimFor(id, actor.userId);
+
+        let sent: QuoMessage;
+        try {
+            sent = await quoMessagesService.sendMessage({
+                content,
+                to: [phoneNumber],
+                phoneNumberId: conversation.phoneNumberId,
+            });
+        } catch (error: unknown) {
+            if (!conversation.assigneeId) {
+                await inboxRepo.releaseConversation(id, actor.userId).catch(() => {
+                    // Stays assigned to the actor
+                });
+            }
+            throw error;
+        }
+
+        try {
+            await quoSyncService.upsertMessage(conversation.id, sent);
+            await inboxRepo.touchConversation(conversation.id, sent.id, new Date(sent.createdAt));
+            await inboxRepo.updateWorkflow(conversation.id, { status: 'waiting' });
+        } catch (error: unknown) {
+            // The sync stores it later
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { conversationId: conversation.id, messageId: sent.id, error: errorMessage },
+                '[INBOX] WARN: Failed to store sent reply'
+            );
+        }
+
+        return {
+            id: sent.id,
+            direction: sent.direction,
+            from: sent.from,
+            to: sent.to,
+            text: sent.text,
+            status: sent.status,
+            createdAt: sent.createdAt,
+        };
+    }
+
+    private async findConversation(id: string) {
+        const conversation = await inboxRepo.findConversation(id);
+        if (!conversation) {
+            throw new NotFoundError('Conversation not found');
+        }
+
+        return conversation;
+    }
+
+    /**
+     * Assign a conversation to a user, atomically, unless another user holds it
+     *
+     * @throws ConflictError if another user holds it
+     */
+    private async claimFor(id: string, userId: string): Promise<void> {
+        if (await inboxRepo.claimConversation(id, userId)) return;
+
+        const current = await this.findConversation(id);
+        throw this.heldBy(current.assignee);
+    }
+
+    private heldBy(assignee: WorkflowConversation['assignee']) {
+        return new ConflictError(
+            `Conversation is assigned to ${assignee?.name || assignee?.email || 'another user'}`
+        );
+    }
+
+    private formatWorkflow(conversation: WorkflowConversation) {
+        return {
+            status: conversation.status as ConversationStatus,
+            statusChangedAt: conversation.statusChangedAt,
+            assignee: conversation.assignee,
+            tags: conversation.tags.map((t) => t.tag),
+        };
+    }
+
+    /**
+     * Participants of a conversation (stored as a JSON array)
+     */
+    private participants(conversation: Pick<Conversation, 'participants'>): string[] {
+        try {
+            const parsed: unknown = JSON.parse(conversation.participants);
+            return Array.isArray(parsed) ? parsed.map(String) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * The driver's phone number: Quo lists the other participants, so the
+     * first one is the driver
+     */
+    private driverPhone(conversation: Pick<Conversation, 'participants'>): string | null {
+        return this.participants(conversation)[0] ?? null;
+    }
+
+    private formatMessage(message: Message) {
+        let to: string[] = [];
+        try {
+            to = JSON.parse(message.to);
+        } catch {
+            // Kept empty
+        }
+
+        return {
+            id: message.id,
+            direction: message.direction,
+            from: message.from,
+            to,
+            text: message.text,
+            status: message.status,
+            createdAt: message.createdAt,
+        };
+    }
+}
+
+export const inboxService = new InboxService();
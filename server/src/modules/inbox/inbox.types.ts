@@ -0,0 +1,20 @@
+/**
+ * Inbox Types
+ */
+
+/**
+ * Where a conversation stands for dispatchers: open needs an answer,
+ * waiting is on the driver, closed is done. A new message from the driver
+ * reopens it.
+ */
+export const CONVERSATION_STATUSES = ['open', 'waiting', 'closed'] as const;
+
+export type ConversationStatus = (typeof CONVERSATION_STATUSES)[number];
+
+/**
+ * Who is acting on a conversation
+ */
+export interface InboxActor {
+    userId: string;
+    isAdmin: boolean;
+}
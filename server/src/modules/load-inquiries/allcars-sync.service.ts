@@ -4,76 +4,87 @@
  * Syncs VIN/vehicle data from the "allcars" Google Sheet (year-based tabs)
  * and enriches load_inquiries with full VIN, vehicle info, and destination.
  * Also upserts VINs into the loads table so driver-matching can find them.
+ * Columns come from the 'allcars' sheet source.
  */
 
-import { googleSheetsClient } from '../../libs/google-sheets.js';
 import { prisma } from '../../libs/db.js';
-import { env } from '../../config/env.js';
 import logger from '../../libs/logger.js';
+import { addErrorSample, type ErrorSample } from '../../libs/error-samples.js';
+import { RowDiagnostics, type RowDiagnostic } from '../../libs/row-diagnostics.js';
+import { cellAt } from '../../libs/sheet-mapping.js';
+import { sheetSourceService } from '../sheet-sources/sheet-sources.service.js';
 import { loadInquiryService } from './load-inquiries.service.js';
 
 class AllcarsSyncService {
-    // Column indices (0-based) for allcars sheet
-    private readonly DATE_COLUMN = 0;           // Column A: Date (e.g., "1 January")
-    private readonly VEHICLE_INFO_COLUMN = 2;   // Column C: Year Make Model
-    private readonly VIN_COLUMN = 3;            // Column D: VIN
-    private readonly RECEIVED_IN_COLUMN = 4;    // Column E: Received in (destination)
-
-    /**
-     * Get the sheet tab name for the current year
-     * e.g., 2026 -> '2026'
-     */
-    private getCurrentYearTab(): string {
-        return new Date().getFullYear().toString();
-    }
-
     /**
      * Sync all VINs from the allcars sheet to database
      */
-    async syncFromAllcars(): Promise<{ synced: number; enriched: number; errors: number }> {
-        const sheetId = env.GOOGLE_ALLCARS_SHEET_ID;
-
-        if (!sheetId) {
-            logger.warn('[ALLCARS SYNC] GOOGLE_ALLCARS_SHEET_ID not configured, skipping');
-            return { synced: 0, enriched: 0, errors: 0 };
-        }
+    async syncFromAllcars(): Promise<{
+        synced: number;
+        enriched: number;
+        errors: number;
+        issues: number;
+        errorSamples: ErrorSample[];
+        diagnostics: RowDiagnostic[];
+    }> {
+        const empty = {
+            synced: 0,
+            enriched: 0,
+            errors: 0,
+            issues: 0,
+            errorSamples: [],
+            diagnostics: [],
+        };
 
         try {
-            const yearTab = this.getCurrentYearTab();
-            const sheetRange = `'${yearTab}'!A:Z`;
+            logger.info('[ALLCARS SYNC] Starting sync...');
 
-            logger.info({ yearTab, sheetRange }, '[ALLCARS SYNC] Starting sync...');
+            // Current year's tab
+            const tab = await sheetSourceService.readTab('allcars');
 
-            const rawData = await googleSheetsClient.getSheetData(sheetId, sheetRange);
+            if (!tab) {
+                return empty;
+            }
 
-            if (!rawData || rawData.length === 0) {
-                logger.warn('[ALLCARS SYNC] No data found in sheet');
-                return { synced: 0, enriched: 0, errors: 0 };
+            if (tab.rows.length === 0) {
+                logger.warn({ tabName: tab.tabName }, '[ALLCARS SYNC] No data found in sheet');
+                return empty;
             }
 
-            // Skip header row
-            const dataRows = rawData.slice(1);
+            const { columns } = tab;
 
             let synced = 0;
             let enriched = 0;
             let errors = 0;
+            const errorSamples: ErrorSample[] = [];
+            const diagnostics = new RowDiagnostics(tab.tabName, tab.diagnostics);
 
-            for (let i = 0; i < dataRows.length; i++) {
+            for (const { rowNumber, cells } of tab.rows) {
                 try {
-                    const row = dataRows[i];
-                    if (!row) continue;
+                    const rawVin = cellAt(cells, columns.vin);
+                    const vin = this.cleanString(rawVin);
 
-                    const vin = this.cleanString(row[this.VIN_COLUMN]);
+                    if (!vin) continue;
 
                     // Skip rows without valid VIN (at least 6 chars for load ID)
-                    if (!vin || vin.length < 6) continue;
+                    if (vin.length < 6) {
+                        diagnostics.add({
+                            row: rowNumber,
+                            column: 'vin',
+                            value: rawVin,
+                            reason: 'invalid_vin',
+                            severity: 'error',
+                            message: 'VIN is shorter than 6 characters',
+                        });
+                        continue;
+                    }
 
                     const loadId = vin.slice(-6).toUpperCase();
-                    const vehicleInfo = this.cleanString(row[this.VEHICLE_INFO_COLUMN]);
-                    const receivedIn = this.cleanString(row[this.RECEIVED_IN_COLUMN]);
+                    const vehicleInfo = this.cleanString(cellAt(cells, columns.vehicleInfo));
+                    const receivedIn = this.cleanString(cellAt(cells, columns.receivedIn));
 
                     // Upsert into loads table so driver-matching flow works
-                    await this.upsertLoad(vin, loadId, receivedIn, i + 2);
+                    await this.upsertLoad(vin, loadId, receivedIn, tab.tabName, rowNumber);
                     synced++;
 
                     // Enrich any existing load_inquiries with VIN/vehicle data
@@ -86,16 +97,34 @@ class AllcarsSyncService {
                     if (enrichCount > 0) enriched += enrichCount;
                 } catch (error: unknown) {
                     const message = error instanceof Error ? error.message : String(error);
-                    logger.error({ error: message, rowIndex: i }, '[ALLCARS SYNC] Failed to sync row');
+                    logger.error(
+                        { error: message, rowNumber },
+                        '[ALLCARS SYNC] Failed to sync row'
+                    );
                     errors++;
+                    addErrorSample(errorSamples, { row: rowNumber, error: message });
+                    diagnostics.add({
+                        row: rowNumber,
+                        reason: 'row_failed',
+                        severity: 'error',
+                        message,
+                    });
                 }
             }
 
+            const issues = diagnostics.total;
             logger.info(
-                { synced, enriched, errors, totalRows: dataRows.length },
+                { synced, enriched, errors, issues, totalRows: tab.rows.length },
                 '[ALLCARS SYNC] Completed'
             );
-            return { synced, enriched, errors };
+            return {
+                synced,
+                enriched,
+                errors,
+                issues,
+                errorSamples,
+                diagnostics: diagnostics.items,
+            };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
             logger.error({ error: message }, '[ALLCARS SYNC] Failed to sync from allcars sheet');
@@ -106,28 +135,46 @@ class AllcarsSyncService {
     /**
      * Upsert a load record from allcars data
      *
-     * Uses the existing loads table so driver-matching can find allcars VINs
+     * Uses the existing loads table so driver-matching can find allcars VINs.
+     * The sheet position (source, tab, row) is only set on loads that are not
+     * on the loads sheet, so sheetRowNumber always refers to sheetTab.
      */
     private async upsertLoad(
         vin: string,
         loadId: string,
         receivedIn: string | null,
+        tabName: string,
         rowNumber: number
     ): Promise<void> {
-        await prisma.load.upsert({
+        const position = { sheetSource: 'allcars', sheetTab: tabName, sheetRowNumber: rowNumber };
+
+        const existing = await prisma.load.findUnique({
             where: { vin },
-            create: {
-                vin,
-                loadId,
-                pickupLocation: receivedIn,
-                sheetRowNumber: rowNumber,
-                syncedAt: new Date(),
-            },
-            update: {
+            select: { sheetSource: true },
+        });
+
+        if (!existing) {
+            await prisma.load.create({
+                data: {
+                    vin,
+                    loadId,
+                    pickupLocation: receivedIn,
+                    ...position,
+                    syncedAt: new Date(),
+                },
+            });
+            return;
+        }
+
+        await prisma.load.update({
+            where: { vin },
+            data: {
                 loadId,
                 // Only update pickupLocation from allcars if not already set by CentralDispatch
                 pickupLocation: receivedIn,
-                sheetRowNumber: rowNumber,
+                ...(existing.sheetSource === 'loads' ? {} : position),
+                // Fields of the loads sheet changed, so its next sync rewrites them
+                rowHash: null,
                 syncedAt: new Date(),
             },
         });
@@ -2,6 +2,7 @@
  * Load Inquiry Routes
  *
  * Endpoints for tracking which drivers texted about which loads
+ * All routes require authentication
  */
 
 import type { FastifyInstance } from 'fastify';
@@ -9,11 +10,20 @@ import { loadInquiryController } from './load-inquiries.controller.js';
 
 export async function loadInquiryRoutes(app: FastifyInstance): Promise<void> {
     // Stats must be registered BEFORE /:loadId to avoid param collision
-    app.get('/load-inquiries/stats', loadInquiryController.getStats);
+    app.get('/load-inquiries/stats', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadInquiryController.getStats,
+    });
 
     // Get all loads a specific driver asked about
-    app.get('/load-inquiries/driver/:phone', loadInquiryController.getByPhone);
+    app.get('/load-inquiries/driver/:phone', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadInquiryController.getByPhone,
+    });
 
     // Get all drivers who texted about a specific load ID
-    app.get('/load-inquiries/:loadId', loadInquiryController.getByLoadId);
+    app.get('/load-inquiries/:loadId', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadInquiryController.getByLoadId,
+    });
 }
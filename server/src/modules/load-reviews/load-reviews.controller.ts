@@ -0,0 +1,83 @@
+/**
+ * Load Reviews Controller
+ *
+ * HTTP request handlers for the Load ID review queue
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse } from '../../utils/pagination.js';
+import { successResponse } from '../../utils/response.js';
+import {
+    listLoadReviewsSchema,
+    loadReviewIdSchema,
+    resolveLoadReviewSchema,
+} from './load-reviews.schemas.js';
+import { loadReviewService } from './load-reviews.service.js';
+
+class LoadReviewController {
+    /**
+     * GET /api/v1/load-reviews
+     *
+     * Reviews by status (pending by default) with their candidate loads
+     */
+    async listReviews(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listLoadReviewsSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await loadReviewService.listReviews(parsed.data);
+
+        return reply.send(
+            paginatedResponse('Load reviews retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * POST /api/v1/load-reviews/:id/resolve
+     *
+     * Pick the driver's load among the candidates
+     */
+    async resolve(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const parsed = resolveLoadReviewSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid request body');
+        }
+
+        const result = await loadReviewService.resolve(
+            id,
+            parsed.data.loadId,
+            request.user?.userId ?? null
+        );
+
+        return reply.send(successResponse('Load review resolved', result));
+    }
+
+    /**
+     * POST /api/v1/load-reviews/:id/dismiss
+     *
+     * None of the candidates is the driver's load
+     */
+    async dismiss(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = this.parseId(request.params);
+
+        const review = await loadReviewService.dismiss(id, request.user?.userId ?? null);
+
+        return reply.send(successResponse('Load review dismissed', review));
+    }
+
+    private parseId(params: unknown) {
+        const parsed = loadReviewIdSchema.safeParse(params);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid review ID');
+        }
+
+        return parsed.data;
+    }
+}
+
+export const loadReviewController = new LoadReviewController();
@@ -0,0 +1,156 @@
+/**
+ * Load Reviews Repository
+ *
+ * Database queries for ambiguous Load ID matches and their candidate loads
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type {
+    LoadReviewFilters,
+    LoadReviewStatus,
+    PendingLoadReview,
+} from './load-reviews.types.js';
+
+const reviewInclude = {
+    resolvedBy: { select: { id: true, name: true, email: true } },
+    candidates: {
+        include: {
+            load: {
+                select: {
+                    id: true,
+                    vin: true,
+                    loadId: true,
+                    pickupLocation: true,
+                    deliveryLocation: true,
+                    status: true,
+                    driverPhone: true,
+                    sheetSource: true,
+                    sheetTab: true,
+                    closedAt: true,
+                    syncedAt: true,
+                },
+            },
+        },
+        orderBy: { score: 'desc' },
+    },
+} satisfies Prisma.LoadMatchReviewInclude;
+
+class LoadReviewRepo {
+    /**
+     * List reviews with their candidates (most recently updated first)
+     */
+    async findMany(filters: LoadReviewFilters & { skip: number; take: number }) {
+        const where: Prisma.LoadMatchReviewWhereInput = {
+            ...(filters.status ? { status: filters.status } : {}),
+            ...(filters.phoneNumber ? { phoneNumber: { contains: filters.phoneNumber } } : {}),
+            ...(filters.loadId ? { loadId: filters.loadId } : {}),
+        };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.loadMatchReview.findMany({
+                where,
+                include: reviewInclude,
+                orderBy: { updatedAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.loadMatchReview.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Find a review by ID, with its candidates
+     */
+    async findById(id: string) {
+        return prisma.loadMatchReview.findUnique({
+            where: { id },
+            include: reviewInclude,
+        });
+    }
+
+    /**
+     * The review of a driver's Load ID, if any
+     */
+    async findByPhoneAndLoadId(phoneNumber: string, loadId: string) {
+        return prisma.loadMatchReview.findUnique({
+            where: { phoneNumber_loadId: { phoneNumber, loadId } },
+        });
+    }
+
+    /**
+     * The load a dispatcher picked for a driver's Load ID
+     */
+    async findResolvedLoadId(phoneNumber: string, loadId: string): Promise<string | null> {
+        const review = await this.findByPhoneAndLoadId(phoneNumber, loadId);
+        return review?.status === 'resolved' ? review.resolvedLoadId : null;
+    }
+
+    /**
+     * Queue an ambiguous match for review, or refresh its candidates
+     *
+     * A review that was resolved or dismissed goes back to pending.
+     */
+    async savePending(review: PendingLoadReview): Promise<void> {
+        const ids = review.candidates.map((c) => c.id);
+
+        await prisma.$transaction(async (tx) => {
+            const saved = await tx.loadMatchReview.upsert({
+                where: {
+                    phoneNumber_loadId: { phoneNumber: review.phoneNumber, loadId: review.loadId },
+                },
+                create: {
+                    phoneNumber: review.phoneNumber,
+                    loadId: review.loadId,
+                    conversationId: review.conversationId ?? null,
+                },
+                update: {
+                    conversationId: review.conversationId ?? undefined,
+                    status: 'pending',
+                    resolvedLoadId: null,
+                    resolvedById: null,
+                    resolvedAt: null,
+                },
+            });
+
+            await tx.loadMatchCandidate.deleteMany({
+                where: { reviewId: saved.id, loadId: { notIn: ids } },
+            });
+
+            for (const candidate of review.candidates) {
+                await tx.loadMatchCandidate.upsert({
+                    where: { reviewId_loadId: { reviewId: saved.id, loadId: candidate.id } },
+                    create: {
+                        reviewId: saved.id,
+                        loadId: candidate.id,
+                        score: candidate.score,
+                        reasons: candidate.reasons,
+                    },
+                    update: { score: candidate.score, reasons: candidate.reasons },
+                });
+            }
+        });
+    }
+
+    /**
+     * Close a review: resolved with the picked load, or dismissed
+     *
+     * @param userId - Dispatcher who closed it (null when context settled it)
+     */
+    async close(
+        id: string,
+        status: Exclude<LoadReviewStatus, 'pending'>,
+        resolvedLoadId: string | null,
+        userId: string | null
+    ) {
+        return prisma.loadMatchReview.update({
+            where: { id },
+            data: { status, resolvedLoadId, resolvedById: userId, resolvedAt: new Date() },
+            include: reviewInclude,
+        });
+    }
+}
+
+export const loadReviewRepo = new LoadReviewRepo();
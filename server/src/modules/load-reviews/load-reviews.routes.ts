@@ -0,0 +1,42 @@
+/**
+ * Load Review Routes
+ *
+ * The queue of Load IDs shared by several loads, where dispatchers pick the
+ * load a driver texted about
+ * All routes require authentication
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { loadReviewController } from './load-reviews.controller.js';
+
+/**
+ * Register load review routes
+ */
+export async function loadReviewRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/load-reviews
+     * List reviews (filter by status, phone number, Load ID)
+     */
+    app.get('/load-reviews', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadReviewController.listReviews.bind(loadReviewController),
+    });
+
+    /**
+     * POST /api/v1/load-reviews/:id/resolve
+     * Pick the load ({ loadId }) and link the driver to it
+     */
+    app.post('/load-reviews/:id/resolve', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadReviewController.resolve.bind(loadReviewController),
+    });
+
+    /**
+     * POST /api/v1/load-reviews/:id/dismiss
+     * Dismiss a review without linking a load
+     */
+    app.post('/load-reviews/:id/dismiss', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadReviewController.dismiss.bind(loadReviewController),
+    });
+}
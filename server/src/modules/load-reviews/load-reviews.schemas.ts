@@ -0,0 +1,32 @@
+/**
+ * Load Review Schemas
+ *
+ * Zod validation schemas for load review endpoints
+ */
+
+import { z } from 'zod';
+import { LOAD_REVIEW_STATUSES } from './load-reviews.types.js';
+
+export const listLoadReviewsSchema = z.object({
+    status: z.enum(LOAD_REVIEW_STATUSES).default('pending'),
+    phoneNumber: z.string().trim().min(1).max(20).optional(),
+    loadId: z
+        .string()
+        .trim()
+        .length(6, 'Load ID must be 6 characters')
+        .transform((value) => value.toUpperCase())
+        .optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const loadReviewIdSchema = z.object({
+    id: z.string().uuid('Invalid review ID'),
+});
+
+export const resolveLoadReviewSchema = z.object({
+    /** Load.id of the candidate the dispatcher picked */
+    loadId: z.string().uuid('Invalid load ID'),
+});
+
+export type ListLoadReviewsInput = z.infer<typeof listLoadReviewsSchema>;
@@ -0,0 +1,105 @@
+/**
+ * Load Reviews Service
+ *
+ * The dispatcher queue for Load IDs shared by several loads: when the
+ * conversation did not settle which load a driver texted about, the candidates
+ * wait here and the picked load is linked to the driver like any other match.
+ */
+
+import { prisma } from '../../libs/db.js';
+import logger from '../../libs/logger.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../../utils/errors.js';
+import { calculateOffset } from '../../utils/pagination.js';
+import { driverMatchingService } from '../drivers/driver-matching.service.js';
+import { loadRepo } from '../loads/loads.repo.js';
+import { loadReviewRepo } from './load-reviews.repo.js';
+import type { ListLoadReviewsInput } from './load-reviews.schemas.js';
+
+class LoadReviewService {
+    /**
+     * List reviews with their candidates and the driver who texted
+     */
+    async listReviews(input: ListLoadReviewsInput) {
+        const { page, limit, ...filters } = input;
+
+        const { items, totalItems } = await loadReviewRepo.findMany({
+            ...filters,
+            skip: calculateOffset(page, limit),
+            take: limit,
+        });
+
+        const drivers = await prisma.driver.findMany({
+            where: { phoneNumber: { in: [...new Set(items.map((r) => r.phoneNumber))] } },
+            select: { id: true, phoneNumber: true, name: true, companyName: true },
+        });
+        const driverMap = new Map(drivers.map((d) => [d.phoneNumber, d]));
+
+        return {
+            items: items.map((review) => ({
+                ...review,
+                driver: driverMap.get(review.phoneNumber) ?? null,
+            })),
+            totalItems,
+        };
+    }
+
+    /**
+     * Resolve a review with the load the dispatcher picked, and link the
+     * driver to it
+     *
+     * @throws NotFoundError if the review does not exist
+     * @throws ConflictError if the review is not pending
+     * @throws BadRequestError if the load is not one of its candidates
+     */
+    async resolve(id: string, loadId: string, userId: string | null) {
+        const review = await this.getPending(id);
+
+        if (!review.candidates.some((c) => c.loadId === loadId)) {
+            throw new BadRequestError('Load is not a candidate of this review');
+        }
+
+        const load = await loadRepo.findById(loadId);
+        if (!load) {
+            throw new NotFoundError('Load not found');
+        }
+
+        const resolved = await loadReviewRepo.close(id, 'resolved', loadId, userId);
+        const match = await driverMatchingService.linkDriverToLoad(
+            review.phoneNumber,
+            review.loadId,
+            load
+        );
+
+        logger.info(
+            { reviewId: id, loadId: review.loadId, vin: load.vin, phoneNumber: review.phoneNumber },
+            '[LOAD MATCH] Review resolved'
+        );
+
+        return { review: resolved, match };
+    }
+
+    /**
+     * Dismiss a review: none of the candidates is the driver's load
+     *
+     * @throws NotFoundError if the review does not exist
+     * @throws ConflictError if the review is not pending
+     */
+    async dismiss(id: string, userId: string | null) {
+        await this.getPending(id);
+        return loadReviewRepo.close(id, 'dismissed', null, userId);
+    }
+
+    private async getPending(id: string) {
+        const review = await loadReviewRepo.findById(id);
+        if (!review) {
+            throw new NotFoundError('Review not found');
+        }
+        if (review.status !== 'pending') {
+            throw new ConflictError(`Review is already ${review.status}`);
+        }
+
+        return review;
+    }
+}
+
+export const loadReviewService = new LoadReviewService();
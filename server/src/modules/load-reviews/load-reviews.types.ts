@@ -0,0 +1,26 @@
+/**
+ * Load Review Types
+ */
+
+import type { ScoredLoadCandidate } from '../../libs/load-disambiguation.js';
+
+export const LOAD_REVIEW_STATUSES = ['pending', 'resolved', 'dismissed'] as const;
+
+export type LoadReviewStatus = (typeof LOAD_REVIEW_STATUSES)[number];
+
+/**
+ * An ambiguous match waiting for a dispatcher
+ */
+export interface PendingLoadReview {
+    phoneNumber: string;
+    /** Load ID (last 6 of VIN) the candidates share */
+    loadId: string;
+    conversationId?: string | null;
+    candidates: ScoredLoadCandidate[];
+}
+
+export interface LoadReviewFilters {
+    status?: LoadReviewStatus;
+    phoneNumber?: string;
+    loadId?: string;
+}
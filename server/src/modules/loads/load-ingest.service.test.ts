@@ -0,0 +1,115 @@
+/**
+ * Load Ingest Service Tests
+ *
+ * Ingests one-record sources against a mocked Load table.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../../libs/db';
+import { loadIngestService } from './load-ingest.service';
+import type { LoadSource } from './loads.types';
+
+vi.mock('../../libs/db', () => ({
+    prisma: {
+        $transaction: vi.fn(),
+        load: {
+            findMany: vi.fn(),
+            createMany: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('./loads.repo', () => ({
+    loadRepo: { createStatusEvents: vi.fn() },
+}));
+
+const VIN = '1HGCM82633A004352';
+
+function source(name: string, tabName: string): LoadSource {
+    return {
+        name,
+        driverLinkSource: name,
+        logPrefix: `[${name.toUpperCase()}]`,
+        read: async () => ({
+            batches: [
+                {
+                    tabName,
+                    records: [{ rowNumber: 7, vin: VIN, pickupLocation: 'Dallas, TX' }],
+                    diagnostics: [],
+                },
+            ],
+            complete: false,
+        }),
+    };
+}
+
+function storedLoad(overrides: Record<string, unknown>) {
+    return {
+        id: 'load-1',
+        vin: VIN,
+        rowHash: 'stale',
+        status: 'posted',
+        closedAt: null,
+        ...overrides,
+    };
+}
+
+function updateData() {
+    return vi.mocked(prisma.load.update).mock.calls[0]![0].data;
+}
+
+describe('loadIngestService.ingest', () => {
+    beforeEach(() => {
+        vi.mocked(prisma.$transaction).mockResolvedValue([]);
+    });
+
+    it('keeps the sheet position of a load an import updates', async () => {
+        vi.mocked(prisma.load.findMany).mockResolvedValue([
+            storedLoad({ sheetSource: 'loads', sheetTab: 'October', sheetRowNumber: 12 }),
+        ] as never);
+
+        const result = await loadIngestService.ingest(source('import', 'upload.csv'));
+
+        expect(result.updated).toBe(1);
+        expect(updateData()).not.toHaveProperty('sheetSource');
+        expect(updateData()).not.toHaveProperty('sheetTab');
+        expect(updateData()).not.toHaveProperty('sheetRowNumber');
+        expect(updateData()).toMatchObject({ pickupLocation: 'Dallas, TX' });
+    });
+
+    it('moves a load off a closed sheet row', async () => {
+        vi.mocked(prisma.load.findMany).mockResolvedValue([
+            storedLoad({
+                sheetSource: 'loads',
+                sheetTab: 'September',
+                sheetRowNumber: 12,
+                closedAt: new Date('2026-10-01T00:00:00Z'),
+            }),
+        ] as never);
+
+        await loadIngestService.ingest(source('api', 'dispatch-system'));
+
+        expect(updateData()).toMatchObject({
+            sheetSource: 'api',
+            sheetTab: 'dispatch-system',
+            sheetRowNumber: 7,
+            closedAt: null,
+        });
+    });
+
+    it('takes the sheet position when the sheet writes the load', async () => {
+        vi.mocked(prisma.load.findMany).mockResolvedValue([
+            storedLoad({ sheetSource: 'import', sheetTab: 'upload.csv', sheetRowNumber: 2 }),
+        ] as never);
+
+        await loadIngestService.ingest(source('loads', 'October'));
+
+        expect(updateData()).toMatchObject({
+            sheetSource: 'loads',
+            sheetTab: 'October',
+            sheetRowNumber: 7,
+        });
+    });
+});
@@ -0,0 +1,793 @@
+/**
+ * Load Ingest Service
+ *
+ * The shared normalization path of every load source (see load-sources.ts):
+ * raw records are validated and normalized, hashed so unchanged loads are
+ * skipped, written to `Load` in batched transactions, and their driver
+ * phones are linked to the pickup location in `DriverLocation`.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { auctionLocationService } from '../../libs/auction-location.js';
+import { prisma } from '../../libs/db.js';
+import { type ErrorSample, addErrorSample } from '../../libs/error-samples.js';
+import { type LoadStatus, normalizeLoadStatus, toLoadStatus } from '../../libs/load-status.js';
+import { STATE_MAPPINGS } from '../../libs/location-normalizer.js';
+import logger from '../../libs/logger.js';
+import { RowDiagnostics } from '../../libs/row-diagnostics.js';
+import { type HashedRow, diffRows, hashRow } from '../../libs/sheet-changes.js';
+import { loadRepo } from './loads.repo.js';
+import type { LoadIngestResult, LoadSource, RawLoadRecord } from './loads.types.js';
+
+/**
+ * A validated, normalized load record
+ */
+interface NormalizedLoad {
+    tabName: string;
+    rowNumber: number; // Row in that tab
+    vin: string;
+    loadId: string; // Last 6 of VIN
+    pickupLocation: string | null;
+    deliveryLocation: string | null;
+    rawStatus: string | null;
+    /** Normalized rawStatus (null if empty or not recognized) */
+    status: LoadStatus | null;
+    driverPhone: string | null;
+}
+
+/**
+ * A status change to record for a written load
+ */
+interface StatusChange {
+    row: HashedRow<NormalizedLoad>;
+    from: LoadStatus;
+    to: LoadStatus;
+}
+
+/**
+ * Rows written per transaction
+ */
+const WRITE_BATCH_SIZE = 200;
+
+/**
+ * Source whose row positions the sheet write-back writes to
+ */
+const SHEET_SOURCE = 'loads';
+
+/**
+ * Load Ingest Service Class
+ */
+class LoadIngestService {
+    /**
+     * Read a load source and write its loads
+     *
+     * A VIN read twice is kept from its last batch (sources pass tabs oldest
+     * first). Loads are only closed for sources that read their tabs
+     * completely, and only on the tabs that were read.
+     */
+    async ingest(source: LoadSource): Promise<LoadIngestResult> {
+        const { batches, complete } = await source.read();
+
+        if (batches.length === 0) {
+            return {
+                synced: 0,
+                added: 0,
+                updated: 0,
+                unchanged: 0,
+                removed: 0,
+                errors: 0,
+                driversCreated: 0,
+                issues: 0,
+                errorSamples: [],
+                diagnostics: [],
+            };
+        }
+
+        const tabNames = batches.map((batch) => batch.tabName);
+        const errorSamples: ErrorSample[] = [];
+        const diagnostics = new RowDiagnostics(
+            null,
+            batches.flatMap((batch) => batch.diagnostics)
+        );
+
+        const rows: HashedRow<NormalizedLoad>[] = [];
+        for (const batch of batches) {
+            for (const record of batch.records) {
+                const load = this.normalize(record, batch.tabName, diagnostics);
+                if (load) {
+                    rows.push({
+                        key: load.vin,
+                        tab: batch.tabName,
+                        hash: this.hashLoad(load),
+                        data: load,
+                    });
+                }
+            }
+        }
+
+        const stored = await prisma.load.findMany({
+            where: {
+                OR: [
+                    { vin: { in: rows.map((row) => row.key) } },
+                    ...(complete
+                        ? [{ sheetSource: source.name, sheetTab: { in: tabNames }, closedAt: null }]
+                        : []),
+                ],
+            },
+            select: {
+                id: true,
+                vin: true,
+                rowHash: true,
+                status: true,
+                sheetSource: true,
+                sheetTab: true,
+                closedAt: true,
+            },
+        });
+
+        const changes = diffRows(
+            complete ? tabNames : [],
+            rows,
+            stored.map((load) => ({
+                id: load.id,
+                key: load.vin,
+                hash: load.rowHash,
+                // A load written by another source is not on one of these tabs yet
+                tab: load.sheetSource === source.name ? load.sheetTab : null,
+                closedAt: load.closedAt,
+            }))
+        );
+
+        // The STATUS text of a source decides the status whenever it is recognized
+        const storedStatus = new Map(stored.map((load) => [load.id, toLoadStatus(load.status)]));
+        const statusOf = (row: HashedRow<NormalizedLoad>, current: LoadStatus) =>
+            row.data.status && row.data.status !== current ? row.data.status : null;
+        const statusOfUpdate = (row: HashedRow<NormalizedLoad> & { id: string }) =>
+            statusOf(row, storedStatus.get(row.id) ?? 'unknown');
+
+        // An import or push of a VIN on an open sheet row keeps that row's position
+        const onSheetRow = new Set(
+            source.name === SHEET_SOURCE
+                ? []
+                : stored
+                      .filter((load) => load.sheetSource === SHEET_SOURCE && !load.closedAt)
+                      .map((load) => load.id)
+        );
+
+        const onRowError = (row: NormalizedLoad, error: unknown) => {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error(
+                { error: errorMessage, rowNumber: row.rowNumber },
+                `${source.logPrefix} Failed to sync row`
+            );
+            addErrorSample(errorSamples, { row: row.rowNumber, error: errorMessage });
+            diagnostics.add({
+                tab: row.tabName,
+                row: row.rowNumber,
+                reason: 'row_failed',
+                severity: 'error',
+                message: errorMessage,
+            });
+        };
+
+        const added = await this.writeInBatches(
+            changes.added,
+            (batch) => [
+                prisma.load.createMany({
+                    data: batch.map((row) =>
+                        this.toLoadData(source, row, statusOf(row, 'unknown'))
+                    ),
+                }),
+            ],
+            (row) =>
+                prisma.load.create({
+                    data: this.toLoadData(source, row, statusOf(row, 'unknown')),
+                }),
+            onRowError
+        );
+
+        const updated = await this.writeInBatches(
+            changes.updated,
+            (batch) =>
+                batch.map((row) =>
+                    prisma.load.update({
+                        where: { id: row.id },
+                        data: this.toLoadData(
+                            source,
+                            row,
+                            statusOfUpdate(row),
+                            onSheetRow.has(row.id)
+                        ),
+                    })
+                ),
+            (row) =>
+                prisma.load.update({
+                    where: { id: row.id },
+                    data: this.toLoadData(source, row, statusOfUpdate(row), onSheetRow.has(row.id)),
+                }),
+            onRowError
+        );
+
+        const statusChanges: StatusChange[] = [];
+        for (const row of added) {
+            const to = statusOf(row, 'unknown');
+            if (to) statusChanges.push({ row, from: 'unknown', to });
+        }
+        for (const row of updated) {
+            const to = statusOfUpdate(row);
+            if (to) statusChanges.push({ row, from: storedStatus.get(row.id) ?? 'unknown', to });
+        }
+        await this.recordStatusEvents(source, statusChanges);
+
+        const removed = await this.closeRemovedLoads(
+            source,
+            changes.removed.map((load) => load.id)
+        );
+
+        // Link drivers only for rows that changed; unchanged rows were linked before
+        let driversCreated = 0;
+        let rowsWithPhone = 0;
+        for (const { data: row } of [...added, ...updated]) {
+            if (!row.driverPhone || !row.pickupLocation) continue;
+            rowsWithPhone++;
+
+            const created = await this.linkDriverLocation(
+                source,
+                row.driverPhone,
+                row.pickupLocation,
+                row.loadId
+            );
+            if (created) driversCreated++;
+        }
+
+        const errors =
+            changes.added.length + changes.updated.length - added.length - updated.length;
+        const issues = diagnostics.total;
+        const result: LoadIngestResult = {
+            synced: added.length + updated.length + changes.unchanged,
+            added: added.length,
+            updated: updated.length,
+            unchanged: changes.unchanged,
+            removed,
+            errors,
+            driversCreated,
+            issues,
+            errorSamples,
+            diagnostics: diagnostics.items,
+        };
+
+        logger.info(
+            {
+                tabNames,
+                added: result.added,
+                updated: result.updated,
+                unchanged: result.unchanged,
+                removed,
+                errors,
+                driversCreated,
+                rowsWithPhone,
+                issues,
+            },
+            `${source.logPrefix} SUCCESS: Completed`
+        );
+        return result;
+    }
+
+    /**
+     * Write rows in transactions of WRITE_BATCH_SIZE
+     *
+     * If a batch fails, its rows are retried one by one so a single bad row
+     * only costs itself.
+     *
+     * @returns The rows that were written
+     */
+    private async writeInBatches<R extends HashedRow<NormalizedLoad>>(
+        rows: R[],
+        writeBatch: (batch: R[]) => Prisma.PrismaPromise<unknown>[],
+        writeRow: (row: R) => Prisma.PrismaPromise<unknown>,
+        onRowError: (row: NormalizedLoad, error: unknown) => void
+    ): Promise<R[]> {
+        const written: R[] = [];
+
+        for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+            const batch = rows.slice(i, i + WRITE_BATCH_SIZE);
+
+            try {
+                await prisma.$transaction(writeBatch(batch));
+                written.push(...batch);
+            } catch {
+                for (const row of batch) {
+                    try {
+                        await writeRow(row);
+                        written.push(row);
+                    } catch (error: unknown) {
+                        onRowError(row.data, error);
+                    }
+                }
+            }
+        }
+
+        return written;
+    }
+
+    /**
+     * Soft-close loads whose record was deleted from their tab
+     *
+     * @returns Number of loads closed
+     */
+    private async closeRemovedLoads(source: LoadSource, ids: string[]): Promise<number> {
+        let closed = 0;
+        const closedAt = new Date();
+
+        for (let i = 0; i < ids.length; i += WRITE_BATCH_SIZE) {
+            const result = await prisma.load.updateMany({
+                where: { id: { in: ids.slice(i, i + WRITE_BATCH_SIZE) }, closedAt: null },
+                data: { closedAt },
+            });
+            closed += result.count;
+        }
+
+        if (closed > 0) {
+            logger.info({ closed }, `${source.logPrefix} Closed loads deleted from their tab`);
+        }
+
+        return closed;
+    }
+
+    /**
+     * Hash of the fields a record stores on its load
+     */
+    private hashLoad(row: NormalizedLoad): string {
+        return hashRow([
+            row.tabName,
+            row.vin,
+            row.loadId,
+            row.pickupLocation,
+            row.deliveryLocation,
+            row.rawStatus,
+            row.driverPhone,
+            row.rowNumber,
+        ]);
+    }
+
+    /**
+     * Status history of the written loads whose status changed
+     *
+     * Never throws: the loads are written already.
+     */
+    private async recordStatusEvents(source: LoadSource, changes: StatusChange[]): Promise<void> {
+        if (changes.length === 0) return;
+
+        try {
+            const loads = await prisma.load.findMany({
+                where: { vin: { in: changes.map((change) => change.row.key) } },
+                select: { id: true, vin: true },
+            });
+            const idsByVin = new Map(loads.map((load) => [load.vin, load.id]));
+            const occurredAt = new Date();
+
+            const count = await loadRepo.createStatusEvents(
+                changes.flatMap(({ row, from, to }) => {
+                    const loadId = idsByVin.get(row.key);
+                    if (!loadId) return [];
+
+                    return [
+                        {
+                            loadId,
+                            fromStatus: from,
+                            toStatus: to,
+                            source: source.name,
+                            rawValue: row.data.rawStatus?.slice(0, 500) ?? null,
+                            occurredAt,
+                        },
+                    ];
+                })
+            );
+
+            logger.info({ count }, `${source.logPrefix} Recorded load status changes`);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error(
+                { error: errorMessage },
+                `${source.logPrefix} Failed to record load status changes`
+            );
+        }
+    }
+
+    /**
+     * Load columns written for a record (reopens a closed load)
+     *
+     * @param status - New status of the load (null = keep the current one)
+     * @param keepPosition - Keep the stored source, tab and row number
+     */
+    private toLoadData(
+        source: LoadSource,
+        row: HashedRow<NormalizedLoad>,
+        status: LoadStatus | null,
+        keepPosition = false
+    ) {
+        const syncedAt = new Date();
+
+        return {
+            vin: row.data.vin,
+            loadId: row.data.loadId,
+            pickupLocation: row.data.pickupLocation,
+            deliveryLocation: row.data.deliveryLocation,
+            rawStatus: row.data.rawStatus,
+            ...(status ? { status, statusChangedAt: syncedAt } : {}),
+            driverPhone: row.data.driverPhone,
+            ...(keepPosition
+                ? {}
+                : {
+                      sheetRowNumber: row.data.rowNumber,
+                      sheetSource: source.name,
+                      sheetTab: row.data.tabName,
+                  }),
+            rowHash: row.hash,
+            closedAt: null,
+            syncedAt,
+        };
+    }
+
+    /**
+     * Validate and normalize a raw record
+     *
+     * Values that are present but unusable are reported to `diagnostics`.
+     */
+    private normalize(
+        record: RawLoadRecord,
+        tabName: string,
+        diagnostics: RowDiagnostics
+    ): NormalizedLoad | null {
+        const { rowNumber } = record;
+        const vin = this.cleanString(record.vin);
+
+        if (!vin) {
+            return null; // Blank row
+        }
+
+        if (vin.length < 6) {
+            diagnostics.add({
+                tab: tabName,
+                row: rowNumber,
+                column: 'vin',
+                value: record.vin,
+                reason: 'invalid_vin',
+                severity: 'error',
+                message: 'VIN is shorter than 6 characters',
+            });
+            return null;
+        }
+
+        if (!/^[A-Za-z0-9]+$/.test(vin)) {
+            diagnostics.add({
+                tab: tabName,
+                row: rowNumber,
+                column: 'vin',
+                value: record.vin,
+                reason: 'invalid_vin',
+                severity: 'warning',
+                message: 'VIN contains characters other than letters and digits',
+            });
+        }
+
+        const driverPhone = this.normalizePhone(record.driverPhone);
+
+        if (!driverPhone && this.cleanString(record.driverPhone)) {
+            diagnostics.add({
+                tab: tabName,
+                row: rowNumber,
+                column: 'driverPhone',
+                value: record.driverPhone,
+                reason: 'invalid_phone',
+                severity: 'warning',
+                message: 'Not a 10-digit US phone number, ignored',
+            });
+        }
+
+        const pickupLocation = this.cleanString(record.pickupLocation);
+        const rawStatus = this.cleanString(record.status);
+        const status = normalizeLoadStatus(rawStatus);
+
+        if (rawStatus && !status) {
+            diagnostics.add({
+                tab: tabName,
+                row: rowNumber,
+                column: 'status',
+                value: rawStatus,
+                reason: 'unknown_status',
+                severity: 'warning',
+                message: 'Status not recognized, the load keeps its current status',
+            });
+        }
+
+        if (pickupLocation && !this.hasState(this.normalizeLocation(pickupLocation))) {
+            diagnostics.add({
+                tab: tabName,
+                row: rowNumber,
+                column: 'pickupLocation',
+                value: pickupLocation,
+                reason: 'unknown_location',
+                severity: 'warning',
+                message: 'No US state found in the location',
+            });
+        }
+
+        return {
+            tabName,
+            rowNumber,
+            vin,
+            loadId: vin.slice(-6).toUpperCase(), // Last 6 characters
+            pickupLocation,
+            deliveryLocation: this.cleanString(record.deliveryLocation),
+            rawStatus,
+            status,
+            driverPhone,
+        };
+    }
+
+    /**
+     * Clean and trim a string value
+     */
+    private cleanString(value: unknown): string | null {
+        if (value === undefined || value === null) return null;
+        const cleaned = String(value).trim();
+        return cleaned.length > 0 ? cleaned : null;
+    }
+
+    /**
+     * Normalize phone number to E.164 format
+     */
+    private normalizePhone(value: unknown): string | null {
+        if (!value) return null;
+
+        // Remove all non-digit characters
+        const digits = String(value).replace(/\D/g, '');
+
+        if (digits.length === 10) {
+            return `+1${digits}`; // Assume US number
+        }
+        if (digits.length === 11 && digits.startsWith('1')) {
+            return `+${digits}`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Whether a normalized location ends in a state ("Miami, FL" or "FL")
+     */
+    private hasState(normalizedLocation: string): boolean {
+        return /(^|, )[A-Z]{2}$/.test(normalizedLocation);
+    }
+
+    /**
+     * Create driver-location link from a load's driver phone
+     *
+     * Follows the multi-location rule:
+     * - If driver + location combo already exists: just update lastSeenAt
+     * - If driver exists but different location: create NEW link (keep both)
+     * - If driver doesn't exist: create driver + location link
+     *
+     * @returns true if a new driver-location was created, false if updated existing
+     */
+    private async linkDriverLocation(
+        source: LoadSource,
+        phoneNumber: string,
+        locationName: string,
+        loadId: string
+    ): Promise<boolean> {
+        try {
+            // Normalize location (e.g., "Miami" -> "Miami, FL")
+            const normalizedLocation = this.normalizeLocation(locationName);
+
+            // 1. Find or create Driver
+            let driver = await prisma.driver.findUnique({
+                where: { phoneNumber },
+            });
+
+            if (!driver) {
+                driver = await prisma.driver.create({
+                    data: {
+                        phoneNumber,
+                        lastLoadId: loadId,
+                    },
+                });
+                logger.info({ phoneNumber, loadId }, `${source.logPrefix} Created new driver`);
+            } else {
+                // Update lastLoadId on existing driver
+                driver = await prisma.driver.update({
+                    where: { id: driver.id },
+                    data: { lastLoadId: loadId },
+                });
+            }
+
+            // 2. Find or create Location
+            let location = await prisma.location.findUnique({
+                where: { name: normalizedLocation },
+            });
+
+            if (!location) {
+                // Parse city and state from location name
+                const parts = normalizedLocation.split(',').map((p) => p.trim());
+                const city = parts[0] || null;
+                const state = parts[1] || null;
+
+                location = await prisma.location.create({
+                    data: {
+                        name: normalizedLocation,
+                        city,
+                        state,
+                    },
+                });
+                logger.info(
+                    { locationName: normalizedLocation },
+                    `${source.logPrefix} Created new location`
+                );
+            }
+
+            // 2b. Enrich location with auction data if not already matched
+            if (location && !location.auctionName) {
+                const auctionMatch = await auctionLocationService.matchAddress(locationName);
+                if (auctionMatch) {
+                    location = await prisma.location.update({
+                        where: { id: location.id },
+                        data: {
+                            auctionName: auctionMatch.auctionName,
+                            auctionType: auctionMatch.auctionType,
+                            state: location.state || auctionMatch.state,
+                            city: location.city || auctionMatch.city,
+                            zipCode: location.zipCode || auctionMatch.zipCode,
+                        },
+                    });
+                    logger.debug(
+                        { locationName: normalizedLocation, auctionName: auctionMatch.auctionName },
+                        `${source.logPrefix} Enriched location with auction data`
+                    );
+                }
+            }
+
+            // 3. Check if this driver-location link already exists
+            const existingLink = await prisma.driverLocation.findUnique({
+                where: {
+                    driverId_locationId: {
+                        driverId: driver.id,
+                        locationId: location.id,
+                    },
+                },
+            });
+
+            if (existingLink) {
+                // Update existing link (same driver, same location)
+                await prisma.driverLocation.update({
+                    where: {
+                        driverId_locationId: {
+                            driverId: driver.id,
+                            locationId: location.id,
+                        },
+                    },
+                    data: {
+                        lastSeenAt: new Date(),
+                        matchCount: existingLink.matchCount + 1,
+                        source: source.driverLinkSource,
+                    },
+                });
+                logger.debug(
+                    { phoneNumber, location: normalizedLocation },
+                    `${source.logPrefix} Updated existing driver-location link`
+                );
+                return false; // Not a new creation
+            }
+
+            // Create NEW link (driver exists but working in a new location)
+            await prisma.driverLocation.create({
+                data: {
+                    driverId: driver.id,
+                    locationId: location.id,
+                    source: source.driverLinkSource,
+                    matchCount: 1,
+                },
+            });
+            logger.info(
+                { phoneNumber, location: normalizedLocation, loadId },
+                `${source.logPrefix} Created new driver-location link`
+            );
+            return true; // New creation
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error(
+                { error: errorMessage, phoneNumber, locationName },
+                `${source.logPrefix} Failed to create driver-location`
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Normalize location string
+     *
+     * Handles various formats including full addresses:
+     * "Miami, Florida" -> "Miami, FL"
+     * "Newark NJ" -> "Newark, NJ"
+     * "1234 Some Road, Hampton, VA 12345" -> "Hampton, VA"
+     * "NJ" -> "NJ"
+     */
+    private normalizeLocation(rawLocation: string): string {
+        let cleaned = rawLocation.trim();
+
+        // Step 0: Strip zip code from the end (5-digit pattern with optional extension)
+        cleaned = cleaned.replace(/\s*\d{5}(-\d{4})?\s*$/, '').trim();
+
+        // Step 1: If the string contains a comma, parse backwards for state + city
+        // This handles "1234 Some Road, Hampton, VA" by taking last part as state, second-to-last as city
+        if (cleaned.includes(',')) {
+            const parts = cleaned.split(',').map((p) => p.trim());
+            if (parts.length >= 2) {
+                const lastPart = parts[parts.length - 1]!.trim();
+                const secondLastPart = parts[parts.length - 2]!.trim();
+
+                // Check if last part is a state (2-letter code or full name)
+                let state = '';
+                if (/^[A-Za-z]{2}$/.test(lastPart)) {
+                    state = lastPart.toUpperCase();
+                } else {
+                    const abbrev = STATE_MAPPINGS[lastPart.toLowerCase()];
+                    if (abbrev) {
+                        state = abbrev;
+                    }
+                }
+
+                if (state) {
+                    // Extract city: strip leading street numbers/address components
+                    const city =
+                        secondLastPart
+                            .replace(
+                                /^\d+[\s\w]*(?:road|rd|street|st|avenue|ave|blvd|drive|dr|lane|ln|way|hwy|highway|pkwy|parkway)\s*/i,
+                                ''
+                            )
+                            .trim() || secondLastPart;
+                    return `${city}, ${state}`;
+                }
+            }
+        }
+
+        // Step 2: No comma -- try "City State" pattern (letters only, state as last word)
+        const cityStatePattern = /^([A-Za-z\s]+)\s+([A-Za-z]{2})$/;
+        const match = cleaned.match(cityStatePattern);
+        if (match) {
+            const city = match[1]!.trim();
+            const state = match[2]!.toUpperCase();
+            return `${city}, ${state}`;
+        }
+
+        // Step 3: Check for "City FullStateName" (e.g., "Atlanta Georgia")
+        const words = cleaned.split(/\s+/);
+        if (words.length >= 2) {
+            // Try matching last 1-2 words as a full state name
+            for (let len = Math.min(2, words.length - 1); len >= 1; len--) {
+                const possibleState = words.slice(-len).join(' ');
+                const abbrev = STATE_MAPPINGS[possibleState.toLowerCase()];
+                if (abbrev) {
+                    const city = words.slice(0, -len).join(' ');
+                    return `${city}, ${abbrev}`;
+                }
+            }
+        }
+
+        // Step 4: Check if entire string is a full state name
+        const asState = STATE_MAPPINGS[cleaned.toLowerCase()];
+        if (asState) {
+            return asState;
+        }
+
+        // Step 5: Check if it's a 2-letter state code
+        if (/^[A-Za-z]{2}$/.test(cleaned)) {
+            return cleaned.toUpperCase();
+        }
+
+        // Fallback: Return as-is
+        return cleaned;
+    }
+}
+
+export const loadIngestService = new LoadIngestService();
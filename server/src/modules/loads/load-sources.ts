@@ -0,0 +1,182 @@
+/**
+ * Load Sources
+ *
+ * Adapters that read loads from where they come in. Each one only maps its
+ * input to raw records; loadIngestService does the rest.
+ *
+ * - GoogleSheetsLoadSource: the monthly tabs of the 'loads' sheet source
+ * - FileLoadSource: an uploaded CSV or XLSX export (POST /loads/import)
+ * - JsonLoadSource: loads pushed by another system (POST /loads/push)
+ */
+
+import logger from '../../libs/logger.js';
+import { RowDiagnostics } from '../../libs/row-diagnostics.js';
+import {
+    type ResolvedColumns,
+    cellAt,
+    columnLetter,
+    isFilteredOut,
+    resolveColumns,
+} from '../../libs/sheet-mapping.js';
+import { type SpreadsheetFileType, readSpreadsheetFile } from '../../libs/spreadsheet-file.js';
+import { BadRequestError } from '../../utils/errors.js';
+import { sheetSourceService } from '../sheet-sources/sheet-sources.service.js';
+import type { SheetSourceField } from '../sheet-sources/sheet-sources.types.js';
+import type { PushedLoad } from './loads.schemas.js';
+import type { LoadSource, LoadSourceRead, RawLoadRecord } from './loads.types.js';
+
+/**
+ * Max stored length of a batch name (Load.sheetTab)
+ */
+const MAX_TAB_NAME_LENGTH = 100;
+
+/**
+ * Loads from the monthly tabs of the 'loads' sheet source
+ *
+ * Reads the current month's tab plus its `monthsBack` previous tabs, oldest
+ * first. Tabs are read completely, so loads deleted from them are closed.
+ */
+export class GoogleSheetsLoadSource implements LoadSource {
+    readonly name = 'loads';
+    readonly driverLinkSource = 'sheet_direct';
+    readonly logPrefix = '[SHEET SYNC]';
+
+    async read(): Promise<LoadSourceRead> {
+        const tabs = (await sheetSourceService.readTabs('loads')).filter((tab) => {
+            if (tab.rows.length > 0) return true;
+
+            // An empty read must not close every load of the tab
+            logger.warn({ tabName: tab.tabName }, 'No data found in sheet');
+            return false;
+        });
+
+        return {
+            complete: true,
+            batches: tabs.map((tab) => ({
+                tabName: tab.tabName,
+                diagnostics: tab.diagnostics,
+                records: tab.rows.map(({ rowNumber, cells }) =>
+                    toRecord(rowNumber, cells, tab.columns)
+                ),
+            })),
+        };
+    }
+}
+
+/**
+ * Loads from an uploaded CSV or XLSX file
+ *
+ * Columns are found by the headers of the 'loads' sheet source in the first
+ * row, and its row filters apply. A file is a partial export, so nothing is
+ * closed.
+ */
+export class FileLoadSource implements LoadSource {
+    readonly name = 'import';
+    readonly driverLinkSource = 'import_direct';
+    readonly logPrefix = '[LOAD IMPORT]';
+
+    constructor(
+        private readonly fileName: string,
+        private readonly type: SpreadsheetFileType,
+        private readonly buffer: Buffer
+    ) {}
+
+    /**
+     * @throws BadRequestError if the file cannot be read or has no VIN column
+     */
+    async read(): Promise<LoadSourceRead> {
+        let rows: string[][];
+        try {
+            rows = await readSpreadsheetFile(this.type, this.buffer);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new BadRequestError(`File could not be read: ${errorMessage}`);
+        }
+
+        const source = await sheetSourceService.getSource('loads');
+        const tabName = this.fileName.slice(0, MAX_TAB_NAME_LENGTH);
+        const headers = (rows[0] ?? []).map((value) => value.trim());
+        const { columns, missing } = resolveColumns(headers, source.columns);
+
+        if (columns.vin === null) {
+            throw new BadRequestError('VIN column not found in the first row of the file');
+        }
+
+        const diagnostics = new RowDiagnostics(tabName);
+        for (const header of missing) {
+            diagnostics.add({
+                row: 1,
+                column: header.field,
+                value: header.headers.join(' / '),
+                reason: 'column_not_found',
+                severity: 'warning',
+                message:
+                    header.index === null
+                        ? 'Header not found'
+                        : `Header not found, read column ${columnLetter(header.index)} instead`,
+            });
+        }
+
+        const records: RawLoadRecord[] = [];
+        for (let i = 1; i < rows.length; i++) {
+            const cells = rows[i]!;
+            if (isFilteredOut(cells, columns, source.filters)) continue;
+
+            records.push(toRecord(i + 1, cells, columns));
+        }
+
+        return {
+            complete: false,
+            batches: [{ tabName, records, diagnostics: diagnostics.items }],
+        };
+    }
+}
+
+/**
+ * Loads pushed as JSON by another system
+ *
+ * The batch name (e.g. the sending system) is stored as the tab of the
+ * loads. A push only adds and updates loads.
+ */
+export class JsonLoadSource implements LoadSource {
+    readonly name = 'api';
+    readonly driverLinkSource = 'api_direct';
+    readonly logPrefix = '[LOAD PUSH]';
+
+    constructor(
+        private readonly batchName: string,
+        private readonly loads: PushedLoad[]
+    ) {}
+
+    async read(): Promise<LoadSourceRead> {
+        return {
+            complete: false,
+            batches: [
+                {
+                    tabName: this.batchName.slice(0, MAX_TAB_NAME_LENGTH),
+                    records: this.loads.map((load, index) => ({ rowNumber: index + 1, ...load })),
+                    diagnostics: [],
+                },
+            ],
+        };
+    }
+}
+
+export const googleSheetsLoadSource = new GoogleSheetsLoadSource();
+
+/**
+ * Raw record of a row mapped through the 'loads' columns
+ */
+function toRecord(
+    rowNumber: number,
+    cells: unknown[],
+    columns: ResolvedColumns<SheetSourceField<'loads'>>
+): RawLoadRecord {
+    return {
+        rowNumber,
+        vin: cellAt(cells, columns.vin),
+        driverPhone: cellAt(cells, columns.driverPhone),
+        pickupLocation: cellAt(cells, columns.pickupLocation), // FROM column
+        status: cellAt(cells, columns.status),
+    };
+}
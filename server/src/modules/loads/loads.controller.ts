@@ -0,0 +1,150 @@
+/**
+ * Loads Controller
+ *
+ * HTTP request handlers for loads
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse } from '../../utils/pagination.js';
+import { successResponse } from '../../utils/response.js';
+import {
+    listCollisionsSchema,
+    listLoadsSchema,
+    loadRefSchema,
+    pushLoadsSchema,
+} from './loads.schemas.js';
+import { loadService } from './loads.service.js';
+
+/**
+ * Max size of an imported file
+ */
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+
+class LoadController {
+    /**
+     * GET /api/v1/loads
+     *
+     * Loads with filters (status, source, search, VIN, locations, driver, open)
+     */
+    async listLoads(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listLoadsSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await loadService.listLoads(parsed.data);
+
+        return reply.send(
+            paginatedResponse('Loads retrieved successfully', items, page, limit, totalItems)
+        );
+    }
+
+    /**
+     * GET /api/v1/loads/collisions
+     *
+     * Load IDs shared by several open loads
+     */
+    async listCollisions(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listCollisionsSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await loadService.listCollisions(parsed.data);
+
+        return reply.send(
+            paginatedResponse(
+                'Load ID collisions retrieved successfully',
+                items,
+                page,
+                limit,
+                totalItems
+            )
+        );
+    }
+
+    /**
+     * GET /api/v1/loads/:loadId
+     *
+     * A load by its ID, VIN or Load ID, with its driver and load inquiries
+     */
+    async getLoad(request: FastifyRequest, reply: FastifyReply) {
+        const { loadId } = this.parseRef(request.params);
+
+        const load = await loadService.getLoadDetail(loadId);
+
+        return reply.send(successResponse('Load retrieved successfully', load));
+    }
+
+    /**
+     * GET /api/v1/loads/:loadId/timeline
+     *
+     * Status history of a load
+     */
+    async getTimeline(request: FastifyRequest, reply: FastifyReply) {
+        const { loadId } = this.parseRef(request.params);
+
+        const timeline = await loadService.getTimeline(loadId);
+
+        return reply.send(successResponse('Load timeline retrieved successfully', timeline));
+    }
+
+    /**
+     * POST /api/v1/loads/import
+     *
+     * Ingest a CSV or XLSX export (multipart field "file")
+     */
+    async importFile(request: FastifyRequest, reply: FastifyReply) {
+        if (!request.isMultipart()) {
+            throw new BadRequestError('Upload the file as multipart/form-data');
+        }
+
+        const file = await request.file();
+        if (!file) {
+            throw new BadRequestError('No file uploaded');
+        }
+
+        let buffer: Buffer;
+        try {
+            buffer = await file.toBuffer();
+        } catch {
+            throw new BadRequestError(
+                `File is larger than ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB`
+            );
+        }
+
+        const result = await loadService.importFile(file.filename, buffer);
+
+        return reply.send(successResponse('Loads imported successfully', result));
+    }
+
+    /**
+     * POST /api/v1/loads/push
+     *
+     * Ingest loads sent as JSON
+     */
+    async pushLoads(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = pushLoadsSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid loads');
+        }
+
+        const result = await loadService.pushLoads(parsed.data);
+
+        return reply.send(successResponse('Loads pushed successfully', result));
+    }
+
+    private parseRef(params: unknown) {
+        const parsed = loadRefSchema.safeParse(params);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid load ID');
+        }
+
+        return parsed.data;
+    }
+}
+
+export const loadController = new LoadController();
@@ -0,0 +1,93 @@
+/**
+ * Loads Repository Tests
+ *
+ * The filters of the loads list, as Prisma where clauses.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../../libs/db';
+import { loadRepo } from './loads.repo';
+
+vi.mock('../../libs/db', () => ({
+    prisma: {
+        load: { findMany: vi.fn(), count: vi.fn() },
+    },
+}));
+
+function listWhere() {
+    return vi.mocked(prisma.load.findMany).mock.calls[0]![0]!.where;
+}
+
+describe('loadRepo.findMany', () => {
+    beforeEach(() => {
+        vi.mocked(prisma.load.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.load.count).mockResolvedValue(0);
+    });
+
+    it('matches part of a VIN and the locations', async () => {
+        await loadRepo.findMany({
+            vin: '82633A',
+            pickupLocation: 'Dallas',
+            deliveryLocation: 'Newark',
+            skip: 0,
+            take: 20,
+        });
+
+        expect(listWhere()).toEqual({
+            AND: [
+                { vin: { contains: '82633A' } },
+                { pickupLocation: { contains: 'Dallas' } },
+                { deliveryLocation: { contains: 'Newark' } },
+            ],
+        });
+    });
+
+    it('searches the VIN and the Load ID together', async () => {
+        await loadRepo.findMany({ search: '004352', skip: 0, take: 20 });
+
+        expect(listWhere()).toEqual({
+            AND: [{ OR: [{ vin: { contains: '004352' } }, { loadId: { contains: '004352' } }] }],
+        });
+    });
+
+    it('matches a driver by name, and by phone once three digits are given', async () => {
+        await loadRepo.findMany({ driver: '(555) 012', skip: 0, take: 20 });
+
+        expect(listWhere()).toEqual({
+            AND: [
+                {
+                    OR: [
+                        { driver: { name: { contains: '(555) 012' } } },
+                        { driverPhone: { contains: '555012' } },
+                        { driver: { phoneNumber: { contains: '555012' } } },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('matches a driver by name only when too few digits are given', async () => {
+        await loadRepo.findMany({ driver: 'Joe 5', skip: 0, take: 20 });
+
+        expect(listWhere()).toEqual({
+            AND: [{ OR: [{ driver: { name: { contains: 'Joe 5' } } }] }],
+        });
+    });
+
+    it('filters open and closed loads, status and source', async () => {
+        await loadRepo.findMany({
+            status: 'picked_up',
+            source: 'import',
+            open: false,
+            skip: 40,
+            take: 20,
+        });
+
+        expect(listWhere()).toEqual({
+            AND: [{ status: 'picked_up' }, { sheetSource: 'import' }, { closedAt: { not: null } }],
+        });
+        expect(prisma.load.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({ skip: 40, take: 20 })
+        );
+    });
+});
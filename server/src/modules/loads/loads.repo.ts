@@ -0,0 +1,202 @@
+/**
+ * Loads Repository
+ *
+ * Database queries for loads and their status history
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type { LoadFilters, LoadStatusEventData } from './loads.types.js';
+
+const driverSelect = {
+    select: { id: true, phoneNumber: true, name: true, companyName: true },
+} as const;
+
+class LoadRepo {
+    /**
+     * List loads (most recently synced first)
+     */
+    async findMany(filters: LoadFilters & { skip: number; take: number }) {
+        const and: Prisma.LoadWhereInput[] = [];
+
+        if (filters.status) and.push({ status: filters.status });
+        if (filters.source) and.push({ sheetSource: filters.source });
+        if (filters.open !== undefined) {
+            and.push({ closedAt: filters.open ? null : { not: null } });
+        }
+        if (filters.search) {
+            and.push({
+                OR: [
+                    { vin: { contains: filters.search } },
+                    { loadId: { contains: filters.search } },
+                ],
+            });
+        }
+        if (filters.vin) and.push({ vin: { contains: filters.vin } });
+        if (filters.pickupLocation) {
+            and.push({ pickupLocation: { contains: filters.pickupLocation } });
+        }
+        if (filters.deliveryLocation) {
+            and.push({ deliveryLocation: { contains: filters.deliveryLocation } });
+        }
+        if (filters.driverId) and.push({ driverId: filters.driverId });
+        if (filters.driver) {
+            const digits = filters.driver.replace(/\D/g, '');
+            and.push({
+                OR: [
+                    { driver: { name: { contains: filters.driver } } },
+                    ...(digits.length >= 3
+                        ? [
+                              { driverPhone: { contains: digits } },
+                              { driver: { phoneNumber: { contains: digits } } },
+                          ]
+                        : []),
+                ],
+            });
+        }
+
+        const where: Prisma.LoadWhereInput = { AND: and };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.load.findMany({
+                where,
+                include: { driver: driverSelect },
+                orderBy: { syncedAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.load.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Find a load by ID, including its driver
+     */
+    async findById(id: string) {
+        return prisma.load.findUnique({
+            where: { id },
+            include: { driver: driverSelect },
+        });
+    }
+
+    /**
+     * Find a load by its full VIN, including its driver
+     */
+    async findByVin(vin: string) {
+        return prisma.load.findUnique({
+            where: { vin },
+            include: { driver: driverSelect },
+        });
+    }
+
+    /**
+     * Loads with a Load ID (last 6 of VIN), open and most recent first
+     */
+    async findByLoadId(loadId: string) {
+        return prisma.load.findMany({
+            where: { loadId },
+            include: { driver: driverSelect },
+            orderBy: [{ closedAt: { sort: 'asc', nulls: 'first' } }, { syncedAt: 'desc' }],
+        });
+    }
+
+    /**
+     * Open loads of several Load IDs
+     */
+    async findOpenByLoadIds(loadIds: string[]) {
+        return prisma.load.findMany({
+            where: { loadId: { in: loadIds }, closedAt: null },
+            select: { id: true, loadId: true, pickupLocation: true, deliveryLocation: true },
+        });
+    }
+
+    /**
+     * Load IDs shared by several open loads, with those loads (by Load ID)
+     */
+    async findCollisions(filters: { skip: number; take: number }) {
+        const where: Prisma.LoadWhereInput = { closedAt: null };
+        const having: Prisma.LoadScalarWhereWithAggregatesInput = {
+            loadId: { _count: { gt: 1 } },
+        };
+
+        const [groups, allGroups] = await Promise.all([
+            prisma.load.groupBy({
+                by: ['loadId'],
+                where,
+                having,
+                orderBy: { loadId: 'asc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.load.groupBy({ by: ['loadId'], where, having }),
+        ]);
+
+        const loads = await prisma.load.findMany({
+            where: { ...where, loadId: { in: groups.map((g) => g.loadId) } },
+            include: { driver: driverSelect },
+            orderBy: { syncedAt: 'desc' },
+        });
+
+        const items = groups.map((group) => ({
+            loadId: group.loadId,
+            loads: loads.filter((l) => l.loadId === group.loadId),
+        }));
+
+        return { items, totalItems: allGroups.length };
+    }
+
+    /**
+     * Status history of a load (oldest first)
+     */
+    async findStatusEvents(loadId: string) {
+        return prisma.loadStatusEvent.findMany({
+            where: { loadId },
+            orderBy: [{ occurredAt: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    /**
+     * Whether a message already moved a load
+     */
+    async hasMessageEvent(loadId: string, messageId: string): Promise<boolean> {
+        const event = await prisma.loadStatusEvent.findUnique({
+            where: { loadId_messageId: { loadId, messageId } },
+            select: { id: true },
+        });
+
+        return event !== null;
+    }
+
+    /**
+     * Store status changes (already applied to the loads)
+     *
+     * @returns Number of events stored
+     */
+    async createStatusEvents(events: LoadStatusEventData[]): Promise<number> {
+        if (events.length === 0) return 0;
+
+        const result = await prisma.loadStatusEvent.createMany({
+            data: events,
+            skipDuplicates: true,
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Change the status of a load and record the change
+     */
+    async changeStatus(event: LoadStatusEventData): Promise<void> {
+        await prisma.$transaction([
+            prisma.load.update({
+                where: { id: event.loadId },
+                data: { status: event.toStatus, statusChangedAt: event.occurredAt },
+            }),
+            prisma.loadStatusEvent.create({ data: event }),
+        ]);
+    }
+}
+
+export const loadRepo = new LoadRepo();
@@ -0,0 +1,73 @@
+/**
+ * Loads Routes
+ *
+ * API endpoints for loads
+ * Reading is open to all users; ingesting loads requires ADMIN role
+ */
+
+import multipart from '@fastify/multipart';
+import type { FastifyInstance } from 'fastify';
+import { MAX_IMPORT_FILE_BYTES, loadController } from './loads.controller.js';
+
+/**
+ * Register load routes
+ */
+export async function loadRoutes(app: FastifyInstance) {
+    await app.register(multipart, {
+        limits: { fileSize: MAX_IMPORT_FILE_BYTES, files: 1 },
+    });
+
+    /**
+     * GET /api/v1/loads
+     * List loads (filter by status, source, VIN, locations, driver, open)
+     */
+    app.get('/loads', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadController.listLoads.bind(loadController),
+    });
+
+    /**
+     * GET /api/v1/loads/collisions
+     * Load IDs shared by several open loads
+     */
+    app.get('/loads/collisions', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadController.listCollisions.bind(loadController),
+    });
+
+    /**
+     * GET /api/v1/loads/:loadId
+     * A load by its ID, full VIN or Load ID (last 6 of VIN), with its driver and load inquiries
+     */
+    app.get('/loads/:loadId', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadController.getLoad.bind(loadController),
+    });
+
+    /**
+     * GET /api/v1/loads/:loadId/timeline
+     * Status history of a load
+     */
+    app.get('/loads/:loadId/timeline', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: loadController.getTimeline.bind(loadController),
+    });
+
+    /**
+     * POST /api/v1/loads/import
+     * Import a CSV or XLSX export of loads
+     */
+    app.post('/loads/import', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: loadController.importFile.bind(loadController),
+    });
+
+    /**
+     * POST /api/v1/loads/push
+     * Push loads as JSON ({ source, loads: [{ vin, driverPhone, ... }] })
+     */
+    app.post('/loads/push', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: loadController.pushLoads.bind(loadController),
+    });
+}
@@ -0,0 +1,64 @@
+/**
+ * Loads Schemas
+ *
+ * Zod validation schemas for load endpoints
+ */
+
+import { z } from 'zod';
+import { LOAD_STATUSES } from '../../libs/load-status.js';
+
+/**
+ * Max loads in one push
+ */
+export const MAX_PUSHED_LOADS = 1000;
+
+const optionalText = z.union([z.string().max(500), z.number()]).nullish();
+
+export const pushedLoadSchema = z.object({
+    vin: z.string().trim().min(1, 'VIN is required').max(64),
+    driverPhone: optionalText,
+    pickupLocation: optionalText,
+    deliveryLocation: optionalText,
+    status: optionalText,
+});
+
+export const pushLoadsSchema = z.object({
+    /** Name of the sending system, stored as the tab of its loads */
+    source: z.string().trim().min(1).max(100).default('push'),
+    loads: z
+        .array(pushedLoadSchema)
+        .min(1, 'At least one load is required')
+        .max(MAX_PUSHED_LOADS, `At most ${MAX_PUSHED_LOADS} loads per push`),
+});
+
+export const loadRefSchema = z.object({
+    /** Load ID (last 6 of VIN), full VIN or the load's ID */
+    loadId: z.string().trim().min(1).max(64),
+});
+
+export const listLoadsSchema = z.object({
+    status: z.enum(LOAD_STATUSES).optional(),
+    source: z.string().trim().min(1).max(50).optional(),
+    search: z.string().trim().min(1).max(64).optional(),
+    vin: z.string().trim().min(3, 'Enter at least 3 characters of the VIN').max(64).optional(),
+    pickupLocation: z.string().trim().min(1).max(100).optional(),
+    deliveryLocation: z.string().trim().min(1).max(100).optional(),
+    driverId: z.string().uuid().optional(),
+    driver: z.string().trim().min(1).max(100).optional(),
+    open: z
+        .enum(['true', 'false'])
+        .transform((value) => value === 'true')
+        .optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const listCollisionsSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type PushedLoad = z.infer<typeof pushedLoadSchema>;
+export type PushLoadsInput = z.infer<typeof pushLoadsSchema>;
+export type ListLoadsInput = z.infer<typeof listLoadsSchema>;
+export type ListCollisionsInput = z.infer<typeof listCollisionsSchema>;
@@ -0,0 +1,69 @@
+/**
+ * Loads Service Tests
+ *
+ * Load lookups by ID, full VIN or Load ID (the last 6 of the VIN) and the
+ * loads list, against a mocked loads repository.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotFoundError } from '../../utils/errors';
+import { loadRepo } from './loads.repo';
+import { loadService } from './loads.service';
+
+vi.mock('./loads.repo', () => ({
+    loadRepo: {
+        findMany: vi.fn(),
+        findById: vi.fn(),
+        findByVin: vi.fn(),
+        findByLoadId: vi.fn(),
+    },
+}));
+
+vi.mock('../load-inquiries/load-inquiries.service', () => ({
+    loadInquiryService: { getByLoadId: vi.fn() },
+}));
+
+const load = { id: 'load-1', vin: '1HGCM82633A004352', loadId: '004352' };
+
+describe('loadService.getLoad', () => {
+    beforeEach(() => {
+        vi.mocked(loadRepo.findById).mockResolvedValue(null);
+        vi.mocked(loadRepo.findByVin).mockResolvedValue(null);
+        vi.mocked(loadRepo.findByLoadId).mockResolvedValue([]);
+    });
+
+    it('finds a load by its full VIN, whatever the case', async () => {
+        vi.mocked(loadRepo.findByVin).mockResolvedValue(load as never);
+
+        await expect(loadService.getLoad(' 1hgcm82633a004352 ')).resolves.toBe(load);
+        expect(loadRepo.findByVin).toHaveBeenCalledWith('1HGCM82633A004352');
+        expect(loadRepo.findByLoadId).not.toHaveBeenCalled();
+    });
+
+    it('finds a load by the last 6 of its VIN', async () => {
+        const older = { ...load, id: 'load-0' };
+        vi.mocked(loadRepo.findByLoadId).mockResolvedValue([load, older] as never);
+
+        await expect(loadService.getLoad('004352')).resolves.toBe(load);
+        expect(loadRepo.findByLoadId).toHaveBeenCalledWith('004352');
+    });
+
+    it('throws NotFoundError when nothing matches', async () => {
+        await expect(loadService.getLoad('99999')).rejects.toThrow(NotFoundError);
+    });
+});
+
+describe('loadService.listLoads', () => {
+    it('passes the filters on with the page as an offset', async () => {
+        vi.mocked(loadRepo.findMany).mockResolvedValue({ items: [], totalItems: 0 });
+
+        await loadService.listLoads({ vin: '82633A', driver: 'Joe', page: 3, limit: 20 });
+
+        expect(loadRepo.findMany).toHaveBeenCalledWith({
+            vin: '82633A',
+            driver: 'Joe',
+            skip: 40,
+            take: 20,
+        });
+    });
+});
@@ -0,0 +1,239 @@
+/**
+ * Loads Service
+ *
+ * Load list, detail and status timeline; load ingestion from uploaded files
+ * and JSON pushes (the Google Sheets sync runs as the 'sheet-sync' job); and
+ * status changes drivers report by SMS.
+ */
+
+import { extractLoadIdsFromText } from '../../libs/load-id-extractor.js';
+import { detectStatusKeyword, isStatusAdvance, toLoadStatus } from '../../libs/load-status.js';
+import logger from '../../libs/logger.js';
+import { spreadsheetFileType } from '../../libs/spreadsheet-file.js';
+import { BadRequestError, NotFoundError } from '../../utils/errors.js';
+import { calculateOffset } from '../../utils/pagination.js';
+import { loadInquiryService } from '../load-inquiries/load-inquiries.service.js';
+import { loadReviewRepo } from '../load-reviews/load-reviews.repo.js';
+import { loadIngestService } from './load-ingest.service.js';
+import { FileLoadSource, JsonLoadSource } from './load-sources.js';
+import { loadRepo } from './loads.repo.js';
+import type { ListCollisionsInput, ListLoadsInput, PushLoadsInput } from './loads.schemas.js';
+import type { StatusMessage } from './loads.types.js';
+
+class LoadService {
+    /**
+     * List loads with filters
+     */
+    async listLoads(input: ListLoadsInput) {
+        const { page, limit, ...filters } = input;
+
+        return loadRepo.findMany({
+            ...filters,
+            skip: calculateOffset(page, limit),
+            take: limit,
+        });
+    }
+
+    /**
+     * Find a load by its ID, full VIN or Load ID (last 6 of VIN)
+     *
+     * If several loads share a Load ID, the open, most recently synced one is
+     * returned.
+     *
+     * @throws NotFoundError if no load matches
+     */
+    async getLoad(ref: string) {
+        const normalized = ref.trim().toUpperCase();
+        const load =
+            (await loadRepo.findById(ref)) ??
+            (await loadRepo.findByVin(normalized)) ??
+            (await this.findLoadByLoadId(normalized));
+
+        if (!load) {
+            throw new NotFoundError('Load not found');
+        }
+
+        return load;
+    }
+
+    /**
+     * Load detail: the load, its matched driver and the drivers who texted
+     * about its Load ID
+     *
+     * @throws NotFoundError if no load matches
+     */
+    async getLoadDetail(ref: string) {
+        const load = await this.getLoad(ref);
+        const inquiries = await loadInquiryService.getByLoadId(load.loadId);
+
+        return { ...load, inquiries };
+    }
+
+    /**
+     * Find the load a Load ID (last 6 of VIN) refers to: the open, most
+     * recently synced one
+     */
+    async findLoadByLoadId(loadId: string) {
+        const loads = await this.findLoadsByLoadId(loadId);
+        return loads[0] ?? null;
+    }
+
+    /**
+     * All loads sharing a Load ID (open and most recent first)
+     */
+    async findLoadsByLoadId(loadId: string) {
+        return loadRepo.findByLoadId(loadId.trim().toUpperCase());
+    }
+
+    /**
+     * Open loads of several Load IDs
+     */
+    async findOpenLoadsByLoadIds(loadIds: string[]) {
+        if (loadIds.length === 0) return [];
+        return loadRepo.findOpenByLoadIds(loadIds);
+    }
+
+    /**
+     * Load IDs shared by several open loads, with those loads
+     */
+    async listCollisions(input: ListCollisionsInput) {
+        const { page, limit } = input;
+
+        return loadRepo.findCollisions({ skip: calculateOffset(page, limit), take: limit });
+    }
+
+    /**
+     * Status history of a load (oldest first)
+     *
+     * @throws NotFoundError if no load matches
+     */
+    async getTimeline(ref: string) {
+        const load = await this.getLoad(ref);
+        const events = await loadRepo.findStatusEvents(load.id);
+
+        return {
+            load: {
+                id: load.id,
+                vin: load.vin,
+                loadId: load.loadId,
+                status: load.status,
+                rawStatus: load.rawStatus,
+                statusChangedAt: load.statusChangedAt,
+                closedAt: load.closedAt,
+            },
+            events,
+        };
+    }
+
+    /**
+     * Ingest a CSV or XLSX export
+     *
+     * @throws BadRequestError if the file type is not supported
+     */
+    async importFile(fileName: string, buffer: Buffer) {
+        const type = spreadsheetFileType(fileName);
+        if (!type) {
+            throw new BadRequestError('Only .csv and .xlsx files can be imported');
+        }
+
+        return loadIngestService.ingest(new FileLoadSource(fileName, type, buffer));
+    }
+
+    /**
+     * Ingest loads pushed as JSON
+     */
+    async pushLoads(input: PushLoadsInput) {
+        return loadIngestService.ingest(new JsonLoadSource(input.source, input.loads));
+    }
+
+    /**
+     * Apply status keywords of a driver's messages ("picked up", "delivered")
+     *
+     * A message is about the Load IDs it mentions, or else about the one
+     * Load ID mentioned last in the conversation. A keyword only moves a load
+     * forward, only if the message is newer than the load, and each message
+     * moves a load once. A Load ID shared by several open loads is only
+     * applied to the load a dispatcher picked for the driver (see
+     * modules/load-reviews).
+     *
+     * @param messages - Conversation messages, oldest first
+     * @returns Number of loads moved
+     */
+    async applySmsStatusKeywords(phoneNumber: string, messages: StatusMessage[]): Promise<number> {
+        let contextLoadIds: string[] = [];
+        let moved = 0;
+
+        for (const message of messages) {
+            const text = message.text ?? '';
+            const mentioned = extractLoadIdsFromText(text);
+            if (mentioned.length > 0) contextLoadIds = mentioned;
+
+            if (message.direction !== 'incoming') continue;
+
+            const status = detectStatusKeyword(text);
+            if (!status) continue;
+
+            const loadIds =
+                mentioned.length > 0
+                    ? mentioned
+                    : contextLoadIds.length === 1
+                      ? contextLoadIds
+                      : [];
+            const sentAt = new Date(message.timestamp);
+
+            for (const loadId of loadIds) {
+                const loads = (await loadRepo.findByLoadId(loadId)).filter((l) => !l.closedAt);
+                const load = await this.pickOpenLoad(phoneNumber, loadId, loads);
+                if (!load || sentAt < load.createdAt) continue;
+
+                const current = toLoadStatus(load.status);
+                if (!isStatusAdvance(current, status)) continue;
+                if (await loadRepo.hasMessageEvent(load.id, message.id)) continue;
+
+                try {
+                    await loadRepo.changeStatus({
+                        loadId: load.id,
+                        fromStatus: current,
+                        toStatus: status,
+                        source: 'sms',
+                        rawValue: text.slice(0, 500),
+                        messageId: message.id,
+                        phoneNumber,
+                        occurredAt: sentAt,
+                    });
+                    moved++;
+
+                    logger.info(
+                        { loadId, phoneNumber, from: current, to: status },
+                        '[LOAD STATUS] Status changed by SMS'
+                    );
+                } catch (error: unknown) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    logger.warn(
+                        { loadId, messageId: message.id, error: errorMessage },
+                        '[LOAD STATUS] WARN: Failed to apply SMS status'
+                    );
+                }
+            }
+        }
+
+        return moved;
+    }
+
+    /**
+     * The open load a driver's Load ID refers to: the only one, or the one a
+     * dispatcher picked for the driver
+     */
+    private async pickOpenLoad<T extends { id: string }>(
+        phoneNumber: string,
+        loadId: string,
+        loads: T[]
+    ): Promise<T | undefined> {
+        if (loads.length <= 1) return loads[0];
+
+        const picked = await loadReviewRepo.findResolvedLoadId(phoneNumber, loadId);
+        return loads.find((l) => l.id === picked);
+    }
+}
+
+export const loadService = new LoadService();
@@ -0,0 +1,124 @@
+/**
+ * Loads Module Types
+ */
+
+import type { ErrorSample } from '../../libs/error-samples.js';
+import type { LoadStatus } from '../../libs/load-status.js';
+import type { RowDiagnostic } from '../../libs/row-diagnostics.js';
+
+/**
+ * A load as an adapter reads it, before normalization
+ *
+ * Values are raw (cell text, JSON values); validation, phone normalization
+ * and location checks happen in the shared ingest path.
+ */
+export interface RawLoadRecord {
+    /** 1-based row of the record in its batch (sheet row, file row, array position) */
+    rowNumber: number;
+    vin: unknown;
+    driverPhone?: unknown;
+    pickupLocation?: unknown;
+    deliveryLocation?: unknown;
+    status?: unknown;
+}
+
+/**
+ * Records read together: a sheet tab, an uploaded file or one push
+ */
+export interface LoadSourceBatch {
+    /** Stored as Load.sheetTab; with the row number it locates the record */
+    tabName: string;
+    records: RawLoadRecord[];
+    /** Findings of the adapter itself, e.g. missing headers */
+    diagnostics: RowDiagnostic[];
+}
+
+export interface LoadSourceRead {
+    batches: LoadSourceBatch[];
+    /**
+     * Whether each batch is the complete content of its tab: open loads of
+     * these tabs that are no longer in them are closed
+     */
+    complete: boolean;
+}
+
+/**
+ * Where loads come from (Google Sheets, file upload, JSON push)
+ *
+ * Every source feeds loadIngestService.ingest(), so all of them are
+ * validated, hashed and written the same way.
+ */
+export interface LoadSource {
+    /** Stored as Load.sheetSource on the loads it writes */
+    readonly name: string;
+    /** DriverLocation.source of the driver links it creates */
+    readonly driverLinkSource: string;
+    /** Log prefix, e.g. "[SHEET SYNC]" */
+    readonly logPrefix: string;
+    read(): Promise<LoadSourceRead>;
+}
+
+/**
+ * Result of ingesting a load source
+ */
+export interface LoadIngestResult {
+    /** Valid records read */
+    synced: number;
+    added: number;
+    updated: number;
+    unchanged: number;
+    /** Loads closed because their record was deleted from its tab */
+    removed: number;
+    errors: number;
+    driversCreated: number;
+    issues: number;
+    errorSamples: ErrorSample[];
+    diagnostics: RowDiagnostic[];
+}
+
+/**
+ * Filters of the load list
+ */
+export interface LoadFilters {
+    status?: LoadStatus;
+    /** Load.sheetSource, e.g. 'loads' or 'import' */
+    source?: string;
+    /** Part of the VIN or Load ID */
+    search?: string;
+    /** Part of the VIN */
+    vin?: string;
+    /** Part of the pickup location */
+    pickupLocation?: string;
+    /** Part of the delivery location */
+    deliveryLocation?: string;
+    /** Matched driver */
+    driverId?: string;
+    /** Part of the driver's phone (matched or from the sheet) or name */
+    driver?: string;
+    /** true = open loads only, false = closed loads only */
+    open?: boolean;
+}
+
+/**
+ * A status change to store in the load's history
+ */
+export interface LoadStatusEventData {
+    loadId: string;
+    fromStatus: LoadStatus;
+    toStatus: LoadStatus;
+    source: string;
+    rawValue?: string | null;
+    messageId?: string | null;
+    phoneNumber?: string | null;
+    occurredAt: Date;
+}
+
+/**
+ * A stored message as the SMS status keywords read it
+ */
+export interface StatusMessage {
+    id: string;
+    direction: string;
+    text?: string;
+    timestamp: Date | string;
+}
@@ -1,29 +1,22 @@
 /**
  * Pickup Sync Service
  *
- * Reads Google Sheet data, filters for today's pickups (column C = today's day),
- * excludes rows with CNC in column E, and upserts matching rows to the database.
+ * Reads Google Sheet data, filters for today's pickups (pickup day = today's day),
+ * skips rows excluded by the source's filters (CNC rows by default), and upserts
+ * matching rows to the database. Columns come from the 'pickups' sheet source.
  */
 
-import { googleSheetsClient } from '../../libs/google-sheets.js';
-import { env } from '../../config/env.js';
 import logger from '../../libs/logger.js';
+import { addErrorSample } from '../../libs/error-samples.js';
+import { RowDiagnostics } from '../../libs/row-diagnostics.js';
+import { cellAt, type ResolvedColumns } from '../../libs/sheet-mapping.js';
+import { sheetSourceService } from '../sheet-sources/sheet-sources.service.js';
+import type { SheetSourceField } from '../sheet-sources/sheet-sources.types.js';
 import { pickupRepo } from './pickups.repo.js';
 import type { PickupRow, SyncResult } from './pickups.types.js';
+import type { ErrorSample } from '../../libs/error-samples.js';
 
 class PickupSyncService {
-    // Month abbreviations matching Google Sheet tab names
-    private readonly MONTH_ABBREVIATIONS = [
-        'JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN',
-        'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC',
-    ] as const;
-
-    // Column indices (0-based)
-    private readonly VIN_COLUMN = 0;             // Column A: VIN
-    private readonly PICKUP_COLUMN = 2;          // Column C: Pickup day
-    private readonly CNC_CHECK_COLUMN = 4;       // Column E: CNC flag
-    private readonly DRIVER_PHONE_COLUMN = 6;    // Column G: Driver Phone Number
-
     /**
      * Returns the "logical today" date, where the day resets at 2 AM.
      * Between midnight and 2 AM, the logical day is still the previous calendar day.
@@ -38,63 +31,41 @@ class PickupSyncService {
         return now;
     }
 
-    /**
-     * Get the sheet range for the current logical month
-     * e.g., February -> 'FEB!A:Z'
-     */
-    private getCurrentSheetRange(): string {
-        const monthIndex = this.getLogicalDate().getMonth();
-        const monthAbbrev = this.MONTH_ABBREVIATIONS[monthIndex];
-        return `${monthAbbrev}!A:Z`;
-    }
-
     /**
      * Sync today's pickups from Google Sheet to database
      */
     async syncPickupsToday(): Promise<SyncResult> {
-        const sheetId = env.GOOGLE_SHEET_ID;
-
-        if (!sheetId) {
-            logger.warn('[PICKUP SYNC] GOOGLE_SHEET_ID not configured, skipping');
-            return { synced: 0, skipped: 0, errors: 0 };
-        }
-
         try {
-            const sheetRange = this.getCurrentSheetRange();
-            const rawData = await googleSheetsClient.getSheetData(sheetId, sheetRange);
+            const logicalDate = this.getLogicalDate();
+            const tab = await sheetSourceService.readTab('pickups', logicalDate);
+
+            if (!tab) {
+                return this.emptyResult();
+            }
 
-            if (!rawData || rawData.length === 0) {
-                logger.warn('[PICKUP SYNC] No data found in sheet');
-                return { synced: 0, skipped: 0, errors: 0 };
+            if (tab.rows.length === 0 && tab.filtered === 0) {
+                logger.warn({ tabName: tab.tabName }, '[PICKUP SYNC] No data found in sheet');
+                return this.emptyResult();
             }
 
-            // Skip header row
-            const dataRows = rawData.slice(1);
-            const todayDay = this.getLogicalDate().getDate();
+            const todayDay = logicalDate.getDate();
 
             let synced = 0;
-            let skipped = 0;
+            // Rows excluded by the source filters (e.g. CNC)
+            let skipped = tab.filtered;
             let errors = 0;
+            const errorSamples: ErrorSample[] = [];
+            const diagnostics = new RowDiagnostics(tab.tabName, tab.diagnostics);
 
-            for (let i = 0; i < dataRows.length; i++) {
+            for (const { rowNumber, cells } of tab.rows) {
                 try {
-                    const row = dataRows[i];
-                    if (!row) continue;
-
-                    const parsed = this.parseRow(row, i + 2); // +2: 1-indexed + header skip
+                    const parsed = this.parseRow(cells, rowNumber, tab.columns, diagnostics);
 
                     if (!parsed) {
                         skipped++;
                         continue;
                     }
 
-                    // Check CNC exclusion (column E)
-                    const cncValue = this.cleanString(row[this.CNC_CHECK_COLUMN]);
-                    if (cncValue && cncValue.toUpperCase() === 'CNC') {
-                        skipped++;
-                        continue;
-                    }
-
                     // Check pickup day matches today
                     if (parsed.pickupDay !== todayDay) {
                         skipped++;
@@ -105,13 +76,31 @@ class PickupSyncService {
                     synced++;
                 } catch (error: unknown) {
                     const message = error instanceof Error ? error.message : String(error);
-                    logger.error({ error: message, rowIndex: i }, '[PICKUP SYNC] Failed to sync row');
+                    logger.error({ error: message, rowNumber }, '[PICKUP SYNC] Failed to sync row');
                     errors++;
+                    addErrorSample(errorSamples, { row: rowNumber, error: message });
+                    diagnostics.add({
+                        row: rowNumber,
+                        reason: 'row_failed',
+                        severity: 'error',
+                        message,
+                    });
                 }
             }
 
-            logger.info({ synced, skipped, errors, logicalDay: todayDay }, '[PICKUP SYNC] Sync completed');
-            return { synced, skipped, errors };
+            const issues = diagnostics.total;
+            logger.info(
+                { synced, skipped, errors, issues, logicalDay: todayDay },
+                '[PICKUP SYNC] Sync completed'
+            );
+            return {
+                synced,
+                skipped,
+                errors,
+                issues,
+                errorSamples,
+                diagnostics: diagnostics.items,
+            };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
             logger.error({ error: message }, '[PICKUP SYNC] Failed to sync pickups');
@@ -119,26 +108,76 @@ class PickupSyncService {
         }
     }
 
+    private emptyResult(): SyncResult {
+        return { synced: 0, skipped: 0, errors: 0, issues: 0, errorSamples: [], diagnostics: [] };
+    }
+
     /**
      * Parse a raw sheet row into a PickupRow
+     *
+     * Values that are present but unusable are reported to `diagnostics`.
      */
-    private parseRow(row: unknown[], rowNumber: number): PickupRow | null {
-        const vin = this.cleanString(row[this.VIN_COLUMN]);
-        if (!vin || vin.length < 6) {
+    private parseRow(
+        row: unknown[],
+        rowNumber: number,
+        columns: ResolvedColumns<SheetSourceField<'pickups'>>,
+        diagnostics: RowDiagnostics
+    ): PickupRow | null {
+        const rawVin = cellAt(row, columns.vin);
+        const vin = this.cleanString(rawVin);
+        if (!vin) {
+            return null;
+        }
+
+        if (vin.length < 6) {
+            diagnostics.add({
+                row: rowNumber,
+                column: 'vin',
+                value: rawVin,
+                reason: 'invalid_vin',
+                severity: 'error',
+                message: 'VIN is shorter than 6 characters',
+            });
             return null;
         }
 
-        const pickupValue = this.cleanString(row[this.PICKUP_COLUMN]);
-        const pickupDay = parseInt(pickupValue || '', 10);
+        const pickupValue = this.cleanString(cellAt(row, columns.pickupDay));
+        if (!pickupValue) {
+            return null; // Not scheduled yet
+        }
+
+        const pickupDay = Number.parseInt(pickupValue, 10);
         if (isNaN(pickupDay) || pickupDay < 1 || pickupDay > 31) {
+            diagnostics.add({
+                row: rowNumber,
+                column: 'pickupDay',
+                value: pickupValue,
+                reason: 'invalid_pickup_day',
+                severity: 'error',
+                message: 'Pickup day must be a day of the month (1-31)',
+            });
             return null;
         }
 
+        const rawPhone = cellAt(row, columns.driverPhone);
+        const driverPhone = this.normalizePhone(rawPhone);
+
+        if (!driverPhone && this.cleanString(rawPhone)) {
+            diagnostics.add({
+                row: rowNumber,
+                column: 'driverPhone',
+                value: rawPhone,
+                reason: 'invalid_phone',
+                severity: 'warning',
+                message: 'Not a 10-digit US phone number, ignored',
+            });
+        }
+
         return {
             rowNumber,
             vin,
             pickupDay,
-            driverPhone: this.normalizePhone(row[this.DRIVER_PHONE_COLUMN]),
+            driverPhone,
         };
     }
 
@@ -11,8 +11,8 @@ class PickupRepo {
     /**
      * Get all pickup records with driver opt-out status
      *
-     * Cross-references driverPhone against the drivers table to check
-     * if the driver has opted out (notes = "x" on the Driver record).
+     * Cross-references driverPhone against the sms_consents table to check
+     * if the driver has opted out.
      */
     async findAllWithOptOutStatus() {
         const pickups = await prisma.pickup.findMany({
@@ -28,20 +28,20 @@ class PickupRepo {
             ),
         ];
 
-        // Look up which drivers have opted out (notes = "x")
-        const optedOutDrivers =
+        // Look up which drivers have opted out
+        const optedOutConsents =
             phoneNumbers.length > 0
-                ? await prisma.driver.findMany({
+                ? await prisma.smsConsent.findMany({
                       where: {
                           phoneNumber: { in: phoneNumbers },
-                          notes: 'x',
+                          status: 'opted_out',
                       },
                       select: { phoneNumber: true },
                   })
                 : [];
 
         const optedOutPhones = new Set(
-            optedOutDrivers.map((d) => d.phoneNumber)
+            optedOutConsents.map((c) => c.phoneNumber)
         );
 
         return pickups.map((p) => ({
@@ -2,6 +2,7 @@
  * Pickups Routes
  *
  * API endpoints for pickup operations
+ * All routes require authentication
  */
 
 import type { FastifyInstance } from 'fastify';
@@ -16,6 +17,7 @@ export async function pickupRoutes(app: FastifyInstance) {
      * Get all today's pickups
      */
     app.get('/pickups', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: pickupController.getPickups.bind(pickupController),
     });
 
@@ -24,6 +26,7 @@ export async function pickupRoutes(app: FastifyInstance) {
      * Update notes for a specific pickup
      */
     app.patch('/pickups/:id/notes', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: pickupController.updateNotes.bind(pickupController),
     });
 
@@ -32,6 +35,7 @@ export async function pickupRoutes(app: FastifyInstance) {
      * Manually trigger pickup sync from Google Sheet
      */
     app.post('/pickups/sync', {
+        preHandler: [app.authenticate, app.requireAny()],
         handler: pickupController.manualSync.bind(pickupController),
     });
 }
@@ -7,6 +7,7 @@
 import { pickupRepo } from './pickups.repo.js';
 import { pickupSyncService } from './pickup-sync.service.js';
 import { NotFoundError } from '../../utils/errors.js';
+import { scheduledJobService } from '../scheduled-jobs/scheduled-jobs.service.js';
 import type { SyncResult } from './pickups.types.js';
 
 class PickupService {
@@ -33,16 +34,26 @@ class PickupService {
      * Manually trigger a sync from the Google Sheet
      */
     async syncPickups(): Promise<SyncResult> {
-        return pickupSyncService.syncPickupsToday();
+        return scheduledJobService.track('pickup-sync', 'manual', () =>
+            pickupSyncService.syncPickupsToday()
+        );
     }
 
     /**
      * Delete all pickups and re-sync (used by 2PM daily reset)
      */
     async resetAndSync(): Promise<{ deleted: number; sync: SyncResult }> {
-        const deleteResult = await pickupRepo.deleteAll();
-        const syncResult = await pickupSyncService.syncPickupsToday();
-        return { deleted: deleteResult.count, sync: syncResult };
+        const { deleted, ...syncResult } = await scheduledJobService.track(
+            'pickup-reset',
+            'manual',
+            async () => {
+                const deleteResult = await pickupRepo.deleteAll();
+                const sync = await pickupSyncService.syncPickupsToday();
+                return { deleted: deleteResult.count, ...sync };
+            }
+        );
+
+        return { deleted, sync: syncResult };
     }
 }
 
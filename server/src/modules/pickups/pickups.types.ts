@@ -4,6 +4,9 @@
  * Type definitions for the pickups module
  */
 
+import type { ErrorSample } from '../../libs/error-samples.js';
+import type { RowDiagnostic } from '../../libs/row-diagnostics.js';
+
 export interface PickupRow {
     rowNumber: number;
     vin: string;
@@ -15,4 +18,7 @@ export interface SyncResult {
     synced: number;
     skipped: number;
     errors: number;
+    issues: number;
+    errorSamples: ErrorSample[];
+    diagnostics: RowDiagnostic[];
 }
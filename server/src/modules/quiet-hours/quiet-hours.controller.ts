@@ -0,0 +1,61 @@
+/**
+ * Quiet Hours Controller
+ *
+ * HTTP request handlers for message queue quiet hours
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { successResponse } from '../../utils/response.js';
+import { deleteQuietHoursQuerySchema, upsertQuietHoursSchema } from './quiet-hours.schemas.js';
+import { quietHoursService } from './quiet-hours.service.js';
+
+class QuietHoursController {
+    /**
+     * GET /api/v1/quiet-hours
+     *
+     * Default quiet hours and per-time-zone overrides
+     */
+    async listQuietHours(_request: FastifyRequest, reply: FastifyReply) {
+        const quietHours = await quietHoursService.listQuietHours();
+
+        return reply.send(successResponse('Quiet hours retrieved successfully', quietHours));
+    }
+
+    /**
+     * PUT /api/v1/quiet-hours
+     *
+     * Set the quiet hours for a time zone
+     */
+    async updateQuietHours(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = upsertQuietHoursSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid quiet hours');
+        }
+
+        const rule = await quietHoursService.setQuietHours({
+            ...parsed.data,
+            updatedBy: request.user?.userId ?? null,
+        });
+
+        return reply.send(successResponse('Quiet hours updated successfully', rule));
+    }
+
+    /**
+     * DELETE /api/v1/quiet-hours?timezone=America/Chicago
+     *
+     * Remove a time zone's override (it falls back to the defaults)
+     */
+    async deleteQuietHours(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = deleteQuietHoursQuerySchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid time zone');
+        }
+
+        await quietHoursService.removeQuietHours(parsed.data.timezone);
+
+        return reply.send(successResponse('Quiet hours removed successfully', null));
+    }
+}
+
+export const quietHoursController = new QuietHoursController();
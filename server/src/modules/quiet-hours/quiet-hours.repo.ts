@@ -0,0 +1,85 @@
+/**
+ * Quiet Hours Repository
+ *
+ * Database queries for per-time-zone quiet hours and recipient locations
+ */
+
+import type { QuietHours } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type { UpsertQuietHoursData } from './quiet-hours.types.js';
+
+class QuietHoursRepo {
+    /**
+     * Find the quiet hours configured for a time zone
+     */
+    async findByTimezone(timezone: string): Promise<QuietHours | null> {
+        return prisma.quietHours.findUnique({
+            where: { timezone },
+        });
+    }
+
+    /**
+     * List all per-time-zone quiet hours
+     */
+    async findAll(): Promise<QuietHours[]> {
+        return prisma.quietHours.findMany({
+            orderBy: { timezone: 'asc' },
+        });
+    }
+
+    /**
+     * Create or replace the quiet hours for a time zone
+     */
+    async upsert(data: UpsertQuietHoursData): Promise<QuietHours> {
+        const { timezone, ...fields } = data;
+
+        return prisma.quietHours.upsert({
+            where: { timezone },
+            create: data,
+            update: fields,
+        });
+    }
+
+    /**
+     * Delete the quiet hours for a time zone (it falls back to the defaults)
+     */
+    async deleteByTimezone(timezone: string): Promise<number> {
+        const result = await prisma.quietHours.deleteMany({
+            where: { timezone },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * State of each phone number's most recently seen driver Location
+     *
+     * Phone numbers without a Driver or Location state get no entry.
+     */
+    async findRecipientStates(phoneNumbers: string[]): Promise<Map<string, string>> {
+        if (phoneNumbers.length === 0) return new Map();
+
+        const drivers = await prisma.driver.findMany({
+            where: { phoneNumber: { in: phoneNumbers } },
+            select: {
+                phoneNumber: true,
+                locations: {
+                    where: { location: { state: { not: null } } },
+                    orderBy: { lastSeenAt: 'desc' },
+                    take: 1,
+                    select: { location: { select: { state: true } } },
+                },
+            },
+        });
+
+        const states = new Map<string, string>();
+        for (const driver of drivers) {
+            const state = driver.locations[0]?.location.state;
+            if (state) states.set(driver.phoneNumber, state);
+        }
+
+        return states;
+    }
+}
+
+export const quietHoursRepo = new QuietHoursRepo();
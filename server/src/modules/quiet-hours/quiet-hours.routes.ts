@@ -0,0 +1,41 @@
+/**
+ * Quiet Hours Routes
+ *
+ * API endpoints for the message queue send window
+ * All routes require authentication; changes require ADMIN role
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { quietHoursController } from './quiet-hours.controller.js';
+
+/**
+ * Register quiet hours routes
+ */
+export async function quietHoursRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/quiet-hours
+     * Default quiet hours and per-time-zone overrides
+     */
+    app.get('/quiet-hours', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: quietHoursController.listQuietHours.bind(quietHoursController),
+    });
+
+    /**
+     * PUT /api/v1/quiet-hours
+     * Set the quiet hours for a time zone (ADMIN only)
+     */
+    app.put('/quiet-hours', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: quietHoursController.updateQuietHours.bind(quietHoursController),
+    });
+
+    /**
+     * DELETE /api/v1/quiet-hours?timezone=...
+     * Remove a time zone's override (ADMIN only)
+     */
+    app.delete('/quiet-hours', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: quietHoursController.deleteQuietHours.bind(quietHoursController),
+    });
+}
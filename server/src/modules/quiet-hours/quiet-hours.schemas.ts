@@ -0,0 +1,28 @@
+/**
+ * Quiet Hours Schemas
+ *
+ * Zod validation schemas for quiet hours endpoints
+ */
+
+import { z } from 'zod';
+import { isValidTime, isValidTimezone } from '../../libs/quiet-hours.js';
+
+const timeSchema = z.string().refine(isValidTime, 'Times must be HH:MM (24-hour clock)');
+
+export const timezoneSchema = z
+    .string()
+    .min(1)
+    .refine(isValidTimezone, 'Unknown time zone (use an IANA name such as America/Chicago)');
+
+export const upsertQuietHoursSchema = z.object({
+    timezone: timezoneSchema,
+    startTime: timeSchema,
+    endTime: timeSchema,
+    enabled: z.boolean().default(true),
+});
+
+export type UpsertQuietHoursInput = z.infer<typeof upsertQuietHoursSchema>;
+
+export const deleteQuietHoursQuerySchema = z.object({
+    timezone: timezoneSchema,
+});
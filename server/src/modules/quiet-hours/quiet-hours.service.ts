@@ -0,0 +1,110 @@
+/**
+ * Quiet Hours Service
+ *
+ * Decides when the message queue may text a recipient.
+ *
+ * Each queued message carries the recipient's time zone, inferred when it is
+ * queued from the state of their driver's most recent Location (falling back
+ * to QUEUE_DEFAULT_TIMEZONE). A time zone uses its own row in `quiet_hours`
+ * if there is one, otherwise QUIET_HOURS_START / QUIET_HOURS_END.
+ */
+
+import { env } from '../../config/env.js';
+import logger from '../../libs/logger.js';
+import { type QuietWindow, getNextSendTime, timezoneForState } from '../../libs/quiet-hours.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { quietHoursRepo } from './quiet-hours.repo.js';
+import type { UpsertQuietHoursData } from './quiet-hours.types.js';
+
+class QuietHoursService {
+    /**
+     * Infer the time zone of each phone number
+     *
+     * @returns Map of phone number -> IANA time zone (every number gets one)
+     */
+    async resolveTimezones(phoneNumbers: string[]): Promise<Map<string, string>> {
+        const states = await quietHoursRepo.findRecipientStates(phoneNumbers);
+
+        return new Map(
+            phoneNumbers.map((phoneNumber) => [
+                phoneNumber,
+                timezoneForState(states.get(phoneNumber)) ?? env.QUEUE_DEFAULT_TIMEZONE,
+            ])
+        );
+    }
+
+    /**
+     * Quiet-hours window for a time zone, or null if it has none
+     */
+    async getWindow(timezone: string): Promise<QuietWindow | null> {
+        const rule = await quietHoursRepo.findByTimezone(timezone);
+
+        if (!rule) {
+            return { start: env.QUIET_HOURS_START, end: env.QUIET_HOURS_END };
+        }
+
+        return rule.enabled ? { start: rule.startTime, end: rule.endTime } : null;
+    }
+
+    /**
+     * When a recipient in this time zone may next be texted
+     *
+     * @returns null if sending is allowed now, otherwise the end of quiet hours
+     */
+    async getNextAllowedTime(timezone: string, now: Date = new Date()): Promise<Date | null> {
+        const window = await this.getWindow(timezone);
+        if (!window) return null;
+
+        return getNextSendTime(now, timezone, window);
+    }
+
+    /**
+     * Defaults plus every per-time-zone override
+     */
+    async listQuietHours() {
+        const rules = await quietHoursRepo.findAll();
+
+        return {
+            defaults: {
+                startTime: env.QUIET_HOURS_START,
+                endTime: env.QUIET_HOURS_END,
+                timezone: env.QUEUE_DEFAULT_TIMEZONE,
+            },
+            rules,
+        };
+    }
+
+    /**
+     * Set the quiet hours for a time zone
+     */
+    async setQuietHours(data: UpsertQuietHoursData) {
+        const rule = await quietHoursRepo.upsert(data);
+
+        logger.info(
+            {
+                timezone: rule.timezone,
+                startTime: rule.startTime,
+                endTime: rule.endTime,
+                enabled: rule.enabled,
+                updatedBy: rule.updatedBy,
+            },
+            '[QUIET HOURS] Quiet hours updated'
+        );
+
+        return rule;
+    }
+
+    /**
+     * Remove a time zone's override so it uses the defaults again
+     */
+    async removeQuietHours(timezone: string): Promise<void> {
+        const deleted = await quietHoursRepo.deleteByTimezone(timezone);
+        if (deleted === 0) {
+            throw new NotFoundError(`No quiet hours configured for ${timezone}`);
+        }
+
+        logger.info({ timezone }, '[QUIET HOURS] Quiet hours removed');
+    }
+}
+
+export const quietHoursService = new QuietHoursService();
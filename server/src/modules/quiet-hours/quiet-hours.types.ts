@@ -0,0 +1,11 @@
+/**
+ * Quiet Hours Module Types
+ */
+
+export interface UpsertQuietHoursData {
+    timezone: string;
+    startTime: string;
+    endTime: string;
+    enabled: boolean;
+    updatedBy?: string | null;
+}
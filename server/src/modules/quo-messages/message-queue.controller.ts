@@ -6,6 +6,9 @@
 
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { messageQueueService } from '../../services/message-queue.service.js';
+import { campaignService } from '../campaigns/campaigns.service.js';
+import { AppError } from '../../utils/errors.js';
+import { env } from '../../config/env.js';
 import logger from '../../libs/logger.js';
 import { z } from 'zod';
 
@@ -21,7 +24,26 @@ const bulkMessageSchema = z.object({
     content: z
         .string()
         .min(1, 'Message content is required')
-        .describe('The text content of the message to be sent to all recipients'),
+        .describe('Message template ({{name}}, {{companyName}}, {{location}}, {{loadId}})'),
+
+    name: z
+        .string()
+        .trim()
+        .min(1)
+        .max(191)
+        .optional()
+        .describe('Campaign name (defaults to "Bulk message <timestamp>")'),
+
+    scheduledFor: z.coerce
+        .date()
+        .optional()
+        .describe('Earliest send time (ISO 8601); quiet hours still apply'),
+
+    phoneNumberId: z
+        .string()
+        .regex(/^PN(.*)$/, 'phoneNumberId must start with "PN"')
+        .optional()
+        .describe('Line for recipients without a conversation (from GET /phone-numbers)'),
 });
 
 type BulkMessageRequest = z.infer<typeof bulkMessageSchema>;
@@ -37,9 +59,14 @@ export class MessageQueueController {
      * 
      * Request body:
      * - phoneNumbers (required): Array of phone numbers in E.164 format
-     * - content (required): Message content to send to all numbers
+     * - content (required): Message template, rendered per recipient
+     * - name (optional): Campaign name
+     * - scheduledFor (optional): Earliest send time
+     * - phoneNumberId (optional): Sender line for recipients without a conversation
      * 
-     * The messages will be sent at a rate of 1 per 20 seconds by the cron job.
+     * Creates and starts a campaign (see campaigns module) for the recipients.
+     * The messages are sent by the cron job at the configured rate per sender
+     * line, outside quiet hours in each recipient's time zone.
      */
     async queueBulkMessages(
         request: FastifyRequest<{ Body: BulkMessageRequest }>,
@@ -59,35 +86,55 @@ export class MessageQueueController {
                 });
             }
 
-            const { phoneNumbers, content } = validationResult.data;
+            const { phoneNumbers, content, name, scheduledFor, phoneNumberId } =
+                validationResult.data;
 
             logger.info(
                 { count: phoneNumbers.length, contentLength: content.length },
                 'Processing bulk message queue request'
             );
 
-            // Add messages to queue
-            const addedCount = await messageQueueService.addToQueue(phoneNumbers, content);
+            // Every bulk send is grouped under a campaign
+            const campaign = await campaignService.createCampaign(
+                {
+                    name: name ?? `Bulk message ${new Date().toISOString()}`,
+                    template: content,
+                    phoneNumbers,
+                    scheduledAt: scheduledFor,
+                    phoneNumberId,
+                    start: true,
+                },
+                request.user?.userId
+            );
+            const addedCount = campaign.stats.total;
 
             // Get queue stats
             const stats = await messageQueueService.getQueueStats();
+            const ratePerMinute = env.QUEUE_SEND_RATE_PER_MINUTE;
 
             // Return success response
             return reply.status(200).send({
                 success: true,
-                message: `${addedCount} messages added to queue. They will be sent at a rate of 1 per 20 seconds.`,
+                message: `${addedCount} messages added to queue. They will be sent at up to ${ratePerMinute} per minute per sender line.`,
                 data: {
                     addedCount,
+                    campaignId: campaign.id,
                     queueStats: {
                         total: stats.total,
                         pending: stats.pending,
+                        deferred: stats.deferred,
                         sent: stats.sent,
                         failed: stats.failed,
+                        dead: stats.dead,
                     },
-                    estimatedCompletionTime: `${stats.pending * 20} seconds (${Math.ceil(stats.pending / 3)} minutes)`,
+                    // Worst case: everything goes out on one line
+                    estimatedCompletionTime: `${Math.ceil((stats.pending * 60) / ratePerMinute)} seconds (${Math.ceil(stats.pending / ratePerMinute)} minutes)`,
                 },
             });
         } catch (error: any) {
+            // Template errors etc. are handled by the global error handler
+            if (error instanceof AppError) throw error;
+
             logger.error(
                 {
                     error: error.message,
@@ -5,19 +5,115 @@
  */
 
 import { prisma } from '../../libs/db.js';
-import type { QueuedMessage } from '@prisma/client';
+import type { Prisma, QueuedMessage } from '@prisma/client';
+
+/**
+ * Queue statistics and message list for the dashboard
+ *
+ * `deferred` counts pending messages scheduled for later and `retrying` pending
+ * messages waiting out a retry backoff (both included in `pending`). `sending`
+ * counts messages a sender has claimed.
+ */
+export interface QueueStats {
+    total: number;
+    pending: number;
+    sending: number;
+    deferred: number;
+    retrying: number;
+    sent: number;
+    failed: number;
+    dead: number;
+    messages: Array<{
+        id: string;
+        phoneNumber: string;
+        phoneNumberId: string | null;
+        status: string;
+        attempts: number;
+        error: string | null;
+        errorType: string | null;
+        nextAttemptAt: Date | null;
+        scheduledFor: Date | null;
+        timezone: string | null;
+        createdAt: Date;
+        sentAt: Date | null;
+        campaign: { id: string; name: string } | null;
+    }>;
+}
+
+/**
+ * Which dead messages an admin action applies to (all of them if empty)
+ */
+export interface DeadMessageSelection {
+    ids?: string[];
+    campaignId?: string;
+}
+
+/**
+ * Sender lines to skip (null phoneNumberId = default line)
+ */
+export interface ExcludedLines {
+    phoneNumberIds: string[];
+    defaultLine: boolean;
+}
+
+function lineFilter(excluded: ExcludedLines) {
+    const filters: Prisma.QueuedMessageWhereInput[] = [];
+
+    if (excluded.defaultLine) {
+        filters.push({ phoneNumberId: { not: null } });
+    }
+    if (excluded.phoneNumberIds.length > 0) {
+        filters.push({
+            OR: [{ phoneNumberId: null }, { phoneNumberId: { notIn: excluded.phoneNumberIds } }],
+        });
+    }
+
+    return filters;
+}
+
+/**
+ * Conditions for a pending message that may be sent now: its campaign is
+ * running (or it has none) and neither a schedule nor a retry backoff holds
+ * it back
+ */
+function dueFilters(now: Date): Prisma.QueuedMessageWhereInput[] {
+    return [
+        { OR: [{ campaignId: null }, { campaign: { status: 'running' } }] },
+        { OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }] },
+        { OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] },
+    ];
+}
+
+function deadWhere(selection: DeadMessageSelection) {
+    return {
+        status: 'dead',
+        ...(selection.ids ? { id: { in: selection.ids } } : {}),
+        ...(selection.campaignId ? { campaignId: selection.campaignId } : {}),
+    };
+}
 
 class MessageQueueRepository {
     /**
      * Bulk insert pending messages
      */
     async createMany(
-        messages: Array<{ phoneNumber: string; content: string }>
+        messages: Array<{
+            phoneNumber: string;
+            content: string;
+            campaignId?: string;
+            phoneNumberId?: string | null;
+            scheduledFor?: Date | null;
+            timezone?: string | null;
+        }>
     ): Promise<number> {
         const result = await prisma.queuedMessage.createMany({
             data: messages.map((msg) => ({
+                campaignId: msg.campaignId ?? null,
                 phoneNumber: msg.phoneNumber,
                 content: msg.content,
+                phoneNumberId: msg.phoneNumberId ?? null,
+                scheduledFor: msg.scheduledFor ?? null,
+                timezone: msg.timezone ?? null,
                 status: 'pending',
                 attempts: 0,
             })),
@@ -27,31 +123,210 @@ class MessageQueueRepository {
     }
 
     /**
-     * Find the next pending message (oldest first)
+     * Insert one pending message
      */
-    async findNextPending(): Promise<QueuedMessage | null> {
+    async create(message: {
+        phoneNumber: string;
+        content: string;
+        phoneNumberId: string | null;
+        timezone: string | null;
+        priority: number;
+    }): Promise<QueuedMessage> {
+        return prisma.queuedMessage.create({
+            data: { ...message, status: 'pending', attempts: 0 },
+        });
+    }
+
+    /**
+     * Find the next pending message that is due (highest priority, then oldest first)
+     *
+     * Messages of campaigns that are not running (draft, scheduled, paused)
+     * and messages scheduled for later are held back, as are messages of
+     * sender lines that are out of send budget and messages with a BullMQ
+     * send job added after `staleBefore`.
+     */
+    async findNextPending(
+        now: Date = new Date(),
+        excludedLines: ExcludedLines = { phoneNumberIds: [], defaultLine: false },
+        staleBefore: Date = now
+    ): Promise<QueuedMessage | null> {
         return prisma.queuedMessage.findFirst({
-            where: { status: 'pending' },
-            orderBy: { createdAt: 'asc' },
+            where: {
+                status: 'pending',
+                AND: [
+                    ...lineFilter(excludedLines),
+                    ...dueFilters(now),
+                    { OR: [{ enqueuedAt: null }, { enqueuedAt: { lt: staleBefore } }] },
+                ],
+            },
+            orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
         });
     }
 
+    /**
+     * Find a message by ID if it is still pending and due
+     */
+    async findDueById(id: string, now: Date = new Date()): Promise<QueuedMessage | null> {
+        return prisma.queuedMessage.findFirst({
+            where: { id, status: 'pending', AND: dueFilters(now) },
+        });
+    }
+
+    /**
+     * Claim a pending message for sending, atomically
+     *
+     * Only one sender wins; the message leaves 'pending' so neither the
+     * workers nor the inline fallback pick it up again.
+     *
+     * @returns true if this call claimed the message
+     */
+    async claim(id: string): Promise<boolean> {
+        const result = await prisma.queuedMessage.updateMany({
+            where: { id, status: 'pending' },
+            data: { status: 'sending', claimedAt: new Date() },
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Find messages claimed for sending before `claimedBefore` that are still
+     * 'sending'
+     */
+    async findStaleClaims(claimedBefore: Date) {
+        return prisma.queuedMessage.findMany({
+            where: {
+                status: 'sending',
+                OR: [{ claimedAt: null }, { claimedAt: { lt: claimedBefore } }],
+            },
+            select: { id: true, campaignId: true, quoMessageId: true },
+        });
+    }
+
+    /**
+     * Put claimed messages back in the queue (their sender went away before
+     * the send was recorded)
+     */
+    async releaseClaims(ids: string[]): Promise<number> {
+        if (ids.length === 0) return 0;
+
+        const result = await prisma.queuedMessage.updateMany({
+            where: { id: { in: ids }, status: 'sending' },
+            data: { status: 'pending', enqueuedAt: null },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Move claimed messages to the dead-letter state for an admin to review
+     */
+    async flagClaims(ids: string[], error: string): Promise<number> {
+        if (ids.length === 0) return 0;
+
+        const result = await prisma.queuedMessage.updateMany({
+            where: { id: { in: ids }, status: 'sending' },
+            data: { status: 'dead', error, nextAttemptAt: null, enqueuedAt: null },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Find due messages that have no BullMQ send job yet (highest priority,
+     * then oldest first)
+     *
+     * Messages enqueued before `staleBefore` are returned again, in case
+     * their job was lost (e.g. Redis was flushed).
+     */
+    async findDueForDispatch(now: Date, staleBefore: Date, take: number) {
+        return prisma.queuedMessage.findMany({
+            where: {
+                status: 'pending',
+                AND: [
+                    ...dueFilters(now),
+                    { OR: [{ enqueuedAt: null }, { enqueuedAt: { lt: staleBefore } }] },
+                ],
+            },
+            select: { id: true, phoneNumberId: true, timezone: true, priority: true },
+            orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+            take,
+        });
+    }
+
+    /**
+     * Record that send jobs were added for messages
+     */
+    async markEnqueued(ids: string[], enqueuedAt: Date = new Date()): Promise<void> {
+        await prisma.queuedMessage.updateMany({
+            where: { id: { in: ids } },
+            data: { enqueuedAt },
+        });
+    }
+
+    /**
+     * Forget the send jobs of messages so they are dispatched again when due
+     */
+    async clearEnqueued(ids: string[]): Promise<void> {
+        await prisma.queuedMessage.updateMany({
+            where: { id: { in: ids } },
+            data: { enqueuedAt: null },
+        });
+    }
+
+    /**
+     * Push every due pending message in a time zone back to `until`
+     *
+     * @param timezones - Time zones to match (null matches messages without one)
+     * @returns Number of deferred messages
+     */
+    async deferDue(
+        timezones: Array<string | null>,
+        until: Date,
+        now: Date = new Date()
+    ): Promise<number> {
+        const result = await prisma.queuedMessage.updateMany({
+            where: {
+                status: 'pending',
+                AND: [
+                    { OR: timezones.map((timezone) => ({ timezone })) },
+                    { OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }] },
+                ],
+            },
+            data: { scheduledFor: until },
+        });
+
+        return result.count;
+    }
+
     /**
      * Mark a message as sent
+     *
+     * @param quoMessage - The Quo message the send produced, to follow its delivery
      */
-    async markSent(id: string): Promise<void> {
+    async markSent(id: string, quoMessage?: { id: string; status: string }): Promise<void> {
+        const now = new Date();
+
         await prisma.queuedMessage.update({
             where: { id },
             data: {
                 status: 'sent',
-                sentAt: new Date(),
+                sentAt: now,
+                enqueuedAt: null,
                 attempts: { increment: 1 },
+                ...(quoMessage
+                    ? {
+                          quoMessageId: quoMessage.id,
+                          deliveryStatus: quoMessage.status,
+                          deliveryUpdatedAt: now,
+                      }
+                    : {}),
             },
         });
     }
 
     /**
-     * Mark a message as failed
+     * Mark a message as failed (permanent error, not retried)
      */
     async markFailed(id: string, error: string): Promise<void> {
         await prisma.queuedMessage.update({
@@ -59,74 +334,175 @@ class MessageQueueRepository {
             data: {
                 status: 'failed',
                 error,
+                errorType: 'permanent',
+                nextAttemptAt: null,
+                enqueuedAt: null,
                 attempts: { increment: 1 },
             },
         });
     }
 
     /**
-     * Increment attempts without changing status (for retry)
+     * Move a message to the dead-letter state (retries exhausted)
      */
-    async incrementAttempts(id: string): Promise<void> {
+    async markDead(id: string, error: string): Promise<void> {
         await prisma.queuedMessage.update({
             where: { id },
             data: {
+                status: 'dead',
+                error,
+                errorType: 'transient',
+                nextAttemptAt: null,
+                enqueuedAt: null,
                 attempts: { increment: 1 },
             },
         });
     }
 
     /**
-     * Get queue statistics and message list for dashboard
+     * Record a transient failure and put the message back in the queue for
+     * its next attempt
      */
-    async getStats(): Promise<{
-        total: number;
-        pending: number;
-        sent: number;
-        failed: number;
-        messages: Array<{
-            id: string;
-            phoneNumber: string;
-            status: string;
-            attempts: number;
-            createdAt: Date;
-            sentAt: Date | null;
-        }>;
-    }> {
-        const [pending, sent, failed, messages] = await Promise.all([
-            prisma.queuedMessage.count({ where: { status: 'pending' } }),
-            prisma.queuedMessage.count({ where: { status: 'sent' } }),
-            prisma.queuedMessage.count({ where: { status: 'failed' } }),
+    async scheduleRetry(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+        await prisma.queuedMessage.update({
+            where: { id },
+            data: {
+                status: 'pending',
+                error,
+                errorType: 'transient',
+                nextAttemptAt,
+                enqueuedAt: null,
+                attempts: { increment: 1 },
+            },
+        });
+    }
+
+    /**
+     * List dead messages (most recently updated first)
+     */
+    async findDead(filters: { campaignId?: string; skip: number; take: number }) {
+        const where = {
+            status: 'dead',
+            ...(filters.campaignId ? { campaignId: filters.campaignId } : {}),
+        };
+
+        const [items, totalItems] = await Promise.all([
             prisma.queuedMessage.findMany({
-                select: {
-                    id: true,
-                    phoneNumber: true,
-                    status: true,
-                    attempts: true,
-                    createdAt: true,
-                    sentAt: true,
-                },
-                orderBy: { createdAt: 'desc' },
+                where,
+                include: { campaign: { select: { id: true, name: true } } },
+                orderBy: { updatedAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
             }),
+            prisma.queuedMessage.count({ where }),
         ]);
 
+        return { items, totalItems };
+    }
+
+    /**
+     * Campaign IDs of the dead messages matching a selection
+     */
+    async findDeadCampaignIds(selection: DeadMessageSelection): Promise<string[]> {
+        const rows = await prisma.queuedMessage.findMany({
+            where: { ...deadWhere(selection), campaignId: { not: null } },
+            select: { campaignId: true },
+            distinct: ['campaignId'],
+        });
+
+        return rows.map((row) => row.campaignId!);
+    }
+
+    /**
+     * Put dead messages back in the queue with a fresh attempt budget
+     */
+    async requeueDead(selection: DeadMessageSelection): Promise<number> {
+        const result = await prisma.queuedMessage.updateMany({
+            where: deadWhere(selection),
+            data: {
+                status: 'pending',
+                attempts: 0,
+                error: null,
+                errorType: null,
+                nextAttemptAt: null,
+                enqueuedAt: null,
+            },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Give up on dead messages (they become cancelled and are never sent)
+     */
+    async discardDead(selection: DeadMessageSelection): Promise<number> {
+        const result = await prisma.queuedMessage.updateMany({
+            where: deadWhere(selection),
+            data: { status: 'cancelled', nextAttemptAt: null },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Get queue statistics and message list for dashboard
+     */
+    async getStats(): Promise<QueueStats> {
+        const now = new Date();
+        const [pending, deferred, retrying, sending, sent, failed, dead, messages] =
+            await Promise.all([
+                prisma.queuedMessage.count({ where: { status: 'pending' } }),
+                prisma.queuedMessage.count({
+                    where: { status: 'pending', scheduledFor: { gt: now } },
+                }),
+                prisma.queuedMessage.count({
+                    where: { status: 'pending', nextAttemptAt: { gt: now } },
+                }),
+                prisma.queuedMessage.count({ where: { status: 'sending' } }),
+                prisma.queuedMessage.count({ where: { status: 'sent' } }),
+                prisma.queuedMessage.count({ where: { status: 'failed' } }),
+                prisma.queuedMessage.count({ where: { status: 'dead' } }),
+                prisma.queuedMessage.findMany({
+                    select: {
+                        id: true,
+                        phoneNumber: true,
+                        status: true,
+                        attempts: true,
+                        phoneNumberId: true,
+                        error: true,
+                        errorType: true,
+                        nextAttemptAt: true,
+                        scheduledFor: true,
+                        timezone: true,
+                        createdAt: true,
+                        sentAt: true,
+                        campaign: { select: { id: true, name: true } },
+                    },
+                    orderBy: { createdAt: 'desc' },
+                }),
+            ]);
+
         return {
-            total: pending + sent + failed,
+            total: pending + sending + sent + failed + dead,
             pending,
+            sending,
+            deferred,
+            retrying,
             sent,
             failed,
+            dead,
             messages,
         };
     }
 
     /**
-     * Delete completed (sent/failed) messages
+     * Delete completed (sent/failed/cancelled) messages
      * Returns the number of deleted records
      */
     async deleteCompleted(): Promise<number> {
         const result = await prisma.queuedMessage.deleteMany({
             where: {
-                status: { in: ['sent', 'failed'] },
+                status: { in: ['sent', 'failed', 'cancelled'] },
             },
         });
 
@@ -0,0 +1,202 @@
+/**
+ * Quo Backfill Service Tests
+ *
+ * Drives the backfill against a paged fake of the Quo API and an in-memory
+ * backfill state row.
+ */
+
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { quoApiClient } from '../../libs/quo-api';
+import { QuoBackfillService } from './quo-backfill.service';
+import { quoSyncService } from './quo-sync.service';
+
+type StateRow = Record<string, unknown>;
+
+const states = new Map<string, StateRow>();
+
+function applyUpdate(row: StateRow, data: StateRow) {
+    for (const [key, value] of Object.entries(data)) {
+        row[key] =
+            value && typeof value === 'object' && 'increment' in value
+                ? ((row[key] as number | undefined) ?? 0) + (value.increment as number)
+                : value;
+    }
+    return row;
+}
+
+vi.mock('../../libs/db', () => ({
+    prisma: {
+        quoBackfillState: {
+            findUnique: vi.fn(async ({ where }) => states.get(where.phoneNumberId) ?? null),
+            findMany: vi.fn(async () => [...states.values()]),
+            create: vi.fn(async ({ data }) => {
+                const row = {
+                    status: 'idle',
+                    pageToken: null,
+                    highWaterMark: null,
+                    pendingHighWaterMark: null,
+                    oldestFailureAt: null,
+                    pagesFetched: 0,
+                    conversationsSynced: 0,
+                    messagesSynced: 0,
+                    failedConversations: 0,
+                    startedAt: null,
+                    ...data,
+                };
+                states.set(data.phoneNumberId, row);
+                return row;
+            }),
+            update: vi.fn(async ({ where, data }) =>
+                applyUpdate(states.get(where.phoneNumberId)!, data)
+            ),
+            updateMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../../libs/quo-api', () => ({
+    quoApiClient: { get: vi.fn() },
+}));
+
+vi.mock('../../services/quo-messages.service', () => ({
+    quoMessagesService: {
+        listPhoneNumbers: vi.fn(async () => [{ id: 'PNline1' }]),
+    },
+}));
+
+vi.mock('./quo-sync.service', () => ({
+    quoSyncService: {
+        upsertConversation: vi.fn(),
+        upsertMessage: vi.fn(),
+        parseConversation: vi.fn(),
+        markConversationParsed: vi.fn(),
+    },
+}));
+
+function conversation(id: string, lastActivityAt: string) {
+    return { id, phoneNumberId: 'PNline1', participants: [`+1555000${id}`], lastActivityAt };
+}
+
+interface Page<T> {
+    data: T[];
+    nextPageToken?: string;
+}
+
+const conversationPages: Record<string, Page<ReturnType<typeof conversation>>> = {
+    first: { data: [conversation('0001', '2026-10-01T10:00:00.000Z')], nextPageToken: 'page2' },
+    page2: { data: [conversation('0002', '2026-09-01T10:00:00.000Z')] },
+};
+
+const messagePages: Record<string, Page<{ id: string }>> = {
+    first: { data: [{ id: 'AC1' }, { id: 'AC2' }], nextPageToken: 'older' },
+    older: { data: [{ id: 'AC3' }] },
+};
+
+async function runToCompletion(service: QuoBackfillService, options = {}) {
+    await service.start(options);
+    await vi.waitFor(async () => expect((await service.getStatus()).active).toBe(false), {
+        timeout: 5000,
+    });
+}
+
+describe('QuoBackfillService', () => {
+    beforeEach(() => {
+        states.clear();
+        vi.clearAllMocks();
+
+        vi.mocked(quoApiClient.get).mockImplementation(
+            async (url: string, config?: AxiosRequestConfig) => {
+                const token = config?.params?.pageToken ?? 'first';
+                const pages = url === '/conversations' ? conversationPages : messagePages;
+                return { data: pages[token] } as AxiosResponse;
+            }
+        );
+    });
+
+    it('follows pageToken through every conversation and message page', async () => {
+        const service = new QuoBackfillService();
+
+        await runToCompletion(service);
+
+        const state = states.get('PNline1')!;
+        expect(state.status).toBe('completed');
+        expect(state.pagesFetched).toBe(2);
+        expect(state.conversationsSynced).toBe(2);
+        expect(state.messagesSynced).toBe(6);
+        expect(state.pageToken).toBeNull();
+        expect(state.highWaterMark).toEqual(new Date('2026-10-01T10:00:00.000Z'));
+
+        expect(quoSyncService.upsertMessage).toHaveBeenCalledTimes(6);
+        expect(quoSyncService.parseConversation).toHaveBeenCalledWith('0002', ['+15550000002']);
+    });
+
+    it('resumes from the stored conversation cursor', async () => {
+        states.set('PNline1', {
+            phoneNumberId: 'PNline1',
+            status: 'paused',
+            pageToken: 'page2',
+            highWaterMark: null,
+            pendingHighWaterMark: new Date('2026-10-01T10:00:00.000Z'),
+            pagesFetched: 1,
+            conversationsSynced: 1,
+            messagesSynced: 3,
+            failedConversations: 0,
+        });
+
+        const service = new QuoBackfillService();
+        await runToCompletion(service);
+
+        const conversationCalls = vi
+            .mocked(quoApiClient.get)
+            .mock.calls.filter(([url]) => url === '/conversations');
+        expect(conversationCalls).toHaveLength(1);
+        expect(conversationCalls[0]![1]?.params?.pageToken).toBe('page2');
+
+        const state = states.get('PNline1')!;
+        expect(state.status).toBe('completed');
+        expect(state.conversationsSynced).toBe(2);
+        expect(state.highWaterMark).toEqual(new Date('2026-10-01T10:00:00.000Z'));
+    });
+
+    it('only walks conversations updated since the high-water mark after a completed pass', async () => {
+        const service = new QuoBackfillService();
+        await runToCompletion(service);
+        vi.mocked(quoApiClient.get).mockClear();
+
+        await runToCompletion(service);
+
+        const [, config] = vi.mocked(quoApiClient.get).mock.calls[0]!;
+        expect(config?.params?.updatedAfter).toBe('2026-10-01T10:00:00.000Z');
+    });
+
+    it('stops on pause and leaves the cursor on the unfinished page', async () => {
+        const service = new QuoBackfillService();
+
+        vi.mocked(quoSyncService.upsertConversation).mockImplementationOnce(async () => {
+            await service.pause();
+        });
+
+        await runToCompletion(service);
+
+        const state = states.get('PNline1')!;
+        expect(state.status).toBe('paused');
+        expect(state.pageToken).toBe('page2');
+        expect(state.pagesFetched).toBe(1);
+    });
+
+    it('keeps the high-water mark before a failed conversation so the next pass retries it', async () => {
+        vi.mocked(quoSyncService.upsertConversation).mockImplementation(async (conversation) => {
+            if (conversation.id === '0002') throw new Error('Deadlock');
+        });
+
+        const service = new QuoBackfillService();
+        await runToCompletion(service);
+
+        const state = states.get('PNline1')!;
+        expect(state.status).toBe('completed');
+        expect(state.failedConversations).toBe(1);
+        expect(state.highWaterMark).toEqual(new Date('2026-09-01T09:59:59.999Z'));
+        expect(state.oldestFailureAt).toBeNull();
+    });
+});
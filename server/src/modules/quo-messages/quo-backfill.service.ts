@@ -0,0 +1,410 @@
+/**
+ * Quo Backfill Service
+ *
+ * Imports the full conversation/message history for every Quo phone number.
+ *
+ * The scheduled sync only looks at the newest 100 conversations; this job walks
+ * every page of /conversations and, for each conversation, every page of /messages.
+ * Progress is stored per phone number in `quo_backfill_states`, so a paused,
+ * failed or interrupted run resumes from the last completed page.
+ *
+ * Once a pass completes its high-water mark is kept, and the next run only
+ * walks conversations updated since then. The mark never passes a
+ * conversation that failed, so the next run retries it.
+ */
+
+import type { QuoBackfillState } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import logger from '../../libs/logger.js';
+import { quoApiClient } from '../../libs/quo-api.js';
+import { quoMessagesService } from '../../services/quo-messages.service.js';
+import type {
+    GetConversationsParams,
+    GetConversationsResponse,
+    GetMessagesResponse,
+    QuoConversation,
+} from '../../types/quo-api.types.js';
+import { quoSyncService } from './quo-sync.service.js';
+
+/** Conversations/messages requested per page (Quo API maximum) */
+const PAGE_SIZE = 100;
+
+/** Pause between Quo API calls to stay well under the API rate limit */
+const REQUEST_DELAY_MS = 200;
+
+export type BackfillStatus = 'idle' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface StartBackfillOptions {
+    /** Limit the run to these phone number IDs (defaults to every number on the account) */
+    phoneNumberIds?: string[];
+    /** Discard stored cursors and high-water marks and re-import everything */
+    restart?: boolean;
+}
+
+/**
+ * High-water mark of a completed pass: the newest conversation seen, held
+ * back to just before the oldest one that failed
+ */
+function nextHighWaterMark(newestSeen: Date, oldestFailureAt: Date | null): Date {
+    if (!oldestFailureAt || oldestFailureAt > newestSeen) return newestSeen;
+    return new Date(oldestFailureAt.getTime() - 1);
+}
+
+export class QuoBackfillService {
+    private isRunning = false;
+    private pauseRequested = false;
+
+    /**
+     * Start (or resume) the backfill in the background
+     *
+     * Returns the per-phone-number state immediately; progress is observable
+     * through getStatus().
+     */
+    async start(options: StartBackfillOptions = {}): Promise<QuoBackfillState[]> {
+        if (this.isRunning) {
+            logger.info('[QUO BACKFILL] Start requested but a backfill is already running');
+            return this.listStates();
+        }
+
+        const phoneNumberIds = options.phoneNumberIds?.length
+            ? options.phoneNumberIds
+            : await this.listAccountPhoneNumberIds();
+
+        for (const phoneNumberId of phoneNumberIds) {
+            await this.prepareState(phoneNumberId, options.restart ?? false);
+        }
+
+        this.isRunning = true;
+        this.pauseRequested = false;
+
+        this.run(phoneNumberIds)
+            .catch((error: unknown) => {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.error({ error: errorMessage }, '[QUO BACKFILL] ERROR: Backfill run crashed');
+            })
+            .finally(() => {
+                this.isRunning = false;
+                this.pauseRequested = false;
+            });
+
+        return this.listStates();
+    }
+
+    /**
+     * Ask the running backfill to stop after the current conversation
+     *
+     * The cursor is left on the current page, so the next start() picks up there.
+     */
+    async pause(): Promise<QuoBackfillState[]> {
+        if (this.isRunning) {
+            this.pauseRequested = true;
+            logger.info('[QUO BACKFILL] Pause requested');
+        } else {
+            // Nothing is executing (e.g. the server restarted mid-run) - just record the state
+            await prisma.quoBackfillState.updateMany({
+                where: { status: 'running' },
+                data: { status: 'paused' },
+            });
+        }
+
+        return this.listStates();
+    }
+
+    /**
+     * Current backfill state for every phone number
+     */
+    async getStatus(): Promise<{
+        active: boolean;
+        pauseRequested: boolean;
+        phoneNumbers: QuoBackfillState[];
+    }> {
+        return {
+            active: this.isRunning,
+            pauseRequested: this.pauseRequested,
+            phoneNumbers: await this.listStates(),
+        };
+    }
+
+    /**
+     * Process each phone number in turn until done or paused
+     */
+    private async run(phoneNumberIds: string[]): Promise<void> {
+        const startTime = Date.now();
+        logger.info({ phoneNumberIds }, '[QUO BACKFILL] Starting backfill...');
+
+        for (const phoneNumberId of phoneNumberIds) {
+            if (this.pauseRequested) break;
+
+            const state = await prisma.quoBackfillState.findUnique({ where: { phoneNumberId } });
+            if (!state || state.status === 'completed') continue;
+
+            await this.backfillPhoneNumber(state);
+        }
+
+        const duration = Date.now() - startTime;
+        logger.info(
+            { paused: this.pauseRequested, durationSec: (duration / 1000).toFixed(1) },
+            `[QUO BACKFILL] Run finished in ${(duration / 1000).toFixed(1)}s`
+        );
+    }
+
+    /**
+     * Walk every /conversations page for one phone number, starting from its cursor
+     */
+    private async backfillPhoneNumber(state: QuoBackfillState): Promise<void> {
+        const { phoneNumberId } = state;
+        let pageToken = state.pageToken;
+        let pendingHighWaterMark = state.pendingHighWaterMark;
+        let oldestFailureAt = state.oldestFailureAt;
+
+        await prisma.quoBackfillState.update({
+            where: { phoneNumberId },
+            data: { status: 'running', lastError: null, startedAt: state.startedAt ?? new Date() },
+        });
+
+        logger.info(
+            { phoneNumberId, resumeFromPage: !!pageToken, since: state.highWaterMark },
+            '[QUO BACKFILL] Backfilling phone number...'
+        );
+
+        try {
+            while (true) {
+                const params: GetConversationsParams = {
+                    phoneNumberId,
+                    maxResults: PAGE_SIZE,
+                    ...(pageToken ? { pageToken } : {}),
+                    ...(state.highWaterMark
+                        ? { updatedAfter: state.highWaterMark.toISOString() }
+                        : {}),
+                };
+
+                const response = await quoApiClient.get<GetConversationsResponse>(
+                    '/conversations',
+                    { params }
+                );
+                const conversations = response.data.data;
+
+                let conversationsSynced = 0;
+                let messagesSynced = 0;
+                let failedConversations = 0;
+
+                for (const conversation of conversations) {
+                    const lastActivityAt = new Date(conversation.lastActivityAt);
+
+                    if (this.pauseRequested) {
+                        // Counters only cover finished pages; this page is replayed on resume
+                        await prisma.quoBackfillState.update({
+                            where: { phoneNumberId },
+                            data: { status: 'paused' },
+                        });
+                        logger.info({ phoneNumberId }, '[QUO BACKFILL] Paused');
+                        return;
+                    }
+
+                    try {
+                        messagesSynced += await this.backfillConversation(
+                            conversation,
+                            phoneNumberId
+                        );
+                        conversationsSynced++;
+                    } catch (error: unknown) {
+                        failedConversations++;
+                        if (!oldestFailureAt || lastActivityAt < oldestFailureAt) {
+                            oldestFailureAt = lastActivityAt;
+                        }
+
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        logger.error(
+                            { error: errorMessage, conversationId: conversation.id },
+                            '[QUO BACKFILL] ERROR: Failed to backfill conversation'
+                        );
+                    }
+
+                    if (!pendingHighWaterMark || lastActivityAt > pendingHighWaterMark) {
+                        pendingHighWaterMark = lastActivityAt;
+                    }
+                }
+
+                pageToken = response.data.nextPageToken || null;
+
+                // The page is fully processed - advance the cursor past it
+                await this.recordProgress(phoneNumberId, {
+                    conversationsSynced,
+                    messagesSynced,
+                    failedConversations,
+                    pendingHighWaterMark,
+                    oldestFailureAt,
+                    pageToken,
+                });
+
+                logger.info(
+                    { phoneNumberId, conversations: conversations.length, hasMore: !!pageToken },
+                    '[QUO BACKFILL] PROGRESS: Page processed'
+                );
+
+                if (!pageToken || conversations.length === 0) break;
+                await this.delay();
+            }
+
+            await prisma.quoBackfillState.update({
+                where: { phoneNumberId },
+                data: {
+                    status: 'completed',
+                    pageToken: null,
+                    highWaterMark: nextHighWaterMark(
+                        pendingHighWaterMark ?? state.highWaterMark ?? new Date(),
+                        oldestFailureAt
+                    ),
+                    pendingHighWaterMark: null,
+                    oldestFailureAt: null,
+                    completedAt: new Date(),
+                },
+            });
+
+            logger.info(
+                { phoneNumberId },
+                '[QUO BACKFILL] SUCCESS: Phone number backfill completed'
+            );
+        } catch (error: unknown) {
+            // Cursor still points at the page that failed, so a restart retries it
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            await prisma.quoBackfillState.update({
+                where: { phoneNumberId },
+                data: { status: 'failed', lastError: errorMessage },
+            });
+
+            logger.error(
+                { error: errorMessage, phoneNumberId },
+                '[QUO BACKFILL] ERROR: Phone number backfill failed'
+            );
+        }
+    }
+
+    /**
+     * Import every message page of one conversation and run the parsing pipeline
+     *
+     * @returns Number of messages stored
+     */
+    private async backfillConversation(
+        conversation: QuoConversation,
+        phoneNumberId: string
+    ): Promise<number> {
+        await quoSyncService.upsertConversation(conversation);
+
+        const participant = conversation.participants[0];
+        if (!participant) return 0;
+
+        let pageToken: string | undefined;
+        let stored = 0;
+
+        do {
+            await this.delay();
+
+            const response = await quoApiClient.get<GetMessagesResponse>('/messages', {
+                params: {
+                    phoneNumberId,
+                    participants: participant,
+                    maxResults: PAGE_SIZE,
+                    ...(pageToken ? { pageToken } : {}),
+                },
+            });
+
+            for (const quoMessage of response.data.data) {
+                await quoSyncService.upsertMessage(conversation.id, quoMessage);
+                stored++;
+            }
+
+            pageToken = response.data.data.length > 0 ? response.data.nextPageToken : undefined;
+        } while (pageToken);
+
+        // Load inquiries, unknown drivers and /STOP opt-outs see the full history
+        await quoSyncService.parseConversation(conversation.id, conversation.participants);
+        await quoSyncService.markConversationParsed(conversation.id);
+
+        return stored;
+    }
+
+    /**
+     * Create the state row for a phone number, or reset it for a new pass
+     */
+    private async prepareState(phoneNumberId: string, restart: boolean): Promise<void> {
+        const existing = await prisma.quoBackfillState.findUnique({ where: { phoneNumberId } });
+
+        if (!existing) {
+            await prisma.quoBackfillState.create({ data: { phoneNumberId } });
+            return;
+        }
+
+        if (restart) {
+            await prisma.quoBackfillState.update({
+                where: { phoneNumberId },
+                data: {
+                    status: 'idle',
+                    pageToken: null,
+                    highWaterMark: null,
+                    pendingHighWaterMark: null,
+                    oldestFailureAt: null,
+                    pagesFetched: 0,
+                    conversationsSynced: 0,
+                    messagesSynced: 0,
+                    failedConversations: 0,
+                    lastError: null,
+                    startedAt: null,
+                    completedAt: null,
+                },
+            });
+        } else if (existing.status === 'completed') {
+            // Start an incremental pass from the stored high-water mark
+            await prisma.quoBackfillState.update({
+                where: { phoneNumberId },
+                data: { status: 'idle', startedAt: null, completedAt: null, lastError: null },
+            });
+        }
+    }
+
+    /**
+     * Persist counters and advance the cursor after a fully processed page
+     */
+    private async recordProgress(
+        phoneNumberId: string,
+        progress: {
+            conversationsSynced: number;
+            messagesSynced: number;
+            failedConversations: number;
+            pendingHighWaterMark: Date | null;
+            oldestFailureAt: Date | null;
+            pageToken: string | null;
+        }
+    ): Promise<void> {
+        await prisma.quoBackfillState.update({
+            where: { phoneNumberId },
+            data: {
+                conversationsSynced: { increment: progress.conversationsSynced },
+                messagesSynced: { increment: progress.messagesSynced },
+                failedConversations: { increment: progress.failedConversations },
+                pendingHighWaterMark: progress.pendingHighWaterMark,
+                oldestFailureAt: progress.oldestFailureAt,
+                pagesFetched: { increment: 1 },
+                pageToken: progress.pageToken,
+            },
+        });
+    }
+
+    /**
+     * IDs of every phone number on the Quo account
+     */
+    private async listAccountPhoneNumberIds(): Promise<string[]> {
+        const phoneNumbers = await quoMessagesService.listPhoneNumbers();
+        return phoneNumbers.map((phoneNumber: { id: string }) => phoneNumber.id);
+    }
+
+    private async listStates(): Promise<QuoBackfillState[]> {
+        return prisma.quoBackfillState.findMany({ orderBy: { createdAt: 'asc' } });
+    }
+
+    private delay(): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+    }
+}
+
+export const quoBackfillService = new QuoBackfillService();
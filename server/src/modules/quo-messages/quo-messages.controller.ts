@@ -8,6 +8,7 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import { quoMessagesService } from './quo-messages.service.js';
 import { getMessagesQuerySchema, type GetMessagesQuery } from './quo-messages.schemas.js';
 import logger from '../../libs/logger.js';
+import { consentService } from '../consent/consent.service.js';
 
 /**
  * Quo Messages Controller
@@ -142,6 +143,8 @@ export class QuoMessagesController {
      * - phoneNumberId (optional): The OpenPhone number ID
      * - userId (optional): The user ID
      * - setInboxStatus (optional): Set inbox status ('done' or 'pending')
+     *
+     * Responds 409 if any recipient has opted out of SMS.
      */
     async sendMessage(
         request: FastifyRequest<{ Body: any }>,
@@ -166,6 +169,19 @@ export class QuoMessagesController {
 
             const { content, to, phoneNumberId, userId, setInboxStatus } = validationResult.data;
 
+            // Refuse to text anyone who has opted out
+            const optedOut = await consentService.getOptedOutSet(to);
+
+            if (optedOut.size > 0) {
+                return reply.status(409).send({
+                    success: false,
+                    error: {
+                        code: 'RECIPIENT_OPTED_OUT',
+                        message: `Recipient has opted out of SMS: ${[...optedOut].join(', ')}`,
+                    },
+                });
+            }
+
             logger.info(
                 { to, contentLength: content.length },
                 'Processing send message request'
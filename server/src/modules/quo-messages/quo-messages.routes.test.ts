@@ -0,0 +1,115 @@
+/**
+ * Quo Messages Route Tests
+ *
+ * Checks the role guards of the messaging routes on a local Fastify
+ * instance with the real authenticate and RBAC middleware and stubbed
+ * controllers.
+ */
+
+import fastify, { type FastifyInstance } from 'fastify';
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { env } from '../../config/env';
+import { authenticateMiddleware } from '../../libs/auth/authenticate.middleware';
+import { requireAdmin, requireAny } from '../../libs/auth/rbac.middleware';
+import { setupErrorHandler } from '../../libs/error-handler';
+import { messageQueueController } from './message-queue.controller';
+import { quoMessagesController } from './quo-messages.controller';
+import { quoMessagesRoutes } from './quo-messages.routes';
+
+vi.mock('./quo-messages.controller', () => ({
+    quoMessagesController: { getMessages: vi.fn(), sendMessage: vi.fn() },
+}));
+
+vi.mock('./message-queue.controller', () => ({
+    messageQueueController: {
+        queueBulkMessages: vi.fn(),
+        getQueueStats: vi.fn(),
+        clearCompleted: vi.fn(),
+    },
+}));
+
+vi.mock('./quo-phone-numbers.controller', () => ({
+    quoPhoneNumbersController: { getPhoneNumbers: vi.fn() },
+}));
+
+vi.mock('./quo-conversations.controller', () => ({
+    quoConversationsController: { getConversations: vi.fn() },
+}));
+
+function token(role: 'USER' | 'ADMIN') {
+    return jwt.sign(
+        { userId: `${role.toLowerCase()}-1`, email: 'dispatch@example.com', role },
+        env.JWT_SECRET,
+        { issuer: env.JWT_ISSUER }
+    );
+}
+
+const adminRoutes = [
+    { method: 'POST', url: '/messages', handler: () => quoMessagesController.sendMessage },
+    {
+        method: 'POST',
+        url: '/messages/queue',
+        handler: () => messageQueueController.queueBulkMessages,
+    },
+    {
+        method: 'DELETE',
+        url: '/messages/queue/completed',
+        handler: () => messageQueueController.clearCompleted,
+    },
+] as const;
+
+describe('Quo Messages Routes', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = fastify();
+        app.decorate('authenticate', authenticateMiddleware);
+        app.decorate('requireAdmin', requireAdmin);
+        app.decorate('requireAny', requireAny);
+        app.setErrorHandler(setupErrorHandler);
+        await app.register(quoMessagesRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        for (const route of adminRoutes) {
+            vi.mocked(route.handler()).mockResolvedValue({ success: true } as never);
+        }
+    });
+
+    for (const route of adminRoutes) {
+        it(`rejects a USER token on ${route.method} ${route.url}`, async () => {
+            const response = await app.inject({
+                method: route.method,
+                url: route.url,
+                headers: { authorization: `Bearer ${token('USER')}` },
+            });
+
+            expect(response.statusCode).toBe(403);
+            expect(route.handler()).not.toHaveBeenCalled();
+        });
+
+        it(`lets an ADMIN token through on ${route.method} ${route.url}`, async () => {
+            const response = await app.inject({
+                method: route.method,
+                url: route.url,
+                headers: { authorization: `Bearer ${token('ADMIN')}` },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(route.handler()).toHaveBeenCalledTimes(1);
+        });
+    }
+
+    it('rejects requests without a token', async () => {
+        const response = await app.inject({ method: 'POST', url: '/messages' });
+
+        expect(response.statusCode).toBe(401);
+        expect(quoMessagesController.sendMessage).not.toHaveBeenCalled();
+    });
+});
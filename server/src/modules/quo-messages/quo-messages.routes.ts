@@ -2,6 +2,8 @@
  * Quo Messages Routes
  * 
  * Fastify routes for Quo messages endpoints
+ * All routes require authentication; sending messages and clearing the
+ * queue require ADMIN role
  */
 
 import type { FastifyInstance } from 'fastify';
@@ -21,10 +23,10 @@ export async function quoMessagesRoutes(fastify: FastifyInstance): Promise<void>
      * 
      * List all phone numbers to find the correct phone number IDs
      */
-    fastify.get(
-        '/phone-numbers',
-        quoPhoneNumbersController.getPhoneNumbers.bind(quoPhoneNumbersController)
-    );
+    fastify.get('/phone-numbers', {
+        preHandler: [fastify.authenticate, fastify.requireAny()],
+        handler: quoPhoneNumbersController.getPhoneNumbers.bind(quoPhoneNumbersController),
+    });
 
     /**
      * GET /conversations
@@ -36,10 +38,10 @@ export async function quoMessagesRoutes(fastify: FastifyInstance): Promise<void>
      * - maxResults (optional): Max results (default: 30, max: 100)
      * - pageToken (optional): Pagination token
      */
-    fastify.get(
-        '/conversations',
-        quoConversationsController.getConversations.bind(quoConversationsController)
-    );
+    fastify.get('/conversations', {
+        preHandler: [fastify.authenticate, fastify.requireAny()],
+        handler: quoConversationsController.getConversations.bind(quoConversationsController),
+    });
 
     /**
      * GET /messages
@@ -53,15 +55,15 @@ export async function quoMessagesRoutes(fastify: FastifyInstance): Promise<void>
      * - maxResults (optional): Max results (default: 10, max: 100)
      * - pageToken (optional): Pagination token
      */
-    fastify.get(
-        '/messages',
-        quoMessagesController.getMessages.bind(quoMessagesController)
-    );
+    fastify.get('/messages', {
+        preHandler: [fastify.authenticate, fastify.requireAny()],
+        handler: quoMessagesController.getMessages.bind(quoMessagesController),
+    });
 
     /**
      * POST /messages
      * 
-     * Send a text message to a driver
+     * Send a text message to a driver (ADMIN only)
      * 
      * Request Body:
      * - content (required): The text content of the message
@@ -70,42 +72,43 @@ export async function quoMessagesRoutes(fastify: FastifyInstance): Promise<void>
      * - userId (optional): The user ID
      * - setInboxStatus (optional): Set inbox status ('done' or 'pending')
      */
-    fastify.post(
-        '/messages',
-        quoMessagesController.sendMessage.bind(quoMessagesController)
-    );
+    fastify.post('/messages', {
+        preHandler: [fastify.authenticate, fastify.requireAdmin()],
+        handler: quoMessagesController.sendMessage.bind(quoMessagesController),
+    });
 
     /**
      * POST /messages/queue
      * 
-     * Queue bulk messages to be sent at 1 per 20 seconds
+     * Queue bulk messages, sent at the configured rate per sender line (ADMIN only)
      * 
      * Request Body:
      * - phoneNumbers (required): Array of recipient phone numbers in E.164 format
-     * - content (required): Message content to send to all recipients
+     * - content (required): Message template, rendered per recipient
+     * - name (optional): Campaign name the messages are grouped under
      */
-    fastify.post(
-        '/messages/queue',
-        messageQueueController.queueBulkMessages.bind(messageQueueController)
-    );
+    fastify.post('/messages/queue', {
+        preHandler: [fastify.authenticate, fastify.requireAdmin()],
+        handler: messageQueueController.queueBulkMessages.bind(messageQueueController),
+    });
 
     /**
      * GET /messages/queue/stats
      * 
      * Get message queue statistics
      */
-    fastify.get(
-        '/messages/queue/stats',
-        messageQueueController.getQueueStats.bind(messageQueueController)
-    );
+    fastify.get('/messages/queue/stats', {
+        preHandler: [fastify.authenticate, fastify.requireAny()],
+        handler: messageQueueController.getQueueStats.bind(messageQueueController),
+    });
 
     /**
      * DELETE /messages/queue/completed
      * 
-     * Clear completed (sent/failed) messages from queue
+     * Clear completed (sent/failed) messages from queue (ADMIN only)
      */
-    fastify.delete(
-        '/messages/queue/completed',
-        messageQueueController.clearCompleted.bind(messageQueueController)
-    );
+    fastify.delete('/messages/queue/completed', {
+        preHandler: [fastify.authenticate, fastify.requireAdmin()],
+        handler: messageQueueController.clearCompleted.bind(messageQueueController),
+    });
 }
@@ -119,3 +119,58 @@ export const sendMessageSchema = z.object({
  * Inferred type from send message schema
  */
 export type SendMessageRequest = z.infer<typeof sendMessageSchema>;
+
+/**
+ * Webhook Event Schema
+ *
+ * Validates the envelope of OpenPhone webhook deliveries. The inner object is
+ * checked per event type by the webhook service.
+ */
+export const webhookEventSchema = z.object({
+    id: z.string().min(1),
+    type: z.string().min(1),
+    createdAt: z.string().optional(),
+    data: z.object({
+        object: z.record(z.unknown()),
+    }),
+});
+
+/**
+ * Webhook message object (message.received / message.delivered)
+ */
+export const webhookMessageSchema = z.object({
+    id: z.string().min(1),
+    from: z.string().min(1),
+    to: z.union([z.string(), z.array(z.string())]),
+    direction: z.enum(['incoming', 'outgoing']),
+    body: z.string().nullish(),
+    text: z.string().nullish(),
+    status: z.enum(['queued', 'sending', 'sent', 'delivered', 'undelivered', 'failed', 'received']),
+    createdAt: z.string(),
+    userId: z.string().nullish(),
+    phoneNumberId: z.string().min(1),
+    conversationId: z.string().min(1),
+});
+
+/**
+ * Webhook conversation object (conversation.updated)
+ */
+export const webhookConversationSchema = z.object({
+    id: z.string().min(1),
+    phoneNumberId: z.string().min(1),
+    participants: z.array(z.string()),
+    name: z.string().nullish(),
+    assignedTo: z.string().nullish(),
+    lastActivityAt: z.string(),
+    lastActivityId: z.string(),
+    mutedUntil: z.string().nullish(),
+    snoozedUntil: z.string().nullish(),
+    deletedAt: z.string().nullish(),
+});
+
+/**
+ * Inferred types from webhook schemas
+ */
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type WebhookMessage = z.infer<typeof webhookMessageSchema>;
+export type WebhookConversation = z.infer<typeof webhookConversationSchema>;
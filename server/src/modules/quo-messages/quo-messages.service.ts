@@ -6,7 +6,12 @@
 
 import { quoApiClient } from '../../libs/quo-api.js';
 import logger from '../../libs/logger.js';
-import type { GetMessagesResponse, GetMessagesParams } from '../../types/quo-api.types.js';
+import type {
+    GetMessagesResponse,
+    GetMessagesParams,
+    QuoMessage,
+    SendMessageResponse,
+} from '../../types/quo-api.types.js';
 
 /**
  * Quo Messages Service Class
@@ -82,7 +87,7 @@ class QuoMessagesService {
      * Send a text message
      * 
      * @param params - Message parameters (content, to, optional fields)
-     * @returns Response from Quo API
+     * @returns The sent message
      */
     async sendMessage(params: {
         content: string;
@@ -90,7 +95,7 @@ class QuoMessagesService {
         phoneNumberId?: string;
         userId?: string;
         setInboxStatus?: 'done' | 'pending';
-    }): Promise<any> {
+    }): Promise<QuoMessage> {
         try {
             logger.info(
                 {
@@ -107,18 +112,14 @@ class QuoMessagesService {
             const OPT_OUT_FOOTER = '\n\nTo stop receiving dispatch suggestions from Auto Market Ukraine, please reply with /STOP';
             const contentWithFooter = params.content + OPT_OUT_FOOTER;
 
-            // Build request body
+            // Build request body ("from" accepts a phone number ID or an E.164 number)
             const requestBody: Record<string, any> = {
                 content: contentWithFooter,
-                from: env.QUO_NUMBER, // Use QUO_NUMBER from environment
+                from: params.phoneNumberId || env.QUO_NUMBER, // Default line is QUO_NUMBER
                 to: params.to,
             };
 
             // Add optional parameters
-            if (params.phoneNumberId) {
-                requestBody.phoneNumberId = params.phoneNumberId;
-            }
-
             if (params.userId) {
                 requestBody.userId = params.userId;
             }
@@ -128,20 +129,21 @@ class QuoMessagesService {
             }
 
             // Make request to Quo API
-            const response = await quoApiClient.post(
+            const response = await quoApiClient.post<SendMessageResponse>(
                 '/messages',
                 requestBody
             );
+            const sent = response.data.data;
 
             logger.info(
                 {
-                    messageId: response.data?.id,
-                    status: response.data?.status,
+                    messageId: sent.id,
+                    status: sent.status,
                 },
                 'Successfully sent message via Quo API'
             );
 
-            return response.data;
+            return sent;
         } catch (error: any) {
             logger.error(
                 {
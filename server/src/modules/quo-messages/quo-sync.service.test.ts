@@ -0,0 +1,82 @@
+/**
+ * Quo Sync Service Tests
+ *
+ * Runs the consent keyword scan of a sync against a mocked database and
+ * Quo API.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../../libs/db';
+import { quoApiClient } from '../../libs/quo-api';
+import { consentService } from '../consent/consent.service';
+import { quoSyncService } from './quo-sync.service';
+
+vi.mock('../../libs/db', () => ({
+    prisma: {
+        message: { findMany: vi.fn() },
+        conversation: { findMany: vi.fn() },
+        quoBackfillState: { findUnique: vi.fn() },
+    },
+}));
+
+vi.mock('../../libs/quo-api', () => ({
+    quoApiClient: { get: vi.fn() },
+}));
+
+vi.mock('../consent/consent.service', () => ({
+    consentService: { applyKeyword: vi.fn() },
+}));
+
+vi.mock('../deliveries/deliveries.service', () => ({
+    deliveryService: { reconcileUnsettled: vi.fn() },
+}));
+
+vi.mock('../load-inquiries/load-inquiries.service', () => ({ loadInquiryService: {} }));
+vi.mock('../loads/loads.service', () => ({ loadService: {} }));
+vi.mock('../auto-replies/auto-replies.service', () => ({ autoReplyService: {} }));
+
+const driverPhone = '+15555550123';
+
+describe('quoSyncService consent keyword scan', () => {
+    beforeEach(() => {
+        vi.mocked(prisma.message.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.quoBackfillState.findUnique).mockResolvedValue({
+            phoneNumberId: 'PNline1',
+            highWaterMark: new Date('2026-10-01T00:00:00Z'),
+        } as never);
+        vi.mocked(prisma.conversation.findMany).mockResolvedValue([
+            { id: 'CNold', participants: JSON.stringify([driverPhone]) },
+        ] as never);
+        vi.mocked(consentService.applyKeyword).mockResolvedValue(true);
+        vi.mocked(quoApiClient.get).mockImplementation(async (url: string) => {
+            if (url === '/messages') {
+                return {
+                    data: {
+                        data: [
+                            {
+                                id: 'ACstop',
+                                direction: 'incoming',
+                                from: driverPhone,
+                                text: 'STOP',
+                                createdAt: '2026-10-18T09:00:00Z',
+                            },
+                        ],
+                    },
+                };
+            }
+            return { data: { data: [] } };
+        });
+    });
+
+    it('catches a STOP sent in a stale conversation after a backfill', async () => {
+        await quoSyncService.syncAllConversations('PNline1');
+
+        expect(quoApiClient.get).toHaveBeenCalledWith('/messages', {
+            params: { phoneNumberId: 'PNline1', participants: driverPhone, maxResults: 10 },
+        });
+        expect(consentService.applyKeyword).toHaveBeenCalledWith(
+            driverPhone,
+            expect.objectContaining({ action: 'opt_out', keyword: 'STOP', messageId: 'ACstop' })
+        );
+    });
+});
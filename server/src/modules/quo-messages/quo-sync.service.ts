@@ -8,9 +8,21 @@ import { quoApiClient } from '../../libs/quo-api.js';
 import { prisma } from '../../libs/db.js';
 import logger from '../../libs/logger.js';
 import { extractLoadIdsFromText } from '../../libs/load-id-extractor.js';
-import { hasStopCommand, isStopMessage } from '../../libs/stop-command-extractor.js';
+import {
+    CONSENT_KEYWORD_TEXTS,
+    findLatestConsentChange,
+} from '../../libs/stop-command-extractor.js';
+import { consentService } from '../consent/consent.service.js';
 import { loadInquiryService } from '../load-inquiries/load-inquiries.service.js';
-import type { GetConversationsResponse, GetMessagesResponse } from '../../types/quo-api.types.js';
+import { loadService } from '../loads/loads.service.js';
+import { deliveryService } from '../deliveries/deliveries.service.js';
+import { autoReplyService } from '../auto-replies/auto-replies.service.js';
+import type {
+    GetConversationsResponse,
+    GetMessagesResponse,
+    QuoConversation,
+    QuoMessage,
+} from '../../types/quo-api.types.js';
 
 export class QuoSyncService {
     /**
@@ -20,13 +32,14 @@ export class QuoSyncService {
      * 1. Fetch all conversations from Quo API
      * 2. For each conversation, fetch recent messages
      * 3. Store/update conversations and messages in database
+     * 4. Settle the delivery status of queued messages we sent
      */
     async syncAllConversations(phoneNumberId: string): Promise<void> {
         const startTime = Date.now();
 
         try {
-            // Check for /STOP opt-outs FIRST (independent of conversation list)
-            // This catches /STOP from ANY conversation, including archived/snoozed ones
+            // Check for STOP/START consent keywords FIRST (independent of conversation list)
+            // This catches opt-outs from ANY conversation, including archived/snoozed ones
             await this.checkForStopCommands(phoneNumberId);
 
             logger.info(
@@ -72,6 +85,17 @@ export class QuoSyncService {
                 }
             }
 
+            // Settle delivery statuses stored before their queued message was linked
+            try {
+                await deliveryService.reconcileUnsettled();
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.warn(
+                    { error: errorMessage },
+                    '[QUO SYNC] WARN: Delivery status reconciliation failed'
+                );
+            }
+
             const duration = Date.now() - startTime;
             logger.info(
                 {
@@ -97,39 +121,46 @@ export class QuoSyncService {
     }
 
     /**
-     * Check for /STOP opt-out commands using two strategies:
+     * Check for consent keywords (STOP, UNSUBSCRIBE, START, UNSTOP) using two strategies:
      *
-     * 1. DB scan: Check all stored messages for /STOP (free, instant)
+     * 1. DB scan: Check all stored messages for keyword replies (free, instant)
      * 2. Targeted API scan: For conversations NOT in the top 100 (stale),
      *    fetch recent messages directly from OpenPhone API.
      *    Limited to 20 conversations per cycle to avoid excessive API calls.
      *
-     * This ensures /STOP is caught even from archived/snoozed conversations.
+     * This ensures opt-outs are caught even from archived/snoozed conversations.
      */
     private async checkForStopCommands(phoneNumberId: string): Promise<void> {
-        const { driverRepository } = await import('../../modules/drivers/driver.repo.js');
-        let optOutCount = 0;
+        let changeCount = 0;
 
         // --- Strategy 1: Scan messages already stored in our DB ---
         try {
-            const stopMessages = await prisma.message.findMany({
+            const keywordMessages = await prisma.message.findMany({
                 where: {
                     direction: 'incoming',
-                    text: { in: ['/STOP', '/stop', '/Stop', '/STOP ', '/stop ', ' /STOP', ' /stop'] },
+                    text: { in: CONSENT_KEYWORD_TEXTS },
                 },
-                select: { from: true },
-                distinct: ['from'],
+                select: { id: true, from: true, text: true, direction: true, createdAt: true },
+                orderBy: { createdAt: 'asc' },
             });
 
-            for (const msg of stopMessages) {
-                const phone = msg.from;
-                if (!phone) continue;
+            const messagesByPhone = new Map<string, typeof keywordMessages>();
+            for (const msg of keywordMessages) {
+                if (!msg.from) continue;
+                messagesByPhone.set(msg.from, [...(messagesByPhone.get(msg.from) ?? []), msg]);
+            }
 
-                const result = await this.markDriverOptedOut(phone, driverRepository, 'DB scan');
-                if (result) optOutCount++;
+            for (const [phone, messages] of messagesByPhone) {
+                const change = findLatestConsentChange(
+                    messages.map((m) => ({ ...m, timestamp: m.createdAt }))
+                );
+                if (change && (await consentService.applyKeyword(phone, change))) changeCount++;
             }
         } catch (error: any) {
-            logger.warn({ error: error.message }, '[STOP COMMAND] DB scan for /STOP failed');
+            logger.warn(
+                { error: error.message },
+                '[STOP COMMAND] DB scan for consent keywords failed'
+            );
         }
 
         // --- Strategy 2: Check stale conversations via targeted API calls ---
@@ -153,10 +184,6 @@ export class QuoSyncService {
                     const driverPhone = participants[0];
                     if (!driverPhone) continue;
 
-                    // Skip if driver is already opted out
-                    const existingDriver = await driverRepository.findByPhoneNumber(driverPhone);
-                    if (existingDriver?.notes?.trim().toLowerCase() === 'x') continue;
-
                     // Fetch recent messages from OpenPhone API for this participant
                     const messagesResponse = await quoApiClient.get<GetMessagesResponse>(
                         '/messages',
@@ -169,14 +196,12 @@ export class QuoSyncService {
                         }
                     );
 
-                    const messages = messagesResponse.data.data;
-                    const hasStop = messages.some(
-                        (m) => m.direction === 'incoming' && isStopMessage(m.text || '')
+                    const change = findLatestConsentChange(
+                        messagesResponse.data.data.map(toConsentMessage)
                     );
 
-                    if (hasStop) {
-                        const result = await this.markDriverOptedOut(driverPhone, driverRepository, 'API scan');
-                        if (result) optOutCount++;
+                    if (change && (await consentService.applyKeyword(driverPhone, change))) {
+                        changeCount++;
                     }
                 } catch (error: any) {
                     // Skip individual conversation errors, continue with others
@@ -187,45 +212,17 @@ export class QuoSyncService {
                 }
             }
         } catch (error: any) {
-            logger.warn({ error: error.message }, '[STOP COMMAND] Stale conversation scan failed');
-        }
-
-        if (optOutCount > 0) {
-            logger.info(
-                { optOutCount },
-                `[STOP COMMAND] Global scan complete - ${optOutCount} new opt-outs processed`
+            logger.warn(
+                { error: error.message },
+                '[STOP COMMAND] Stale conversation scan failed'
             );
         }
-    }
 
-    /**
-     * Mark a driver as opted out (set notes to "x")
-     * Returns true if the driver was newly marked, false if already opted out.
-     */
-    private async markDriverOptedOut(
-        phone: string,
-        driverRepository: any,
-        source: string
-    ): Promise<boolean> {
-        const existingDriver = await driverRepository.findByPhoneNumber(phone);
-
-        if (existingDriver) {
-            if (existingDriver.notes?.trim().toLowerCase() !== 'x') {
-                await driverRepository.update(existingDriver.id, { notes: 'x' });
-                logger.info(
-                    { phone, driverId: existingDriver.id, source },
-                    '[STOP COMMAND] Driver opted out - set notes to "x"'
-                );
-                return true;
-            }
-            return false;
-        } else {
-            await driverRepository.create({ phoneNumber: phone, notes: 'x' });
+        if (changeCount > 0) {
             logger.info(
-                { phone, source },
-                '[STOP COMMAND] Created new driver with opt-out notes "x"'
+                { changeCount },
+                `[STOP COMMAND] Global scan complete - ${changeCount} consent changes processed`
             );
-            return true;
         }
     }
 
@@ -247,33 +244,7 @@ export class QuoSyncService {
                 lastActivityAt > existingConversation.lastParsedAt;
 
             // Upsert conversation
-            await prisma.conversation.upsert({
-                where: { id: quoConversation.id },
-                create: {
-                    id: quoConversation.id,
-                    phoneNumberId: quoConversation.phoneNumberId,
-                    participants: JSON.stringify(quoConversation.participants),
-                    name: quoConversation.name,
-                    assignedTo: quoConversation.assignedTo,
-                    lastActivityAt,
-                    lastActivityId: quoConversation.lastActivityId,
-                    mutedUntil: quoConversation.mutedUntil ? new Date(quoConversation.mutedUntil) : null,
-                    snoozedUntil: quoConversation.snoozedUntil ? new Date(quoConversation.snoozedUntil) : null,
-                    deletedAt: quoConversation.deletedAt ? new Date(quoConversation.deletedAt) : null,
-                    syncedAt: new Date(),
-                },
-                update: {
-                    participants: JSON.stringify(quoConversation.participants),
-                    name: quoConversation.name,
-                    assignedTo: quoConversation.assignedTo,
-                    lastActivityAt,
-                    lastActivityId: quoConversation.lastActivityId,
-                    mutedUntil: quoConversation.mutedUntil ? new Date(quoConversation.mutedUntil) : null,
-                    snoozedUntil: quoConversation.snoozedUntil ? new Date(quoConversation.snoozedUntil) : null,
-                    deletedAt: quoConversation.deletedAt ? new Date(quoConversation.deletedAt) : null,
-                    syncedAt: new Date(),
-                },
-            });
+            await this.upsertConversation(quoConversation);
 
             // Always fetch messages to keep DB in sync
             await this.syncMessagesForConversation(quoConversation.id, phoneNumberId, quoConversation.participants);
@@ -281,12 +252,7 @@ export class QuoSyncService {
             // Only parse if conversation has NEW activity
             if (needsParsing) {
                 await this.parseConversation(quoConversation.id, quoConversation.participants);
-
-                // Update lastParsedAt to mark this conversation as processed
-                await prisma.conversation.update({
-                    where: { id: quoConversation.id },
-                    data: { lastParsedAt: new Date() },
-                });
+                await this.markConversationParsed(quoConversation.id);
 
                 logger.debug({ conversationId: quoConversation.id }, '[SYNC] Synced and parsed conversation');
                 return { parsed: true, skipped: false };
@@ -331,54 +297,15 @@ export class QuoSyncService {
 
             // Store each message
             for (const quoMessage of messages) {
-                await prisma.message.upsert({
-                    where: { id: quoMessage.id },
-                    create: {
-                        id: quoMessage.id,
-                        conversationId,
-                        phoneNumberId: quoMessage.phoneNumberId,
-                        direction: quoMessage.direction,
-                        from: quoMessage.from,
-                        to: JSON.stringify(quoMessage.to),
-                        text: quoMessage.text || '',
-                        userId: quoMessage.userId,
-                        status: quoMessage.status,
-                        createdAt: new Date(quoMessage.createdAt),
-                        syncedAt: new Date(),
-                    },
-                    update: {
-                        status: quoMessage.status,
-                        text: quoMessage.text || '',
-                        syncedAt: new Date(),
-                    },
-                });
+                await this.upsertMessage(conversationId, quoMessage);
             }
 
-            // Check for /STOP opt-out in incoming messages (runs every sync, not just when needsParsing)
+            // Check for consent keywords in incoming messages (runs every sync, not just when needsParsing)
             const driverPhone = participants[0];
-            const hasStop = messages.some(
-                (msg) => msg.direction === 'incoming' && isStopMessage(msg.text || '')
-            );
+            const change = findLatestConsentChange(messages.map(toConsentMessage));
 
-            if (hasStop && driverPhone) {
-                const { driverRepository } = await import('../../modules/drivers/driver.repo.js');
-                const existingDriver = await driverRepository.findByPhoneNumber(driverPhone);
-
-                if (existingDriver) {
-                    if (existingDriver.notes?.trim().toLowerCase() !== 'x') {
-                        await driverRepository.update(existingDriver.id, { notes: 'x' });
-                        logger.info(
-                            { phone: driverPhone, driverId: existingDriver.id, conversationId },
-                            '[STOP COMMAND] Driver opted out during message sync - set notes to "x"'
-                        );
-                    }
-                } else {
-                    await driverRepository.create({ phoneNumber: driverPhone, notes: 'x' });
-                    logger.info(
-                        { phone: driverPhone, conversationId },
-                        '[STOP COMMAND] Created new driver with opt-out notes "x" during message sync'
-                    );
-                }
+            if (change && driverPhone) {
+                await consentService.applyKeyword(driverPhone, change);
             }
 
             logger.debug(
@@ -396,12 +323,100 @@ export class QuoSyncService {
         }
     }
 
+    /**
+     * Insert or update a conversation from a Quo API / webhook payload
+     */
+    async upsertConversation(quoConversation: QuoConversation): Promise<void> {
+        const fields = {
+            participants: JSON.stringify(quoConversation.participants),
+            name: quoConversation.name,
+            assignedTo: quoConversation.assignedTo,
+            lastActivityAt: new Date(quoConversation.lastActivityAt),
+            lastActivityId: quoConversation.lastActivityId,
+            mutedUntil: quoConversation.mutedUntil ? new Date(quoConversation.mutedUntil) : null,
+            snoozedUntil: quoConversation.snoozedUntil
+                ? new Date(quoConversation.snoozedUntil)
+                : null,
+            deletedAt: quoConversation.deletedAt ? new Date(quoConversation.deletedAt) : null,
+            syncedAt: new Date(),
+        };
+
+        await prisma.conversation.upsert({
+            where: { id: quoConversation.id },
+            create: {
+                id: quoConversation.id,
+                phoneNumberId: quoConversation.phoneNumberId,
+                ...fields,
+            },
+            update: fields,
+        });
+    }
+
+    /**
+     * Insert or update a single message from a Quo API / webhook payload
+     *
+     * A driver message newer than the conversation's last status change
+     * reopens a waiting or closed conversation in the inbox. The status of
+     * an outgoing message is passed on to the queued message that sent it.
+     */
+    async upsertMessage(conversationId: string, quoMessage: QuoMessage): Promise<void> {
+        const createdAt = new Date(quoMessage.createdAt);
+
+        if (quoMessage.direction === 'incoming') {
+            await prisma.conversation.updateMany({
+                where: {
+                    id: conversationId,
+                    status: { not: 'open' },
+                    statusChangedAt: { lt: createdAt },
+                },
+                data: { status: 'open', statusChangedAt: new Date() },
+            });
+        }
+
+        await prisma.message.upsert({
+            where: { id: quoMessage.id },
+            create: {
+                id: quoMessage.id,
+                conversationId,
+                phoneNumberId: quoMessage.phoneNumberId,
+                direction: quoMessage.direction,
+                from: quoMessage.from,
+                to: JSON.stringify(quoMessage.to),
+                text: quoMessage.text || '',
+                userId: quoMessage.userId || null,
+                status: quoMessage.status,
+                createdAt,
+                syncedAt: new Date(),
+            },
+            update: {
+                status: quoMessage.status,
+                text: quoMessage.text || '',
+                syncedAt: new Date(),
+            },
+        });
+
+        if (quoMessage.direction === 'outgoing') {
+            await deliveryService.applyMessageStatus(quoMessage.id, quoMessage.status);
+        }
+    }
+
+    /**
+     * Mark a conversation as processed by the parsing pipeline
+     */
+    async markConversationParsed(conversationId: string): Promise<void> {
+        await prisma.conversation.update({
+            where: { id: conversationId },
+            data: { lastParsedAt: new Date() },
+        });
+    }
+
     /**
      * Parse conversation to extract load IDs
      *
-     * Checks for /STOP opt-out, then runs regex extraction on all messages.
+     * Applies consent keywords (STOP, START, ...), answers the newest driver text with an
+     * auto-reply rule if one matches, then runs regex extraction on all messages.
      */
-    private async parseConversation(conversationId: string, participants: string[]): Promise<void> {
+    async parseConversation(conversationId: string, participants: string[]): Promise<void> {
         try {
             // Get conversation history from database
             const conversationData = await this.getConversationHistory(conversationId);
@@ -420,33 +435,27 @@ export class QuoSyncService {
 
             const { unknownDriverService } = await import('../../modules/drivers/unknown-driver.service.js');
 
-            // Step 0: Check for /STOP opt-out command before any load ID parsing
-            if (hasStopCommand(conversationData.messages)) {
-                const { driverRepository } = await import('../../modules/drivers/driver.repo.js');
-                const existingDriver = await driverRepository.findByPhoneNumber(phone);
-
-                if (existingDriver) {
-                    // Only update if notes is not already "x"
-                    if (existingDriver.notes?.trim().toLowerCase() !== 'x') {
-                        await driverRepository.update(existingDriver.id, { notes: 'x' });
-                        logger.info(
-                            { phone, driverId: existingDriver.id },
-                            '[STOP COMMAND] Driver opted out - set notes to "x"'
-                        );
-                    }
-                } else {
-                    // Driver doesn't exist yet - create with "x" notes so they're excluded from the start
-                    await driverRepository.create({ phoneNumber: phone, notes: 'x' });
-                    logger.info(
-                        { phone },
-                        '[STOP COMMAND] Created new driver with opt-out notes "x"'
-                    );
-                }
+            // Step 0: Apply consent keywords (STOP / START ...) before any load ID parsing
+            const change = findLatestConsentChange(conversationData.messages);
+            if (change) {
+                await consentService.applyKeyword(phone, change);
+            }
 
-                // Skip load ID parsing entirely for this conversation
+            // Skip load ID parsing entirely for opted-out drivers
+            if (await consentService.isOptedOut(phone)) {
                 return;
             }
 
+            // Step 0b: Status keywords ("picked up", "delivered") move the loads they are about
+            await loadService.applySmsStatusKeywords(phone, conversationData.messages);
+
+            // Step 0c: Auto-reply rules answer the newest driver text (never throws)
+            await autoReplyService.handleConversation(
+                conversationId,
+                phone,
+                conversationData.messages
+            );
+
             // Step 1: Try regex first (instant, free, no external dependency)
             const rawText = conversationData.messages.map((m: { text?: string }) => m.text || '').join(' ');
             const regexLoadIds = extractLoadIdsFromText(rawText);
@@ -523,4 +532,17 @@ export class QuoSyncService {
     }
 }
 
+/**
+ * Map a Quo API message to the shape the consent keyword extractor reads
+ */
+function toConsentMessage(message: QuoMessage) {
+    return {
+        id: message.id,
+        direction: message.direction,
+        text: message.text,
+        from: message.from,
+        timestamp: message.createdAt,
+    };
+}
+
 export const quoSyncService = new QuoSyncService();
@@ -0,0 +1,30 @@
+/**
+ * Quo Webhook Controller
+ *
+ * HTTP handler for OpenPhone webhook deliveries
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { successResponse } from '../../utils/response.js';
+import { webhookEventSchema } from './quo-messages.schemas.js';
+import { quoWebhookService } from './quo-webhook.service.js';
+
+export class QuoWebhookController {
+    /**
+     * Receive a webhook event
+     *
+     * POST /api/v1/webhooks/quo
+     *
+     * The signature has already been verified by the route preHandler.
+     * Any non-2xx response makes OpenPhone retry the delivery.
+     */
+    async receiveEvent(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+        const event = webhookEventSchema.parse(request.body);
+
+        const result = await quoWebhookService.handleEvent(event);
+
+        return reply.status(200).send(successResponse('Webhook event processed', result));
+    }
+}
+
+export const quoWebhookController = new QuoWebhookController();
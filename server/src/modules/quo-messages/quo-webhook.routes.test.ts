@@ -0,0 +1,252 @@
+/**
+ * Quo Webhook Route Tests
+ *
+ * Replays recorded OpenPhone webhook payloads against a local Fastify
+ * instance with only the webhook routes registered.
+ */
+
+import fastify, { type FastifyInstance } from 'fastify';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../../libs/db';
+import { setupErrorHandler } from '../../libs/error-handler';
+import { computeQuoSignature } from '../../libs/quo-webhook-signature';
+import { quoSyncService } from './quo-sync.service';
+import { quoWebhookRoutes } from './quo-webhook.routes';
+
+vi.mock('../../libs/db', () => ({
+    prisma: {
+        conversation: {
+            findUnique: vi.fn(),
+            upsert: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('./quo-sync.service', () => ({
+    quoSyncService: {
+        upsertConversation: vi.fn(),
+        upsertMessage: vi.fn(),
+        parseConversation: vi.fn(),
+        markConversationParsed: vi.fn(),
+    },
+}));
+
+const SIGNING_KEY = process.env.QUO_WEBHOOK_SECRET as string;
+
+// Recorded payloads (IDs and numbers anonymized)
+const messageReceived = {
+    id: 'EVc67ec998b35c41d388af50799aeeba3e',
+    object: 'event',
+    apiVersion: 'v3',
+    createdAt: '2026-10-19T14:02:11.557Z',
+    type: 'message.received',
+    data: {
+        object: {
+            id: 'AC3700e624eca547eb9f749a06f2eb1b9a',
+            object: 'message',
+            from: '+15555550123',
+            to: '+15555550100',
+            direction: 'incoming',
+            body: 'is 4B21C7 still available?',
+            media: [],
+            status: 'received',
+            createdAt: '2026-10-19T14:02:10.000Z',
+            userId: 'US123abc',
+            phoneNumberId: 'PNqErUjbAJ',
+            conversationId: 'CN78ba0373683c48fd8fd96bc836c51f79',
+        },
+    },
+};
+
+const messageDelivered = {
+    ...messageReceived,
+    id: 'EV0d4b3c5a1e2f4a6b8c9d0e1f2a3b4c5d',
+    type: 'message.delivered',
+    data: {
+        object: {
+            ...messageReceived.data.object,
+            id: 'ACa1b2c3d4e5f60718293a4b5c6d7e8f90',
+            from: '+15555550100',
+            to: '+15555550123',
+            direction: 'outgoing',
+            body: 'Yes, still available',
+            status: 'delivered',
+        },
+    },
+};
+
+const conversationUpdated = {
+    id: 'EV9f8e7d6c5b4a39281706f5e4d3c2b1a0',
+    object: 'event',
+    apiVersion: 'v3',
+    createdAt: '2026-10-19T14:05:00.000Z',
+    type: 'conversation.updated',
+    data: {
+        object: {
+            id: 'CN78ba0373683c48fd8fd96bc836c51f79',
+            object: 'conversation',
+            phoneNumberId: 'PNqErUjbAJ',
+            participants: ['+15555550123'],
+            name: 'Driver Joe',
+            assignedTo: null,
+            lastActivityAt: '2026-10-19T14:02:10.000Z',
+            lastActivityId: 'AC3700e624eca547eb9f749a06f2eb1b9a',
+            mutedUntil: null,
+            snoozedUntil: null,
+            deletedAt: null,
+        },
+    },
+};
+
+const signedHeaders = (payload: string, timestamp = Date.now()) => ({
+    'content-type': 'application/json',
+    'openphone-signature': `hmac;1;${timestamp};${computeQuoSignature(SIGNING_KEY, String(timestamp), payload)}`,
+});
+
+describe('Quo Webhook Routes', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = fastify();
+        app.setErrorHandler(setupErrorHandler);
+        await app.register(quoWebhookRoutes, { prefix: '/webhooks' });
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        vi.mocked(prisma.conversation.findUnique).mockResolvedValue(null);
+    });
+
+    it('should reject unsigned deliveries', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/quo',
+            headers: { 'content-type': 'application/json' },
+            payload: JSON.stringify(messageReceived),
+        });
+
+        expect(response.statusCode).toBe(401);
+        expect(quoSyncService.upsertMessage).not.toHaveBeenCalled();
+    });
+
+    it('should reject deliveries whose body does not match the signature', async () => {
+        const payload = JSON.stringify(messageReceived);
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/quo',
+            headers: signedHeaders(payload),
+            payload: payload.replace('4B21C7', '999999'),
+        });
+
+        expect(response.statusCode).toBe(401);
+    });
+
+    it('should store and parse message.received right away', async () => {
+        const payload = JSON.stringify(messageReceived);
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/quo',
+            headers: signedHeaders(payload),
+            payload,
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().data).toEqual({
+            eventId: messageReceived.id,
+            type: 'message.received',
+            handled: true,
+        });
+        expect(prisma.conversation.upsert).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: { id: 'CN78ba0373683c48fd8fd96bc836c51f79' },
+                create: expect.objectContaining({ participants: JSON.stringify(['+15555550123']) }),
+            })
+        );
+        expect(quoSyncService.upsertMessage).toHaveBeenCalledWith(
+            'CN78ba0373683c48fd8fd96bc836c51f79',
+            expect.objectContaining({
+                id: 'AC3700e624eca547eb9f749a06f2eb1b9a',
+                text: 'is 4B21C7 still available?',
+                to: ['+15555550100'],
+            })
+        );
+        expect(quoSyncService.parseConversation).toHaveBeenCalledWith(
+            'CN78ba0373683c48fd8fd96bc836c51f79',
+            ['+15555550123']
+        );
+        expect(quoSyncService.markConversationParsed).toHaveBeenCalled();
+    });
+
+    it('should update status on message.delivered without parsing', async () => {
+        vi.mocked(prisma.conversation.findUnique).mockResolvedValue({
+            lastActivityAt: new Date('2026-10-19T14:02:10.000Z'),
+        } as never);
+
+        const payload = JSON.stringify(messageDelivered);
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/quo',
+            headers: signedHeaders(payload),
+            payload,
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(prisma.conversation.update).toHaveBeenCalled();
+        expect(quoSyncService.upsertMessage).toHaveBeenCalledWith(
+            'CN78ba0373683c48fd8fd96bc836c51f79',
+            expect.objectContaining({ status: 'delivered' })
+        );
+        expect(quoSyncService.parseConversation).not.toHaveBeenCalled();
+    });
+
+    it('should mirror conversation.updated', async () => {
+        const payload = JSON.stringify(conversationUpdated);
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/quo',
+            headers: signedHeaders(payload),
+            payload,
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(quoSyncService.upsertConversation).toHaveBeenCalledWith(
+            expect.objectContaining({
+                id: 'CN78ba0373683c48fd8fd96bc836c51f79',
+                name: 'Driver Joe',
+            })
+        );
+    });
+
+    it('should acknowledge unsupported events without handling them', async () => {
+        const payload = JSON.stringify({ ...conversationUpdated, type: 'call.completed' });
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/quo',
+            headers: signedHeaders(payload),
+            payload,
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().data.handled).toBe(false);
+    });
+
+    it('should return 400 for a malformed message object', async () => {
+        const payload = JSON.stringify({
+            ...messageReceived,
+            data: { object: { id: 'AC1' } },
+        });
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/quo',
+            headers: signedHeaders(payload),
+            payload,
+        });
+
+        expect(response.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * Quo Webhook Routes
+ *
+ * Public endpoint for OpenPhone webhooks. Authenticated by the
+ * `openphone-signature` HMAC header instead of a JWT.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { verifyQuoWebhookMiddleware } from '../../libs/auth/quo-webhook.middleware.js';
+import { quoWebhookController } from './quo-webhook.controller.js';
+
+/**
+ * Register Quo webhook routes
+ *
+ * @param fastify - Fastify instance
+ */
+export async function quoWebhookRoutes(fastify: FastifyInstance): Promise<void> {
+    // Keep the exact body bytes for signature verification.
+    // Scoped to this plugin so other routes keep the default JSON parser.
+    fastify.addContentTypeParser(
+        'application/json',
+        { parseAs: 'string' },
+        (request, body, done) => {
+            request.rawBody = body as string;
+            try {
+                done(null, JSON.parse(body as string));
+            } catch (error) {
+                done(error as Error, undefined);
+            }
+        }
+    );
+
+    /**
+     * POST /webhooks/quo
+     *
+     * Receives message.received, message.delivered and conversation.updated events
+     */
+    fastify.post('/quo', {
+        config: {
+            rateLimit: {
+                max: 1000,
+                timeWindow: '1 minute',
+            },
+        },
+        preHandler: [verifyQuoWebhookMiddleware],
+        handler: quoWebhookController.receiveEvent.bind(quoWebhookController),
+    });
+}
@@ -0,0 +1,199 @@
+/**
+ * Quo Webhook Service
+ *
+ * Applies OpenPhone webhook events to the local Conversation/Message tables
+ * as they happen, then feeds inbound messages through the same parsing
+ * pipeline as the polling sync (load IDs -> load inquiries, STOP/START consent keywords).
+ *
+ * The 10-minute poll in quo-sync-scheduler.ts stays in place as a
+ * reconciliation backstop for missed or failed deliveries.
+ */
+
+import { prisma } from '../../libs/db.js';
+import logger from '../../libs/logger.js';
+import type { QuoConversation, QuoMessage } from '../../types/quo-api.types.js';
+import { BadRequestError } from '../../utils/errors.js';
+import {
+    type WebhookEvent,
+    type WebhookMessage,
+    webhookConversationSchema,
+    webhookMessageSchema,
+} from './quo-messages.schemas.js';
+import { quoSyncService } from './quo-sync.service.js';
+
+/**
+ * Result of handling a single webhook event
+ */
+export interface WebhookHandleResult {
+    eventId: string;
+    type: string;
+    handled: boolean;
+}
+
+class QuoWebhookService {
+    /**
+     * Dispatch a verified webhook event to its handler
+     */
+    async handleEvent(event: WebhookEvent): Promise<WebhookHandleResult> {
+        logger.info({ eventId: event.id, type: event.type }, '[QUO WEBHOOK] Event received');
+
+        switch (event.type) {
+            case 'message.received':
+                await this.handleMessageReceived(this.parseMessage(event));
+                break;
+            case 'message.delivered':
+                await this.handleMessageDelivered(this.parseMessage(event));
+                break;
+            case 'conversation.updated':
+                await this.handleConversationUpdated(event);
+                break;
+            default:
+                logger.debug(
+                    { eventId: event.id, type: event.type },
+                    '[QUO WEBHOOK] Ignoring unsupported event'
+                );
+                return { eventId: event.id, type: event.type, handled: false };
+        }
+
+        return { eventId: event.id, type: event.type, handled: true };
+    }
+
+    /**
+     * message.received: store the message and run the parsing pipeline right away
+     */
+    private async handleMessageReceived(message: WebhookMessage): Promise<void> {
+        await this.storeMessage(message);
+
+        if (message.direction !== 'incoming') return;
+
+        const participants = [message.from];
+        await quoSyncService.parseConversation(message.conversationId, participants);
+        await quoSyncService.markConversationParsed(message.conversationId);
+
+        logger.info(
+            { conversationId: message.conversationId, messageId: message.id },
+            '[QUO WEBHOOK] SUCCESS: Inbound message stored and parsed'
+        );
+    }
+
+    /**
+     * message.delivered: store the message so its delivery status is current
+     */
+    private async handleMessageDelivered(message: WebhookMessage): Promise<void> {
+        await this.storeMessage(message);
+
+        logger.debug(
+            { messageId: message.id, status: message.status },
+            '[QUO WEBHOOK] Message delivery status updated'
+        );
+    }
+
+    /**
+     * conversation.updated: mirror the conversation metadata
+     */
+    private async handleConversationUpdated(event: WebhookEvent): Promise<void> {
+        const result = webhookConversationSchema.safeParse(event.data.object);
+        if (!result.success) {
+            throw new BadRequestError(`Malformed conversation in event ${event.id}`);
+        }
+
+        const conversation = result.data;
+        const quoConversation: QuoConversation = {
+            id: conversation.id,
+            phoneNumberId: conversation.phoneNumberId,
+            participants: conversation.participants,
+            name: conversation.name ?? null,
+            assignedTo: conversation.assignedTo ?? null,
+            createdAt: conversation.lastActivityAt,
+            updatedAt: conversation.lastActivityAt,
+            lastActivityAt: conversation.lastActivityAt,
+            lastActivityId: conversation.lastActivityId,
+            deletedAt: conversation.deletedAt ?? null,
+            mutedUntil: conversation.mutedUntil ?? null,
+            snoozedUntil: conversation.snoozedUntil ?? null,
+        };
+
+        await quoSyncService.upsertConversation(quoConversation);
+
+        logger.debug({ conversationId: conversation.id }, '[QUO WEBHOOK] Conversation updated');
+    }
+
+    /**
+     * Validate the message object carried by a message.* event
+     */
+    private parseMessage(event: WebhookEvent): WebhookMessage {
+        const result = webhookMessageSchema.safeParse(event.data.object);
+        if (!result.success) {
+            throw new BadRequestError(`Malformed message in event ${event.id}`);
+        }
+        return result.data;
+    }
+
+    /**
+     * Make sure the parent conversation exists, then upsert the message
+     *
+     * A webhook can arrive before the poller has ever seen the conversation,
+     * so a minimal row is created from the message itself. Existing rows only
+     * get their last-activity pointer moved forward.
+     */
+    private async storeMessage(message: WebhookMessage): Promise<void> {
+        const to = Array.isArray(message.to) ? message.to : [message.to];
+        const participants = message.direction === 'incoming' ? [message.from] : to;
+        const createdAt = new Date(message.createdAt);
+
+        const existing = await prisma.conversation.findUnique({
+            where: { id: message.conversationId },
+            select: { lastActivityAt: true },
+        });
+
+        if (!existing) {
+            // upsert rather than create: two events for a new conversation can race
+            await prisma.conversation.upsert({
+                where: { id: message.conversationId },
+                create: {
+                    id: message.conversationId,
+                    phoneNumberId: message.phoneNumberId,
+                    participants: JSON.stringify(participants),
+                    lastActivityAt: createdAt,
+                    lastActivityId: message.id,
+                    syncedAt: new Date(),
+                },
+                update: {},
+            });
+        } else if (createdAt >= existing.lastActivityAt) {
+            await prisma.conversation.update({
+                where: { id: message.conversationId },
+                data: {
+                    lastActivityAt: createdAt,
+                    lastActivityId: message.id,
+                    syncedAt: new Date(),
+                },
+            });
+        }
+
+        const quoMessage: QuoMessage = {
+            id: message.id,
+            to,
+            from: message.from,
+            text: message.body ?? message.text ?? '',
+            phoneNumberId: message.phoneNumberId,
+            direction: message.direction,
+            userId: message.userId ?? '',
+            status: message.status,
+            createdAt: message.createdAt,
+            updatedAt: message.createdAt,
+        };
+
+        await quoSyncService.upsertMessage(message.conversationId, quoMessage);
+    }
+}
+
+/**
+ * Singleton instance
+ */
+export const quoWebhookService = new QuoWebhookService();
+
+/**
+ * Export class for testing
+ */
+export { QuoWebhookService };
@@ -0,0 +1,42 @@
+/**
+ * Sender Lines Service Tests
+ *
+ * The default line (QUO_NUMBER, +15550000000 in tests) must share one send
+ * budget whether a message names it by ID or as null.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { quoMessagesService } from '../../services/quo-messages.service';
+import { senderLinesService } from './sender-lines.service';
+
+vi.mock('../../services/quo-messages.service', () => ({
+    quoMessagesService: { listPhoneNumbers: vi.fn() },
+}));
+
+describe('senderLinesService', () => {
+    beforeEach(async () => {
+        vi.mocked(quoMessagesService.listPhoneNumbers).mockResolvedValue([
+            { id: 'PNdefault', number: '+15550000000' },
+            { id: 'PNother', number: '+15550000001' },
+        ]);
+        await senderLinesService.loadDefaultLine();
+    });
+
+    it('keys the default line as null, by ID or by number', () => {
+        expect(senderLinesService.toLineKey('PNdefault')).toBeNull();
+        expect(senderLinesService.toLineKey('+15550000000')).toBeNull();
+        expect(senderLinesService.toLineKey(null)).toBeNull();
+        expect(senderLinesService.toLineKey('PNother')).toBe('PNother');
+    });
+
+    it('gives the default line a single token bucket', () => {
+        expect(senderLinesService.tryAcquire(null)).toBe(true);
+        expect(senderLinesService.tryAcquire('PNdefault')).toBe(false);
+        expect(senderLinesService.tryAcquire('PNother')).toBe(true);
+
+        expect(senderLinesService.getExhaustedLines()).toEqual({
+            phoneNumberIds: ['PNother', 'PNdefault'],
+            defaultLine: true,
+        });
+    });
+});
@@ -0,0 +1,267 @@
+/**
+ * Sender Lines Service
+ *
+ * Chooses which OpenPhone line (Quo phone number ID) a queued message is
+ * sent from, and rate-limits sends per line.
+ *
+ * Line choice, in order:
+ * 1. A line set on the message itself
+ * 2. The line the recipient last talked to (Conversation.phoneNumberId)
+ * 3. The campaign's line
+ * 4. The default line (QUO_NUMBER), stored as null
+ *
+ * Each line has its own token bucket (QUEUE_SEND_RATE_PER_MINUTE /
+ * QUEUE_SEND_BURST, overridable per line with QUEUE_LINE_RATE_LIMITS). The
+ * default line is keyed as null even when a conversation names it by ID, so
+ * it never gets two budgets (see toLineKey).
+ */
+
+import { z } from 'zod';
+import { env } from '../../config/env.js';
+import { prisma } from '../../libs/db.js';
+import logger from '../../libs/logger.js';
+import { TokenBucket, type TokenBucketOptions } from '../../libs/token-bucket.js';
+import { quoMessagesService } from '../../services/quo-messages.service.js';
+import { BadRequestError } from '../../utils/errors.js';
+
+/**
+ * Bucket key for messages sent from the default line
+ */
+const DEFAULT_LINE = 'default';
+
+/**
+ * How long the GET /phone-numbers result is reused
+ */
+const PHONE_NUMBERS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Max phone numbers per sticky-line lookup query
+ */
+const STICKY_LOOKUP_CHUNK = 200;
+
+/**
+ * The parts of a GET /phone-numbers entry we use
+ */
+interface QuoLine {
+    id: string;
+    number?: string;
+    name?: string;
+}
+
+const lineRateLimitsSchema = z.record(
+    z.object({
+        ratePerMinute: z.number().positive(),
+        burst: z.number().int().min(1).default(1),
+    })
+);
+
+class SenderLinesService {
+    private buckets = new Map<string, TokenBucket>();
+    private lineRateLimits: Record<string, TokenBucketOptions> | null = null;
+    private phoneNumbersCache: { lines: QuoLine[]; fetchedAt: number } | null = null;
+    private defaultLineId: string | null = null;
+
+    /**
+     * OpenPhone lines of the workspace (GET /phone-numbers, cached for 5 minutes)
+     */
+    async listLines(): Promise<QuoLine[]> {
+        if (
+            this.phoneNumbersCache &&
+            Date.now() - this.phoneNumbersCache.fetchedAt < PHONE_NUMBERS_CACHE_TTL_MS
+        ) {
+            return this.phoneNumbersCache.lines;
+        }
+
+        const lines = await quoMessagesService.listPhoneNumbers();
+        this.phoneNumbersCache = { lines, fetchedAt: Date.now() };
+        this.defaultLineId =
+            lines.find((line) => line.id === env.QUO_NUMBER || line.number === env.QUO_NUMBER)
+                ?.id ?? null;
+
+        return lines;
+    }
+
+    /**
+     * Look up the ID of the default line (QUO_NUMBER) for toLineKey
+     *
+     * A failed lookup is only logged: the previous ID is kept.
+     */
+    async loadDefaultLine(): Promise<void> {
+        try {
+            await this.listLines();
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { error: errorMessage },
+                '[MESSAGE QUEUE] WARN: Could not list sender lines to find the default line'
+            );
+        }
+    }
+
+    /**
+     * Key of a line for storage, rate limits and worker queues
+     *
+     * @returns null for the default line, whether named by ID or not
+     */
+    toLineKey(phoneNumberId: string | null | undefined): string | null {
+        if (!phoneNumberId) return null;
+        if (phoneNumberId === this.defaultLineId || phoneNumberId === env.QUO_NUMBER) return null;
+
+        return phoneNumberId;
+    }
+
+    /**
+     * Reject phone number IDs that are not one of our lines
+     */
+    async assertLine(phoneNumberId: string): Promise<void> {
+        const lines = await this.listLines();
+
+        if (!lines.some((line) => line.id === phoneNumberId)) {
+            throw new BadRequestError(`Unknown phone number ID: ${phoneNumberId}`);
+        }
+    }
+
+    /**
+     * Choose the sending line for each recipient
+     *
+     * @param phoneNumbers - Recipients (E.164)
+     * @param fallbackPhoneNumberId - Line for recipients without a conversation (campaign line)
+     * @returns Map of recipient -> phone number ID (null = default line)
+     */
+    async resolveSenders(
+        phoneNumbers: string[],
+        fallbackPhoneNumberId?: string | null
+    ): Promise<Map<string, string | null>> {
+        const sticky = await this.findLastLines(phoneNumbers);
+        await this.loadDefaultLine();
+
+        return new Map(
+            phoneNumbers.map((phoneNumber) => [
+                phoneNumber,
+                this.toLineKey(sticky.get(phoneNumber) ?? fallbackPhoneNumberId),
+            ])
+        );
+    }
+
+    /**
+     * Take a send token for a line
+     *
+     * @param phoneNumberId - Line ID (null = default line)
+     * @returns true if the line may send now
+     */
+    tryAcquire(phoneNumberId: string | null): boolean {
+        return this.getBucket(phoneNumberId).tryTake();
+    }
+
+    /**
+     * Lines that have used up their send budget for now
+     *
+     * Only lines that have sent since startup have a bucket; all others are free.
+     */
+    getExhaustedLines(): { phoneNumberIds: string[]; defaultLine: boolean } {
+        const exhausted = [...this.buckets.entries()]
+            .filter(([, bucket]) => !bucket.hasToken())
+            .map(([key]) => key);
+
+        const defaultLine = exhausted.includes(DEFAULT_LINE);
+        const phoneNumberIds = exhausted.filter((key) => key !== DEFAULT_LINE);
+
+        // Messages queued before the default line's ID was known may name it
+        if (defaultLine && this.defaultLineId) {
+            phoneNumberIds.push(this.defaultLineId);
+        }
+
+        return { phoneNumberIds, defaultLine };
+    }
+
+    /**
+     * Configured throughput per line (for the queue stats)
+     */
+    getRateLimit(phoneNumberId: string | null): TokenBucketOptions {
+        const lineId = this.toLineKey(phoneNumberId) ?? this.defaultLineId;
+        const override = lineId ? this.getLineRateLimits()[lineId] : undefined;
+
+        return (
+            override ?? {
+                ratePerMinute: env.QUEUE_SEND_RATE_PER_MINUTE,
+                capacity: env.QUEUE_SEND_BURST,
+            }
+        );
+    }
+
+    private getBucket(phoneNumberId: string | null): TokenBucket {
+        const key = this.toLineKey(phoneNumberId) ?? DEFAULT_LINE;
+        let bucket = this.buckets.get(key);
+
+        if (!bucket) {
+            bucket = new TokenBucket(this.getRateLimit(phoneNumberId));
+            this.buckets.set(key, bucket);
+        }
+
+        return bucket;
+    }
+
+    private getLineRateLimits(): Record<string, TokenBucketOptions> {
+        if (this.lineRateLimits) return this.lineRateLimits;
+
+        this.lineRateLimits = {};
+        if (!env.QUEUE_LINE_RATE_LIMITS) return this.lineRateLimits;
+
+        try {
+            const parsed = lineRateLimitsSchema.parse(JSON.parse(env.QUEUE_LINE_RATE_LIMITS));
+            for (const [phoneNumberId, limit] of Object.entries(parsed)) {
+                this.lineRateLimits[phoneNumberId] = {
+                    ratePerMinute: limit.ratePerMinute,
+                    capacity: limit.burst,
+                };
+            }
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { error: errorMessage },
+                '[MESSAGE QUEUE] WARN: Ignoring invalid QUEUE_LINE_RATE_LIMITS'
+            );
+        }
+
+        return this.lineRateLimits;
+    }
+
+    /**
+     * Line of each recipient's most recently active conversation
+     */
+    private async findLastLines(phoneNumbers: string[]): Promise<Map<string, string>> {
+        const lastLines = new Map<string, { phoneNumberId: string; lastActivityAt: Date }>();
+        const wanted = new Set(phoneNumbers);
+
+        for (let i = 0; i < phoneNumbers.length; i += STICKY_LOOKUP_CHUNK) {
+            const chunk = phoneNumbers.slice(i, i + STICKY_LOOKUP_CHUNK);
+
+            const conversations = await prisma.conversation.findMany({
+                where: {
+                    deletedAt: null,
+                    OR: chunk.map((phoneNumber) => ({ participants: { contains: phoneNumber } })),
+                },
+                select: { phoneNumberId: true, participants: true, lastActivityAt: true },
+            });
+
+            for (const conversation of conversations) {
+                const participants: string[] = JSON.parse(conversation.participants);
+
+                for (const participant of participants) {
+                    if (!wanted.has(participant)) continue;
+
+                    const current = lastLines.get(participant);
+                    if (!current || conversation.lastActivityAt > current.lastActivityAt) {
+                        lastLines.set(participant, conversation);
+                    }
+                }
+            }
+        }
+
+        return new Map(
+            [...lastLines.entries()].map(([phoneNumber, line]) => [phoneNumber, line.phoneNumberId])
+        );
+    }
+}
+
+export const senderLinesService = new SenderLinesService();
@@ -0,0 +1,294 @@
+/**
+ * Scheduled Jobs Repository
+ *
+ * Database queries for scheduled job run info and the MySQL lease fallback
+ */
+
+import { type JobRun, type JobRunDiagnostic, Prisma, type ScheduledJob } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type { RowDiagnostic } from '../../libs/row-diagnostics.js';
+import type {
+    FinishJobRunData,
+    FinishRunData,
+    JobTrigger,
+    ListDiagnosticsFilters,
+} from './scheduled-jobs.types.js';
+
+class ScheduledJobRepo {
+    /**
+     * Create the job row if missing and store its schedule
+     */
+    async register(
+        name: string,
+        schedule: string | null,
+        nextRunAt: Date | null
+    ): Promise<ScheduledJob> {
+        return prisma.scheduledJob.upsert({
+            where: { name },
+            create: { name, schedule, nextRunAt },
+            update: { schedule, nextRunAt },
+        });
+    }
+
+    /**
+     * Take the MySQL lease of a job if it is free or expired
+     *
+     * A single conditional UPDATE, so two instances can never both win.
+     *
+     * @returns true if `owner` now holds the lease
+     */
+    async tryAcquireLease(name: string, owner: string, expiresAt: Date): Promise<boolean> {
+        await prisma.scheduledJob.upsert({
+            where: { name },
+            create: { name },
+            update: {},
+        });
+
+        const result = await prisma.scheduledJob.updateMany({
+            where: {
+                name,
+                OR: [{ leaseOwner: null }, { leaseExpiresAt: { lt: new Date() } }],
+            },
+            data: { leaseOwner: owner, leaseExpiresAt: expiresAt },
+        });
+
+        return result.count === 1;
+    }
+
+    /**
+     * Extend a held MySQL lease
+     *
+     * @returns false if the lease was lost (expired and taken by another instance)
+     */
+    async renewLease(name: string, owner: string, expiresAt: Date): Promise<boolean> {
+        const result = await prisma.scheduledJob.updateMany({
+            where: { name, leaseOwner: owner },
+            data: { leaseExpiresAt: expiresAt },
+        });
+
+        return result.count === 1;
+    }
+
+    /**
+     * Give up a held MySQL lease
+     */
+    async releaseLease(name: string, owner: string): Promise<void> {
+        await prisma.scheduledJob.updateMany({
+            where: { name, leaseOwner: owner },
+            data: { leaseOwner: null, leaseExpiresAt: null },
+        });
+    }
+
+    /**
+     * Record the start of a run
+     */
+    async recordStart(name: string, runBy: string, startedAt: Date): Promise<void> {
+        await prisma.scheduledJob.upsert({
+            where: { name },
+            create: { name, lastRunAt: startedAt, lastStatus: 'running', lastRunBy: runBy },
+            update: { lastRunAt: startedAt, lastStatus: 'running', lastRunBy: runBy },
+        });
+    }
+
+    /**
+     * Record the outcome of a run (with its start, for runs never recorded as started)
+     */
+    async recordFinish(name: string, data: FinishRunData): Promise<void> {
+        await prisma.scheduledJob.update({
+            where: { name },
+            data: {
+                lastRunAt: data.startedAt,
+                lastRunBy: data.runBy,
+                lastFinishedAt: new Date(),
+                lastStatus: data.status,
+                lastError: data.error ?? null,
+                lastDurationMs: data.durationMs,
+                ...(data.nextRunAt !== undefined ? { nextRunAt: data.nextRunAt } : {}),
+            },
+        });
+    }
+
+    /**
+     * List all jobs (by name)
+     */
+    async findAll(): Promise<ScheduledJob[]> {
+        return prisma.scheduledJob.findMany({
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    /**
+     * Start a run history row
+     */
+    async createRun(jobName: string, trigger: JobTrigger, runBy: string): Promise<JobRun> {
+        return prisma.jobRun.create({
+            data: { jobName, trigger, runBy },
+        });
+    }
+
+    /**
+     * Store the outcome of a run
+     */
+    async finishRun(id: string, data: FinishJobRunData): Promise<void> {
+        await prisma.jobRun.update({
+            where: { id },
+            data: {
+                status: data.status,
+                finishedAt: new Date(),
+                durationMs: data.durationMs,
+                counts: data.counts ?? Prisma.JsonNull,
+                error: data.error ?? null,
+                errorSamples:
+                    data.errorSamples && data.errorSamples.length > 0
+                        ? (data.errorSamples as unknown as Prisma.InputJsonValue)
+                        : Prisma.JsonNull,
+            },
+        });
+    }
+
+    /**
+     * List the runs of a job (newest first)
+     */
+    async findRuns(
+        jobName: string,
+        filters: { status?: string; skip: number; take: number }
+    ): Promise<{ items: JobRun[]; totalItems: number }> {
+        const where = {
+            jobName,
+            ...(filters.status ? { status: filters.status } : {}),
+        };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.jobRun.findMany({
+                where,
+                orderBy: { startedAt: 'desc' },
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.jobRun.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Latest runs of any of the given jobs, with their diagnostic count
+     */
+    async findRecentRuns(jobNames: string[], take: number) {
+        return prisma.jobRun.findMany({
+            where: { jobName: { in: jobNames } },
+            orderBy: { startedAt: 'desc' },
+            take,
+            include: { _count: { select: { diagnostics: true } } },
+        });
+    }
+
+    /**
+     * Find a run by ID
+     */
+    async findRunById(id: string): Promise<JobRun | null> {
+        return prisma.jobRun.findUnique({ where: { id } });
+    }
+
+    /**
+     * Store the per-row diagnostics of a run
+     */
+    async createDiagnostics(runId: string, diagnostics: RowDiagnostic[]): Promise<number> {
+        const result = await prisma.jobRunDiagnostic.createMany({
+            data: diagnostics.map((diagnostic) => ({
+                runId,
+                tab: diagnostic.tab,
+                rowNumber: diagnostic.row,
+                column: diagnostic.column,
+                value: diagnostic.value,
+                reason: diagnostic.reason,
+                severity: diagnostic.severity,
+                message: diagnostic.message,
+            })),
+        });
+
+        return result.count;
+    }
+
+    /**
+     * List the diagnostics of a run (by row)
+     */
+    async findDiagnostics(
+        runId: string,
+        filters: ListDiagnosticsFilters
+    ): Promise<{ items: JobRunDiagnostic[]; totalItems: number }> {
+        const where = {
+            runId,
+            ...(filters.reason ? { reason: filters.reason } : {}),
+            ...(filters.severity ? { severity: filters.severity } : {}),
+        };
+
+        const [items, totalItems] = await Promise.all([
+            prisma.jobRunDiagnostic.findMany({
+                where,
+                orderBy: [{ rowNumber: 'asc' }, { createdAt: 'asc' }],
+                skip: filters.skip,
+                take: filters.take,
+            }),
+            prisma.jobRunDiagnostic.count({ where }),
+        ]);
+
+        return { items, totalItems };
+    }
+
+    /**
+     * Latest run of every job that has run at least once
+     */
+    async findLatestRuns(): Promise<JobRun[]> {
+        const latest = await prisma.jobRun.groupBy({
+            by: ['jobName'],
+            _max: { startedAt: true },
+        });
+
+        if (latest.length === 0) return [];
+
+        const runs = await prisma.jobRun.findMany({
+            where: {
+                OR: latest.map((row) => ({
+                    jobName: row.jobName,
+                    startedAt: row._max.startedAt!,
+                })),
+            },
+            orderBy: { startedAt: 'desc' },
+        });
+
+        // Keep one run per job if two started in the same millisecond
+        const byJob = new Map<string, JobRun>();
+        for (const run of runs) {
+            if (!byJob.has(run.jobName)) byJob.set(run.jobName, run);
+        }
+
+        return [...byJob.values()];
+    }
+
+    /**
+     * Latest successful run start per job
+     */
+    async findLastSuccessAt(): Promise<Map<string, Date>> {
+        const rows = await prisma.jobRun.groupBy({
+            by: ['jobName'],
+            where: { status: 'success' },
+            _max: { startedAt: true },
+        });
+
+        return new Map(rows.map((row) => [row.jobName, row._max.startedAt!]));
+    }
+
+    /**
+     * Delete run history older than a date
+     */
+    async deleteRunsBefore(before: Date): Promise<number> {
+        const result = await prisma.jobRun.deleteMany({
+            where: { startedAt: { lt: before } },
+        });
+
+        return result.count;
+    }
+}
+
+export const scheduledJobRepo = new ScheduledJobRepo();
@@ -0,0 +1,94 @@
+/**
+ * Scheduled Jobs Service Tests
+ *
+ * Runs jobs against mocked leases and a mocked scheduled_jobs repository.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { acquireLease, releaseLease } from '../../libs/job-lease';
+import { scheduledJobRepo } from './scheduled-jobs.repo';
+import { scheduledJobService } from './scheduled-jobs.service';
+
+vi.mock('../../libs/job-lease', () => ({
+    INSTANCE_ID: 'api-1:100',
+    acquireLease: vi.fn(),
+    releaseLease: vi.fn(),
+    renewLease: vi.fn(),
+}));
+
+vi.mock('./scheduled-jobs.repo', () => ({
+    scheduledJobRepo: {
+        recordStart: vi.fn(),
+        recordFinish: vi.fn(),
+    },
+}));
+
+const lease = { name: 'sheet-sync', token: 'token-1', backend: 'redis' as const };
+
+describe('scheduledJobService.run', () => {
+    beforeEach(() => {
+        vi.mocked(acquireLease).mockResolvedValue(lease);
+        vi.mocked(releaseLease).mockResolvedValue();
+    });
+
+    it('skips the run while another instance holds the lease', async () => {
+        vi.mocked(acquireLease).mockResolvedValue(null);
+        const task = vi.fn();
+
+        const ran = await scheduledJobService.run('sheet-sync', task);
+
+        expect(ran).toBe(false);
+        expect(task).not.toHaveBeenCalled();
+        expect(scheduledJobRepo.recordStart).not.toHaveBeenCalled();
+    });
+
+    it('runs the job under the lease and releases it', async () => {
+        const task = vi.fn().mockResolvedValue(undefined);
+
+        const ran = await scheduledJobService.run('sheet-sync', task);
+
+        expect(ran).toBe(true);
+        expect(task).toHaveBeenCalledTimes(1);
+        expect(scheduledJobRepo.recordFinish).toHaveBeenCalledWith(
+            'sheet-sync',
+            expect.objectContaining({ status: 'success' })
+        );
+        expect(releaseLease).toHaveBeenCalledWith(lease);
+    });
+
+    it('records a failed run and still releases the lease', async () => {
+        const task = vi.fn().mockRejectedValue(new Error('Sheet not found'));
+
+        await expect(scheduledJobService.run('sheet-sync', task)).rejects.toThrow(
+            'Sheet not found'
+        );
+
+        expect(scheduledJobRepo.recordFinish).toHaveBeenCalledWith(
+            'sheet-sync',
+            expect.objectContaining({ status: 'failed', error: 'Sheet not found' })
+        );
+        expect(releaseLease).toHaveBeenCalledWith(lease);
+    });
+
+    it('does not record idle runs of a polling job', async () => {
+        const ran = await scheduledJobService.run('message-dispatch', async () => 0, {
+            isIdle: (dispatched) => dispatched === 0,
+        });
+
+        expect(ran).toBe(true);
+        expect(scheduledJobRepo.recordStart).not.toHaveBeenCalled();
+        expect(scheduledJobRepo.recordFinish).not.toHaveBeenCalled();
+    });
+
+    it('records a polling run that did something once it finishes', async () => {
+        await scheduledJobService.run('message-dispatch', async () => 3, {
+            isIdle: (dispatched) => dispatched === 0,
+        });
+
+        expect(scheduledJobRepo.recordStart).not.toHaveBeenCalled();
+        expect(scheduledJobRepo.recordFinish).toHaveBeenCalledWith(
+            'message-dispatch',
+            expect.objectContaining({ status: 'success', runBy: 'api-1:100' })
+        );
+    });
+});
@@ -0,0 +1,370 @@
+/**
+ * Scheduled Jobs Service
+ *
+ * Runs the periodic jobs of the API process (syncs, driver matching, queue
+ * dispatch) under a named lease, so that with several instances each run
+ * happens once, and records last-run / next-run info per job.
+ *
+ * While a job runs its lease is renewed every half TTL, so the TTL only
+ * bounds how long a crashed instance can block the job.
+ *
+ * Where a job actually executes (API or worker process) it is wrapped in
+ * track(), which stores a JobRun history row with its trigger, counts,
+ * per-row error samples and sheet row diagnostics.
+ */
+
+import cron, { type ScheduledTask } from 'node-cron';
+import type { ErrorSample } from '../../libs/error-samples.js';
+import { INSTANCE_ID, acquireLease, releaseLease, renewLease } from '../../libs/job-lease.js';
+import logger from '../../libs/logger.js';
+import type { RowDiagnostic } from '../../libs/row-diagnostics.js';
+import { scheduledJobRepo } from './scheduled-jobs.repo.js';
+import type {
+    FinishJobRunData,
+    JobTrigger,
+    ListDiagnosticsFilters,
+} from './scheduled-jobs.types.js';
+
+/**
+ * Default lease lifetime
+ */
+const DEFAULT_LEASE_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Max length of a stored run error
+ */
+const MAX_RUN_ERROR_LENGTH = 2000;
+
+export interface RunJobOptions<T = unknown> {
+    /** Lease lifetime unless renewed (default 2 minutes) */
+    leaseTtlMs?: number;
+    /**
+     * Whether a run did nothing worth recording. Set for frequent polling
+     * jobs: their runs are then only recorded once finished, and only when
+     * this returns false or they fail.
+     */
+    isIdle?: (result: T) => boolean;
+}
+
+class ScheduledJobService {
+    private tasks = new Map<string, ScheduledTask>();
+
+    /**
+     * Run a job on a cron schedule, once across all instances
+     *
+     * Errors are logged and recorded; they never reach node-cron.
+     */
+    schedule<T>(
+        name: string,
+        pattern: string,
+        task: () => Promise<T>,
+        options: RunJobOptions<T> = {}
+    ): ScheduledTask {
+        const cronTask = cron.schedule(pattern, async () => {
+            try {
+                await this.run(name, task, options);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.error({ job: name, error: errorMessage }, '[SCHEDULER] ERROR: Job failed');
+            }
+        });
+
+        this.tasks.set(name, cronTask);
+
+        scheduledJobRepo.register(name, pattern, cronTask.getNextRun()).catch((error) => {
+            logger.warn(
+                { job: name, error: error.message },
+                '[SCHEDULER] WARN: Job registration failed'
+            );
+        });
+
+        return cronTask;
+    }
+
+    /**
+     * Run a job now if no other instance is running it
+     *
+     * @returns false if the run was skipped because the lease is held elsewhere
+     * @throws The job's error (after recording it)
+     */
+    async run<T>(
+        name: string,
+        task: () => Promise<T>,
+        options: RunJobOptions<T> = {}
+    ): Promise<boolean> {
+        const ttlMs = options.leaseTtlMs ?? DEFAULT_LEASE_TTL_MS;
+        const lease = await acquireLease(name, ttlMs);
+
+        if (!lease) {
+            logger.debug({ job: name }, '[SCHEDULER] Lease held elsewhere, skipping run');
+            return false;
+        }
+
+        const renewTimer = setInterval(() => {
+            renewLease(lease, ttlMs)
+                .then((renewed) => {
+                    if (!renewed) {
+                        logger.warn({ job: name }, '[SCHEDULER] WARN: Lease lost while running');
+                    }
+                })
+                .catch(() => {
+                    // Next renewal retries
+                });
+        }, ttlMs / 2);
+
+        const startedAt = new Date();
+
+        try {
+            if (!options.isIdle) {
+                await scheduledJobRepo.recordStart(name, INSTANCE_ID, startedAt);
+            }
+
+            const result = await task();
+            if (!options.isIdle?.(result)) {
+                await this.recordFinish(name, startedAt, 'success');
+            }
+            return true;
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            await this.recordFinish(name, startedAt, 'failed', errorMessage);
+            throw error;
+        } finally {
+            clearInterval(renewTimer);
+            await releaseLease(lease).catch(() => {
+                // The lease expires on its own
+            });
+        }
+    }
+
+    /**
+     * Run a job and store its outcome in the run history
+     *
+     * Numeric fields of the result are stored as counts, an `errorSamples`
+     * array as the run's per-row errors and a `diagnostics` array as its
+     * row diagnostics. History failures are only logged.
+     *
+     * @returns The job's result
+     * @throws The job's error (after recording it)
+     */
+    async track<T>(jobName: string, trigger: JobTrigger, task: () => Promise<T>): Promise<T> {
+        const startedAt = Date.now();
+        const runId = await scheduledJobRepo
+            .createRun(jobName, trigger, INSTANCE_ID)
+            .then((run) => run.id)
+            .catch((error: unknown) => {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.warn(
+                    { job: jobName, error: errorMessage },
+                    '[SCHEDULER] WARN: Failed to create job run'
+                );
+                return null;
+            });
+
+        try {
+            const result = await task();
+
+            if (runId) {
+                await this.finishRun(jobName, runId, {
+                    status: 'success',
+                    durationMs: Date.now() - startedAt,
+                    counts: extractCounts(result),
+                    errorSamples: extractErrorSamples(result),
+                });
+
+                const diagnostics = extractDiagnostics(result);
+                if (diagnostics.length > 0) {
+                    await this.saveDiagnostics(jobName, runId, diagnostics);
+                }
+            }
+
+            return result;
+        } catch (error: unknown) {
+            if (runId) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                await this.finishRun(jobName, runId, {
+                    status: 'failed',
+                    durationMs: Date.now() - startedAt,
+                    error: errorMessage.slice(0, MAX_RUN_ERROR_LENGTH),
+                });
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * List every job with its schedule, lease, last/next run and latest run history entry
+     *
+     * Jobs that only ever ran manually have no schedule and appear with their run only.
+     */
+    async listJobs() {
+        const [jobs, latestRuns, lastSuccess] = await Promise.all([
+            scheduledJobRepo.findAll(),
+            scheduledJobRepo.findLatestRuns(),
+            scheduledJobRepo.findLastSuccessAt(),
+        ]);
+
+        const runsByJob = new Map(latestRuns.map((run) => [run.jobName, run]));
+        const names = [...new Set([...jobs.map((job) => job.name), ...runsByJob.keys()])].sort();
+
+        return names.map((name) => {
+            const job = jobs.find((j) => j.name === name);
+
+            return {
+                name,
+                schedule: job?.schedule ?? null,
+                nextRunAt: job?.nextRunAt ?? null,
+                leaseOwner: job?.leaseOwner ?? null,
+                leaseExpiresAt: job?.leaseExpiresAt ?? null,
+                lastRunAt: job?.lastRunAt ?? null,
+                lastStatus: job?.lastStatus ?? null,
+                lastError: job?.lastError ?? null,
+                lastSuccessAt: lastSuccess.get(name) ?? null,
+                lastRun: runsByJob.get(name) ?? null,
+            };
+        });
+    }
+
+    /**
+     * Run history of one job (newest first)
+     */
+    async listRuns(jobName: string, filters: { status?: string; page: number; limit: number }) {
+        return scheduledJobRepo.findRuns(jobName, {
+            status: filters.status,
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        });
+    }
+
+    /**
+     * Latest runs of any of the given jobs, with their diagnostic count
+     */
+    async listRecentRuns(jobNames: string[], limit: number) {
+        const runs = await scheduledJobRepo.findRecentRuns(jobNames, limit);
+
+        return runs.map(({ _count, ...run }) => ({ ...run, diagnosticCount: _count.diagnostics }));
+    }
+
+    /**
+     * Find a run by ID
+     */
+    async findRun(runId: string) {
+        return scheduledJobRepo.findRunById(runId);
+    }
+
+    /**
+     * Row diagnostics of one run (by row)
+     */
+    async listDiagnostics(
+        runId: string,
+        filters: Omit<ListDiagnosticsFilters, 'skip' | 'take'> & { page: number; limit: number }
+    ) {
+        return scheduledJobRepo.findDiagnostics(runId, {
+            reason: filters.reason,
+            severity: filters.severity,
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        });
+    }
+
+    /**
+     * Delete run history older than the retention period
+     *
+     * @returns Number of runs deleted
+     */
+    async pruneRuns(retentionDays: number): Promise<number> {
+        const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+        return scheduledJobRepo.deleteRunsBefore(before);
+    }
+
+    private async finishRun(jobName: string, runId: string, data: FinishJobRunData): Promise<void> {
+        try {
+            await scheduledJobRepo.finishRun(runId, data);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { job: jobName, error: errorMessage },
+                '[SCHEDULER] WARN: Failed to record job run'
+            );
+        }
+    }
+
+    private async saveDiagnostics(
+        jobName: string,
+        runId: string,
+        diagnostics: RowDiagnostic[]
+    ): Promise<void> {
+        try {
+            await scheduledJobRepo.createDiagnostics(runId, diagnostics);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { job: jobName, error: errorMessage },
+                '[SCHEDULER] WARN: Failed to record job run diagnostics'
+            );
+        }
+    }
+
+    private async recordFinish(
+        name: string,
+        startedAt: Date,
+        status: 'success' | 'failed',
+        error?: string
+    ): Promise<void> {
+        try {
+            await scheduledJobRepo.recordFinish(name, {
+                startedAt,
+                runBy: INSTANCE_ID,
+                status,
+                error,
+                durationMs: Date.now() - startedAt.getTime(),
+                nextRunAt: this.tasks.get(name)?.getNextRun(),
+            });
+        } catch (recordError: unknown) {
+            const errorMessage =
+                recordError instanceof Error ? recordError.message : String(recordError);
+            logger.warn(
+                { job: name, error: errorMessage },
+                '[SCHEDULER] WARN: Failed to record job run'
+            );
+        }
+    }
+}
+
+export const scheduledJobService = new ScheduledJobService();
+
+/**
+ * Top-level numeric fields of a job result
+ */
+function extractCounts(result: unknown): Record<string, number> | null {
+    if (!result || typeof result !== 'object') return null;
+
+    const counts: Record<string, number> = {};
+    for (const [key, value] of Object.entries(result)) {
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            counts[key] = value;
+        }
+    }
+
+    return Object.keys(counts).length > 0 ? counts : null;
+}
+
+/**
+ * The `errorSamples` array of a job result, if any
+ */
+function extractErrorSamples(result: unknown): ErrorSample[] | null {
+    if (!result || typeof result !== 'object' || !('errorSamples' in result)) return null;
+
+    const samples = (result as { errorSamples: unknown }).errorSamples;
+    return Array.isArray(samples) ? (samples as ErrorSample[]) : null;
+}
+
+/**
+ * The `diagnostics` array of a job result, if any
+ */
+function extractDiagnostics(result: unknown): RowDiagnostic[] {
+    if (!result || typeof result !== 'object' || !('diagnostics' in result)) return [];
+
+    const diagnostics = (result as { diagnostics: unknown }).diagnostics;
+    return Array.isArray(diagnostics) ? (diagnostics as RowDiagnostic[]) : [];
+}
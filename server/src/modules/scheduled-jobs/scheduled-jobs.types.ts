@@ -0,0 +1,37 @@
+/**
+ * Scheduled Jobs Module Types
+ */
+
+import type { ErrorSample } from '../../libs/error-samples.js';
+import type { RowDiagnosticReason, RowDiagnosticSeverity } from '../../libs/row-diagnostics.js';
+
+export type ScheduledJobStatus = 'running' | 'success' | 'failed';
+
+/**
+ * What started a job run
+ */
+export type JobTrigger = 'cron' | 'manual' | 'startup';
+
+export interface FinishRunData {
+    startedAt: Date;
+    runBy: string;
+    status: Exclude<ScheduledJobStatus, 'running'>;
+    error?: string | null;
+    durationMs: number;
+    nextRunAt?: Date | null;
+}
+
+export interface ListDiagnosticsFilters {
+    reason?: RowDiagnosticReason;
+    severity?: RowDiagnosticSeverity;
+    skip: number;
+    take: number;
+}
+
+export interface FinishJobRunData {
+    status: Exclude<ScheduledJobStatus, 'running'>;
+    durationMs: number;
+    counts?: Record<string, number> | null;
+    error?: string | null;
+    errorSamples?: ErrorSample[] | null;
+}
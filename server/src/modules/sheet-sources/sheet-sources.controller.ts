@@ -0,0 +1,167 @@
+/**
+ * Sheet Sources Controller
+ *
+ * HTTP request handlers for sheet source definitions
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { BadRequestError } from '../../utils/errors.js';
+import { paginatedResponse, successResponse } from '../../utils/response.js';
+import { sheetWriteBackService } from '../drivers/sheet-write-back.service.js';
+import {
+    listDiagnosticsSchema,
+    listSourceRunsSchema,
+    listWriteBacksSchema,
+    runIdSchema,
+    sheetSourceKeySchema,
+    upsertSheetSourceSchema,
+} from './sheet-sources.schemas.js';
+import { sheetSourceService } from './sheet-sources.service.js';
+
+class SheetSourceController {
+    /**
+     * GET /api/v1/sheet-sources
+     *
+     * Effective definition of every source
+     */
+    async listSources(_request: FastifyRequest, reply: FastifyReply) {
+        const sources = await sheetSourceService.listSources();
+
+        return reply.send(successResponse('Sheet sources retrieved successfully', sources));
+    }
+
+    /**
+     * PUT /api/v1/sheet-sources/:key
+     *
+     * Store the definition of a source
+     */
+    async updateSource(request: FastifyRequest, reply: FastifyReply) {
+        const key = this.parseKey(request.params);
+
+        const parsed = upsertSheetSourceSchema.safeParse(request.body);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid sheet source');
+        }
+
+        const source = await sheetSourceService.setSource(
+            key,
+            parsed.data,
+            request.user?.userId ?? null
+        );
+
+        return reply.send(successResponse('Sheet source updated successfully', source));
+    }
+
+    /**
+     * DELETE /api/v1/sheet-sources/:key
+     *
+     * Go back to the built-in definition
+     */
+    async resetSource(request: FastifyRequest, reply: FastifyReply) {
+        const key = this.parseKey(request.params);
+
+        await sheetSourceService.resetSource(key);
+
+        return reply.send(successResponse('Sheet source reset successfully', null));
+    }
+
+    /**
+     * GET /api/v1/sheet-sources/:key/preview
+     *
+     * Resolve the definition against the live sheet
+     */
+    async previewSource(request: FastifyRequest, reply: FastifyReply) {
+        const key = this.parseKey(request.params);
+
+        const preview = await sheetSourceService.previewSource(key);
+
+        return reply.send(successResponse('Sheet source preview retrieved successfully', preview));
+    }
+
+    /**
+     * GET /api/v1/sheet-sources/:key/runs
+     *
+     * Latest sync runs of a source with their diagnostic count
+     */
+    async listRuns(request: FastifyRequest, reply: FastifyReply) {
+        const key = this.parseKey(request.params);
+
+        const parsed = listSourceRunsSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const runs = await sheetSourceService.listRuns(key, parsed.data.limit);
+
+        return reply.send(successResponse('Sync runs retrieved successfully', runs));
+    }
+
+    /**
+     * GET /api/v1/sheet-sources/runs/:runId/diagnostics
+     *
+     * Row diagnostics of a sync run (by row)
+     */
+    async listRunDiagnostics(request: FastifyRequest, reply: FastifyReply) {
+        const params = runIdSchema.safeParse(request.params);
+        if (!params.success) {
+            throw new BadRequestError(params.error.errors[0]?.message || 'Invalid run ID');
+        }
+
+        const query = listDiagnosticsSchema.safeParse(request.query);
+        if (!query.success) {
+            throw new BadRequestError(query.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = query.data;
+        const { items, totalItems } = await sheetSourceService.listRunDiagnostics(
+            params.data.runId,
+            query.data
+        );
+
+        return reply.send(
+            paginatedResponse(
+                'Row diagnostics retrieved successfully',
+                items,
+                page,
+                limit,
+                totalItems
+            )
+        );
+    }
+
+    /**
+     * GET /api/v1/sheet-sources/write-backs
+     *
+     * Driver phones written (or not) back to the loads sheet, newest first
+     */
+    async listWriteBacks(request: FastifyRequest, reply: FastifyReply) {
+        const parsed = listWriteBacksSchema.safeParse(request.query);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid query');
+        }
+
+        const { page, limit } = parsed.data;
+        const { items, totalItems } = await sheetWriteBackService.list(parsed.data);
+
+        return reply.send(
+            paginatedResponse(
+                'Sheet write-backs retrieved successfully',
+                items,
+                page,
+                limit,
+                totalItems
+            )
+        );
+    }
+
+    private parseKey(params: unknown) {
+        const parsed = sheetSourceKeySchema.safeParse(params);
+        if (!parsed.success) {
+            throw new BadRequestError(parsed.error.errors[0]?.message || 'Invalid sheet source');
+        }
+
+        return parsed.data.key;
+    }
+}
+
+export const sheetSourceController = new SheetSourceController();
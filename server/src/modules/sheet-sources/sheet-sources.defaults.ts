@@ -0,0 +1,62 @@
+/**
+ * Built-in Sheet Source Definitions
+ *
+ * The layouts the syncs used before sources were configurable. A source
+ * without a row in `sheet_sources` uses these.
+ */
+
+import type { SheetSourceDefinition, SheetSourceKey } from './sheet-sources.types.js';
+
+export const DEFAULT_SHEET_SOURCES: { [K in SheetSourceKey]: SheetSourceDefinition<K> } = {
+    // CentralDispatch sheet, one tab per month (JAN, FEB, ...); last month's tab
+    // is read too, so loads dispatched late in the month stay in sync
+    loads: {
+        key: 'loads',
+        spreadsheetId: null,
+        tabPattern: '{MON}',
+        headerRow: 1,
+        monthsBack: 1,
+        columns: {
+            vin: { header: 'VIN', index: 0 }, // Column A
+            driverPhone: { header: 'NUM', index: 6 }, // Column G
+            pickupLocation: { header: 'FROM', index: 7 }, // Column H
+            status: { index: 8 }, // Column I (if present)
+        },
+        filters: [],
+        enabled: true,
+    },
+
+    // Same sheet; today's pickups, without cancelled (CNC) rows
+    pickups: {
+        key: 'pickups',
+        spreadsheetId: null,
+        tabPattern: '{MON}',
+        headerRow: 1,
+        monthsBack: 0,
+        columns: {
+            vin: { header: 'VIN', index: 0 }, // Column A
+            pickupDay: { index: 2 }, // Column C
+            cnc: { index: 4 }, // Column E
+            driverPhone: { header: 'NUM', index: 6 }, // Column G
+        },
+        filters: [{ column: 'cnc', operator: 'equals', value: 'CNC' }],
+        enabled: true,
+    },
+
+    // Allcars sheet, one tab per year (2026, ...)
+    allcars: {
+        key: 'allcars',
+        spreadsheetId: null,
+        tabPattern: '{YYYY}',
+        headerRow: 1,
+        monthsBack: 0,
+        columns: {
+            date: { index: 0 }, // Column A
+            vehicleInfo: { index: 2 }, // Column C
+            vin: { header: 'VIN', index: 3 }, // Column D
+            receivedIn: { header: 'Received in', index: 4 }, // Column E
+        },
+        filters: [],
+        enabled: true,
+    },
+};
@@ -0,0 +1,59 @@
+/**
+ * Sheet Sources Repository
+ *
+ * Database queries for stored sheet source definitions
+ */
+
+import type { Prisma, SheetSource } from '@prisma/client';
+import { prisma } from '../../libs/db.js';
+import type { UpsertSheetSourceData } from './sheet-sources.types.js';
+
+class SheetSourceRepo {
+    /**
+     * Find the stored definition of a source
+     */
+    async findByKey(key: string): Promise<SheetSource | null> {
+        return prisma.sheetSource.findUnique({
+            where: { key },
+        });
+    }
+
+    /**
+     * List all stored definitions
+     */
+    async findAll(): Promise<SheetSource[]> {
+        return prisma.sheetSource.findMany({
+            orderBy: { key: 'asc' },
+        });
+    }
+
+    /**
+     * Create or replace the definition of a source
+     */
+    async upsert(data: UpsertSheetSourceData): Promise<SheetSource> {
+        const { key, columns, filters, ...fields } = data;
+        const json = {
+            columns: columns as Prisma.InputJsonValue,
+            filters: filters as unknown as Prisma.InputJsonValue,
+        };
+
+        return prisma.sheetSource.upsert({
+            where: { key },
+            create: { key, ...fields, ...json },
+            update: { ...fields, ...json },
+        });
+    }
+
+    /**
+     * Delete the stored definition of a source (it falls back to the built-in one)
+     */
+    async deleteByKey(key: string): Promise<number> {
+        const result = await prisma.sheetSource.deleteMany({
+            where: { key },
+        });
+
+        return result.count;
+    }
+}
+
+export const sheetSourceRepo = new SheetSourceRepo();
@@ -0,0 +1,77 @@
+/**
+ * Sheet Sources Routes
+ *
+ * API endpoints for the Google Sheet sources of the syncs
+ * Definitions require ADMIN role; sync runs and row diagnostics are open to all users
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { sheetSourceController } from './sheet-sources.controller.js';
+
+/**
+ * Register sheet source routes
+ */
+export async function sheetSourceRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/v1/sheet-sources
+     * Effective definition of every source
+     */
+    app.get('/sheet-sources', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: sheetSourceController.listSources.bind(sheetSourceController),
+    });
+
+    /**
+     * GET /api/v1/sheet-sources/write-backs
+     * Driver phones written back to the loads sheet (filter by status, e.g. conflict)
+     */
+    app.get('/sheet-sources/write-backs', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: sheetSourceController.listWriteBacks.bind(sheetSourceController),
+    });
+
+    /**
+     * PUT /api/v1/sheet-sources/:key
+     * Store the definition of a source (loads, pickups or allcars)
+     */
+    app.put('/sheet-sources/:key', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: sheetSourceController.updateSource.bind(sheetSourceController),
+    });
+
+    /**
+     * DELETE /api/v1/sheet-sources/:key
+     * Go back to the built-in definition
+     */
+    app.delete('/sheet-sources/:key', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: sheetSourceController.resetSource.bind(sheetSourceController),
+    });
+
+    /**
+     * GET /api/v1/sheet-sources/:key/preview
+     * Resolve the definition against the live sheet
+     */
+    app.get('/sheet-sources/:key/preview', {
+        preHandler: [app.authenticate, app.requireAdmin()],
+        handler: sheetSourceController.previewSource.bind(sheetSourceController),
+    });
+
+    /**
+     * GET /api/v1/sheet-sources/:key/runs
+     * Latest sync runs of a source with their diagnostic count
+     */
+    app.get('/sheet-sources/:key/runs', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: sheetSourceController.listRuns.bind(sheetSourceController),
+    });
+
+    /**
+     * GET /api/v1/sheet-sources/runs/:runId/diagnostics
+     * Row diagnostics of a sync run (filter by reason/severity, paginated)
+     */
+    app.get('/sheet-sources/runs/:runId/diagnostics', {
+        preHandler: [app.authenticate, app.requireAny()],
+        handler: sheetSourceController.listRunDiagnostics.bind(sheetSourceController),
+    });
+}
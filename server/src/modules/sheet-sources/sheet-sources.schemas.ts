@@ -0,0 +1,89 @@
+/**
+ * Sheet Sources Schemas
+ *
+ * Zod validation schemas for sheet source endpoints
+ */
+
+import { z } from 'zod';
+import { SHEET_SOURCE_FIELDS, type SheetSourceKey } from './sheet-sources.types.js';
+
+/**
+ * Max previous monthly tabs a source can read
+ */
+export const MAX_MONTHS_BACK = 11;
+
+const sourceKeys = Object.keys(SHEET_SOURCE_FIELDS) as [SheetSourceKey, ...SheetSourceKey[]];
+
+export const sheetSourceKeySchema = z.object({
+    key: z.enum(sourceKeys, {
+        errorMap: () => ({ message: `Source must be one of: ${sourceKeys.join(', ')}` }),
+    }),
+});
+
+export const columnMappingSchema = z
+    .object({
+        header: z
+            .union([
+                z.string().trim().min(1).max(100),
+                z.array(z.string().trim().min(1).max(100)).max(10),
+            ])
+            .nullish(),
+        index: z.number().int().min(0).max(701).nullish(),
+    })
+    .refine(
+        (mapping) => mapping.header || (mapping.index !== undefined && mapping.index !== null),
+        {
+            message: 'Each column needs a header or an index',
+        }
+    );
+
+export const rowFilterSchema = z.object({
+    column: z.string().min(1),
+    operator: z.enum(['equals', 'notEquals', 'contains', 'empty', 'notEmpty']),
+    value: z.string().max(100).nullish(),
+});
+
+export const upsertSheetSourceSchema = z.object({
+    spreadsheetId: z.string().trim().min(1).max(200).nullable().default(null),
+    tabPattern: z.string().trim().min(1).max(100),
+    headerRow: z.number().int().min(1).max(100).default(1),
+    monthsBack: z.number().int().min(0).max(MAX_MONTHS_BACK).default(0),
+    columns: z.record(columnMappingSchema),
+    filters: z.array(rowFilterSchema).max(20).default([]),
+    enabled: z.boolean().default(true),
+});
+
+export const runIdSchema = z.object({
+    runId: z.string().uuid('Invalid run ID'),
+});
+
+export const listSourceRunsSchema = z.object({
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const listDiagnosticsSchema = z.object({
+    reason: z
+        .enum([
+            'invalid_vin',
+            'invalid_phone',
+            'invalid_pickup_day',
+            'unknown_location',
+            'unknown_status',
+            'column_not_found',
+            'row_failed',
+        ])
+        .optional(),
+    severity: z.enum(['error', 'warning']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const listWriteBacksSchema = z.object({
+    status: z.enum(['pending', 'written', 'conflict', 'failed']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListDiagnosticsInput = z.infer<typeof listDiagnosticsSchema>;
+
+export type UpsertSheetSourceInput = z.infer<typeof upsertSheetSourceSchema>;
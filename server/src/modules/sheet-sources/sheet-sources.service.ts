@@ -0,0 +1,373 @@
+/**
+ * Sheet Sources Service
+ *
+ * Where the sheet, pickup and allcars syncs read their data: spreadsheet,
+ * tab-name pattern, header row, column mapping and row filters. Admins can
+ * store a definition per source in `sheet_sources`; a source without one
+ * uses the built-in layout (sheet-sources.defaults.ts), and a definition
+ * without a spreadsheet ID uses GOOGLE_SHEET_ID / GOOGLE_ALLCARS_SHEET_ID.
+ *
+ * Columns are found by header name with an index fallback (see
+ * libs/sheet-mapping.ts), so inserting a column no longer breaks ingestion.
+ *
+ * The loads source can read a rolling window of monthly tabs (`monthsBack`),
+ * so a load dispatched at the end of last month is still synced on the 1st.
+ *
+ * Rows the syncs could not (fully) use are stored as row diagnostics with
+ * the sync's job run (see libs/row-diagnostics.ts) and listed here per source.
+ */
+
+import type { SheetSource } from '@prisma/client';
+import { env } from '../../config/env.js';
+import { googleSheetsClient } from '../../libs/google-sheets.js';
+import logger from '../../libs/logger.js';
+import { RowDiagnostics } from '../../libs/row-diagnostics.js';
+import {
+    type ColumnMapping,
+    columnLetter,
+    isFilteredOut,
+    resolveColumns,
+    resolveTabName,
+    tabRange,
+} from '../../libs/sheet-mapping.js';
+import { BadRequestError, NotFoundError } from '../../utils/errors.js';
+import { scheduledJobService } from '../scheduled-jobs/scheduled-jobs.service.js';
+import { DEFAULT_SHEET_SOURCES } from './sheet-sources.defaults.js';
+import { sheetSourceRepo } from './sheet-sources.repo.js';
+import {
+    type ListDiagnosticsInput,
+    type UpsertSheetSourceInput,
+    upsertSheetSourceSchema,
+} from './sheet-sources.schemas.js';
+import {
+    REQUIRED_SHEET_FIELDS,
+    SHEET_SOURCE_FIELDS,
+    SHEET_SOURCE_JOBS,
+    type SheetSourceDefinition,
+    type SheetSourceField,
+    type SheetSourceKey,
+    type SheetSourceTab,
+} from './sheet-sources.types.js';
+
+/**
+ * Rows returned by a preview
+ */
+const PREVIEW_ROWS = 5;
+
+class SheetSourceService {
+    /**
+     * Effective definition of a source
+     *
+     * A stored definition that no longer validates is ignored (with a warning).
+     */
+    async getSource<K extends SheetSourceKey>(key: K): Promise<SheetSourceDefinition<K>> {
+        const stored = await sheetSourceRepo.findByKey(key);
+        if (!stored) return DEFAULT_SHEET_SOURCES[key];
+
+        const definition = this.toDefinition(key, stored);
+        if (!definition) {
+            logger.warn(
+                { key },
+                '[SHEET SOURCES] WARN: Stored definition is invalid, using the built-in one'
+            );
+            return DEFAULT_SHEET_SOURCES[key];
+        }
+
+        return definition;
+    }
+
+    /**
+     * Every source with its effective definition
+     */
+    async listSources() {
+        const stored = await sheetSourceRepo.findAll();
+
+        return (Object.keys(SHEET_SOURCE_FIELDS) as SheetSourceKey[]).map((key) => {
+            const row = stored.find((source) => source.key === key);
+            const definition = (row && this.toDefinition(key, row)) || DEFAULT_SHEET_SOURCES[key];
+
+            return {
+                ...definition,
+                isDefault: !row,
+                fields: SHEET_SOURCE_FIELDS[key],
+                requiredFields: REQUIRED_SHEET_FIELDS[key],
+                defaultSpreadsheetId: this.defaultSpreadsheetId(key) ?? null,
+                updatedBy: row?.updatedBy ?? null,
+                updatedAt: row?.updatedAt ?? null,
+            };
+        });
+    }
+
+    /**
+     * Store the definition of a source
+     */
+    async setSource(key: SheetSourceKey, input: UpsertSheetSourceInput, updatedBy: string | null) {
+        const fields: readonly string[] = SHEET_SOURCE_FIELDS[key];
+
+        const unknownField = Object.keys(input.columns).find((field) => !fields.includes(field));
+        if (unknownField) {
+            throw new BadRequestError(
+                `Unknown column "${unknownField}" for ${key} (expected: ${fields.join(', ')})`
+            );
+        }
+
+        const missing = REQUIRED_SHEET_FIELDS[key].find((field) => !input.columns[field]);
+        if (missing) {
+            throw new BadRequestError(`Column "${missing}" is required for ${key}`);
+        }
+
+        if (key !== 'loads' && input.monthsBack > 0) {
+            throw new BadRequestError('Only the loads source can read previous tabs');
+        }
+
+        const unmappedFilter = input.filters.find((filter) => !input.columns[filter.column]);
+        if (unmappedFilter) {
+            throw new BadRequestError(
+                `Filter column "${unmappedFilter.column}" is not in the column mapping`
+            );
+        }
+
+        const source = await sheetSourceRepo.upsert({ key, ...input, updatedBy });
+
+        logger.info(
+            { key, tabPattern: source.tabPattern, enabled: source.enabled, updatedBy },
+            '[SHEET SOURCES] Sheet source updated'
+        );
+
+        return this.getSource(key);
+    }
+
+    /**
+     * Remove a stored definition so the source uses the built-in one again
+     */
+    async resetSource(key: SheetSourceKey): Promise<void> {
+        const deleted = await sheetSourceRepo.deleteByKey(key);
+        if (deleted === 0) {
+            throw new NotFoundError(`Sheet source ${key} already uses the built-in definition`);
+        }
+
+        logger.info({ key }, '[SHEET SOURCES] Sheet source reset to built-in definition');
+    }
+
+    /**
+     * Read the tab of a source for a date
+     *
+     * @returns null if the source is disabled or has no spreadsheet
+     * @throws Error if a required column cannot be found
+     */
+    async readTab<K extends SheetSourceKey>(
+        key: K,
+        date: Date = new Date()
+    ): Promise<SheetSourceTab<K> | null> {
+        const source = await this.getSource(key);
+        const spreadsheetId = source.spreadsheetId ?? this.defaultSpreadsheetId(key);
+
+        if (!source.enabled) {
+            logger.info({ key }, '[SHEET SOURCES] Source disabled, skipping');
+            return null;
+        }
+
+        if (!spreadsheetId) {
+            logger.warn({ key }, '[SHEET SOURCES] WARN: No spreadsheet configured, skipping');
+            return null;
+        }
+
+        const tabName = resolveTabName(source.tabPattern, date);
+        const rawData =
+            (await googleSheetsClient.getSheetData(spreadsheetId, tabRange(tabName))) ?? [];
+
+        const headerIndex = source.headerRow - 1;
+        const headers = (rawData[headerIndex] ?? []).map((value) =>
+            value === undefined || value === null ? '' : String(value).trim()
+        );
+        const { columns, warnings, missing } = resolveColumns(headers, source.columns);
+
+        if (warnings.length > 0 && rawData.length > 0) {
+            logger.warn(
+                { key, tabName, warnings },
+                '[SHEET SOURCES] WARN: Column headers not found'
+            );
+        }
+
+        const missingRequired = REQUIRED_SHEET_FIELDS[key].filter(
+            (field) => columns[field as SheetSourceField<K>] === null
+        );
+        if (missingRequired.length > 0) {
+            throw new Error(
+                `Sheet source ${key}: required column(s) not found: ${missingRequired.join(', ')}`
+            );
+        }
+
+        const diagnostics = new RowDiagnostics(tabName);
+        if (rawData.length > 0) {
+            for (const header of missing) {
+                diagnostics.add({
+                    row: source.headerRow,
+                    column: header.field,
+                    value: header.headers.join(' / '),
+                    reason: 'column_not_found',
+                    severity: 'warning',
+                    message:
+                        header.index === null
+                            ? 'Header not found'
+                            : `Header not found, read column ${columnLetter(header.index)} instead`,
+                });
+            }
+        }
+
+        const rows: SheetSourceTab<K>['rows'] = [];
+        let filtered = 0;
+
+        for (let i = headerIndex + 1; i < rawData.length; i++) {
+            const cells = rawData[i];
+            if (!cells) continue;
+
+            if (isFilteredOut(cells, columns, source.filters)) {
+                filtered++;
+                continue;
+            }
+
+            rows.push({ rowNumber: i + 1, cells });
+        }
+
+        return {
+            spreadsheetId,
+            tabName,
+            columns,
+            warnings,
+            diagnostics: diagnostics.items,
+            headers,
+            rows,
+            filtered,
+        };
+    }
+
+    /**
+     * Read the tabs of a source's rolling window, oldest first
+     *
+     * The current tab is read like readTab(); a previous tab that does not
+     * exist or cannot be read is skipped with a warning. Months that resolve
+     * to the same tab name are read once.
+     *
+     * @returns An empty list if the source is disabled or has no spreadsheet
+     */
+    async readTabs<K extends SheetSourceKey>(
+        key: K,
+        date: Date = new Date()
+    ): Promise<SheetSourceTab<K>[]> {
+        const source = await this.getSource(key);
+        const tabs: SheetSourceTab<K>[] = [];
+        const seen = new Set<string>();
+
+        for (let back = source.monthsBack; back >= 0; back--) {
+            const month = new Date(date.getFullYear(), date.getMonth() - back, 1);
+            const tabName = resolveTabName(source.tabPattern, month);
+            if (seen.has(tabName)) continue;
+            seen.add(tabName);
+
+            try {
+                const tab = await this.readTab(key, month);
+                if (tab) tabs.push(tab);
+            } catch (error: unknown) {
+                if (back === 0) throw error;
+
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.warn(
+                    { key, tabName, error: errorMessage },
+                    '[SHEET SOURCES] WARN: Previous tab could not be read, skipping'
+                );
+            }
+        }
+
+        return tabs;
+    }
+
+    /**
+     * Check a source against the live sheet: resolved columns, warnings and a few rows
+     */
+    async previewSource(key: SheetSourceKey) {
+        const tab = await this.readTab(key);
+
+        if (!tab) {
+            throw new BadRequestError(`Sheet source ${key} is disabled or has no spreadsheet`);
+        }
+
+        return {
+            spreadsheetId: tab.spreadsheetId,
+            tabName: tab.tabName,
+            headers: tab.headers,
+            columns: Object.fromEntries(
+                Object.entries(tab.columns).map(([field, index]) => [
+                    field,
+                    typeof index === 'number'
+                        ? { index, letter: columnLetter(index), header: tab.headers[index] ?? null }
+                        : null,
+                ])
+            ),
+            warnings: tab.warnings,
+            totalRows: tab.rows.length,
+            filtered: tab.filtered,
+            sampleRows: tab.rows.slice(0, PREVIEW_ROWS),
+        };
+    }
+
+    /**
+     * Latest sync runs of a source, with their diagnostic count
+     */
+    async listRuns(key: SheetSourceKey, limit: number) {
+        return scheduledJobService.listRecentRuns(SHEET_SOURCE_JOBS[key], limit);
+    }
+
+    /**
+     * Row diagnostics of a sync run
+     *
+     * @throws NotFoundError if the run does not exist or is not a sheet sync
+     */
+    async listRunDiagnostics(runId: string, filters: ListDiagnosticsInput) {
+        const run = await scheduledJobService.findRun(runId);
+        const sheetJobs = Object.values(SHEET_SOURCE_JOBS).flat();
+
+        if (!run || !sheetJobs.includes(run.jobName)) {
+            throw new NotFoundError('Sync run not found');
+        }
+
+        return scheduledJobService.listDiagnostics(runId, filters);
+    }
+
+    /**
+     * Spreadsheet a source uses when its definition has none
+     */
+    private defaultSpreadsheetId(key: SheetSourceKey): string | undefined {
+        return key === 'allcars' ? env.GOOGLE_ALLCARS_SHEET_ID : env.GOOGLE_SHEET_ID;
+    }
+
+    /**
+     * Validate a stored row into a definition (null if invalid)
+     */
+    private toDefinition<K extends SheetSourceKey>(
+        key: K,
+        row: SheetSource
+    ): SheetSourceDefinition<K> | null {
+        const parsed = upsertSheetSourceSchema.safeParse({
+            spreadsheetId: row.spreadsheetId,
+            tabPattern: row.tabPattern,
+            headerRow: row.headerRow,
+            monthsBack: row.monthsBack,
+            columns: row.columns,
+            filters: row.filters ?? [],
+            enabled: row.enabled,
+        });
+
+        if (!parsed.success) return null;
+
+        // Fields left out of the mapping are simply not read
+        const columns = {} as Record<SheetSourceField<K>, ColumnMapping>;
+        for (const field of SHEET_SOURCE_FIELDS[key] as readonly SheetSourceField<K>[]) {
+            columns[field] = parsed.data.columns[field] ?? {};
+        }
+
+        return { key, ...parsed.data, columns };
+    }
+}
+
+export const sheetSourceService = new SheetSourceService();
@@ -0,0 +1,92 @@
+/**
+ * Sheet Sources Module Types
+ */
+
+import type { RowDiagnostic } from '../../libs/row-diagnostics.js';
+import type { ColumnMapping, ResolvedColumns, RowFilter } from '../../libs/sheet-mapping.js';
+
+/**
+ * Fields each sync reads, by source key
+ */
+export const SHEET_SOURCE_FIELDS = {
+    loads: ['vin', 'driverPhone', 'pickupLocation', 'status'],
+    pickups: ['vin', 'pickupDay', 'driverPhone', 'cnc'],
+    allcars: ['date', 'vehicleInfo', 'vin', 'receivedIn'],
+} as const;
+
+export type SheetSourceKey = keyof typeof SHEET_SOURCE_FIELDS;
+
+export type SheetSourceField<K extends SheetSourceKey> = (typeof SHEET_SOURCE_FIELDS)[K][number];
+
+/**
+ * Fields a row cannot be synced without
+ */
+export const REQUIRED_SHEET_FIELDS: { [K in SheetSourceKey]: SheetSourceField<K>[] } = {
+    loads: ['vin'],
+    pickups: ['vin', 'pickupDay'],
+    allcars: ['vin'],
+};
+
+/**
+ * Scheduled jobs that read each source (their runs carry the row diagnostics)
+ */
+export const SHEET_SOURCE_JOBS: Record<SheetSourceKey, string[]> = {
+    loads: ['sheet-sync'],
+    pickups: ['pickup-sync', 'pickup-reset'],
+    allcars: ['allcars-sync'],
+};
+
+/**
+ * Effective definition of a sheet source (stored or built-in)
+ */
+export interface SheetSourceDefinition<K extends SheetSourceKey = SheetSourceKey> {
+    key: K;
+    /** null = the environment default for this source */
+    spreadsheetId: string | null;
+    tabPattern: string;
+    headerRow: number;
+    /** Previous monthly tabs read as well (loads only) */
+    monthsBack: number;
+    columns: Record<SheetSourceField<K>, ColumnMapping>;
+    filters: RowFilter[];
+    enabled: boolean;
+}
+
+export interface UpsertSheetSourceData {
+    key: SheetSourceKey;
+    spreadsheetId: string | null;
+    tabPattern: string;
+    headerRow: number;
+    monthsBack: number;
+    columns: Record<string, ColumnMapping>;
+    filters: RowFilter[];
+    enabled: boolean;
+    updatedBy?: string | null;
+}
+
+/**
+ * One data row of a sheet tab
+ */
+export interface SheetSourceRow {
+    /** 1-based row number in the tab */
+    rowNumber: number;
+    cells: unknown[];
+}
+
+/**
+ * A tab read through its source definition
+ */
+export interface SheetSourceTab<K extends SheetSourceKey> {
+    spreadsheetId: string;
+    tabName: string;
+    columns: ResolvedColumns<SheetSourceField<K>>;
+    /** Headers that were not found */
+    warnings: string[];
+    /** The same as column_not_found diagnostics on the header row */
+    diagnostics: RowDiagnostic[];
+    headers: string[];
+    /** Data rows (after the header row) that pass the filters */
+    rows: SheetSourceRow[];
+    /** Rows skipped by the filters */
+    filtered: number;
+}
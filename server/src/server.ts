@@ -13,7 +13,7 @@ import { env } from './config/env.js';
 import logger from './libs/logger.js';
 import { prisma } from './libs/db.js';
 import { redis } from './libs/redis.js';
-import { fileQueue } from './libs/queue.js';
+import { closeQueues } from './libs/queue.js';
 import { startQuoSyncScheduler } from './libs/quo-sync-scheduler.js';
 import { startDriverSyncScheduler } from './libs/driver-sync-scheduler.js';
 import { initCronJobs } from './config/cron.js';
@@ -92,10 +92,10 @@ async function startServer() {
             }
 
             // Close Redis-dependent services first, then Redis itself
-            // fileQueue uses the shared redis connection, so close it before redis
+            // The queues use the shared redis connection, so close them before redis
             try {
-                await fileQueue.close();
-                console.log('File queue connection closed');
+                await closeQueues();
+                console.log('Queue connections closed');
             } catch (err) {
                 // Ignore - queue may already be disconnected if Redis failed
             }
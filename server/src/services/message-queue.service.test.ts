@@ -0,0 +1,430 @@
+/**
+ * Message Queue Service Tests
+ *
+ * Drives dispatch (BullMQ and inline) and the send path against a mocked
+ * queue repository, BullMQ queue and Quo API.
+ */
+
+import type { QueuedMessage } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getMessageQueue } from '../libs/queue';
+import { isRedisAvailable } from '../libs/redis';
+import { autoReplyRepo } from '../modules/auto-replies/auto-replies.repo';
+import { campaignRepo } from '../modules/campaigns/campaigns.repo';
+import { consentService } from '../modules/consent/consent.service';
+import { deliveryService } from '../modules/deliveries/deliveries.service';
+import { quietHoursService } from '../modules/quiet-hours/quiet-hours.service';
+import { messageQueueRepo } from '../modules/quo-messages/message-queue.repo';
+import { quoMessagesService } from '../modules/quo-messages/quo-messages.service';
+import { senderLinesService } from '../modules/quo-messages/sender-lines.service';
+import { MessageQueueService } from './message-queue.service';
+
+vi.mock('../libs/redis', () => ({
+    isRedisAvailable: vi.fn(),
+}));
+
+vi.mock('../libs/queue', () => ({
+    getMessageQueue: vi.fn(),
+}));
+
+vi.mock('../modules/quo-messages/message-queue.repo', () => ({
+    messageQueueRepo: {
+        findDueForDispatch: vi.fn(),
+        findNextPending: vi.fn(),
+        create: vi.fn(),
+        findDueById: vi.fn(),
+        markEnqueued: vi.fn(),
+        claim: vi.fn(),
+        findStaleClaims: vi.fn(),
+        releaseClaims: vi.fn(),
+        flagClaims: vi.fn(),
+        clearEnqueued: vi.fn(),
+        deferDue: vi.fn(),
+        markSent: vi.fn(),
+        markFailed: vi.fn(),
+        markDead: vi.fn(),
+        scheduleRetry: vi.fn(),
+    },
+}));
+
+vi.mock('../modules/quo-messages/quo-messages.service', () => ({
+    quoMessagesService: { sendMessage: vi.fn() },
+}));
+
+vi.mock('../modules/quo-messages/sender-lines.service', () => ({
+    senderLinesService: {
+        loadDefaultLine: vi.fn(),
+        toLineKey: vi.fn(),
+        tryAcquire: vi.fn(),
+        getExhaustedLines: vi.fn(),
+    },
+}));
+
+vi.mock('../modules/consent/consent.service', () => ({
+    consentService: { isOptedOut: vi.fn() },
+}));
+
+vi.mock('../modules/quiet-hours/quiet-hours.service', () => ({
+    quietHoursService: { getNextAllowedTime: vi.fn(), resolveTimezones: vi.fn() },
+}));
+
+vi.mock('../modules/auto-replies/auto-replies.repo', () => ({
+    autoReplyRepo: { recordQueuedOutcome: vi.fn() },
+}));
+
+vi.mock('../modules/campaigns/campaigns.repo', () => ({
+    campaignRepo: { completeIfFinished: vi.fn() },
+}));
+
+vi.mock('../modules/deliveries/deliveries.service', () => ({
+    deliveryService: { recordRejection: vi.fn() },
+}));
+
+function queuedMessage(overrides: Partial<QueuedMessage> = {}): QueuedMessage {
+    return {
+        id: 'msg-1',
+        phoneNumber: '+15555550123',
+        content: 'Load 4B21C7 is ready',
+        status: 'pending',
+        attempts: 0,
+        phoneNumberId: null,
+        timezone: null,
+        campaignId: null,
+        ...overrides,
+    } as QueuedMessage;
+}
+
+function quoError(status: number) {
+    return Object.assign(new Error('Quo error'), { response: { status, data: {} } });
+}
+
+const addBulk = vi.fn();
+
+function dueMessage(
+    id: string,
+    phoneNumberId: string | null,
+    timezone: string | null,
+    priority = 0
+) {
+    return { id, phoneNumberId, timezone, priority };
+}
+
+describe('MessageQueueService dispatch', () => {
+    beforeEach(() => {
+        vi.mocked(getMessageQueue).mockReturnValue({ addBulk } as never);
+        vi.mocked(senderLinesService.toLineKey).mockImplementation((id) => id ?? null);
+        vi.mocked(senderLinesService.tryAcquire).mockReturnValue(true);
+        vi.mocked(senderLinesService.getExhaustedLines).mockReturnValue({
+            phoneNumberIds: [],
+            defaultLine: false,
+        });
+        vi.mocked(quietHoursService.getNextAllowedTime).mockResolvedValue(null);
+        vi.mocked(consentService.isOptedOut).mockResolvedValue(false);
+        vi.mocked(messageQueueRepo.claim).mockResolvedValue(true);
+        vi.mocked(messageQueueRepo.findStaleClaims).mockResolvedValue([]);
+        vi.mocked(quoMessagesService.sendMessage).mockResolvedValue({
+            id: 'AC1',
+            status: 'sent',
+        } as never);
+    });
+
+    it('hands due messages to the queue of their sender line', async () => {
+        vi.mocked(isRedisAvailable).mockReturnValue(true);
+        vi.mocked(messageQueueRepo.findDueForDispatch).mockResolvedValue([
+            dueMessage('msg-1', null, null),
+            dueMessage('msg-2', 'PNother', 'America/Chicago'),
+        ] as never);
+
+        const enqueued = await new MessageQueueService().dispatchDue();
+
+        expect(enqueued).toBe(2);
+        expect(messageQueueRepo.markEnqueued).toHaveBeenCalledWith(
+            ['msg-1', 'msg-2'],
+            expect.any(Date)
+        );
+        expect(getMessageQueue).toHaveBeenCalledWith(null);
+        expect(getMessageQueue).toHaveBeenCalledWith('PNother');
+        expect(addBulk).toHaveBeenCalledWith([
+            {
+                name: 'send-message',
+                data: { queuedMessageId: 'msg-1' },
+                opts: { jobId: 'msg-1', priority: 1 },
+            },
+        ]);
+        expect(messageQueueRepo.findNextPending).not.toHaveBeenCalled();
+    });
+
+    it('adds reply jobs ahead of the prioritized campaign jobs', async () => {
+        vi.mocked(messageQueueRepo.findDueForDispatch).mockResolvedValue([
+            dueMessage('reply-1', null, null, 1),
+            dueMessage('msg-1', null, null),
+        ] as never);
+
+        await new MessageQueueService().enqueueDue();
+
+        expect(addBulk).toHaveBeenCalledWith([
+            expect.objectContaining({ opts: { jobId: 'reply-1', priority: 0 } }),
+            expect.objectContaining({ opts: { jobId: 'msg-1', priority: 1 } }),
+        ]);
+    });
+
+    it('defers time zones in quiet hours instead of enqueueing them', async () => {
+        const until = new Date('2026-10-20T13:00:00Z');
+        vi.mocked(quietHoursService.getNextAllowedTime).mockImplementation(async (timezone) =>
+            timezone === 'America/Los_Angeles' ? until : null
+        );
+        vi.mocked(messageQueueRepo.findDueForDispatch).mockResolvedValue([
+            dueMessage('msg-1', null, 'America/Los_Angeles'),
+            dueMessage('msg-2', null, 'America/Chicago'),
+        ] as never);
+
+        const enqueued = await new MessageQueueService().enqueueDue();
+
+        expect(enqueued).toBe(1);
+        expect(messageQueueRepo.deferDue).toHaveBeenCalledWith(
+            ['America/Los_Angeles'],
+            until,
+            expect.any(Date)
+        );
+        expect(messageQueueRepo.markEnqueued).toHaveBeenCalledWith(['msg-2'], expect.any(Date));
+    });
+
+    it('forgets the enqueue when the jobs cannot be added', async () => {
+        vi.mocked(messageQueueRepo.findDueForDispatch).mockResolvedValue([
+            dueMessage('msg-1', null, null),
+        ] as never);
+        addBulk.mockRejectedValue(new Error('Connection is closed'));
+
+        await expect(new MessageQueueService().enqueueDue()).rejects.toThrow(
+            'Connection is closed'
+        );
+        expect(messageQueueRepo.clearEnqueued).toHaveBeenCalledWith(['msg-1']);
+    });
+
+    it('skips a send job whose message is no longer due', async () => {
+        vi.mocked(messageQueueRepo.findDueById).mockResolvedValue(null);
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.clearEnqueued).toHaveBeenCalledWith(['msg-1']);
+        expect(messageQueueRepo.claim).not.toHaveBeenCalled();
+    });
+
+    it('defers a send job that reaches quiet hours', async () => {
+        vi.mocked(messageQueueRepo.findDueById).mockResolvedValue(queuedMessage());
+        vi.mocked(quietHoursService.getNextAllowedTime).mockResolvedValue(
+            new Date('2026-10-20T12:00:00Z')
+        );
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.deferDue).toHaveBeenCalledWith(
+            ['America/New_York', null],
+            new Date('2026-10-20T12:00:00Z'),
+            expect.any(Date)
+        );
+        expect(messageQueueRepo.clearEnqueued).toHaveBeenCalledWith(['msg-1']);
+        expect(quoMessagesService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('sends inline without Redis, skipping messages a worker already has', async () => {
+        vi.mocked(isRedisAvailable).mockReturnValue(false);
+        vi.mocked(messageQueueRepo.findNextPending)
+            .mockResolvedValueOnce(queuedMessage())
+            .mockResolvedValue(null);
+
+        const handled = await new MessageQueueService().dispatchDue();
+
+        expect(handled).toBe(1);
+        expect(quoMessagesService.sendMessage).toHaveBeenCalledTimes(1);
+        expect(messageQueueRepo.findDueForDispatch).not.toHaveBeenCalled();
+
+        const [now, , staleBefore] = vi.mocked(messageQueueRepo.findNextPending).mock.calls[0]!;
+        expect(now!.getTime() - staleBefore!.getTime()).toBe(30 * 60 * 1000);
+    });
+
+    it('leaves messages of lines without budget for later', async () => {
+        vi.mocked(isRedisAvailable).mockReturnValue(false);
+        vi.mocked(messageQueueRepo.findNextPending).mockResolvedValue(queuedMessage());
+        vi.mocked(senderLinesService.tryAcquire).mockReturnValue(false);
+
+        const handled = await new MessageQueueService().dispatchDue();
+
+        expect(handled).toBe(0);
+        expect(messageQueueRepo.claim).not.toHaveBeenCalled();
+    });
+});
+
+describe('MessageQueueService.recoverStaleClaims', () => {
+    beforeEach(() => {
+        vi.mocked(messageQueueRepo.releaseClaims).mockImplementation(async (ids) => ids.length);
+        vi.mocked(messageQueueRepo.flagClaims).mockImplementation(async (ids) => ids.length);
+    });
+
+    it('does nothing while no claim is stale', async () => {
+        vi.mocked(messageQueueRepo.findStaleClaims).mockResolvedValue([]);
+
+        const recovered = await new MessageQueueService().recoverStaleClaims();
+
+        expect(recovered).toBe(0);
+        expect(messageQueueRepo.releaseClaims).not.toHaveBeenCalled();
+    });
+
+    it('requeues unsent claims and flags claims whose text went out', async () => {
+        vi.mocked(messageQueueRepo.findStaleClaims).mockResolvedValue([
+            { id: 'msg-1', campaignId: 'camp-1', quoMessageId: null },
+            { id: 'msg-2', campaignId: 'camp-1', quoMessageId: 'AC2' },
+        ]);
+
+        const recovered = await new MessageQueueService().recoverStaleClaims();
+
+        expect(recovered).toBe(2);
+        const [claimedBefore] = vi.mocked(messageQueueRepo.findStaleClaims).mock.calls[0]!;
+        expect(Date.now() - claimedBefore.getTime()).toBeGreaterThanOrEqual(10 * 60 * 1000);
+        expect(messageQueueRepo.releaseClaims).toHaveBeenCalledWith(['msg-1']);
+        expect(messageQueueRepo.flagClaims).toHaveBeenCalledWith(['msg-2'], expect.any(String));
+        expect(campaignRepo.completeIfFinished).toHaveBeenCalledWith('camp-1');
+    });
+});
+
+describe('MessageQueueService.addReply', () => {
+    beforeEach(() => {
+        vi.mocked(quietHoursService.resolveTimezones).mockResolvedValue(
+            new Map([['+15555550123', 'America/Chicago']])
+        );
+        vi.mocked(senderLinesService.toLineKey).mockImplementation((id) => id ?? null);
+        vi.mocked(messageQueueRepo.create).mockResolvedValue(queuedMessage({ id: 'reply-1' }));
+    });
+
+    it('queues the reply on its line with reply priority', async () => {
+        const queued = await new MessageQueueService().addReply({
+            phoneNumber: '+15555550123',
+            content: 'Load 4B21C7 is still available',
+            phoneNumberId: 'PNother',
+        });
+
+        expect(queued.id).toBe('reply-1');
+        expect(messageQueueRepo.create).toHaveBeenCalledWith({
+            phoneNumber: '+15555550123',
+            content: 'Load 4B21C7 is still available',
+            phoneNumberId: 'PNother',
+            timezone: 'America/Chicago',
+            priority: 1,
+        });
+    });
+});
+
+describe('MessageQueueService send', () => {
+    beforeEach(() => {
+        vi.mocked(messageQueueRepo.findDueById).mockResolvedValue(queuedMessage());
+        vi.mocked(messageQueueRepo.claim).mockResolvedValue(true);
+        vi.mocked(consentService.isOptedOut).mockResolvedValue(false);
+        vi.mocked(quietHoursService.getNextAllowedTime).mockResolvedValue(null);
+        vi.mocked(quoMessagesService.sendMessage).mockResolvedValue({
+            id: 'AC1',
+            status: 'sent',
+        });
+    });
+
+    it('marks the message sent with its Quo message', async () => {
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.markSent).toHaveBeenCalledWith('msg-1', {
+            id: 'AC1',
+            status: 'sent',
+        });
+    });
+
+    it('skips a message another sender already claimed', async () => {
+        vi.mocked(messageQueueRepo.claim).mockResolvedValue(false);
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(quoMessagesService.sendMessage).not.toHaveBeenCalled();
+        expect(messageQueueRepo.markSent).not.toHaveBeenCalled();
+    });
+
+    it('never retries a message whose send succeeded but could not be marked sent', async () => {
+        vi.mocked(messageQueueRepo.markSent).mockRejectedValue(new Error('Deadlock'));
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(quoMessagesService.sendMessage).toHaveBeenCalledTimes(1);
+        expect(messageQueueRepo.scheduleRetry).not.toHaveBeenCalled();
+        expect(messageQueueRepo.markFailed).not.toHaveBeenCalled();
+        expect(messageQueueRepo.markDead).not.toHaveBeenCalled();
+    });
+
+    it('retries transient Quo errors', async () => {
+        vi.mocked(quoMessagesService.sendMessage).mockRejectedValue(quoError(503));
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.scheduleRetry).toHaveBeenCalledWith(
+            'msg-1',
+            '503: Quo error',
+            expect.any(Date)
+        );
+        expect(messageQueueRepo.markSent).not.toHaveBeenCalled();
+    });
+
+    it('copies the outcome of a message outside campaigns to its auto-reply log', async () => {
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(autoReplyRepo.recordQueuedOutcome).toHaveBeenCalledWith('msg-1');
+    });
+
+    it('leaves the message pending when the consent check fails', async () => {
+        vi.mocked(consentService.isOptedOut).mockRejectedValue(new Error('Too many connections'));
+
+        await expect(new MessageQueueService().processQueuedMessage('msg-1')).rejects.toThrow(
+            'Too many connections'
+        );
+
+        expect(messageQueueRepo.claim).not.toHaveBeenCalled();
+        expect(quoMessagesService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('fails a message whose recipient opted out without sending it', async () => {
+        vi.mocked(consentService.isOptedOut).mockResolvedValue(true);
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.markFailed).toHaveBeenCalledWith(
+            'msg-1',
+            'Recipient has opted out of SMS'
+        );
+        expect(quoMessagesService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('fails permanent Quo errors without retrying', async () => {
+        vi.mocked(quoMessagesService.sendMessage).mockRejectedValue(quoError(400));
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.markFailed).toHaveBeenCalledWith('msg-1', '400: Quo error');
+        expect(messageQueueRepo.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it('counts a refused recipient against the number', async () => {
+        vi.mocked(quoMessagesService.sendMessage).mockRejectedValue(quoError(403));
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.markFailed).toHaveBeenCalledWith('msg-1', '403: Quo error');
+        expect(deliveryService.recordRejection).toHaveBeenCalledWith(
+            '+15555550123',
+            '403: Quo error'
+        );
+    });
+
+    it('fails a rejected API key without retrying or blaming the number', async () => {
+        vi.mocked(quoMessagesService.sendMessage).mockRejectedValue(quoError(401));
+
+        await new MessageQueueService().processQueuedMessage('msg-1');
+
+        expect(messageQueueRepo.markFailed).toHaveBeenCalledWith('msg-1', '401: Quo error');
+        expect(messageQueueRepo.scheduleRetry).not.toHaveBeenCalled();
+        expect(deliveryService.recordRejection).not.toHaveBeenCalled();
+    });
+});
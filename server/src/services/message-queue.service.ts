@@ -1,15 +1,102 @@
 /**
  * Message Queue Service
  *
- * Manages a queue of messages to be sent at a controlled rate (1 per 20 seconds)
- * to avoid rate limiting and ensure reliable delivery.
+ * Manages a queue of messages to be sent at a controlled rate to avoid rate
+ * limiting and ensure reliable delivery. See sender-lines.service.ts for how
+ * a message's sender line (OpenPhone number) is chosen.
  *
- * Messages are persisted to the database so history survives server restarts.
+ * Messages are persisted to the database, which stays the source of truth.
+ * While Redis is up, due messages are handed to BullMQ as send-message jobs
+ * (one queue per sender line, rate-limited by BullMQ) and sent by the worker
+ * process (src/worker.ts). Without Redis the API process sends them itself,
+ * one at a time, with an in-memory token bucket per line.
+ *
+ * A message is never sent before its `scheduledFor` time or during quiet hours
+ * in the recipient's time zone; such messages are deferred, not dropped.
+ * Replies to drivers (auto-replies) are queued with a higher priority and
+ * sent before campaign messages of their line.
+ *
+ * Send errors are classified (see classifyQuoError in quo-api.ts):
+ * - permanent (invalid number, opted out...) -> 'failed', not retried
+ * - transient (429, 5xx, timeouts) -> retried with exponential backoff via
+ *   `nextAttemptAt`; after QUEUE_MAX_ATTEMPTS the message moves to 'dead'
+ *   until an admin retries or discards it
  */
 
+import type { QueuedMessage } from '@prisma/client';
 import logger from '../libs/logger.js';
+import { isRedisAvailable } from '../libs/redis.js';
+import { getMessageQueue } from '../libs/queue.js';
 import { quoMessagesService } from '../modules/quo-messages/quo-messages.service.js';
-import { messageQueueRepo } from '../modules/quo-messages/message-queue.repo.js';
+import {
+    messageQueueRepo,
+    type DeadMessageSelection,
+    type QueueStats,
+} from '../modules/quo-messages/message-queue.repo.js';
+import { consentService } from '../modules/consent/consent.service.js';
+import { campaignRepo } from '../modules/campaigns/campaigns.repo.js';
+import { autoReplyRepo } from '../modules/auto-replies/auto-replies.repo.js';
+import { quietHoursService } from '../modules/quiet-hours/quiet-hours.service.js';
+import { senderLinesService } from '../modules/quo-messages/sender-lines.service.js';
+import { deliveryService } from '../modules/deliveries/deliveries.service.js';
+import { env } from '../config/env.js';
+import { classifyQuoError } from '../libs/quo-api.js';
+import { getBackoffDelay } from '../libs/backoff.js';
+import { isRecipientRejection } from '../libs/delivery-status.js';
+import type { QuoMessage } from '../types/quo-api.types.js';
+import { NotFoundError } from '../utils/errors.js';
+
+/**
+ * Error recorded on queued messages whose recipient has opted out
+ */
+const OPTED_OUT_ERROR = 'Recipient has opted out of SMS';
+
+/**
+ * Upper bound on quiet-hours deferrals per run (one per time zone is enough)
+ */
+const MAX_DEFERRALS_PER_RUN = 20;
+
+/**
+ * Upper bound on messages handled per processDue() run
+ */
+const MAX_MESSAGES_PER_RUN = 20;
+
+/**
+ * Upper bound on send jobs added per enqueueDue() run
+ */
+const MAX_ENQUEUED_PER_RUN = 200;
+
+/**
+ * Messages whose send job has not finished after this long are enqueued again
+ */
+const ENQUEUE_STALE_MS = 30 * 60 * 1000;
+
+/**
+ * Messages still 'sending' this long after they were claimed lost their sender
+ * (e.g. the worker was killed mid-send)
+ */
+const CLAIM_STALE_MS = 10 * 60 * 1000;
+
+/**
+ * Error recorded on stale claims whose text had already gone out
+ */
+const STALE_CLAIM_ERROR =
+    'Sender stopped after the message went out; check delivery before retrying';
+
+/**
+ * Priority of replies to drivers (campaign messages have 0)
+ */
+const REPLY_PRIORITY = 1;
+
+/**
+ * BullMQ priority of a send job
+ *
+ * BullMQ runs jobs without a priority (0) before all prioritized jobs, so
+ * high-priority messages get none and the rest 1.
+ */
+function jobPriority(priority: number): number {
+    return priority > 0 ? 0 : 1;
+}
 
 /**
  * Message Queue Service Class
@@ -20,138 +107,588 @@ class MessageQueueService {
     private isProcessing: boolean = false;
 
     /**
-     * Add multiple phone numbers to the queue
+     * Add messages to the queue
+     *
+     * Opted-out numbers are left out. Each message is stamped with the
+     * recipient's inferred time zone for the quiet-hours check and with the
+     * line it will be sent from.
      *
-     * @param phoneNumbers - Array of phone numbers in E.164 format
-     * @param content - Message content to send to all numbers
+     * @param messages - Recipient (E.164), rendered content, owning campaign,
+     *                   optional sender line and optional earliest send time
+     * @param options.phoneNumberId - Line for recipients without a conversation
      * @returns Number of messages added to queue
      */
-    async addToQueue(phoneNumbers: string[], content: string): Promise<number> {
-        const messages = phoneNumbers.map((phoneNumber) => ({
-            phoneNumber,
-            content,
-        }));
+    async addToQueue(
+        messages: Array<{
+            phoneNumber: string;
+            content: string;
+            campaignId?: string;
+            phoneNumberId?: string | null;
+            scheduledFor?: Date | null;
+        }>,
+        options: { phoneNumberId?: string | null } = {}
+    ): Promise<number> {
+        const optedOut = await consentService.getOptedOutSet(messages.map((m) => m.phoneNumber));
 
-        const addedCount = await messageQueueRepo.createMany(messages);
+        if (optedOut.size > 0) {
+            logger.info(
+                { skipped: optedOut.size },
+                '[MESSAGE QUEUE] Skipping opted-out phone numbers'
+            );
+        }
 
-        const stats = await messageQueueRepo.getStats();
+        const sendable = messages.filter((message) => !optedOut.has(message.phoneNumber));
+        const recipients = sendable.map((message) => message.phoneNumber);
+        const timezones = await quietHoursService.resolveTimezones(recipients);
+        const senders = await senderLinesService.resolveSenders(recipients, options.phoneNumberId);
 
-        logger.info(
-            {
-                added: addedCount,
-                totalInQueue: stats.total,
-                pendingCount: stats.pending,
-            },
-            '[MESSAGE QUEUE] Messages added to queue'
+        const addedCount = await messageQueueRepo.createMany(
+            sendable.map((message) => ({
+                ...message,
+                phoneNumberId: senderLinesService.toLineKey(
+                    message.phoneNumberId ?? senders.get(message.phoneNumber)
+                ),
+                timezone: timezones.get(message.phoneNumber) ?? null,
+            }))
         );
 
+        logger.info({ added: addedCount }, '[MESSAGE QUEUE] Messages added to queue');
+
         return addedCount;
     }
 
     /**
-     * Process the next pending message in the queue
-     * Called by the cron job every 20 seconds
+     * Queue a reply to a driver ahead of campaign messages
+     *
+     * It is sent from the given line (the default line if null) within the
+     * line's send budget and outside quiet hours, like any queued message.
+     * The caller checks consent.
      */
-    async processNext(): Promise<void> {
+    async addReply(reply: {
+        phoneNumber: string;
+        content: string;
+        phoneNumberId: string | null;
+    }): Promise<QueuedMessage> {
+        const timezones = await quietHoursService.resolveTimezones([reply.phoneNumber]);
+        await senderLinesService.loadDefaultLine();
+
+        const queued = await messageQueueRepo.create({
+            ...reply,
+            phoneNumberId: senderLinesService.toLineKey(reply.phoneNumberId),
+            timezone: timezones.get(reply.phoneNumber) ?? null,
+            priority: REPLY_PRIORITY,
+        });
+
+        logger.info({ messageId: queued.id }, '[MESSAGE QUEUE] Reply added to queue');
+
+        return queued;
+    }
+
+    /**
+     * Hand due messages to the BullMQ workers, or send them inline from this
+     * process when Redis is unavailable
+     * Called by the cron job every 5 seconds
+     *
+     * @returns Number of messages recovered from stale claims and dispatched
+     */
+    async dispatchDue(): Promise<number> {
+        const recovered = await this.recoverStaleClaims();
+        const dispatched = isRedisAvailable() ? await this.enqueueDue() : await this.processDue();
+
+        return recovered + dispatched;
+    }
+
+    /**
+     * Recover messages whose sender went away after claiming them
+     *
+     * A message without a recorded Quo message goes back to 'pending'; one
+     * with a Quo message already went out, so it is moved to the dead-letter
+     * state for an admin to review instead of being sent again.
+     *
+     * @returns Number of recovered messages
+     */
+    async recoverStaleClaims(): Promise<number> {
+        const stale = await messageQueueRepo.findStaleClaims(new Date(Date.now() - CLAIM_STALE_MS));
+        if (stale.length === 0) return 0;
+
+        const unsent = stale.filter((m) => !m.quoMessageId);
+        const sent = stale.filter((m) => m.quoMessageId);
+
+        const released = await messageQueueRepo.releaseClaims(unsent.map((m) => m.id));
+        const flagged = await messageQueueRepo.flagClaims(
+            sent.map((m) => m.id),
+            STALE_CLAIM_ERROR
+        );
+
+        logger.warn({ released, flagged }, '[MESSAGE QUEUE] WARN: Recovered stale send claims');
+
+        for (const message of sent) {
+            if (message.campaignId) {
+                await this.completeCampaignIfFinished(message.campaignId);
+            } else {
+                await this.recordReplyOutcome(message.id);
+            }
+        }
+
+        return released + flagged;
+    }
+
+    /**
+     * Add a send job for every due message that has none yet
+     *
+     * Time zones in quiet hours are deferred here, before any job is added.
+     * Each job goes to its sender line's queue, whose BullMQ limiter sets
+     * the send rate.
+     *
+     * @returns Number of messages enqueued
+     */
+    async enqueueDue(): Promise<number> {
+        const now = new Date();
+        const due = await messageQueueRepo.findDueForDispatch(
+            now,
+            new Date(now.getTime() - ENQUEUE_STALE_MS),
+            MAX_ENQUEUED_PER_RUN
+        );
+
+        if (due.length === 0) return 0;
+
+        const quietTimezones = new Set<string>();
+        for (const timezone of new Set(due.map((m) => m.timezone ?? env.QUEUE_DEFAULT_TIMEZONE))) {
+            const nextAllowed = await quietHoursService.getNextAllowedTime(timezone, now);
+            if (!nextAllowed) continue;
+
+            quietTimezones.add(timezone);
+            await this.deferTimezone(timezone, nextAllowed, now);
+        }
+
+        const sendable = due.filter(
+            (m) => !quietTimezones.has(m.timezone ?? env.QUEUE_DEFAULT_TIMEZONE)
+        );
+        if (sendable.length === 0) return 0;
+
+        const ids = sendable.map((m) => m.id);
+        await messageQueueRepo.markEnqueued(ids, now);
+
+        try {
+            // One queue for the default line, however a message names it
+            await senderLinesService.loadDefaultLine();
+            const byLine = new Map<string | null, typeof sendable>();
+            for (const message of sendable) {
+                const line = senderLinesService.toLineKey(message.phoneNumberId);
+                const lineMessages = byLine.get(line) ?? [];
+                lineMessages.push(message);
+                byLine.set(line, lineMessages);
+            }
+
+            for (const [phoneNumberId, lineMessages] of byLine) {
+                await getMessageQueue(phoneNumberId).addBulk(
+                    lineMessages.map((message) => ({
+                        name: 'send-message',
+                        data: { queuedMessageId: message.id },
+                        opts: { jobId: message.id, priority: jobPriority(message.priority) },
+                    }))
+                );
+            }
+        } catch (error) {
+            await messageQueueRepo.clearEnqueued(ids);
+            throw error;
+        }
+
+        logger.debug({ enqueued: ids.length }, '[MESSAGE QUEUE] Messages handed to worker');
+        return ids.length;
+    }
+
+    /**
+     * Send one queued message (BullMQ send-message job)
+     *
+     * The row is re-read first: messages that were sent, cancelled, paused or
+     * rescheduled since the job was added are skipped.
+     */
+    async processQueuedMessage(id: string): Promise<void> {
+        const now = new Date();
+        const pendingMessage = await messageQueueRepo.findDueById(id, now);
+
+        if (!pendingMessage) {
+            await messageQueueRepo.clearEnqueued([id]);
+            return;
+        }
+
+        const timezone = pendingMessage.timezone ?? env.QUEUE_DEFAULT_TIMEZONE;
+        const nextAllowed = await quietHoursService.getNextAllowedTime(timezone, now);
+        if (nextAllowed) {
+            await this.deferTimezone(timezone, nextAllowed, now);
+            await messageQueueRepo.clearEnqueued([id]);
+            return;
+        }
+
+        await this.send(pendingMessage);
+    }
+
+    /**
+     * Send every message the sender lines have budget for right now
+     * (inline mode, used while Redis is unavailable)
+     *
+     * @returns Number of messages handled (sent, failed or rescheduled)
+     */
+    async processDue(): Promise<number> {
+        let handled = 0;
+
+        while (handled < MAX_MESSAGES_PER_RUN && (await this.processNext())) {
+            handled++;
+        }
+
+        return handled;
+    }
+
+    /**
+     * Process the next pending message whose sender line has a send token
+     *
+     * @returns true if a message was handled
+     */
+    async processNext(): Promise<boolean> {
         if (this.isProcessing) {
             logger.debug('[MESSAGE QUEUE] Already processing, skipping...');
-            return;
+            return false;
         }
 
-        const pendingMessage = await messageQueueRepo.findNextPending();
+        const pendingMessage = await this.findNextSendable();
 
         if (!pendingMessage) {
             logger.debug('[MESSAGE QUEUE] No pending messages to process');
-            return;
+            return false;
+        }
+
+        // Only lines with budget were searched, but guard against a concurrent take
+        if (!senderLinesService.tryAcquire(pendingMessage.phoneNumberId)) {
+            return false;
         }
 
         this.isProcessing = true;
 
         try {
+            await this.send(pendingMessage);
+        } finally {
+            this.isProcessing = false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Send a message and record the outcome (sent, failed, retry or dead)
+     *
+     * The message is claimed ('sending') first, so a worker and the inline
+     * fallback never both send it. Consent is checked before the claim, so a
+     * failed check leaves the message pending. Only the Quo call is
+     * classified for retries: a bookkeeping error after the text went out
+     * leaves the message 'sending' for recoverStaleClaims().
+     */
+    private async send(pendingMessage: QueuedMessage): Promise<void> {
+        // Consent may have changed since the message was queued
+        const optedOut = await consentService.isOptedOut(pendingMessage.phoneNumber);
+
+        // Another sender (worker or inline fallback) may already have it
+        if (!(await messageQueueRepo.claim(pendingMessage.id))) {
+            logger.debug(
+                { messageId: pendingMessage.id },
+                '[MESSAGE QUEUE] Message already claimed, skipping'
+            );
+            return;
+        }
+
+        try {
+            if (optedOut) {
+                await messageQueueRepo.markFailed(pendingMessage.id, OPTED_OUT_ERROR);
+
+                logger.warn(
+                    {
+                        messageId: pendingMessage.id,
+                        phoneNumber: pendingMessage.phoneNumber,
+                    },
+                    '[MESSAGE QUEUE] Recipient opted out, message not sent'
+                );
+                return;
+            }
+
             logger.info(
                 {
                     messageId: pendingMessage.id,
                     phoneNumber: pendingMessage.phoneNumber,
+                    phoneNumberId: pendingMessage.phoneNumberId,
                     attempt: pendingMessage.attempts + 1,
                 },
                 '[MESSAGE QUEUE] Processing message'
             );
 
-            // Send the message via Quo API
-            await quoMessagesService.sendMessage({
-                content: pendingMessage.content,
-                to: [pendingMessage.phoneNumber],
-            });
+            let sent: QuoMessage;
+            try {
+                // Send the message via Quo API (default line when phoneNumberId is null)
+                sent = await quoMessagesService.sendMessage({
+                    content: pendingMessage.content,
+                    to: [pendingMessage.phoneNumber],
+                    phoneNumberId: pendingMessage.phoneNumberId ?? undefined,
+                });
+            } catch (error: unknown) {
+                await this.recordSendError(pendingMessage, error);
+                return;
+            }
 
-            // Mark as sent in the database
-            await messageQueueRepo.markSent(pendingMessage.id);
+            await this.recordSent(pendingMessage, sent);
+        } finally {
+            if (pendingMessage.campaignId) {
+                await this.completeCampaignIfFinished(pendingMessage.campaignId);
+            } else {
+                await this.recordReplyOutcome(pendingMessage.id);
+            }
+        }
+    }
 
-            const stats = await messageQueueRepo.getStats();
+    /**
+     * Mark a message sent, linked to the Quo message so its delivery status
+     * can follow
+     *
+     * A failure here is only logged: the text already went out.
+     */
+    private async recordSent(pendingMessage: QueuedMessage, sent: QuoMessage): Promise<void> {
+        try {
+            await messageQueueRepo.markSent(pendingMessage.id, {
+                id: sent.id,
+                status: sent.status,
+            });
 
             logger.info(
                 {
                     messageId: pendingMessage.id,
                     phoneNumber: pendingMessage.phoneNumber,
-                    remainingInQueue: stats.pending,
                 },
                 '[MESSAGE QUEUE] SUCCESS: Message sent'
             );
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error(
+                {
+                    messageId: pendingMessage.id,
+                    phoneNumber: pendingMessage.phoneNumber,
+                    quoMessageId: sent.id,
+                    error: errorMessage,
+                },
+                '[MESSAGE QUEUE] ERROR: Message sent but could not be marked sent'
+            );
+        }
+    }
 
-            // Retry up to 3 times
-            if (pendingMessage.attempts + 1 >= 3) {
-                await messageQueueRepo.markFailed(pendingMessage.id, errorMessage);
+    /**
+     * Record a failed Quo call: failed if permanent, otherwise retried with
+     * backoff until it is dead
+     */
+    private async recordSendError(pendingMessage: QueuedMessage, error: unknown): Promise<void> {
+        const classified = classifyQuoError(error);
+        const attempts = pendingMessage.attempts + 1;
+        const errorMessage = classified.status
+            ? `${classified.status}: ${classified.message}`
+            : classified.message;
 
-                logger.error(
-                    {
-                        messageId: pendingMessage.id,
-                        phoneNumber: pendingMessage.phoneNumber,
-                        attempts: pendingMessage.attempts + 1,
-                        error: errorMessage,
-                    },
-                    '[MESSAGE QUEUE] ERROR: Message failed after max attempts'
-                );
-            } else {
-                await messageQueueRepo.incrementAttempts(pendingMessage.id);
+        if (classified.type === 'permanent') {
+            await messageQueueRepo.markFailed(pendingMessage.id, errorMessage);
+            if (isRecipientRejection(classified.status)) {
+                await deliveryService.recordRejection(pendingMessage.phoneNumber, errorMessage);
+            }
 
-                logger.warn(
-                    {
-                        messageId: pendingMessage.id,
-                        phoneNumber: pendingMessage.phoneNumber,
-                        attempts: pendingMessage.attempts + 1,
-                        error: errorMessage,
-                    },
-                    '[MESSAGE QUEUE] WARN: Message failed, will retry'
-                );
+            logger.error(
+                {
+                    messageId: pendingMessage.id,
+                    phoneNumber: pendingMessage.phoneNumber,
+                    attempts,
+                    error: errorMessage,
+                },
+                '[MESSAGE QUEUE] ERROR: Message rejected, not retrying'
+            );
+        } else if (attempts >= env.QUEUE_MAX_ATTEMPTS) {
+            await messageQueueRepo.markDead(pendingMessage.id, errorMessage);
+
+            logger.error(
+                {
+                    messageId: pendingMessage.id,
+                    phoneNumber: pendingMessage.phoneNumber,
+                    attempts,
+                    error: errorMessage,
+                },
+                '[MESSAGE QUEUE] ERROR: Message dead after max attempts'
+            );
+        } else {
+            const delay = getBackoffDelay(
+                attempts,
+                {
+                    baseDelayMs: env.QUEUE_RETRY_BASE_DELAY_MS,
+                    maxDelayMs: env.QUEUE_RETRY_MAX_DELAY_MS,
+                },
+                classified.retryAfterMs
+            );
+            const nextAttemptAt = new Date(Date.now() + delay);
+
+            await messageQueueRepo.scheduleRetry(pendingMessage.id, errorMessage, nextAttemptAt);
+
+            logger.warn(
+                {
+                    messageId: pendingMessage.id,
+                    phoneNumber: pendingMessage.phoneNumber,
+                    attempts,
+                    nextAttemptAt: nextAttemptAt.toISOString(),
+                    error: errorMessage,
+                },
+                '[MESSAGE QUEUE] WARN: Message failed, will retry'
+            );
+        }
+    }
+
+    /**
+     * Find the oldest due message whose recipient is outside quiet hours and
+     * whose sender line has send budget
+     *
+     * When the candidate falls in quiet hours, every due message in its time
+     * zone is deferred to the end of the window and the next one is tried.
+     */
+    private async findNextSendable() {
+        const now = new Date();
+        const excludedLines = senderLinesService.getExhaustedLines();
+
+        for (let i = 0; i < MAX_DEFERRALS_PER_RUN; i++) {
+            const candidate = await messageQueueRepo.findNextPending(
+                now,
+                excludedLines,
+                new Date(now.getTime() - ENQUEUE_STALE_MS)
+            );
+            if (!candidate) return null;
+
+            const timezone = candidate.timezone ?? env.QUEUE_DEFAULT_TIMEZONE;
+            const nextAllowed = await quietHoursService.getNextAllowedTime(timezone, now);
+            if (!nextAllowed) return candidate;
+
+            await this.deferTimezone(timezone, nextAllowed, now);
+        }
+
+        return null;
+    }
+
+    /**
+     * Push every due message of a time zone in quiet hours to the end of the window
+     */
+    private async deferTimezone(timezone: string, until: Date, now: Date): Promise<void> {
+        // Messages queued without a time zone use the default one
+        const timezones = timezone === env.QUEUE_DEFAULT_TIMEZONE ? [timezone, null] : [timezone];
+        const deferred = await messageQueueRepo.deferDue(timezones, until, now);
+
+        logger.info(
+            { timezone, deferred, until: until.toISOString() },
+            '[MESSAGE QUEUE] Quiet hours, deferring messages'
+        );
+    }
+
+    /**
+     * Mark the message's campaign completed once nothing is left to send
+     */
+    private async completeCampaignIfFinished(campaignId: string): Promise<void> {
+        try {
+            if (await campaignRepo.completeIfFinished(campaignId)) {
+                logger.info({ campaignId }, '[MESSAGE QUEUE] Campaign completed');
             }
-        } finally {
-            this.isProcessing = false;
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { campaignId, error: errorMessage },
+                '[MESSAGE QUEUE] WARN: Failed to update campaign status'
+            );
+        }
+    }
+
+    /**
+     * Copy the outcome of a message to its auto-reply log entry, if it is an
+     * auto-reply
+     */
+    private async recordReplyOutcome(messageId: string): Promise<void> {
+        try {
+            await autoReplyRepo.recordQueuedOutcome(messageId);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(
+                { messageId, error: errorMessage },
+                '[MESSAGE QUEUE] WARN: Failed to update auto-reply log'
+            );
         }
     }
 
     /**
      * Get queue statistics
      */
-    async getQueueStats(): Promise<{
-        total: number;
-        pending: number;
-        sent: number;
-        failed: number;
-        messages: Array<{
-            id: string;
-            phoneNumber: string;
-            status: string;
-            attempts: number;
-            createdAt: Date;
-            sentAt: Date | null;
-        }>;
-    }> {
-        return messageQueueRepo.getStats();
+    async getQueueStats(): Promise<QueueStats & { sendRatePerMinute: number }> {
+        const stats = await messageQueueRepo.getStats();
+
+        return { ...stats, sendRatePerMinute: env.QUEUE_SEND_RATE_PER_MINUTE };
+    }
+
+    /**
+     * List dead messages (retries exhausted)
+     */
+    async listDeadMessages(filters: { campaignId?: string; page: number; limit: number }) {
+        return messageQueueRepo.findDead({
+            campaignId: filters.campaignId,
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        });
+    }
+
+    /**
+     * Put dead messages back in the queue with a fresh attempt budget
+     *
+     * Completed campaigns of the requeued messages are moved back to running
+     * so the queue picks them up; paused or cancelled campaigns keep holding
+     * their messages.
+     *
+     * @param selection - Message IDs and/or campaign (all dead messages if empty)
+     * @returns Number of requeued messages
+     */
+    async retryDeadMessages(selection: DeadMessageSelection): Promise<number> {
+        const campaignIds = await messageQueueRepo.findDeadCampaignIds(selection);
+        const retried = await messageQueueRepo.requeueDead(selection);
+        await campaignRepo.reopenCompleted(campaignIds);
+
+        logger.info({ ...selection, retried }, '[MESSAGE QUEUE] Dead messages requeued');
+        return retried;
+    }
+
+    /**
+     * Give up on dead messages (marked cancelled)
+     *
+     * @param selection - Message IDs and/or campaign (all dead messages if empty)
+     * @returns Number of discarded messages
+     */
+    async discardDeadMessages(selection: DeadMessageSelection): Promise<number> {
+        const discarded = await messageQueueRepo.discardDead(selection);
+
+        logger.info({ ...selection, discarded }, '[MESSAGE QUEUE] Dead messages discarded');
+        return discarded;
+    }
+
+    /**
+     * Retry a single dead message
+     */
+    async retryDeadMessage(id: string): Promise<void> {
+        if ((await this.retryDeadMessages({ ids: [id] })) === 0) {
+            throw new NotFoundError('Dead message not found');
+        }
+    }
+
+    /**
+     * Discard a single dead message
+     */
+    async discardDeadMessage(id: string): Promise<void> {
+        if ((await this.discardDeadMessages({ ids: [id] })) === 0) {
+            throw new NotFoundError('Dead message not found');
+        }
     }
 
     /**
-     * Clear completed messages from queue (sent or failed)
+     * Clear completed messages from queue (sent, failed or cancelled)
      * Keeps only pending messages
      */
     async clearCompleted(): Promise<number> {
@@ -11,6 +11,7 @@ declare module 'fastify' {
     interface FastifyRequest {
         user?: JwtPayload;
         startTime: number;
+        rawBody?: string;
     }
     interface FastifyInstance {
         authenticate: (
@@ -46,6 +46,13 @@ export interface GetMessagesResponse {
     nextPageToken?: string;
 }
 
+/**
+ * Send Message Response
+ */
+export interface SendMessageResponse {
+    data: QuoMessage;
+}
+
 /**
  * Get Messages Query Parameters
  */
@@ -135,4 +142,5 @@ export interface GetConversationsParams {
     phoneNumberId?: string;
     maxResults?: number;
     pageToken?: string;
+    updatedAfter?: string;
 }
@@ -0,0 +1,94 @@
+/**
+ * Worker Entry Point
+ *
+ * Runs the BullMQ workers in their own process, separate from the API:
+ * - Outbound SMS (one rate-limited worker per sender line)
+ * - Sheet syncs and driver matching
+ *
+ * The API process schedules the work (see config/cron.ts and the sync
+ * schedulers) and falls back to running it inline while Redis is down, so
+ * this process is only needed when Redis is available.
+ */
+
+import 'dotenv/config';
+import { prisma } from './libs/db.js';
+import logger from './libs/logger.js';
+import { closeQueues } from './libs/queue.js';
+import { redis, waitForRedis } from './libs/redis.js';
+import { closeMessageWorkers, startMessageWorkers } from './workers/message.worker.js';
+import { createSyncWorker } from './workers/sync.worker.js';
+
+/**
+ * How long to wait for Redis before giving up on startup
+ */
+const REDIS_STARTUP_TIMEOUT_MS = 10_000;
+
+let isShuttingDown = false;
+
+async function startWorker() {
+    if (!(await waitForRedis(REDIS_STARTUP_TIMEOUT_MS))) {
+        logger.fatal('Redis unavailable - worker cannot start');
+        process.exit(1);
+    }
+
+    await prisma.$connect();
+    logger.info('Database connected successfully');
+
+    await startMessageWorkers();
+    const syncWorker = createSyncWorker();
+
+    logger.info('Worker started and listening for jobs');
+
+    /**
+     * Graceful Shutdown Handler
+     *
+     * Lets in-flight jobs finish before closing connections.
+     */
+    const gracefulShutdown = async (signal: string) => {
+        if (isShuttingDown) return;
+        isShuttingDown = true;
+
+        console.log(`\nReceived ${signal}. Closing workers...`);
+
+        try {
+            await Promise.all([closeMessageWorkers(), syncWorker.close()]);
+            await closeQueues();
+            console.log('Workers closed');
+        } catch (err) {
+            console.error('Error closing workers:', err);
+        }
+
+        try {
+            await prisma.$disconnect();
+        } catch (err) {
+            console.error('Error closing database connection:', err);
+        }
+
+        redis.disconnect();
+        process.exit(0);
+    };
+
+    process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+    process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+}
+
+process.on('unhandledRejection', (reason, promise) => {
+    // Closing connections during shutdown can reject pending commands
+    if (isShuttingDown) {
+        return;
+    }
+
+    logger.fatal({ promise, reason }, 'Unhandled Rejection at Promise');
+    process.exit(1);
+});
+
+startWorker().catch((error) => {
+    logger.fatal(
+        {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            stack: error instanceof Error ? error.stack : undefined,
+        },
+        'Failed to start worker'
+    );
+    process.exit(1);
+});
@@ -0,0 +1,119 @@
+/**
+ * Outbound SMS Background Worker
+ *
+ * Sends queued messages from the per-line 'sms-*' queues (see libs/queue.ts).
+ * Every sender line gets its own Worker whose BullMQ limiter enforces the
+ * line's send rate (QUEUE_SEND_RATE_PER_MINUTE / QUEUE_SEND_BURST, or its
+ * QUEUE_LINE_RATE_LIMITS override) across all worker processes.
+ *
+ * Lines are read from GET /phone-numbers at startup and re-checked every
+ * few minutes, so new lines are picked up without a restart.
+ */
+
+import { type Job, Worker } from 'bullmq';
+import logger from '../libs/logger.js';
+import { type SendMessageJobData, messageQueueName } from '../libs/queue.js';
+import { redis } from '../libs/redis.js';
+import { senderLinesService } from '../modules/quo-messages/sender-lines.service.js';
+import { messageQueueService } from '../services/message-queue.service.js';
+
+/**
+ * How often the list of sender lines is re-checked
+ */
+const LINE_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+const workers = new Map<string, Worker<SendMessageJobData>>();
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Create the worker of one sender line (null = default line)
+ */
+function createLineWorker(phoneNumberId: string | null): Worker<SendMessageJobData> {
+    const name = messageQueueName(phoneNumberId);
+    const { ratePerMinute, capacity } = senderLinesService.getRateLimit(phoneNumberId);
+
+    const worker = new Worker<SendMessageJobData>(
+        name,
+        async (job: Job<SendMessageJobData>) => {
+            await messageQueueService.processQueuedMessage(job.data.queuedMessageId);
+        },
+        {
+            connection: redis as any,
+            concurrency: 1,
+            // `capacity` sends per window = `ratePerMinute` per minute on average
+            limiter: {
+                max: capacity,
+                duration: Math.round((60_000 * capacity) / ratePerMinute),
+            },
+        }
+    );
+
+    worker.on('failed', (job, error) => {
+        logger.error(
+            {
+                jobId: job?.id,
+                queue: name,
+                error: error.message,
+            },
+            '[MESSAGE QUEUE] ERROR: Send job failed'
+        );
+    });
+
+    logger.info(
+        { queue: name, ratePerMinute, burst: capacity },
+        '[MESSAGE QUEUE] Line worker started'
+    );
+    return worker;
+}
+
+/**
+ * Start a worker for every sender line not yet covered
+ */
+async function refreshLineWorkers(): Promise<void> {
+    const phoneNumberIds: Array<string | null> = [null];
+
+    try {
+        const lines = await senderLinesService.listLines();
+        // The default line's own ID maps to null: it already has a worker
+        phoneNumberIds.push(...lines.map((line) => senderLinesService.toLineKey(line.id)));
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(
+            { error: errorMessage },
+            '[MESSAGE QUEUE] WARN: Could not list sender lines, keeping current workers'
+        );
+    }
+
+    for (const phoneNumberId of phoneNumberIds) {
+        const name = messageQueueName(phoneNumberId);
+        if (!workers.has(name)) {
+            workers.set(name, createLineWorker(phoneNumberId));
+        }
+    }
+}
+
+/**
+ * Start the SMS workers
+ */
+export async function startMessageWorkers(): Promise<void> {
+    await refreshLineWorkers();
+
+    refreshTimer = setInterval(() => {
+        refreshLineWorkers().catch(() => {
+            // Logged in refreshLineWorkers
+        });
+    }, LINE_REFRESH_INTERVAL_MS);
+}
+
+/**
+ * Stop the SMS workers (waits for in-flight sends)
+ */
+export async function closeMessageWorkers(): Promise<void> {
+    if (refreshTimer) {
+        clearInterval(refreshTimer);
+        refreshTimer = null;
+    }
+
+    await Promise.all([...workers.values()].map((worker) => worker.close()));
+    workers.clear();
+}
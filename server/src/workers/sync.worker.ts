@@ -0,0 +1,50 @@
+/**
+ * Sync Background Worker
+ *
+ * Runs jobs from the 'sync' queue (sheet syncs and driver matching, see
+ * libs/sync-jobs.ts) one at a time, so syncs never overlap. Each run is
+ * recorded in the job run history.
+ */
+
+import { type Job, Worker } from 'bullmq';
+import logger from '../libs/logger.js';
+import type { SyncJobData, SyncJobName } from '../libs/queue.js';
+import { redis } from '../libs/redis.js';
+import { runSyncJob, syncJobHandlers } from '../libs/sync-jobs.js';
+
+/**
+ * Create the sync worker
+ */
+export function createSyncWorker(): Worker {
+    const worker = new Worker(
+        'sync',
+        async (job: Job<SyncJobData>) => {
+            const name = job.name as SyncJobName;
+
+            if (!syncJobHandlers[name]) {
+                throw new Error(`Unknown sync job: ${job.name}`);
+            }
+
+            logger.info({ jobId: job.id, job: job.name }, '[SYNC JOBS] Processing job');
+            return runSyncJob(name, job.data.trigger ?? 'cron');
+        },
+        {
+            connection: redis as any,
+            concurrency: 1,
+        }
+    );
+
+    worker.on('failed', (job, error) => {
+        logger.error(
+            {
+                jobId: job?.id,
+                job: job?.name,
+                error: error.message,
+            },
+            '[SYNC JOBS] ERROR: Job failed'
+        );
+    });
+
+    logger.info('[SYNC JOBS] Sync worker started');
+    return worker;
+}